@@ -1,15 +1,43 @@
+import { useEffect } from "react";
 import { Tabs } from "expo-router";
 import { BlurView } from "expo-blur";
 import { Platform, StyleSheet, useColorScheme, View } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
+import { useQuery } from "@tanstack/react-query";
 import Colors from "@/constants/colors";
+import { useAuth } from "@/lib/auth-context";
+import { adminAccountApi } from "@/lib/api";
+import type { AdminPermission } from "@shared/permissions";
+
+// The tabs that need a permission; a tab shows when the admin's role grants any of them
+const TAB_PERMISSIONS: Record<string, AdminPermission[]> = {
+  students: ["students"],
+  sections: ["academics", "students"],
+  subjects: ["academics"],
+  grades: ["grades"],
+  schedule: ["schedule"],
+  announcements: ["announcements"],
+};
 
 export default function AdminLayout() {
+  const { role, can, setAdmin } = useAuth();
   const colorScheme = useColorScheme();
   const isDark = colorScheme === "dark";
   const isIOS = Platform.OS === "ios";
   const isWeb = Platform.OS === "web";
 
+  // Pick up a role changed since sign-in
+  const { data: account } = useQuery({
+    queryKey: ["admin-account"],
+    queryFn: adminAccountApi.get,
+    enabled: role === "admin",
+  });
+  useEffect(() => {
+    if (account) setAdmin(account);
+  }, [account, setAdmin]);
+
+  const tabHref = (name: string) => (TAB_PERMISSIONS[name].some(can) ? undefined : null);
+
   return (
     <Tabs
       screenOptions={{
@@ -49,6 +77,7 @@ export default function AdminLayout() {
       <Tabs.Screen
         name="students"
         options={{
+          href: tabHref("students"),
           title: "Students",
           tabBarIcon: ({ color, size }) => <Ionicons name="people" size={size} color={color} />,
         }}
@@ -56,13 +85,23 @@ export default function AdminLayout() {
       <Tabs.Screen
         name="sections"
         options={{
+          href: tabHref("sections"),
           title: "Sections",
           tabBarIcon: ({ color, size }) => <Ionicons name="layers" size={size} color={color} />,
         }}
       />
+      <Tabs.Screen
+        name="subjects"
+        options={{
+          href: tabHref("subjects"),
+          title: "Subjects",
+          tabBarIcon: ({ color, size }) => <Ionicons name="library" size={size} color={color} />,
+        }}
+      />
       <Tabs.Screen
         name="grades"
         options={{
+          href: tabHref("grades"),
           title: "Grades",
           tabBarIcon: ({ color, size }) => <Ionicons name="document-text" size={size} color={color} />,
         }}
@@ -70,13 +109,92 @@ export default function AdminLayout() {
       <Tabs.Screen
         name="schedule"
         options={{
+          href: tabHref("schedule"),
           title: "Schedule",
           tabBarIcon: ({ color, size }) => <Ionicons name="calendar" size={size} color={color} />,
         }}
       />
+      <Tabs.Screen
+        name="terms"
+        options={{
+          title: "Terms",
+          href: null,
+        }}
+      />
+      <Tabs.Screen
+        name="class-record"
+        options={{
+          title: "Class Record",
+          href: null,
+        }}
+      />
+      <Tabs.Screen
+        name="approvals"
+        options={{
+          title: "Grade Approvals",
+          href: null,
+        }}
+      />
+      <Tabs.Screen
+        name="standing"
+        options={{
+          title: "Academic Standing",
+          href: null,
+        }}
+      />
+      <Tabs.Screen
+        name="programs"
+        options={{
+          title: "Programs",
+          href: null,
+        }}
+      />
+      <Tabs.Screen
+        name="attendance"
+        options={{
+          title: "Attendance",
+          href: null,
+        }}
+      />
+      <Tabs.Screen
+        name="calendar"
+        options={{
+          title: "Calendar",
+          href: null,
+        }}
+      />
+      <Tabs.Screen
+        name="exams"
+        options={{
+          title: "Exams",
+          href: null,
+        }}
+      />
+      <Tabs.Screen
+        name="faculty"
+        options={{
+          title: "Faculty",
+          href: null,
+        }}
+      />
+      <Tabs.Screen
+        name="users"
+        options={{
+          title: "Admin Accounts",
+          href: null,
+        }}
+      />
+      <Tabs.Screen
+        name="grading"
+        options={{
+          title: "Grading Scale",
+          href: null,
+        }}
+      />
       <Tabs.Screen
         name="announcements"
         options={{
+          href: tabHref("announcements"),
           title: "Posts",
           tabBarIcon: ({ color, size }) => <Ionicons name="megaphone" size={size} color={color} />,
         }}
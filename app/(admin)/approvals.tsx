@@ -0,0 +1,259 @@
+import { useState } from "react";
+import {
+  StyleSheet, Text, View, Pressable, Platform,
+  Alert, ActivityIndicator, ScrollView,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import * as Haptics from "expo-haptics";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { adminGradesApi, termsApi, type GradeQueueClass, type GradeStatus } from "@/lib/api";
+import Colors from "@/constants/colors";
+
+type QueueView = "submitted" | "approved";
+
+function QueueCard({ group, index, view, busy, onMove }: {
+  group: GradeQueueClass; index: number; view: QueueView; busy: boolean;
+  onMove: (group: GradeQueueClass, status: GradeStatus) => void;
+}) {
+  return (
+    <Animated.View entering={FadeInDown.delay(index * 50).duration(350)}>
+      <View style={styles.card}>
+        <Text style={styles.classCode}>{group.subjectCode}</Text>
+        <Text style={styles.className}>{group.subjectName}</Text>
+        <Text style={styles.classMeta}>
+          {[group.instructor || "No instructor", group.sectionName, group.semester].filter(Boolean).join(" · ")}
+        </Text>
+        <View style={styles.gradeList}>
+          {group.grades.map((g) => (
+            <View key={g.id} style={styles.gradeRow}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.studentName}>{g.studentName || "Unknown student"}</Text>
+                <Text style={styles.studentNumber}>{g.studentNumber}</Text>
+              </View>
+              <Text style={styles.gradeValue}>{g.grade}</Text>
+            </View>
+          ))}
+        </View>
+        <View style={styles.cardActions}>
+          <Pressable
+            style={[styles.returnButton, busy && { opacity: 0.6 }]} disabled={busy}
+            onPress={() => onMove(group, "draft")}
+          >
+            <Ionicons name="arrow-undo" size={15} color={Colors.error} />
+            <Text style={styles.returnText}>Return to Instructor</Text>
+          </Pressable>
+          {view === "submitted" && (
+            <Pressable
+              style={[styles.approveButton, busy && { opacity: 0.6 }]} disabled={busy}
+              onPress={() => onMove(group, "approved")}
+            >
+              <Ionicons name="checkmark" size={15} color={Colors.white} />
+              <Text style={styles.approveText}>Approve {group.grades.length}</Text>
+            </Pressable>
+          )}
+        </View>
+      </View>
+    </Animated.View>
+  );
+}
+
+export default function ApprovalsScreen() {
+  const insets = useSafeAreaInsets();
+  const qc = useQueryClient();
+  const [view, setView] = useState<QueueView>("submitted");
+  const [termId, setTermId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  const webTopInset = Platform.OS === "web" ? 67 : 0;
+  const webBottomInset = Platform.OS === "web" ? 34 : 0;
+
+  const { data: queue = [], isLoading } = useQuery({
+    queryKey: ["admin-grade-queue", view],
+    queryFn: () => adminGradesApi.queue(view),
+  });
+  const { data: terms = [] } = useQuery({
+    queryKey: ["terms"],
+    queryFn: termsApi.list,
+  });
+  const selectedTermId = termId ?? terms.find((t) => t.isActive)?.id ?? null;
+  const selectedTerm = terms.find((t) => t.id === selectedTermId);
+
+  // The approved view is scoped to one term, since release is per term
+  const groups = view === "approved" ? queue.filter((g) => g.termId === selectedTermId) : queue;
+  const readyCount = groups.reduce((n, g) => n + g.grades.length, 0);
+
+  const onChanged = () => {
+    setError("");
+    qc.invalidateQueries({ queryKey: ["admin-grade-queue"] });
+    qc.invalidateQueries({ queryKey: ["admin-grades"] });
+    qc.invalidateQueries({ queryKey: ["admin-grade-history"] });
+    qc.invalidateQueries({ queryKey: ["admin-stats"] });
+  };
+  const statusMut = useMutation({
+    mutationFn: ({ ids, status }: { ids: string[]; status: GradeStatus }) => adminGradesApi.setStatus(ids, status),
+    onSuccess: () => { Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success); onChanged(); },
+    onError: (e: any) => setError(e.message),
+  });
+  const releaseMut = useMutation({
+    mutationFn: adminGradesApi.releaseTerm,
+    onSuccess: ({ released }) => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onChanged();
+      if (Platform.OS !== "web") Alert.alert("Grades Released", `${released} grade(s) are now visible to students.`);
+    },
+    onError: (e: any) => setError(e.message),
+  });
+
+  const handleMove = (group: GradeQueueClass, status: GradeStatus) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    statusMut.mutate({ ids: group.grades.map((g) => g.id), status });
+  };
+
+  const handleRelease = () => {
+    if (!selectedTerm) return;
+    const doRelease = () => releaseMut.mutate(selectedTerm.id);
+    if (Platform.OS === "web") { doRelease(); return; }
+    Alert.alert(
+      "Release Term Grades",
+      `Release all ${readyCount} approved grade(s) for ${selectedTerm.name}? Students will see them immediately.`,
+      [{ text: "Cancel", style: "cancel" }, { text: "Release", onPress: doRelease }],
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 12 + webTopInset }]}>
+        <Text style={styles.headerTitle}>Grade Approvals</Text>
+        <Text style={styles.headerSubtitle}>Review submitted grades and release them to students</Text>
+        <View style={styles.segment}>
+          {(["submitted", "approved"] as const).map((v) => (
+            <Pressable key={v} style={[styles.segmentItem, view === v && styles.segmentItemActive]} onPress={() => setView(v)}>
+              <Text style={[styles.segmentText, view === v && styles.segmentTextActive]}>
+                {v === "submitted" ? "Awaiting Approval" : "Ready to Release"}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+        {view === "approved" && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={{ marginTop: 10 }}>
+            {terms.map((t) => (
+              <Pressable key={t.id} style={[styles.chip, selectedTermId === t.id && styles.chipActive]} onPress={() => setTermId(t.id)}>
+                <Text style={[styles.chipText, selectedTermId === t.id && styles.chipTextActive]}>{t.name}</Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+        )}
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}><ActivityIndicator size="large" color={Colors.primary} /></View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={[styles.content, { paddingBottom: 100 + webBottomInset }]}
+          showsVerticalScrollIndicator={false}
+        >
+          {!!error && (
+            <View style={styles.errorBox}>
+              <Ionicons name="alert-circle" size={15} color={Colors.error} />
+              <Text style={styles.errorText}>{error}</Text>
+            </View>
+          )}
+
+          {view === "approved" && readyCount > 0 && (
+            <Pressable
+              style={[styles.releaseButton, releaseMut.isPending && { opacity: 0.7 }]}
+              onPress={handleRelease}
+              disabled={releaseMut.isPending}
+            >
+              {releaseMut.isPending
+                ? <ActivityIndicator color={Colors.white} size="small" />
+                : <Text style={styles.releaseText}>Release {readyCount} Grade(s) for {selectedTerm?.name}</Text>}
+            </Pressable>
+          )}
+
+          {groups.length === 0 && (
+            <View style={styles.emptyState}>
+              <Ionicons name="checkmark-done-outline" size={48} color={Colors.textTertiary} />
+              <Text style={styles.emptyTitle}>{view === "submitted" ? "Nothing to Approve" : "Nothing to Release"}</Text>
+              <Text style={styles.emptySubtitle}>
+                {view === "submitted" ? "Grades appear here once instructors submit them" : "Approved grades for this term appear here"}
+              </Text>
+            </View>
+          )}
+
+          {groups.map((g, i) => (
+            <QueueCard
+              key={`${g.scheduleItemId ?? g.subjectCode}-${g.termId}`}
+              group={g} index={i} view={view} busy={statusMut.isPending} onMove={handleMove}
+            />
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.background },
+  header: {
+    backgroundColor: Colors.white, paddingHorizontal: 16,
+    paddingBottom: 12, borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  headerTitle: { fontFamily: "Inter_700Bold", fontSize: 26, color: Colors.text },
+  headerSubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, marginTop: 2 },
+  segment: {
+    flexDirection: "row", backgroundColor: Colors.surfaceSecondary,
+    borderRadius: 10, padding: 3, marginTop: 12,
+  },
+  segmentItem: { flex: 1, paddingVertical: 8, borderRadius: 8, alignItems: "center" },
+  segmentItemActive: { backgroundColor: Colors.white },
+  segmentText: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.textSecondary },
+  segmentTextActive: { fontFamily: "Inter_600SemiBold", color: Colors.primary },
+  chip: {
+    paddingHorizontal: 14, paddingVertical: 8, borderRadius: 20,
+    backgroundColor: Colors.surfaceSecondary, marginRight: 8, borderWidth: 1, borderColor: Colors.border,
+  },
+  chipActive: { backgroundColor: Colors.primary, borderColor: Colors.primary },
+  chipText: { fontFamily: "Inter_500Medium", fontSize: 12, color: Colors.text },
+  chipTextActive: { color: Colors.white },
+  loadingContainer: { flex: 1, justifyContent: "center", alignItems: "center" },
+  content: { padding: 12, gap: 10 },
+  card: {
+    backgroundColor: Colors.white, borderRadius: 14, padding: 14,
+    shadowColor: Colors.cardShadow, shadowOffset: { width: 0, height: 2 }, shadowOpacity: 1, shadowRadius: 8, elevation: 2,
+  },
+  classCode: { fontFamily: "Inter_700Bold", fontSize: 12, color: Colors.primary, letterSpacing: 0.5 },
+  className: { fontFamily: "Inter_600SemiBold", fontSize: 15, color: Colors.text, marginTop: 2 },
+  classMeta: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary, marginTop: 2 },
+  gradeList: { marginTop: 10, borderTopWidth: 1, borderTopColor: Colors.border },
+  gradeRow: {
+    flexDirection: "row", alignItems: "center", paddingVertical: 8,
+    borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  studentName: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text },
+  studentNumber: { fontFamily: "Inter_400Regular", fontSize: 11, color: Colors.textTertiary },
+  gradeValue: { fontFamily: "Inter_700Bold", fontSize: 15, color: Colors.text },
+  cardActions: { flexDirection: "row", justifyContent: "flex-end", gap: 8, marginTop: 12 },
+  returnButton: {
+    flexDirection: "row", alignItems: "center", gap: 6,
+    paddingHorizontal: 12, paddingVertical: 8, borderRadius: 10, backgroundColor: "#FEF2F2",
+  },
+  returnText: { fontFamily: "Inter_600SemiBold", fontSize: 12, color: Colors.error },
+  approveButton: {
+    flexDirection: "row", alignItems: "center", gap: 6,
+    paddingHorizontal: 12, paddingVertical: 8, borderRadius: 10, backgroundColor: Colors.success,
+  },
+  approveText: { fontFamily: "Inter_600SemiBold", fontSize: 12, color: Colors.white },
+  releaseButton: { backgroundColor: Colors.primary, borderRadius: 12, paddingVertical: 14, alignItems: "center" },
+  releaseText: { fontFamily: "Inter_700Bold", fontSize: 14, color: Colors.white },
+  errorBox: {
+    flexDirection: "row", alignItems: "center", gap: 8,
+    backgroundColor: "#FEF2F2", padding: 12, borderRadius: 10,
+  },
+  errorText: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.error, flex: 1 },
+  emptyState: { alignItems: "center", paddingTop: 60, gap: 8 },
+  emptyTitle: { fontFamily: "Inter_600SemiBold", fontSize: 16, color: Colors.text },
+  emptySubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, textAlign: "center" },
+});
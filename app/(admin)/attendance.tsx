@@ -0,0 +1,298 @@
+import { useState, useEffect, useMemo } from "react";
+import {
+  StyleSheet, Text, View, Pressable, Platform,
+  TextInput, Modal, ActivityIndicator, ScrollView,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import * as Haptics from "expo-haptics";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import {
+  adminAttendanceApi, adminScheduleApi, adminSectionsApi, termsApi, type ScheduleRecord, type TermRecord,
+} from "@/lib/api";
+import { DEFAULT_ATTENDANCE_POLICY, type AttendancePolicy } from "@shared/attendance";
+import { compareMeetings, formatTimeRange } from "@shared/schedule";
+import AttendancePanel from "@/components/AttendancePanel";
+import Colors from "@/constants/colors";
+
+type PolicyFormData = Record<keyof AttendancePolicy, string>;
+
+const toForm = (p: AttendancePolicy): PolicyFormData => ({
+  lateEquivalent: String(p.lateEquivalent),
+  warningPercent: String(p.warningPercent),
+  limitPercent: String(p.limitPercent),
+});
+
+const POLICY_FIELDS: { key: keyof AttendancePolicy; label: string; hint: string }[] = [
+  { key: "lateEquivalent", label: "Lates per Absence", hint: "This many lates count as one absence (0 to ignore lates)" },
+  { key: "warningPercent", label: "Warning (% of meetings)", hint: "Absences at this share of the term's meetings" },
+  { key: "limitPercent", label: "Limit (% of meetings)", hint: "Absences above this share exceed the limit" },
+];
+
+function PolicyModal({ visible, onClose }: { visible: boolean; onClose: () => void }) {
+  const qc = useQueryClient();
+  const [form, setForm] = useState<PolicyFormData>(toForm(DEFAULT_ATTENDANCE_POLICY));
+  const [error, setError] = useState("");
+
+  const { data: policy } = useQuery({
+    queryKey: ["admin-attendance-policy"],
+    queryFn: adminAttendanceApi.getPolicy,
+    enabled: visible,
+  });
+
+  useEffect(() => {
+    if (visible) {
+      setForm(toForm(policy ?? DEFAULT_ATTENDANCE_POLICY));
+      setError("");
+    }
+  }, [visible, policy]);
+
+  const saveMut = useMutation({
+    mutationFn: adminAttendanceApi.updatePolicy,
+    onSuccess: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      qc.invalidateQueries({ queryKey: ["admin-attendance-policy"] });
+      qc.invalidateQueries({ queryKey: ["attendance-summary"] });
+      onClose();
+    },
+    onError: (e: any) => setError(e.message),
+  });
+
+  const handleSave = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    saveMut.mutate({
+      lateEquivalent: parseInt(form.lateEquivalent),
+      warningPercent: parseFloat(form.warningPercent),
+      limitPercent: parseFloat(form.limitPercent),
+    });
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalSheet}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Absence Thresholds</Text>
+            <Pressable onPress={onClose}><Ionicons name="close" size={24} color={Colors.text} /></Pressable>
+          </View>
+          <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+            {!!error && (
+              <View style={styles.modalError}>
+                <Ionicons name="alert-circle" size={15} color={Colors.error} />
+                <Text style={styles.modalErrorText}>{error}</Text>
+              </View>
+            )}
+            {POLICY_FIELDS.map(({ key, label, hint }) => (
+              <View key={key} style={styles.formField}>
+                <Text style={styles.formLabel}>{label}</Text>
+                <TextInput
+                  style={styles.formInput} value={form[key]} keyboardType="decimal-pad"
+                  onChangeText={(v) => { setForm((f) => ({ ...f, [key]: v })); setError(""); }}
+                />
+                <Text style={styles.formHint}>{hint}</Text>
+              </View>
+            ))}
+            <Pressable style={[styles.saveButton, saveMut.isPending && { opacity: 0.7 }]} onPress={handleSave} disabled={saveMut.isPending}>
+              {saveMut.isPending ? <ActivityIndicator color={Colors.white} size="small" /> : <Text style={styles.saveButtonText}>Save Thresholds</Text>}
+            </Pressable>
+            <View style={{ height: 24 }} />
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+function ClassAttendanceModal({ item, sectionName, term, onClose }: {
+  item: ScheduleRecord | null; sectionName?: string; term: TermRecord | undefined; onClose: () => void;
+}) {
+  return (
+    <Modal visible={!!item} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalSheet}>
+          <View style={styles.modalHeader}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.modalTitle}>{item?.subjectCode}{sectionName ? ` · ${sectionName}` : ""}</Text>
+              <Text style={styles.modalSubtitle}>{item?.subjectName}</Text>
+            </View>
+            <Pressable onPress={onClose}><Ionicons name="close" size={24} color={Colors.text} /></Pressable>
+          </View>
+          <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+            {item && (
+              <AttendancePanel
+                classId={item.id}
+                days={item.days}
+                term={term}
+                source={{
+                  sheet: (date) => adminAttendanceApi.sheet(item.id, date),
+                  save: (data) => adminAttendanceApi.save(item.id, data),
+                  summary: () => adminAttendanceApi.summary(item.id),
+                  checkinToken: () => adminAttendanceApi.checkinToken(item.id),
+                  overrides: () => adminScheduleApi.overrides(item.id),
+                }}
+              />
+            )}
+            <View style={{ height: 24 }} />
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+export default function AttendanceScreen() {
+  const insets = useSafeAreaInsets();
+  const [termId, setTermId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<ScheduleRecord | null>(null);
+  const [policyModal, setPolicyModal] = useState(false);
+
+  const webTopInset = Platform.OS === "web" ? 67 : 0;
+  const webBottomInset = Platform.OS === "web" ? 34 : 0;
+
+  const { data: terms = [] } = useQuery({ queryKey: ["terms"], queryFn: termsApi.list });
+  const selectedTermId = termId ?? terms.find((t) => t.isActive)?.id ?? null;
+  const selectedTerm = terms.find((t) => t.id === selectedTermId);
+
+  const { data: schedule = [], isLoading } = useQuery({
+    queryKey: ["admin-schedule"],
+    queryFn: adminScheduleApi.list,
+  });
+  const { data: sections = [] } = useQuery({
+    queryKey: ["admin-sections"],
+    queryFn: adminSectionsApi.list,
+  });
+  const sectionNames = useMemo(() => new Map(sections.map((s) => [s.id, s.name])), [sections]);
+  const classes = useMemo(
+    () => schedule.filter((s) => s.termId === selectedTermId).sort(compareMeetings),
+    [schedule, selectedTermId],
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 12 + webTopInset }]}>
+        <View style={styles.headerRow}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.headerTitle}>Attendance</Text>
+            <Text style={styles.headerSubtitle}>Take attendance and review absences by class</Text>
+          </View>
+          <Pressable style={styles.headerButton} onPress={() => setPolicyModal(true)}>
+            <Ionicons name="options" size={20} color={Colors.primary} />
+          </Pressable>
+        </View>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {terms.map((t) => (
+            <Pressable key={t.id} style={[styles.chip, selectedTermId === t.id && styles.chipActive]} onPress={() => setTermId(t.id)}>
+              <Text style={[styles.chipText, selectedTermId === t.id && styles.chipTextActive]}>{t.name}</Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}><ActivityIndicator size="large" color={Colors.primary} /></View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={[styles.content, { paddingBottom: 100 + webBottomInset }]}
+          showsVerticalScrollIndicator={false}
+        >
+          {classes.length === 0 && (
+            <View style={styles.emptyState}>
+              <Ionicons name="checkbox-outline" size={48} color={Colors.textTertiary} />
+              <Text style={styles.emptyTitle}>No Classes</Text>
+              <Text style={styles.emptySubtitle}>Classes scheduled in the term appear here</Text>
+            </View>
+          )}
+          {classes.map((c, i) => {
+            const sectionName = c.sectionId ? sectionNames.get(c.sectionId) : undefined;
+            return (
+              <Animated.View key={c.id} entering={FadeInDown.delay(i * 40).duration(350)}>
+                <Pressable
+                  style={({ pressed }) => [styles.card, pressed && { opacity: 0.9 }]}
+                  onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); setSelected(c); }}
+                >
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.cardCode}>{c.subjectCode}{sectionName ? ` · ${sectionName}` : ""}</Text>
+                    <Text style={styles.cardTitle}>{c.subjectName}</Text>
+                    <Text style={styles.cardMeta}>
+                      {c.days.join(", ")} · {formatTimeRange(c.startMinutes, c.endMinutes)}{c.instructor ? ` · ${c.instructor}` : ""}
+                    </Text>
+                  </View>
+                  <Ionicons name="chevron-forward" size={18} color={Colors.textTertiary} />
+                </Pressable>
+              </Animated.View>
+            );
+          })}
+        </ScrollView>
+      )}
+
+      <ClassAttendanceModal
+        item={selected}
+        sectionName={selected?.sectionId ? sectionNames.get(selected.sectionId) : undefined}
+        term={selectedTerm}
+        onClose={() => setSelected(null)}
+      />
+      <PolicyModal visible={policyModal} onClose={() => setPolicyModal(false)} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.background },
+  header: {
+    backgroundColor: Colors.white, paddingHorizontal: 16,
+    paddingBottom: 12, borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  headerRow: { flexDirection: "row", alignItems: "flex-start", gap: 12, marginBottom: 12 },
+  headerTitle: { fontFamily: "Inter_700Bold", fontSize: 26, color: Colors.text },
+  headerSubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, marginTop: 2 },
+  headerButton: {
+    width: 44, height: 44, borderRadius: 22, backgroundColor: "#EBF0F9",
+    justifyContent: "center", alignItems: "center",
+  },
+  chip: {
+    paddingHorizontal: 14, paddingVertical: 8, borderRadius: 20,
+    backgroundColor: Colors.surfaceSecondary, marginRight: 8, borderWidth: 1, borderColor: Colors.border,
+  },
+  chipActive: { backgroundColor: Colors.primary, borderColor: Colors.primary },
+  chipText: { fontFamily: "Inter_500Medium", fontSize: 12, color: Colors.text },
+  chipTextActive: { color: Colors.white },
+  loadingContainer: { flex: 1, justifyContent: "center", alignItems: "center" },
+  content: { padding: 12, gap: 10 },
+  card: {
+    backgroundColor: Colors.white, borderRadius: 14, padding: 14,
+    flexDirection: "row", alignItems: "center", gap: 12,
+    shadowColor: Colors.cardShadow, shadowOffset: { width: 0, height: 2 }, shadowOpacity: 1, shadowRadius: 8, elevation: 2,
+  },
+  cardCode: { fontFamily: "Inter_700Bold", fontSize: 13, color: Colors.primary },
+  cardTitle: { fontFamily: "Inter_600SemiBold", fontSize: 14, color: Colors.text, marginTop: 2 },
+  cardMeta: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary, marginTop: 2 },
+  emptyState: { alignItems: "center", paddingTop: 60, gap: 8, paddingHorizontal: 24 },
+  emptyTitle: { fontFamily: "Inter_600SemiBold", fontSize: 16, color: Colors.text },
+  emptySubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, textAlign: "center" },
+  modalOverlay: { flex: 1, backgroundColor: Colors.overlay, justifyContent: "flex-end" },
+  modalSheet: { backgroundColor: Colors.white, borderTopLeftRadius: 24, borderTopRightRadius: 24, maxHeight: "90%" },
+  modalHeader: {
+    flexDirection: "row", justifyContent: "space-between", alignItems: "center",
+    paddingHorizontal: 20, paddingTop: 20, paddingBottom: 12,
+    borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  modalTitle: { fontFamily: "Inter_700Bold", fontSize: 18, color: Colors.text },
+  modalSubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, marginTop: 2 },
+  modalBody: { padding: 20 },
+  modalError: {
+    flexDirection: "row", alignItems: "center", gap: 8,
+    backgroundColor: "#FEF2F2", padding: 12, borderRadius: 10, marginBottom: 12,
+  },
+  modalErrorText: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.error, flex: 1 },
+  formField: { marginBottom: 14 },
+  formLabel: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text, marginBottom: 6 },
+  formHint: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textTertiary, marginTop: 6 },
+  formInput: {
+    fontFamily: "Inter_400Regular", fontSize: 14, color: Colors.text,
+    backgroundColor: Colors.surfaceSecondary, borderRadius: 10,
+    paddingHorizontal: 14, paddingVertical: 12, borderWidth: 1, borderColor: Colors.border,
+  },
+  saveButton: { backgroundColor: Colors.primary, borderRadius: 12, paddingVertical: 14, alignItems: "center", marginTop: 4 },
+  saveButtonText: { fontFamily: "Inter_700Bold", fontSize: 15, color: Colors.white },
+});
@@ -0,0 +1,337 @@
+import { useState, useEffect } from "react";
+import {
+  StyleSheet, Text, View, Pressable, Platform,
+  TextInput, Modal, Alert, ActivityIndicator, ScrollView,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import * as Haptics from "expo-haptics";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { adminCalendarApi, calendarApi, type CalendarEventRecord } from "@/lib/api";
+import {
+  CALENDAR_EVENT_LABELS, CALENDAR_EVENT_TYPES, cancelsClasses, coversDate, formatEventDates, monthRange,
+  type CalendarEventType,
+} from "@shared/calendar";
+import MonthCalendar from "@/components/MonthCalendar";
+import Colors from "@/constants/colors";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface EventFormData {
+  title: string; type: CalendarEventType; startDate: string; endDate: string; description: string;
+}
+
+const emptyForm = (date: string): EventFormData => ({
+  title: "", type: "holiday", startDate: date, endDate: date, description: "",
+});
+
+const toForm = (event: CalendarEventRecord): EventFormData => ({
+  title: event.title, type: event.type, startDate: event.startDate, endDate: event.endDate, description: event.description,
+});
+
+function EventModal({ visible, onClose, editEvent, defaultDate }: {
+  visible: boolean; onClose: () => void; editEvent?: CalendarEventRecord | null; defaultDate: string;
+}) {
+  const qc = useQueryClient();
+  const isEdit = !!editEvent;
+  const [form, setForm] = useState<EventFormData>(editEvent ? toForm(editEvent) : emptyForm(defaultDate));
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (visible) {
+      setForm(editEvent ? toForm(editEvent) : emptyForm(defaultDate));
+      setError("");
+    }
+  }, [visible, editEvent, defaultDate]);
+
+  // Cancelled days change the meetings attendance is counted against
+  const onSaved = () => {
+    qc.invalidateQueries({ queryKey: ["calendar"] });
+    qc.invalidateQueries({ queryKey: ["attendance-summary"] });
+    onClose();
+  };
+  const createMut = useMutation({ mutationFn: adminCalendarApi.create, onSuccess: onSaved, onError: (e: any) => setError(e.message) });
+  const updateMut = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<CalendarEventRecord> }) => adminCalendarApi.update(id, data),
+    onSuccess: onSaved,
+    onError: (e: any) => setError(e.message),
+  });
+
+  const field = (key: "title" | "startDate" | "endDate" | "description") => ({
+    value: form[key],
+    onChangeText: (v: string) => { setForm((f) => ({ ...f, [key]: v })); setError(""); },
+  });
+
+  const handleSave = () => {
+    if (!form.title.trim() || !form.startDate.trim()) {
+      setError("Title and Start Date are required."); return;
+    }
+    const startDate = form.startDate.trim();
+    const endDate = form.endDate.trim() || startDate;
+    if (!DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate)) {
+      setError("Enter dates as YYYY-MM-DD."); return;
+    }
+    if (endDate < startDate) {
+      setError("End Date must be on or after Start Date."); return;
+    }
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    const payload = { title: form.title.trim(), type: form.type, startDate, endDate, description: form.description.trim() };
+    if (isEdit && editEvent) { updateMut.mutate({ id: editEvent.id, data: payload }); }
+    else { createMut.mutate(payload); }
+  };
+
+  const isBusy = createMut.isPending || updateMut.isPending;
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalSheet}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{isEdit ? "Edit Event" : "Add Event"}</Text>
+            <Pressable onPress={onClose}><Ionicons name="close" size={24} color={Colors.text} /></Pressable>
+          </View>
+          <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+            {!!error && (
+              <View style={styles.modalError}>
+                <Ionicons name="alert-circle" size={15} color={Colors.error} />
+                <Text style={styles.modalErrorText}>{error}</Text>
+              </View>
+            )}
+            <CFormField label="Title *" {...field("title")} placeholder="e.g. National Heroes Day" />
+            <View style={styles.formField}>
+              <Text style={styles.formLabel}>Type</Text>
+              <View style={styles.chipGrid}>
+                {CALENDAR_EVENT_TYPES.map((type) => {
+                  const color = Colors.calendarEvent[type];
+                  return (
+                    <Pressable
+                      key={type}
+                      style={[styles.chip, form.type === type && { backgroundColor: color, borderColor: color }]}
+                      onPress={() => setForm((f) => ({ ...f, type }))}
+                    >
+                      <Text style={[styles.chipText, form.type === type && { color: Colors.white }]}>
+                        {CALENDAR_EVENT_LABELS[type]}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              {cancelsClasses(form) && (
+                <Text style={styles.formHint}>Every class meeting on these days is marked cancelled.</Text>
+              )}
+            </View>
+            <CFormField label="Start Date *" {...field("startDate")} placeholder="YYYY-MM-DD" />
+            <CFormField label="End Date" {...field("endDate")} placeholder="YYYY-MM-DD (same day if blank)" />
+            <CFormField label="Description" {...field("description")} placeholder="Optional details" multiline />
+            <Pressable style={[styles.saveButton, isBusy && { opacity: 0.7 }]} onPress={handleSave} disabled={isBusy}>
+              {isBusy ? <ActivityIndicator color={Colors.white} size="small" /> : (
+                <Text style={styles.saveButtonText}>{isEdit ? "Save Changes" : "Add Event"}</Text>
+              )}
+            </Pressable>
+            <View style={{ height: 24 }} />
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+function CFormField({ label, value, onChangeText, placeholder, multiline }: {
+  label: string; value: string; onChangeText: (v: string) => void; placeholder?: string; multiline?: boolean;
+}) {
+  return (
+    <View style={styles.formField}>
+      <Text style={styles.formLabel}>{label}</Text>
+      <TextInput
+        style={[styles.formInput, multiline && { height: 80, textAlignVertical: "top" }]}
+        value={value} onChangeText={onChangeText} multiline={multiline}
+        placeholder={placeholder} placeholderTextColor={Colors.textTertiary}
+      />
+    </View>
+  );
+}
+
+function EventCard({ event, index, onEdit, onDelete }: {
+  event: CalendarEventRecord; index: number;
+  onEdit: (e: CalendarEventRecord) => void; onDelete: (e: CalendarEventRecord) => void;
+}) {
+  const color = Colors.calendarEvent[event.type];
+  return (
+    <Animated.View entering={FadeInDown.delay(index * 50).duration(350)}>
+      <View style={styles.card}>
+        <View style={[styles.cardStripe, { backgroundColor: color }]} />
+        <View style={styles.cardContent}>
+          <Text style={[styles.cardType, { color }]}>
+            {CALENDAR_EVENT_LABELS[event.type]}{cancelsClasses(event) ? " · No classes" : ""}
+          </Text>
+          <Text style={styles.cardName}>{event.title}</Text>
+          <View style={styles.metaItem}>
+            <Ionicons name="calendar-outline" size={13} color={Colors.textTertiary} />
+            <Text style={styles.metaText}>{formatEventDates(event)}</Text>
+          </View>
+          {!!event.description && <Text style={styles.cardDescription} numberOfLines={2}>{event.description}</Text>}
+        </View>
+        <View style={styles.cardActions}>
+          <Pressable style={[styles.actionBtn, { backgroundColor: "#EBF0F9" }]} onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); onEdit(event); }}>
+            <Ionicons name="pencil" size={15} color={Colors.primary} />
+          </Pressable>
+          <Pressable style={[styles.actionBtn, { backgroundColor: "#FEF2F2" }]} onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium); onDelete(event); }}>
+            <Ionicons name="trash" size={15} color={Colors.error} />
+          </Pressable>
+        </View>
+      </View>
+    </Animated.View>
+  );
+}
+
+export default function CalendarAdminScreen() {
+  const insets = useSafeAreaInsets();
+  const qc = useQueryClient();
+  const [modal, setModal] = useState(false);
+  const [editEvent, setEditEvent] = useState<CalendarEventRecord | null>(null);
+  const [month, setMonth] = useState(() => ({ year: new Date().getFullYear(), month: new Date().getMonth() }));
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const { from, to } = monthRange(month.year, month.month);
+
+  const webTopInset = Platform.OS === "web" ? 67 : 0;
+  const webBottomInset = Platform.OS === "web" ? 34 : 0;
+
+  const { data: events = [], isLoading } = useQuery({
+    queryKey: ["calendar", from, to],
+    queryFn: () => calendarApi.list(from, to),
+  });
+  const shown = selectedDate ? events.filter((e) => coversDate(e, selectedDate)) : events;
+
+  const deleteMut = useMutation({
+    mutationFn: adminCalendarApi.delete,
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["calendar"] });
+      qc.invalidateQueries({ queryKey: ["attendance-summary"] });
+    },
+  });
+
+  const handleDelete = (event: CalendarEventRecord) => {
+    const doDelete = () => { Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning); deleteMut.mutate(event.id); };
+    if (Platform.OS === "web") { doDelete(); return; }
+    Alert.alert("Delete Event", `Delete "${event.title}" from the calendar?`, [
+      { text: "Cancel", style: "cancel" }, { text: "Delete", style: "destructive", onPress: doDelete },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 12 + webTopInset }]}>
+        <View style={styles.headerRow}>
+          <View>
+            <Text style={styles.headerTitle}>Calendar</Text>
+            <Text style={styles.headerSubtitle}>{events.length} event{events.length !== 1 ? "s" : ""} this month</Text>
+          </View>
+          <Pressable style={styles.addButton} onPress={() => { setEditEvent(null); setModal(true); }}>
+            <Ionicons name="add" size={22} color={Colors.white} />
+          </Pressable>
+        </View>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={[styles.listContent, { paddingBottom: 100 + webBottomInset }]}
+        showsVerticalScrollIndicator={false}
+      >
+        <MonthCalendar
+          year={month.year}
+          month={month.month}
+          events={events}
+          selectedDate={selectedDate}
+          onSelectDate={setSelectedDate}
+          onChangeMonth={(year, m) => { setMonth({ year, month: m }); setSelectedDate(null); }}
+        />
+        {isLoading ? (
+          <ActivityIndicator size="large" color={Colors.primary} style={{ marginTop: 24 }} />
+        ) : shown.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="today-outline" size={48} color={Colors.textTertiary} />
+            <Text style={styles.emptyTitle}>No Events</Text>
+            <Text style={styles.emptySubtitle}>
+              {selectedDate ? "Tap + to add an event on this day" : "Tap + to add a holiday, suspension or deadline"}
+            </Text>
+          </View>
+        ) : (
+          shown.map((e, i) => (
+            <EventCard
+              key={e.id} event={e} index={i}
+              onEdit={(ev) => { setEditEvent(ev); setModal(true); }}
+              onDelete={handleDelete}
+            />
+          ))
+        )}
+      </ScrollView>
+
+      <EventModal
+        visible={modal}
+        onClose={() => { setModal(false); setEditEvent(null); }}
+        editEvent={editEvent}
+        defaultDate={selectedDate ?? ""}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.background },
+  header: {
+    backgroundColor: Colors.white, paddingHorizontal: 16,
+    paddingBottom: 12, borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  headerRow: { flexDirection: "row", justifyContent: "space-between", alignItems: "flex-start" },
+  headerTitle: { fontFamily: "Inter_700Bold", fontSize: 26, color: Colors.text },
+  headerSubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, marginTop: 2 },
+  addButton: { width: 44, height: 44, borderRadius: 22, backgroundColor: Colors.primary, justifyContent: "center", alignItems: "center" },
+  listContent: { padding: 12, gap: 10 },
+  card: {
+    backgroundColor: Colors.white, borderRadius: 14, flexDirection: "row",
+    overflow: "hidden", shadowColor: Colors.cardShadow, shadowOffset: { width: 0, height: 2 }, shadowOpacity: 1, shadowRadius: 8, elevation: 2,
+  },
+  cardStripe: { width: 5 },
+  cardContent: { flex: 1, padding: 14 },
+  cardType: { fontFamily: "Inter_700Bold", fontSize: 11, letterSpacing: 0.5, textTransform: "uppercase", marginBottom: 2 },
+  cardName: { fontFamily: "Inter_600SemiBold", fontSize: 14, color: Colors.text, marginBottom: 6 },
+  cardDescription: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary, marginTop: 4 },
+  metaItem: { flexDirection: "row", alignItems: "center", gap: 5 },
+  metaText: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary },
+  cardActions: { justifyContent: "center", gap: 8, paddingRight: 12 },
+  actionBtn: { width: 32, height: 32, borderRadius: 8, justifyContent: "center", alignItems: "center" },
+  emptyState: { alignItems: "center", paddingTop: 40, gap: 8 },
+  emptyTitle: { fontFamily: "Inter_600SemiBold", fontSize: 16, color: Colors.text },
+  emptySubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary },
+  modalOverlay: { flex: 1, backgroundColor: Colors.overlay, justifyContent: "flex-end" },
+  modalSheet: { backgroundColor: Colors.white, borderTopLeftRadius: 24, borderTopRightRadius: 24, maxHeight: "90%" },
+  modalHeader: {
+    flexDirection: "row", justifyContent: "space-between", alignItems: "center",
+    paddingHorizontal: 20, paddingTop: 20, paddingBottom: 12,
+    borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  modalTitle: { fontFamily: "Inter_700Bold", fontSize: 18, color: Colors.text },
+  modalBody: { padding: 20 },
+  modalError: {
+    flexDirection: "row", alignItems: "center", gap: 8,
+    backgroundColor: "#FEF2F2", padding: 12, borderRadius: 10, marginBottom: 12,
+  },
+  modalErrorText: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.error, flex: 1 },
+  formField: { marginBottom: 14 },
+  formLabel: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text, marginBottom: 6 },
+  formHint: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textTertiary, marginTop: 6 },
+  formInput: {
+    fontFamily: "Inter_400Regular", fontSize: 14, color: Colors.text,
+    backgroundColor: Colors.surfaceSecondary, borderRadius: 10,
+    paddingHorizontal: 14, paddingVertical: 12, borderWidth: 1, borderColor: Colors.border,
+  },
+  chipGrid: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
+  chip: {
+    paddingHorizontal: 14, paddingVertical: 8, borderRadius: 20,
+    backgroundColor: Colors.surfaceSecondary, borderWidth: 1, borderColor: Colors.border,
+  },
+  chipText: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text },
+  saveButton: { backgroundColor: Colors.primary, borderRadius: 12, paddingVertical: 14, alignItems: "center", marginTop: 12 },
+  saveButtonText: { fontFamily: "Inter_700Bold", fontSize: 15, color: Colors.white },
+});
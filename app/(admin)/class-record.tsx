@@ -0,0 +1,351 @@
+import { useState, useEffect, useMemo } from "react";
+import {
+  StyleSheet, Text, View, Pressable, Platform,
+  TextInput, Alert, ActivityIndicator, ScrollView,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import * as Haptics from "expo-haptics";
+import {
+  adminClassRecordApi, adminScheduleApi, adminSectionsApi, gradingScaleApi, termsApi,
+  getClassRecordErrors, type ClassListEntry,
+} from "@/lib/api";
+import { formatTimeRange } from "@shared/schedule";
+import { DEFAULT_GRADING_SCALE, normalizeGrade } from "@shared/grades";
+import Colors from "@/constants/colors";
+
+function studentName(entry: ClassListEntry): string {
+  if (!entry.student) return "Unknown student";
+  const { lastName, firstName, middleName } = entry.student;
+  return `${lastName}, ${firstName}${middleName ? ` ${middleName.charAt(0)}.` : ""}`;
+}
+
+function Chips<T extends { id: string }>({ items, selectedId, label, onSelect }: {
+  items: T[]; selectedId: string | null; label: (item: T) => string; onSelect: (id: string) => void;
+}) {
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} style={{ marginTop: 6 }}>
+      {items.map((item) => (
+        <Pressable
+          key={item.id}
+          style={[styles.chip, selectedId === item.id && styles.chipActive]}
+          onPress={() => onSelect(item.id)}
+        >
+          <Text style={[styles.chipText, selectedId === item.id && styles.chipTextActive]}>{label(item)}</Text>
+        </Pressable>
+      ))}
+    </ScrollView>
+  );
+}
+
+export default function ClassRecordScreen() {
+  const insets = useSafeAreaInsets();
+  const qc = useQueryClient();
+  const [termId, setTermId] = useState<string | null>(null);
+  const [sectionId, setSectionId] = useState<string | null>(null);
+  const [subjectId, setSubjectId] = useState<string | null>(null);
+  // Typed grade per enrollment id; starts as the saved grade
+  const [cells, setCells] = useState<Record<string, string>>({});
+  const [serverErrors, setServerErrors] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState("");
+  // Cells the server turned down only for unmet prerequisites; saving again overrides them
+  const [unmetIds, setUnmetIds] = useState<string[]>([]);
+  const [overrideReason, setOverrideReason] = useState("");
+  const [error, setError] = useState("");
+
+  const webTopInset = Platform.OS === "web" ? 67 : 0;
+  const webBottomInset = Platform.OS === "web" ? 34 : 0;
+
+  const { data: terms = [] } = useQuery({ queryKey: ["terms"], queryFn: termsApi.list });
+  const { data: sections = [] } = useQuery({ queryKey: ["admin-sections"], queryFn: adminSectionsApi.list });
+  const { data: offerings = [] } = useQuery({ queryKey: ["admin-schedule"], queryFn: adminScheduleApi.list });
+  const { data: scale = DEFAULT_GRADING_SCALE } = useQuery({ queryKey: ["grading-scale"], queryFn: gradingScaleApi.get });
+
+  const selectedTermId = termId ?? terms.find((t) => t.isActive)?.id ?? null;
+
+  // Subjects the section has classes in this term
+  const subjects = useMemo(() => {
+    const byId = new Map<string, { id: string; code: string }>();
+    for (const o of offerings) {
+      if (o.sectionId === sectionId && o.termId === selectedTermId && o.subjectId) {
+        byId.set(o.subjectId, { id: o.subjectId, code: o.subjectCode });
+      }
+    }
+    return [...byId.values()].sort((a, b) => a.code.localeCompare(b.code));
+  }, [offerings, sectionId, selectedTermId]);
+  const selectedSubjectId = subjects.some((s) => s.id === subjectId) ? subjectId : null;
+
+  const filter = sectionId && selectedSubjectId
+    ? { sectionId, subjectId: selectedSubjectId, termId: selectedTermId ?? undefined }
+    : null;
+  const { data: record, isLoading } = useQuery({
+    queryKey: ["admin-class-record", filter],
+    queryFn: () => adminClassRecordApi.get(filter!),
+    enabled: !!filter,
+  });
+  const rows = record?.rows ?? [];
+
+  useEffect(() => {
+    setCells(Object.fromEntries((record?.rows ?? []).map((r) => [r.enrollment.id, r.grade?.grade ?? ""])));
+    setServerErrors({});
+    setUnmetIds([]);
+    setReason("");
+    setOverrideReason("");
+    setError("");
+  }, [record]);
+
+  // Cells that differ from the saved grade, and what's wrong with any of them
+  const changed = rows.filter((r) => (cells[r.enrollment.id] ?? "").trim() !== (r.grade?.grade ?? ""));
+  const cellError = (entry: ClassListEntry): string | null => {
+    const id = entry.enrollment.id;
+    if (serverErrors[id]) return serverErrors[id];
+    const value = (cells[id] ?? "").trim();
+    if (!changed.includes(entry)) return null;
+    if (!value) return entry.grade ? "A recorded grade can't be cleared here" : null;
+    return normalizeGrade(value, scale) ? null : "Not on the grading scale";
+  };
+  const toSave = changed.filter((r) => (cells[r.enrollment.id] ?? "").trim() !== "");
+  const invalidCount = rows.filter((r) => cellError(r)).length;
+  // Released grades are already visible to students; changing them goes on record with a reason
+  const revisedCount = toSave.filter((r) => r.grade?.status === "released").length;
+  const missingReason = revisedCount > 0 && !reason.trim();
+  const needsOverride = unmetIds.length > 0 && rows.every((r) => !cellError(r) || unmetIds.includes(r.enrollment.id));
+  const canSave = toSave.length > 0 && (invalidCount === 0 || needsOverride) && !missingReason;
+
+  const saveMut = useMutation({
+    mutationFn: adminClassRecordApi.save,
+    onSuccess: (saved) => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      qc.invalidateQueries({ queryKey: ["admin-class-record"] });
+      qc.invalidateQueries({ queryKey: ["admin-grades"] });
+      qc.invalidateQueries({ queryKey: ["admin-grade-history"] });
+      if (Platform.OS !== "web") Alert.alert("Saved", `${saved.length} grade(s) recorded.`);
+    },
+    onError: (e: any) => {
+      const cellErrors = getClassRecordErrors(e);
+      if (cellErrors) {
+        setServerErrors(Object.fromEntries(cellErrors.map((c) => [c.enrollmentId, c.message])));
+        setUnmetIds(cellErrors.filter((c) => c.unmet).map((c) => c.enrollmentId));
+      }
+      setError(e.message);
+    },
+  });
+
+  const handleChange = (enrollmentId: string, value: string) => {
+    setCells((c) => ({ ...c, [enrollmentId]: value }));
+    setServerErrors(({ [enrollmentId]: _cleared, ...rest }) => rest);
+    setUnmetIds((ids) => ids.filter((id) => id !== enrollmentId));
+    setError("");
+  };
+
+  const handleSave = () => {
+    if (!filter || !canSave) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    saveMut.mutate({
+      ...filter,
+      grades: toSave.map((r) => ({
+        enrollmentId: r.enrollment.id,
+        grade: normalizeGrade(cells[r.enrollment.id], scale) ?? cells[r.enrollment.id],
+      })),
+      reason: revisedCount > 0 ? reason.trim() : undefined,
+      override: needsOverride || undefined,
+      overrideReason: needsOverride ? overrideReason.trim() : undefined,
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 12 + webTopInset }]}>
+        <Text style={styles.headerTitle}>Class Record</Text>
+        <Text style={styles.headerSubtitle}>Encode grades for every student in a class</Text>
+        <Text style={styles.filterLabel}>Term</Text>
+        <Chips items={terms} selectedId={selectedTermId} label={(t) => t.name} onSelect={setTermId} />
+        <Text style={styles.filterLabel}>Section</Text>
+        <Chips items={sections} selectedId={sectionId} label={(s) => s.name} onSelect={setSectionId} />
+        {!!sectionId && (
+          <>
+            <Text style={styles.filterLabel}>Subject</Text>
+            {subjects.length === 0
+              ? <Text style={styles.formHint}>This section has no classes this term.</Text>
+              : <Chips items={subjects} selectedId={selectedSubjectId} label={(s) => s.code} onSelect={setSubjectId} />}
+          </>
+        )}
+      </View>
+
+      {!filter ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="grid-outline" size={48} color={Colors.textTertiary} />
+          <Text style={styles.emptyTitle}>Pick a Class</Text>
+          <Text style={styles.emptySubtitle}>Choose a section and subject to open its class record</Text>
+        </View>
+      ) : isLoading ? (
+        <View style={styles.loadingContainer}><ActivityIndicator size="large" color={Colors.primary} /></View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={[styles.content, { paddingBottom: 100 + webBottomInset }]}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {(record?.items.length ?? 0) > 0 && (
+            <Text style={styles.classMeta}>
+              {record!.items.map((i) => `${i.days.join(", ")} ${formatTimeRange(i.startMinutes, i.endMinutes)} · ${i.instructor || "TBA"}`).join("\n")}
+            </Text>
+          )}
+          {!!error && (
+            <View style={styles.errorBox}>
+              <Ionicons name="alert-circle" size={15} color={Colors.error} />
+              <Text style={styles.errorText}>{error}</Text>
+            </View>
+          )}
+
+          {rows.length === 0 ? (
+            <Text style={styles.formHint}>No students are enrolled in this class.</Text>
+          ) : (
+            <View style={styles.card}>
+              <View style={[styles.gridRow, styles.gridHeader]}>
+                <Text style={[styles.gridHeaderText, { flex: 1 }]}>Student</Text>
+                <Text style={[styles.gridHeaderText, styles.gradeColumn]}>Grade</Text>
+                <Text style={[styles.gridHeaderText, styles.statusColumn]}>Status</Text>
+              </View>
+              {rows.map((r) => {
+                const id = r.enrollment.id;
+                const message = cellError(r);
+                const isChanged = changed.includes(r);
+                return (
+                  <View key={id} style={styles.gridRowWrap}>
+                    <View style={styles.gridRow}>
+                      <View style={{ flex: 1 }}>
+                        <Text style={styles.studentName}>{studentName(r)}</Text>
+                        <Text style={styles.studentNumber}>{r.student?.studentId ?? "—"}</Text>
+                      </View>
+                      <TextInput
+                        style={[
+                          styles.gradeInput, styles.gradeColumn,
+                          isChanged && styles.gradeInputChanged, !!message && styles.gradeInputError,
+                        ]}
+                        value={cells[id] ?? ""}
+                        onChangeText={(v) => handleChange(id, v)}
+                        placeholder="—"
+                        placeholderTextColor={Colors.textTertiary}
+                        autoCapitalize="characters"
+                        autoCorrect={false}
+                      />
+                      <View style={styles.statusColumn}>
+                        {r.grade ? (
+                          <Text style={[styles.statusText, { color: Colors.gradeStatus[r.grade.status] }]}>{r.grade.status}</Text>
+                        ) : (
+                          <Text style={styles.statusText}>new</Text>
+                        )}
+                      </View>
+                    </View>
+                    {!!message && <Text style={styles.cellError}>{message}</Text>}
+                  </View>
+                );
+              })}
+            </View>
+          )}
+
+          <Text style={styles.footnote}>
+            Valid grades: {[...scale.values, ...scale.specialCodes.map((c) => c.code)].join(", ")}. {"New grades are saved as drafts; edits keep the grade's status."}
+          </Text>
+
+          {revisedCount > 0 && (
+            <View style={styles.card}>
+              <Text style={styles.reasonLabel}>Reason for changing {revisedCount} released grade(s) *</Text>
+              <TextInput
+                style={styles.reasonInput} value={reason} onChangeText={(v) => { setReason(v); setError(""); }}
+                placeholder="e.g. Encoding error corrected" placeholderTextColor={Colors.textTertiary}
+              />
+            </View>
+          )}
+
+          {needsOverride && (
+            <View style={styles.card}>
+              <Text style={styles.reasonLabel}>{unmetIds.length} student(s) haven&apos;t met this subject&apos;s requirements</Text>
+              <TextInput
+                style={styles.reasonInput} value={overrideReason} onChangeText={setOverrideReason}
+                placeholder="Reason for the override (optional)" placeholderTextColor={Colors.textTertiary}
+              />
+            </View>
+          )}
+
+          <Pressable
+            style={[styles.saveButton, needsOverride && styles.saveButtonWarning, (saveMut.isPending || !canSave) && { opacity: 0.6 }]}
+            onPress={handleSave}
+            disabled={saveMut.isPending || !canSave}
+          >
+            {saveMut.isPending ? (
+              <ActivityIndicator color={Colors.white} size="small" />
+            ) : (
+              <Text style={styles.saveButtonText}>
+                {needsOverride ? "Save Anyway" : invalidCount > 0 ? `Fix ${invalidCount} Grade(s)` : `Save ${toSave.length} Grade(s)`}
+              </Text>
+            )}
+          </Pressable>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.background },
+  header: {
+    backgroundColor: Colors.white, paddingHorizontal: 16,
+    paddingBottom: 12, borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  headerTitle: { fontFamily: "Inter_700Bold", fontSize: 26, color: Colors.text },
+  headerSubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, marginTop: 2 },
+  filterLabel: { fontFamily: "Inter_500Medium", fontSize: 12, color: Colors.textSecondary, marginTop: 10 },
+  chip: {
+    paddingHorizontal: 14, paddingVertical: 8, borderRadius: 20,
+    backgroundColor: Colors.surfaceSecondary, marginRight: 8, borderWidth: 1, borderColor: Colors.border,
+  },
+  chipActive: { backgroundColor: Colors.primary, borderColor: Colors.primary },
+  chipText: { fontFamily: "Inter_500Medium", fontSize: 12, color: Colors.text },
+  chipTextActive: { color: Colors.white },
+  loadingContainer: { flex: 1, justifyContent: "center", alignItems: "center" },
+  content: { padding: 12, gap: 10 },
+  classMeta: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary, paddingHorizontal: 4 },
+  card: {
+    backgroundColor: Colors.white, borderRadius: 14, paddingHorizontal: 14, paddingVertical: 6,
+    shadowColor: Colors.cardShadow, shadowOffset: { width: 0, height: 2 }, shadowOpacity: 1, shadowRadius: 8, elevation: 2,
+  },
+  gridHeader: { borderBottomWidth: 1, borderBottomColor: Colors.border, paddingVertical: 8 },
+  gridHeaderText: { fontFamily: "Inter_600SemiBold", fontSize: 11, color: Colors.textSecondary, textTransform: "uppercase" },
+  gridRowWrap: { borderBottomWidth: 1, borderBottomColor: Colors.border, paddingVertical: 6 },
+  gridRow: { flexDirection: "row", alignItems: "center", gap: 10 },
+  gradeColumn: { width: 72, textAlign: "center" },
+  statusColumn: { width: 64, alignItems: "flex-end" },
+  studentName: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text },
+  studentNumber: { fontFamily: "Inter_400Regular", fontSize: 11, color: Colors.textTertiary },
+  gradeInput: {
+    fontFamily: "Inter_600SemiBold", fontSize: 14, color: Colors.text,
+    backgroundColor: Colors.surfaceSecondary, borderRadius: 8,
+    paddingVertical: 8, borderWidth: 1, borderColor: Colors.border,
+  },
+  gradeInputChanged: { borderColor: Colors.primaryLight, backgroundColor: "#EBF0F9" },
+  gradeInputError: { borderColor: Colors.error, backgroundColor: "#FEF2F2" },
+  statusText: { fontFamily: "Inter_500Medium", fontSize: 11, color: Colors.textTertiary, textTransform: "capitalize" },
+  cellError: { fontFamily: "Inter_400Regular", fontSize: 11, color: Colors.error, marginTop: 4 },
+  formHint: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textTertiary, marginTop: 6 },
+  errorBox: {
+    flexDirection: "row", alignItems: "center", gap: 8,
+    backgroundColor: "#FEF2F2", padding: 12, borderRadius: 10,
+  },
+  errorText: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.error, flex: 1 },
+  emptyState: { alignItems: "center", paddingTop: 60, gap: 8, paddingHorizontal: 24 },
+  emptyTitle: { fontFamily: "Inter_600SemiBold", fontSize: 16, color: Colors.text },
+  emptySubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, textAlign: "center" },
+  reasonLabel: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text, marginTop: 8, marginBottom: 6 },
+  reasonInput: {
+    fontFamily: "Inter_400Regular", fontSize: 14, color: Colors.text,
+    backgroundColor: Colors.surfaceSecondary, borderRadius: 10, marginBottom: 8,
+    paddingHorizontal: 14, paddingVertical: 12, borderWidth: 1, borderColor: Colors.border,
+  },
+  footnote: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary, paddingHorizontal: 4 },
+  saveButton: { backgroundColor: Colors.primary, borderRadius: 12, paddingVertical: 14, alignItems: "center" },
+  saveButtonWarning: { backgroundColor: Colors.warning },
+  saveButtonText: { fontFamily: "Inter_700Bold", fontSize: 15, color: Colors.white },
+});
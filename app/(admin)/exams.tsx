@@ -0,0 +1,504 @@
+import { useState, useEffect } from "react";
+import {
+  StyleSheet, Text, View, FlatList, Pressable, Platform,
+  TextInput, Modal, Alert, ActivityIndicator, ScrollView,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import * as Haptics from "expo-haptics";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import {
+  adminExamsApi, adminScheduleApi, adminSectionsApi, adminFacultyApi, termsApi, getExamConflicts,
+  type ExamRecord, type ExamInput, type ExamConflict,
+} from "@/lib/api";
+import { EXAM_TYPES, EXAM_TYPE_LABELS, type ExamType } from "@shared/exams";
+import { formatTimeOfDay, formatTimeRange, parseTimeOfDay } from "@shared/schedule";
+import Colors from "@/constants/colors";
+
+const TYPE_COLORS: Record<ExamType, string> = {
+  prelim: "#0891B2",
+  midterm: "#7C3AED",
+  final: "#DC2626",
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface ExamFormData {
+  scheduleItemId: string; type: ExamType; date: string;
+  timeStart: string; timeEnd: string; room: string; proctorId: string; proctor: string;
+}
+
+const emptyForm: ExamFormData = {
+  scheduleItemId: "", type: "midterm", date: "",
+  timeStart: "", timeEnd: "", room: "", proctorId: "", proctor: "",
+};
+
+const toForm = (exam: ExamRecord): ExamFormData => ({
+  scheduleItemId: exam.scheduleItemId, type: exam.type, date: exam.date,
+  timeStart: formatTimeOfDay(exam.startMinutes), timeEnd: formatTimeOfDay(exam.endMinutes),
+  room: exam.room, proctorId: exam.proctorId ?? "", proctor: exam.proctor,
+});
+
+function formatExamDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    weekday: "short", month: "short", day: "numeric", year: "numeric",
+  });
+}
+
+const reasonLabel = (conflict: ExamConflict, reason: ExamConflict["reasons"][number]) =>
+  reason === "students" ? `${conflict.students} student${conflict.students !== 1 ? "s" : ""}` : `Same ${reason}`;
+
+function ExamModal({ visible, onClose, editExam, termId, sectionNames }: {
+  visible: boolean; onClose: () => void; editExam?: ExamRecord | null;
+  termId: string; sectionNames: Map<string, string>;
+}) {
+  const qc = useQueryClient();
+  const isEdit = !!editExam;
+  const [form, setForm] = useState<ExamFormData>(editExam ? toForm(editExam) : emptyForm);
+  const [error, setError] = useState("");
+  const [conflicts, setConflicts] = useState<ExamConflict[] | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setForm(editExam ? toForm(editExam) : emptyForm);
+      setError("");
+    }
+  }, [visible, editExam]);
+
+  // Any edit invalidates the conflicts reported for the previous attempt
+  useEffect(() => {
+    setConflicts(null);
+  }, [form]);
+
+  const onSaveError = (e: any) => {
+    const found = getExamConflicts(e);
+    if (found) { setConflicts(found); setError(""); }
+    else setError(e.message);
+  };
+
+  const { data: schedule = [] } = useQuery({
+    queryKey: ["admin-schedule"],
+    queryFn: adminScheduleApi.list,
+    enabled: visible,
+  });
+  const classes = schedule.filter((s) => s.termId === termId);
+
+  const { data: faculty = [] } = useQuery({
+    queryKey: ["admin-faculty"],
+    queryFn: adminFacultyApi.list,
+    enabled: visible,
+  });
+
+  const onSaved = () => { qc.invalidateQueries({ queryKey: ["admin-exams"] }); onClose(); };
+  const createMut = useMutation({ mutationFn: adminExamsApi.create, onSuccess: onSaved, onError: onSaveError });
+  const updateMut = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: ExamInput }) => adminExamsApi.update(id, data),
+    onSuccess: onSaved,
+    onError: onSaveError,
+  });
+
+  const field = (key: "date" | "timeStart" | "timeEnd" | "room" | "proctor") => ({
+    value: form[key],
+    onChangeText: (v: string) => { setForm((f) => ({ ...f, [key]: v })); setError(""); },
+  });
+
+  const handleSave = (override = false) => {
+    if (!form.scheduleItemId || !form.date.trim() || !form.timeStart.trim() || !form.timeEnd.trim()) {
+      setError("Class, Date, Start Time, and End Time are required."); return;
+    }
+    if (!DATE_PATTERN.test(form.date.trim())) {
+      setError("Enter the date as YYYY-MM-DD."); return;
+    }
+    const startMinutes = parseTimeOfDay(form.timeStart);
+    const endMinutes = parseTimeOfDay(form.timeEnd);
+    if (startMinutes === null || endMinutes === null) {
+      setError("Enter times like 7:30 AM or 13:00."); return;
+    }
+    if (endMinutes <= startMinutes) {
+      setError("End Time must be after Start Time."); return;
+    }
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    const payload: ExamInput = {
+      scheduleItemId: form.scheduleItemId, type: form.type, date: form.date.trim(),
+      startMinutes, endMinutes, room: form.room,
+      proctorId: form.proctorId || null, proctor: form.proctor,
+      override,
+    };
+
+    if (isEdit && editExam) { updateMut.mutate({ id: editExam.id, data: payload }); }
+    else { createMut.mutate(payload); }
+  };
+
+  const selectedClass = classes.find((c) => c.id === form.scheduleItemId);
+  const isBusy = createMut.isPending || updateMut.isPending;
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalSheet}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{isEdit ? "Edit Exam" : "Add Exam"}</Text>
+            <Pressable onPress={onClose}><Ionicons name="close" size={24} color={Colors.text} /></Pressable>
+          </View>
+          <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+            {!!error && (
+              <View style={styles.modalError}>
+                <Ionicons name="alert-circle" size={15} color={Colors.error} />
+                <Text style={styles.modalErrorText}>{error}</Text>
+              </View>
+            )}
+            <View style={styles.formField}>
+              <Text style={styles.formLabel}>Class *</Text>
+              {classes.length === 0 ? (
+                <Text style={styles.formHint}>Schedule classes in this term first.</Text>
+              ) : (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  {classes.map((c) => {
+                    const sectionName = c.sectionId ? sectionNames.get(c.sectionId) : undefined;
+                    return (
+                      <Pressable
+                        key={c.id}
+                        style={[styles.chip, form.scheduleItemId === c.id && styles.chipActive]}
+                        onPress={() => { setForm((f) => ({ ...f, scheduleItemId: c.id })); setError(""); }}
+                      >
+                        <Text style={[styles.chipText, form.scheduleItemId === c.id && { color: Colors.white }]}>
+                          {c.subjectCode}{sectionName ? ` · ${sectionName}` : ""}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </ScrollView>
+              )}
+              {!!selectedClass && (
+                <Text style={styles.formHint}>
+                  {selectedClass.subjectName} · {selectedClass.days.join(", ")} {formatTimeRange(selectedClass.startMinutes, selectedClass.endMinutes)}
+                </Text>
+              )}
+            </View>
+            <View style={styles.formField}>
+              <Text style={styles.formLabel}>Exam</Text>
+              <View style={styles.chipGrid}>
+                {EXAM_TYPES.map((type) => (
+                  <Pressable
+                    key={type}
+                    style={[styles.chip, form.type === type && { backgroundColor: TYPE_COLORS[type], borderColor: TYPE_COLORS[type] }]}
+                    onPress={() => setForm((f) => ({ ...f, type }))}
+                  >
+                    <Text style={[styles.chipText, form.type === type && { color: Colors.white }]}>{EXAM_TYPE_LABELS[type]}</Text>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+            <EFormField label="Date *" {...field("date")} placeholder="YYYY-MM-DD" />
+            <EFormField label="Start Time *" {...field("timeStart")} placeholder="e.g. 8:00 AM" />
+            <EFormField label="End Time *" {...field("timeEnd")} placeholder="e.g. 10:00 AM" />
+            <EFormField label="Room" {...field("room")} placeholder="e.g. CL-201" />
+            <View style={styles.formField}>
+              <Text style={styles.formLabel}>Proctor</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                <Pressable
+                  style={[styles.chip, !form.proctorId && styles.chipActive]}
+                  onPress={() => setForm((f) => ({ ...f, proctorId: "" }))}
+                >
+                  <Text style={[styles.chipText, !form.proctorId && { color: Colors.white }]}>Other</Text>
+                </Pressable>
+                {faculty.map((fac) => (
+                  <Pressable
+                    key={fac.id}
+                    style={[styles.chip, form.proctorId === fac.id && styles.chipActive]}
+                    onPress={() => setForm((f) => ({ ...f, proctorId: fac.id, proctor: `${fac.firstName} ${fac.lastName}` }))}
+                  >
+                    <Text style={[styles.chipText, form.proctorId === fac.id && { color: Colors.white }]}>
+                      {fac.firstName} {fac.lastName}
+                    </Text>
+                  </Pressable>
+                ))}
+              </ScrollView>
+            </View>
+            {!form.proctorId && <EFormField label="Proctor Name" {...field("proctor")} placeholder="e.g. Prof. Garcia" />}
+            {!!conflicts && (
+              <View style={styles.conflictBox}>
+                <View style={styles.conflictHeader}>
+                  <Ionicons name="warning" size={16} color={Colors.warning} />
+                  <Text style={styles.conflictTitle}>
+                    Conflicts with {conflicts.length} other exam{conflicts.length !== 1 ? "s" : ""}
+                  </Text>
+                </View>
+                {conflicts.map((c) => (
+                  <View key={c.exam.id} style={styles.conflictRow}>
+                    <Text style={styles.conflictCode}>{c.exam.subjectCode} {EXAM_TYPE_LABELS[c.exam.type]}</Text>
+                    <Text style={styles.conflictMeta}>
+                      {formatExamDate(c.exam.date)} · {formatTimeRange(c.exam.startMinutes, c.exam.endMinutes)} · {c.exam.room || "TBA"}
+                    </Text>
+                    <View style={styles.reasonRow}>
+                      {c.reasons.map((r) => (
+                        <View key={r} style={styles.reasonTag}>
+                          <Text style={styles.reasonTagText}>{reasonLabel(c, r)}</Text>
+                        </View>
+                      ))}
+                    </View>
+                  </View>
+                ))}
+              </View>
+            )}
+            <Pressable
+              style={[styles.saveButton, !!conflicts && styles.saveButtonWarning, isBusy && { opacity: 0.7 }]}
+              onPress={() => handleSave(!!conflicts)}
+              disabled={isBusy}
+            >
+              {isBusy ? <ActivityIndicator color={Colors.white} size="small" /> : (
+                <Text style={styles.saveButtonText}>{conflicts ? "Save Anyway" : isEdit ? "Save Changes" : "Add Exam"}</Text>
+              )}
+            </Pressable>
+            <View style={{ height: 24 }} />
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+function EFormField({ label, value, onChangeText, placeholder }: {
+  label: string; value: string; onChangeText: (v: string) => void; placeholder?: string;
+}) {
+  return (
+    <View style={styles.formField}>
+      <Text style={styles.formLabel}>{label}</Text>
+      <TextInput
+        style={styles.formInput} value={value} onChangeText={onChangeText}
+        placeholder={placeholder} placeholderTextColor={Colors.textTertiary}
+      />
+    </View>
+  );
+}
+
+function ExamCard({ exam, index, sectionName, onEdit, onDelete }: {
+  exam: ExamRecord; index: number; sectionName?: string;
+  onEdit: (e: ExamRecord) => void; onDelete: (e: ExamRecord) => void;
+}) {
+  const color = TYPE_COLORS[exam.type];
+  return (
+    <Animated.View entering={FadeInDown.delay(index * 50).duration(350)}>
+      <View style={styles.card}>
+        <View style={[styles.typeStripe, { backgroundColor: color }]}>
+          <Text style={styles.typeStripeText}>{EXAM_TYPE_LABELS[exam.type].toUpperCase()}</Text>
+        </View>
+        <View style={styles.cardContent}>
+          <Text style={[styles.cardCode, { color }]}>{exam.subjectCode}{sectionName ? ` · ${sectionName}` : ""}</Text>
+          <Text style={styles.cardName}>{exam.subjectName}</Text>
+          <View style={styles.cardMeta}>
+            <View style={styles.metaItem}>
+              <Ionicons name="calendar-outline" size={13} color={Colors.textTertiary} />
+              <Text style={styles.metaText}>{formatExamDate(exam.date)}</Text>
+            </View>
+            <View style={styles.metaItem}>
+              <Ionicons name="time-outline" size={13} color={Colors.textTertiary} />
+              <Text style={styles.metaText}>{formatTimeRange(exam.startMinutes, exam.endMinutes)}</Text>
+            </View>
+            <View style={styles.metaItem}>
+              <Ionicons name="location-outline" size={13} color={Colors.textTertiary} />
+              <Text style={styles.metaText}>{exam.room || "TBA"}</Text>
+            </View>
+            <View style={styles.metaItem}>
+              <Ionicons name="eye-outline" size={13} color={Colors.textTertiary} />
+              <Text style={styles.metaText}>{exam.proctor || "TBA"}</Text>
+            </View>
+          </View>
+        </View>
+        <View style={styles.cardActions}>
+          <Pressable style={[styles.actionBtn, { backgroundColor: "#EBF0F9" }]} onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); onEdit(exam); }}>
+            <Ionicons name="pencil" size={15} color={Colors.primary} />
+          </Pressable>
+          <Pressable style={[styles.actionBtn, { backgroundColor: "#FEF2F2" }]} onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium); onDelete(exam); }}>
+            <Ionicons name="trash" size={15} color={Colors.error} />
+          </Pressable>
+        </View>
+      </View>
+    </Animated.View>
+  );
+}
+
+export default function ExamsAdminScreen() {
+  const insets = useSafeAreaInsets();
+  const qc = useQueryClient();
+  const [modal, setModal] = useState(false);
+  const [editExam, setEditExam] = useState<ExamRecord | null>(null);
+  const [filterTermId, setFilterTermId] = useState<string | null>(null);
+
+  const webTopInset = Platform.OS === "web" ? 67 : 0;
+  const webBottomInset = Platform.OS === "web" ? 34 : 0;
+
+  const { data: terms = [] } = useQuery({
+    queryKey: ["terms"],
+    queryFn: termsApi.list,
+  });
+  const termId = filterTermId ?? terms.find((t) => t.isActive)?.id ?? "";
+
+  const { data: exams = [], isLoading } = useQuery({
+    queryKey: ["admin-exams", termId],
+    queryFn: () => adminExamsApi.list(termId || undefined),
+  });
+
+  const { data: sections = [] } = useQuery({
+    queryKey: ["admin-sections"],
+    queryFn: adminSectionsApi.list,
+  });
+  const sectionNames = new Map(sections.map((s) => [s.id, s.name]));
+
+  const deleteMut = useMutation({
+    mutationFn: adminExamsApi.delete,
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["admin-exams"] }),
+  });
+
+  const handleDelete = (exam: ExamRecord) => {
+    const doDelete = () => { Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning); deleteMut.mutate(exam.id); };
+    if (Platform.OS === "web") { doDelete(); return; }
+    Alert.alert("Delete Exam", `Delete the ${EXAM_TYPE_LABELS[exam.type]} exam for ${exam.subjectCode} on ${exam.date}?`, [
+      { text: "Cancel", style: "cancel" }, { text: "Delete", style: "destructive", onPress: doDelete },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 12 + webTopInset }]}>
+        <View style={styles.headerRow}>
+          <View>
+            <Text style={styles.headerTitle}>Exams</Text>
+            <Text style={styles.headerSubtitle}>{exams.length} exam{exams.length !== 1 ? "s" : ""} scheduled</Text>
+          </View>
+          <Pressable style={styles.addButton} onPress={() => { setEditExam(null); setModal(true); }}>
+            <Ionicons name="add" size={22} color={Colors.white} />
+          </Pressable>
+        </View>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {terms.map((term) => (
+            <Pressable
+              key={term.id}
+              style={[styles.filterChip, termId === term.id && styles.chipActive]}
+              onPress={() => setFilterTermId(term.id)}
+            >
+              <Text style={[styles.filterChipText, termId === term.id && { color: Colors.white }]}>{term.name}</Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}><ActivityIndicator size="large" color={Colors.primary} /></View>
+      ) : (
+        <FlatList
+          data={exams}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item, index }) => (
+            <ExamCard
+              exam={item} index={index}
+              sectionName={item.sectionId ? sectionNames.get(item.sectionId) : undefined}
+              onEdit={(e) => { setEditExam(e); setModal(true); }}
+              onDelete={handleDelete}
+            />
+          )}
+          contentContainerStyle={[styles.listContent, { paddingBottom: 100 + webBottomInset }]}
+          showsVerticalScrollIndicator={false}
+          scrollEnabled={!!exams.length}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Ionicons name="reader-outline" size={48} color={Colors.textTertiary} />
+              <Text style={styles.emptyTitle}>No Exams</Text>
+              <Text style={styles.emptySubtitle}>Tap + to schedule an exam</Text>
+            </View>
+          }
+        />
+      )}
+
+      <ExamModal
+        visible={modal}
+        onClose={() => { setModal(false); setEditExam(null); }}
+        editExam={editExam}
+        termId={termId}
+        sectionNames={sectionNames}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.background },
+  header: {
+    backgroundColor: Colors.white, paddingHorizontal: 16,
+    paddingBottom: 12, borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  headerRow: { flexDirection: "row", justifyContent: "space-between", alignItems: "flex-start", marginBottom: 10 },
+  headerTitle: { fontFamily: "Inter_700Bold", fontSize: 26, color: Colors.text },
+  headerSubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, marginTop: 2 },
+  addButton: { width: 44, height: 44, borderRadius: 22, backgroundColor: Colors.primary, justifyContent: "center", alignItems: "center" },
+  filterChip: {
+    paddingHorizontal: 16, paddingVertical: 8, borderRadius: 20,
+    backgroundColor: Colors.surfaceSecondary, marginRight: 8, borderWidth: 1, borderColor: Colors.border,
+  },
+  filterChipText: { fontFamily: "Inter_500Medium", fontSize: 12, color: Colors.text },
+  listContent: { padding: 12, gap: 10 },
+  loadingContainer: { flex: 1, justifyContent: "center", alignItems: "center" },
+  card: {
+    backgroundColor: Colors.white, borderRadius: 14, flexDirection: "row",
+    overflow: "hidden", shadowColor: Colors.cardShadow, shadowOffset: { width: 0, height: 2 }, shadowOpacity: 1, shadowRadius: 8, elevation: 2,
+  },
+  typeStripe: { width: 28, alignItems: "center", justifyContent: "center" },
+  typeStripeText: {
+    fontFamily: "Inter_700Bold", fontSize: 10, color: Colors.white, letterSpacing: 1,
+    width: 100, textAlign: "center", transform: [{ rotate: "-90deg" }],
+  },
+  cardContent: { flex: 1, padding: 14 },
+  cardCode: { fontFamily: "Inter_700Bold", fontSize: 12, letterSpacing: 0.5, marginBottom: 2 },
+  cardName: { fontFamily: "Inter_600SemiBold", fontSize: 14, color: Colors.text, marginBottom: 8 },
+  cardMeta: { gap: 4 },
+  metaItem: { flexDirection: "row", alignItems: "center", gap: 5 },
+  metaText: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary },
+  cardActions: { justifyContent: "center", gap: 8, paddingRight: 12 },
+  actionBtn: { width: 32, height: 32, borderRadius: 8, justifyContent: "center", alignItems: "center" },
+  emptyState: { alignItems: "center", paddingTop: 60, gap: 8 },
+  emptyTitle: { fontFamily: "Inter_600SemiBold", fontSize: 16, color: Colors.text },
+  emptySubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary },
+  modalOverlay: { flex: 1, backgroundColor: Colors.overlay, justifyContent: "flex-end" },
+  modalSheet: { backgroundColor: Colors.white, borderTopLeftRadius: 24, borderTopRightRadius: 24, maxHeight: "90%" },
+  modalHeader: {
+    flexDirection: "row", justifyContent: "space-between", alignItems: "center",
+    paddingHorizontal: 20, paddingTop: 20, paddingBottom: 12,
+    borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  modalTitle: { fontFamily: "Inter_700Bold", fontSize: 18, color: Colors.text },
+  modalBody: { padding: 20 },
+  modalError: {
+    flexDirection: "row", alignItems: "center", gap: 8,
+    backgroundColor: "#FEF2F2", padding: 12, borderRadius: 10, marginBottom: 12,
+  },
+  modalErrorText: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.error, flex: 1 },
+  formField: { marginBottom: 14 },
+  formLabel: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text, marginBottom: 6 },
+  formHint: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textTertiary, marginTop: 6 },
+  formInput: {
+    fontFamily: "Inter_400Regular", fontSize: 14, color: Colors.text,
+    backgroundColor: Colors.surfaceSecondary, borderRadius: 10,
+    paddingHorizontal: 14, paddingVertical: 12, borderWidth: 1, borderColor: Colors.border,
+  },
+  chipGrid: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
+  chip: {
+    paddingHorizontal: 14, paddingVertical: 8, borderRadius: 20, marginRight: 8,
+    backgroundColor: Colors.surfaceSecondary, borderWidth: 1, borderColor: Colors.border,
+  },
+  chipActive: { backgroundColor: Colors.primary, borderColor: Colors.primary },
+  chipText: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text },
+  saveButton: { backgroundColor: Colors.primary, borderRadius: 12, paddingVertical: 14, alignItems: "center", marginTop: 12 },
+  saveButtonWarning: { backgroundColor: Colors.warning },
+  saveButtonText: { fontFamily: "Inter_700Bold", fontSize: 15, color: Colors.white },
+  conflictBox: { backgroundColor: "#FEF3E2", borderRadius: 12, padding: 12, gap: 10 },
+  conflictHeader: { flexDirection: "row", alignItems: "center", gap: 8 },
+  conflictTitle: { fontFamily: "Inter_600SemiBold", fontSize: 13, color: Colors.text },
+  conflictRow: { backgroundColor: Colors.white, borderRadius: 10, padding: 10 },
+  conflictCode: { fontFamily: "Inter_700Bold", fontSize: 13, color: Colors.primary },
+  conflictMeta: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary, marginTop: 2 },
+  reasonRow: { flexDirection: "row", gap: 6, marginTop: 6 },
+  reasonTag: { backgroundColor: "#FEF2F2", paddingHorizontal: 8, paddingVertical: 2, borderRadius: 8 },
+  reasonTagText: { fontFamily: "Inter_500Medium", fontSize: 11, color: Colors.error },
+});
@@ -0,0 +1,299 @@
+import { useState, useEffect } from "react";
+import {
+  StyleSheet, Text, View, FlatList, Pressable, Platform,
+  TextInput, Modal, Alert, ActivityIndicator, ScrollView,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import * as Haptics from "expo-haptics";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { adminFacultyApi, type FacultyRecord } from "@/lib/api";
+import Colors from "@/constants/colors";
+
+interface FacultyFormData {
+  firstName: string;
+  lastName: string;
+  username: string;
+  password: string;
+}
+
+const emptyForm: FacultyFormData = { firstName: "", lastName: "", username: "", password: "" };
+
+const toForm = (f: FacultyRecord): FacultyFormData => ({
+  firstName: f.firstName, lastName: f.lastName, username: f.username, password: "",
+});
+
+// Class lists show the instructor's name, so renames touch the schedule too
+const invalidateFacultyQueries = (qc: ReturnType<typeof useQueryClient>) => {
+  qc.invalidateQueries({ queryKey: ["admin-faculty"] });
+  qc.invalidateQueries({ queryKey: ["admin-schedule"] });
+};
+
+function FacultyModal({ visible, onClose, editFaculty }: {
+  visible: boolean; onClose: () => void; editFaculty?: FacultyRecord | null;
+}) {
+  const qc = useQueryClient();
+  const isEdit = !!editFaculty;
+  const [form, setForm] = useState<FacultyFormData>(editFaculty ? toForm(editFaculty) : emptyForm);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (visible) {
+      setForm(editFaculty ? toForm(editFaculty) : emptyForm);
+      setError("");
+    }
+  }, [visible, editFaculty]);
+
+  const createMut = useMutation({
+    mutationFn: adminFacultyApi.create,
+    onSuccess: () => { invalidateFacultyQueries(qc); onClose(); },
+    onError: (e: any) => setError(e.message),
+  });
+  const updateMut = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<FacultyFormData> }) => adminFacultyApi.update(id, data),
+    onSuccess: () => { invalidateFacultyQueries(qc); onClose(); },
+    onError: (e: any) => setError(e.message),
+  });
+
+  const field = (key: keyof FacultyFormData) => ({
+    value: form[key],
+    onChangeText: (v: string) => { setForm((f) => ({ ...f, [key]: v })); setError(""); },
+  });
+
+  const handleSave = () => {
+    if (!form.firstName.trim() || !form.lastName.trim() || !form.username.trim()) {
+      setError("Name and username are required.");
+      return;
+    }
+    if (!isEdit && !form.password) {
+      setError("Set an initial password.");
+      return;
+    }
+    if (form.password && form.password.length < 8) {
+      setError("Password must be at least 8 characters.");
+      return;
+    }
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const payload = {
+      firstName: form.firstName.trim(),
+      lastName: form.lastName.trim(),
+      username: form.username.trim(),
+      ...(form.password ? { password: form.password } : {}),
+    };
+    if (isEdit && editFaculty) {
+      updateMut.mutate({ id: editFaculty.id, data: payload });
+    } else {
+      createMut.mutate({ ...payload, password: form.password });
+    }
+  };
+
+  const isBusy = createMut.isPending || updateMut.isPending;
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalSheet}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{isEdit ? "Edit Faculty" : "New Faculty"}</Text>
+            <Pressable onPress={onClose}><Ionicons name="close" size={24} color={Colors.text} /></Pressable>
+          </View>
+          <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+            {!!error && (
+              <View style={styles.modalError}>
+                <Ionicons name="alert-circle" size={15} color={Colors.error} />
+                <Text style={styles.modalErrorText}>{error}</Text>
+              </View>
+            )}
+            <View style={styles.formRow}>
+              <View style={{ flex: 1 }}>
+                <FormField label="First Name *" {...field("firstName")} placeholder="e.g. Maria" />
+              </View>
+              <View style={{ flex: 1 }}>
+                <FormField label="Last Name *" {...field("lastName")} placeholder="e.g. Garcia" />
+              </View>
+            </View>
+            <FormField label="Username *" {...field("username")} placeholder="e.g. mgarcia" />
+            <FormField
+              label={isEdit ? "Reset Password" : "Initial Password *"} {...field("password")}
+              placeholder={isEdit ? "Leave blank to keep the current one" : "At least 8 characters"} secure
+            />
+            <Pressable style={[styles.saveButton, isBusy && { opacity: 0.7 }]} onPress={handleSave} disabled={isBusy}>
+              {isBusy ? <ActivityIndicator color={Colors.white} size="small" /> : <Text style={styles.saveButtonText}>{isEdit ? "Save Changes" : "Add Faculty"}</Text>}
+            </Pressable>
+            <View style={{ height: 24 }} />
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+function FormField({ label, value, onChangeText, placeholder, secure }: {
+  label: string; value: string; onChangeText: (v: string) => void; placeholder?: string; secure?: boolean;
+}) {
+  return (
+    <View style={styles.formField}>
+      <Text style={styles.formLabel}>{label}</Text>
+      <TextInput
+        style={styles.formInput} value={value} onChangeText={onChangeText} secureTextEntry={secure}
+        placeholder={placeholder} placeholderTextColor={Colors.textTertiary} autoCapitalize="none"
+      />
+    </View>
+  );
+}
+
+function FacultyCard({ item, index, onEdit, onDelete }: {
+  item: FacultyRecord; index: number; onEdit: (f: FacultyRecord) => void; onDelete: (f: FacultyRecord) => void;
+}) {
+  return (
+    <Animated.View entering={FadeInDown.delay(index * 50).duration(350)}>
+      <View style={styles.card}>
+        <View style={styles.avatar}>
+          <Text style={styles.avatarText}>{item.firstName.charAt(0)}{item.lastName.charAt(0)}</Text>
+        </View>
+        <View style={styles.cardContent}>
+          <Text style={styles.cardTitle}>{item.lastName}, {item.firstName}</Text>
+          <Text style={styles.cardMeta}>@{item.username}</Text>
+        </View>
+        <View style={styles.cardActions}>
+          <Pressable style={[styles.actionBtn, { backgroundColor: "#EBF0F9" }]} onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); onEdit(item); }}>
+            <Ionicons name="pencil" size={15} color={Colors.primary} />
+          </Pressable>
+          <Pressable style={[styles.actionBtn, { backgroundColor: "#FEF2F2" }]} onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium); onDelete(item); }}>
+            <Ionicons name="trash" size={15} color={Colors.error} />
+          </Pressable>
+        </View>
+      </View>
+    </Animated.View>
+  );
+}
+
+export default function FacultyScreen() {
+  const insets = useSafeAreaInsets();
+  const qc = useQueryClient();
+  const [modal, setModal] = useState(false);
+  const [editFaculty, setEditFaculty] = useState<FacultyRecord | null>(null);
+
+  const webTopInset = Platform.OS === "web" ? 67 : 0;
+  const webBottomInset = Platform.OS === "web" ? 34 : 0;
+
+  const { data: faculty = [], isLoading } = useQuery({
+    queryKey: ["admin-faculty"],
+    queryFn: adminFacultyApi.list,
+  });
+
+  const deleteMut = useMutation({
+    mutationFn: adminFacultyApi.delete,
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["admin-faculty"] }),
+    onError: (e: any) => Alert.alert("Cannot Delete", e.message),
+  });
+
+  const handleDelete = (f: FacultyRecord) => {
+    const doDelete = () => { Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning); deleteMut.mutate(f.id); };
+    if (Platform.OS === "web") { doDelete(); return; }
+    Alert.alert("Delete Faculty", `Delete the account of ${f.firstName} ${f.lastName}?`, [
+      { text: "Cancel", style: "cancel" }, { text: "Delete", style: "destructive", onPress: doDelete },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 12 + webTopInset }]}>
+        <View style={styles.headerRow}>
+          <View>
+            <Text style={styles.headerTitle}>Faculty</Text>
+            <Text style={styles.headerSubtitle}>{faculty.length} instructor account{faculty.length === 1 ? "" : "s"}</Text>
+          </View>
+          <Pressable style={styles.addButton} onPress={() => { setEditFaculty(null); setModal(true); }}>
+            <Ionicons name="add" size={22} color={Colors.white} />
+          </Pressable>
+        </View>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}><ActivityIndicator size="large" color={Colors.primary} /></View>
+      ) : (
+        <FlatList
+          data={faculty}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item, index }) => (
+            <FacultyCard
+              item={item} index={index}
+              onEdit={(f) => { setEditFaculty(f); setModal(true); }}
+              onDelete={handleDelete}
+            />
+          )}
+          contentContainerStyle={[styles.listContent, { paddingBottom: 100 + webBottomInset }]}
+          showsVerticalScrollIndicator={false}
+          scrollEnabled={!!faculty.length}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Ionicons name="person-outline" size={48} color={Colors.textTertiary} />
+              <Text style={styles.emptyTitle}>No Faculty Accounts</Text>
+              <Text style={styles.emptySubtitle}>Tap + to let an instructor sign in and grade their classes</Text>
+            </View>
+          }
+        />
+      )}
+
+      <FacultyModal
+        visible={modal}
+        onClose={() => { setModal(false); setEditFaculty(null); }}
+        editFaculty={editFaculty}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.background },
+  header: {
+    backgroundColor: Colors.white, paddingHorizontal: 16,
+    paddingBottom: 12, borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  headerRow: { flexDirection: "row", justifyContent: "space-between", alignItems: "flex-start" },
+  headerTitle: { fontFamily: "Inter_700Bold", fontSize: 26, color: Colors.text },
+  headerSubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, marginTop: 2 },
+  addButton: { width: 44, height: 44, borderRadius: 22, backgroundColor: Colors.primary, justifyContent: "center", alignItems: "center" },
+  listContent: { padding: 12, gap: 10 },
+  loadingContainer: { flex: 1, justifyContent: "center", alignItems: "center" },
+  card: {
+    backgroundColor: Colors.white, borderRadius: 14, padding: 14, flexDirection: "row", alignItems: "center", gap: 12,
+    shadowColor: Colors.cardShadow, shadowOffset: { width: 0, height: 2 }, shadowOpacity: 1, shadowRadius: 8, elevation: 2,
+  },
+  avatar: { width: 40, height: 40, borderRadius: 20, backgroundColor: "#EBF0F9", justifyContent: "center", alignItems: "center" },
+  avatarText: { fontFamily: "Inter_700Bold", fontSize: 14, color: Colors.primary },
+  cardContent: { flex: 1 },
+  cardTitle: { fontFamily: "Inter_600SemiBold", fontSize: 15, color: Colors.text },
+  cardMeta: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary, marginTop: 2 },
+  cardActions: { flexDirection: "row", gap: 8 },
+  actionBtn: { width: 32, height: 32, borderRadius: 8, justifyContent: "center", alignItems: "center" },
+  emptyState: { alignItems: "center", paddingTop: 60, gap: 8, paddingHorizontal: 32 },
+  emptyTitle: { fontFamily: "Inter_600SemiBold", fontSize: 16, color: Colors.text },
+  emptySubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, textAlign: "center" },
+  modalOverlay: { flex: 1, backgroundColor: Colors.overlay, justifyContent: "flex-end" },
+  modalSheet: { backgroundColor: Colors.white, borderTopLeftRadius: 24, borderTopRightRadius: 24, maxHeight: "90%" },
+  modalHeader: {
+    flexDirection: "row", justifyContent: "space-between", alignItems: "center",
+    paddingHorizontal: 20, paddingTop: 20, paddingBottom: 12,
+    borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  modalTitle: { fontFamily: "Inter_700Bold", fontSize: 18, color: Colors.text },
+  modalBody: { padding: 20 },
+  modalError: {
+    flexDirection: "row", alignItems: "center", gap: 8,
+    backgroundColor: "#FEF2F2", padding: 12, borderRadius: 10, marginBottom: 12,
+  },
+  modalErrorText: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.error, flex: 1 },
+  formRow: { flexDirection: "row", gap: 12 },
+  formField: { marginBottom: 14 },
+  formLabel: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text, marginBottom: 6 },
+  formInput: {
+    fontFamily: "Inter_400Regular", fontSize: 14, color: Colors.text,
+    backgroundColor: Colors.surfaceSecondary, borderRadius: 10,
+    paddingHorizontal: 14, paddingVertical: 12, borderWidth: 1, borderColor: Colors.border,
+  },
+  saveButton: { backgroundColor: Colors.primary, borderRadius: 12, paddingVertical: 14, alignItems: "center", marginTop: 12 },
+  saveButtonText: { fontFamily: "Inter_700Bold", fontSize: 15, color: Colors.white },
+});
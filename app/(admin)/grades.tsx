@@ -3,88 +3,126 @@ import {
   StyleSheet, Text, View, FlatList, Pressable, Platform,
   TextInput, Modal, Alert, ActivityIndicator, ScrollView,
 } from "react-native";
+import { router } from "expo-router";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import * as Haptics from "expo-haptics";
 import Animated, { FadeInDown } from "react-native-reanimated";
-import { adminStudentsApi, adminGradesApi, type StudentRecord, type GradeRecord } from "@/lib/api";
+import {
+  adminStudentsApi, adminGradesApi, adminEnrollmentsApi, adminScheduleApi, termsApi, gradingScaleApi, getUnmetRequirements,
+  type StudentRecord, type GradeRecord, type GradeStatus, type GradeHistoryRecord, type UnmetRequirement,
+} from "@/lib/api";
+import { formatTimeRange } from "@shared/schedule";
+import { DEFAULT_GRADING_SCALE } from "@shared/grades";
 import Colors from "@/constants/colors";
 
-const SEMESTERS = ["1st Semester 2024-2025", "2nd Semester 2024-2025", "Summer 2025"];
-
 interface GradeFormData {
-  studentId: string;
-  subjectCode: string;
-  subjectName: string;
+  enrollmentId: string;
   instructor: string;
   grade: string;
-  units: string;
-  semester: string;
+  reason: string;
 }
 
-const emptyGradeForm = (studentId = ""): GradeFormData => ({
-  studentId, subjectCode: "", subjectName: "", instructor: "",
-  grade: "", units: "3", semester: SEMESTERS[0],
+const emptyGradeForm: GradeFormData = { enrollmentId: "", instructor: "", grade: "", reason: "" };
+
+const toGradeForm = (g: GradeRecord): GradeFormData => ({
+  enrollmentId: g.enrollmentId ?? "", instructor: g.instructor, grade: g.grade, reason: "",
 });
 
 function GradeModal({
-  visible, onClose, studentId, editGrade,
+  visible, onClose, studentId, editGrade, gradedEnrollmentIds,
 }: {
   visible: boolean; onClose: () => void; studentId: string; editGrade?: GradeRecord | null;
+  gradedEnrollmentIds: Set<string>;
 }) {
   const qc = useQueryClient();
   const isEdit = !!editGrade;
-  const [form, setForm] = useState<GradeFormData>(
-    editGrade
-      ? { ...editGrade, units: String(editGrade.units) }
-      : emptyGradeForm(studentId)
-  );
+  const [form, setForm] = useState<GradeFormData>(editGrade ? toGradeForm(editGrade) : emptyGradeForm);
   const [error, setError] = useState("");
+  const [unmet, setUnmet] = useState<UnmetRequirement[] | null>(null);
+  const [overrideReason, setOverrideReason] = useState("");
 
   // Sync state when modal opens or edit item changes
   useEffect(() => {
     if (visible) {
-      setForm(editGrade ? { ...editGrade, units: String(editGrade.units) } : emptyGradeForm(studentId));
+      setForm(editGrade ? toGradeForm(editGrade) : emptyGradeForm);
       setError("");
+      setUnmet(null);
+      setOverrideReason("");
     }
-  }, [visible, editGrade, studentId]);
+  }, [visible, editGrade]);
+
+  const { data: enrollments = [] } = useQuery({
+    queryKey: ["admin-enrollments", studentId],
+    queryFn: () => adminEnrollmentsApi.list({ studentId }),
+    enabled: visible && !!studentId,
+  });
+
+  const { data: scale = DEFAULT_GRADING_SCALE } = useQuery({
+    queryKey: ["grading-scale"],
+    queryFn: gradingScaleApi.get,
+    enabled: visible,
+  });
+  const gradeOptions = [...scale.values, ...scale.specialCodes.map((c) => c.code)];
+
+  // Only classes the student is currently enrolled in and not yet graded for
+  const gradeable = enrollments.filter((e) => e.status === "enrolled" && !gradedEnrollmentIds.has(e.id));
 
   const createMut = useMutation({
     mutationFn: adminGradesApi.create,
-    onSuccess: () => { qc.invalidateQueries({ queryKey: ["admin-grades"] }); onClose(); },
-    onError: (e: any) => setError(e.message),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["admin-grades"] });
+      qc.invalidateQueries({ queryKey: ["admin-enrollments", studentId] });
+      onClose();
+    },
+    onError: (e: any) => {
+      const found = getUnmetRequirements(e);
+      if (found) { setUnmet(found); setError(""); } else setError(e.message);
+    },
   });
   const updateMut = useMutation({
-    mutationFn: ({ id, data }: { id: string; data: Partial<GradeRecord> }) => adminGradesApi.update(id, data),
-    onSuccess: () => { qc.invalidateQueries({ queryKey: ["admin-grades"] }); onClose(); },
+    mutationFn: ({ id, data }: { id: string; data: Partial<GradeRecord> & { reason?: string } }) => adminGradesApi.update(id, data),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["admin-grades"] });
+      qc.invalidateQueries({ queryKey: ["admin-grade-history"] });
+      onClose();
+    },
     onError: (e: any) => setError(e.message),
   });
 
-  const field = (key: keyof GradeFormData) => ({
+  // Students can already see a released grade, so changing it goes on record with a reason
+  const needsReason = !!editGrade && editGrade.status === "released" && form.grade !== editGrade.grade;
+
+  const field = (key: keyof Omit<GradeFormData, "enrollmentId" | "grade">) => ({
     value: form[key],
     onChangeText: (v: string) => { setForm((f) => ({ ...f, [key]: v })); setError(""); },
   });
 
   const handleSave = () => {
-    if (!form.subjectCode.trim() || !form.grade.trim()) {
-      setError("Subject Code and Grade are required.");
+    if ((!isEdit && !form.enrollmentId) || !form.grade) {
+      setError("Enrolled subject and Grade are required.");
       return;
     }
-    const gradeNum = parseFloat(form.grade);
-    if (isNaN(gradeNum) || gradeNum < 1.0 || gradeNum > 5.0) {
-      setError("Grade must be a number between 1.0 and 5.0.");
+    if (needsReason && !form.reason.trim()) {
+      setError("Give a reason for changing a released grade.");
       return;
     }
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    const payload = { ...form, units: parseInt(form.units) || 3 };
     if (isEdit && editGrade) {
-      updateMut.mutate({ id: editGrade.id, data: payload });
+      updateMut.mutate({
+        id: editGrade.id,
+        data: { grade: form.grade, instructor: form.instructor, reason: needsReason ? form.reason.trim() : undefined },
+      });
     } else {
-      createMut.mutate(payload);
+      createMut.mutate({
+        enrollmentId: form.enrollmentId, instructor: form.instructor, grade: form.grade,
+        override: !!unmet || undefined, overrideReason: unmet ? overrideReason.trim() : undefined,
+      });
     }
   };
 
+  const selectedEnrollment = enrollments.find((e) => e.id === form.enrollmentId);
   const isBusy = createMut.isPending || updateMut.isPending;
   return (
     <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
@@ -101,27 +139,68 @@ function GradeModal({
                 <Text style={styles.modalErrorText}>{error}</Text>
               </View>
             )}
-            <GFormField label="Subject Code *" {...field("subjectCode")} placeholder="e.g. IT 301" />
-            <GFormField label="Subject Name" {...field("subjectName")} placeholder="e.g. Web Development" />
+            {isEdit && editGrade ? (
+              <View style={styles.formField}>
+                <Text style={styles.formLabel}>Subject</Text>
+                <Text style={styles.readOnlyValue}>{editGrade.subjectCode} · {editGrade.subjectName}</Text>
+                <Text style={styles.formHint}>{editGrade.semester} · {editGrade.units} units</Text>
+              </View>
+            ) : (
+              <View style={styles.formField}>
+                <Text style={styles.formLabel}>Enrolled Subject *</Text>
+                {gradeable.length === 0 ? (
+                  <Text style={styles.formHint}>No ungraded enrollments. Enroll the student in a class first.</Text>
+                ) : (
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                    {gradeable.map((e) => (
+                      <Pressable
+                        key={e.id}
+                        style={[styles.chip, form.enrollmentId === e.id && styles.chipActive]}
+                        onPress={() => {
+                          setForm((f) => ({ ...f, enrollmentId: e.id, instructor: f.instructor || e.scheduleItem?.instructor || "" }));
+                          setError("");
+                          setUnmet(null);
+                        }}
+                      >
+                        <Text style={[styles.chipText, form.enrollmentId === e.id && styles.chipTextActive]}>
+                          {e.scheduleItem?.subjectCode ?? "Unknown"}
+                        </Text>
+                      </Pressable>
+                    ))}
+                  </ScrollView>
+                )}
+                {!!selectedEnrollment && (
+                  <Text style={styles.formHint}>{selectedEnrollment.scheduleItem?.subjectName} · {selectedEnrollment.semester}</Text>
+                )}
+              </View>
+            )}
             <GFormField label="Instructor" {...field("instructor")} placeholder="e.g. Prof. Garcia" />
-            <GFormField label="Grade * (1.0–5.0)" {...field("grade")} placeholder="e.g. 1.25" keyboardType="decimal-pad" />
-            <GFormField label="Units" {...field("units")} keyboardType="number-pad" placeholder="3" />
             <View style={styles.formField}>
-              <Text style={styles.formLabel}>Semester</Text>
-              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-                {SEMESTERS.map((sem) => (
+              <Text style={styles.formLabel}>Grade *</Text>
+              <View style={styles.chipWrap}>
+                {gradeOptions.map((g) => (
                   <Pressable
-                    key={sem}
-                    style={[styles.chip, form.semester === sem && styles.chipActive]}
-                    onPress={() => setForm((f) => ({ ...f, semester: sem }))}
+                    key={g}
+                    style={[styles.chip, form.grade === g && styles.chipActive]}
+                    onPress={() => { setForm((f) => ({ ...f, grade: g })); setError(""); }}
                   >
-                    <Text style={[styles.chipText, form.semester === sem && styles.chipTextActive]}>{sem}</Text>
+                    <Text style={[styles.chipText, form.grade === g && styles.chipTextActive]}>{g}</Text>
                   </Pressable>
                 ))}
-              </ScrollView>
+              </View>
+              <Text style={styles.formHint}>
+                {scale.passingGrade.toFixed(2)} or better passes
+                {scale.specialCodes.length > 0 && ` · ${scale.specialCodes.map((c) => `${c.code} = ${c.remarks}`).join(", ")}`}
+              </Text>
             </View>
-            <Pressable style={[styles.saveButton, isBusy && { opacity: 0.7 }]} onPress={handleSave} disabled={isBusy}>
-              {isBusy ? <ActivityIndicator color={Colors.white} size="small" /> : <Text style={styles.saveButtonText}>{isEdit ? "Save Changes" : "Add Grade"}</Text>}
+            {needsReason && (
+              <GFormField label="Reason for Change *" {...field("reason")} placeholder="e.g. Completed INC requirements" />
+            )}
+            {!!unmet && <UnmetRequirementsBox unmet={unmet} reason={overrideReason} onChangeReason={setOverrideReason} />}
+            <Pressable style={[styles.saveButton, !!unmet && styles.saveButtonWarning, isBusy && { opacity: 0.7 }]} onPress={handleSave} disabled={isBusy}>
+              {isBusy ? <ActivityIndicator color={Colors.white} size="small" /> : (
+                <Text style={styles.saveButtonText}>{unmet ? "Grade Anyway" : isEdit ? "Save Changes" : "Add Grade"}</Text>
+              )}
             </Pressable>
             <View style={{ height: 24 }} />
           </ScrollView>
@@ -131,6 +210,263 @@ function GradeModal({
   );
 }
 
+// The prerequisites/corequisites the server reported missing, with an
+// optional reason that is recorded when the admin goes ahead anyway
+function UnmetRequirementsBox({ unmet, reason, onChangeReason }: {
+  unmet: UnmetRequirement[]; reason: string; onChangeReason: (v: string) => void;
+}) {
+  return (
+    <View style={styles.unmetBox}>
+      <View style={styles.unmetHeader}>
+        <Ionicons name="warning" size={16} color={Colors.warning} />
+        <Text style={styles.unmetTitle}>Requirements not met</Text>
+      </View>
+      {unmet.map((u) => (
+        <View key={`${u.type}-${u.subjectId}`} style={styles.unmetRow}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.enrollCode}>{u.code}</Text>
+            <Text style={styles.enrollMeta}>{u.title}</Text>
+          </View>
+          <View style={styles.unmetTag}>
+            <Text style={styles.unmetTagText}>{u.type}</Text>
+          </View>
+        </View>
+      ))}
+      <TextInput
+        style={styles.formInput} value={reason} onChangeText={onChangeReason}
+        placeholder="Reason for the override (optional)" placeholderTextColor={Colors.textTertiary}
+      />
+    </View>
+  );
+}
+
+function EnrollmentModal({ visible, onClose, student }: {
+  visible: boolean; onClose: () => void; student: StudentRecord;
+}) {
+  const qc = useQueryClient();
+  const [termId, setTermId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  // The offering the server refused for unmet requirements, pending an override
+  const [blocked, setBlocked] = useState<{ scheduleItemId: string; unmet: UnmetRequirement[] } | null>(null);
+  const [overrideReason, setOverrideReason] = useState("");
+
+  useEffect(() => {
+    if (visible) {
+      setError("");
+      setBlocked(null);
+    }
+  }, [visible]);
+
+  const { data: terms = [] } = useQuery({
+    queryKey: ["terms"],
+    queryFn: termsApi.list,
+    enabled: visible,
+  });
+  const selectedTermId = termId ?? terms.find((t) => t.isActive)?.id ?? null;
+
+  const { data: enrollments = [] } = useQuery({
+    queryKey: ["admin-enrollments", student.id],
+    queryFn: () => adminEnrollmentsApi.list({ studentId: student.id }),
+    enabled: visible,
+  });
+  const { data: offerings = [] } = useQuery({
+    queryKey: ["admin-schedule"],
+    queryFn: adminScheduleApi.list,
+    enabled: visible,
+  });
+
+  const activeItemIds = new Set(enrollments.filter((e) => e.status === "enrolled").map((e) => e.scheduleItemId));
+  const available = offerings.filter((o) => o.termId === selectedTermId && !activeItemIds.has(o.id));
+
+  const onChanged = () => {
+    setError("");
+    setBlocked(null);
+    setOverrideReason("");
+    qc.invalidateQueries({ queryKey: ["admin-enrollments", student.id] });
+  };
+  const enrollMut = useMutation({
+    mutationFn: ({ scheduleItemId, override }: { scheduleItemId: string; override?: boolean }) =>
+      adminEnrollmentsApi.enroll({
+        studentId: student.id, scheduleItemId, override,
+        overrideReason: override ? overrideReason.trim() : undefined,
+      }),
+    onSuccess: onChanged,
+    onError: (e: any, { scheduleItemId }) => {
+      const unmet = getUnmetRequirements(e);
+      if (unmet) { setBlocked({ scheduleItemId, unmet }); setError(""); } else setError(e.message);
+    },
+  });
+  const dropMut = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: "dropped" | "withdrawn" }) => adminEnrollmentsApi.drop(id, status),
+    onSuccess: onChanged,
+    onError: (e: any) => setError(e.message),
+  });
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={[styles.modalSheet, { maxHeight: "95%" }]}>
+          <View style={styles.modalHeader}>
+            <View>
+              <Text style={styles.modalTitle}>Enrollment</Text>
+              <Text style={styles.modalSubtitle}>{student.firstName} {student.lastName}</Text>
+            </View>
+            <Pressable onPress={onClose}><Ionicons name="close" size={24} color={Colors.text} /></Pressable>
+          </View>
+          <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+            {!!error && (
+              <View style={styles.modalError}>
+                <Ionicons name="alert-circle" size={15} color={Colors.error} />
+                <Text style={styles.modalErrorText}>{error}</Text>
+              </View>
+            )}
+            <Text style={styles.formLabel}>Current Classes ({enrollments.length})</Text>
+            {enrollments.length === 0 && <Text style={styles.formHint}>Not enrolled in any class yet.</Text>}
+            {enrollments.map((e) => {
+              const active = e.status === "enrolled";
+              return (
+                <View key={e.id} style={styles.enrollRow}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.enrollCode}>{e.scheduleItem?.subjectCode ?? "Removed class"}</Text>
+                    <Text style={styles.enrollMeta}>
+                      {e.semester}{e.scheduleItem ? ` · ${e.scheduleItem.days.join(", ")} ${formatTimeRange(e.scheduleItem.startMinutes, e.scheduleItem.endMinutes)}` : ""}
+                    </Text>
+                    {e.overrideAt !== null && (
+                      <Text style={styles.enrollOverride}>
+                        Waived: {e.overriddenRequirements.join(", ")}{e.overrideReason ? ` (${e.overrideReason})` : ""}
+                      </Text>
+                    )}
+                  </View>
+                  {active ? (
+                    <View style={styles.enrollActions}>
+                      <Pressable style={styles.enrollActionBtn} onPress={() => dropMut.mutate({ id: e.id, status: "dropped" })}>
+                        <Text style={styles.enrollActionText}>Drop</Text>
+                      </Pressable>
+                      <Pressable style={styles.enrollActionBtn} onPress={() => dropMut.mutate({ id: e.id, status: "withdrawn" })}>
+                        <Text style={styles.enrollActionText}>Withdraw</Text>
+                      </Pressable>
+                    </View>
+                  ) : (
+                    <View style={styles.statusPill}>
+                      <Text style={styles.statusPillText}>{e.status}</Text>
+                    </View>
+                  )}
+                </View>
+              );
+            })}
+
+            <Text style={[styles.formLabel, { marginTop: 18 }]}>Enroll For</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={{ marginBottom: 10 }}>
+              {terms.map((t) => (
+                <Pressable key={t.id} style={[styles.chip, selectedTermId === t.id && styles.chipActive]} onPress={() => setTermId(t.id)}>
+                  <Text style={[styles.chipText, selectedTermId === t.id && styles.chipTextActive]}>{t.name}</Text>
+                </Pressable>
+              ))}
+            </ScrollView>
+            {available.length === 0 && <Text style={styles.formHint}>No other class offerings scheduled for this term.</Text>}
+            {available.map((o) => (
+              <View key={o.id}>
+                <View style={styles.enrollRow}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.enrollCode}>{o.subjectCode}</Text>
+                    <Text style={styles.enrollMeta}>{o.days.join(", ")} {formatTimeRange(o.startMinutes, o.endMinutes)} · {o.room || "TBA"}</Text>
+                  </View>
+                  <Pressable
+                    style={[styles.enrollAddBtn, enrollMut.isPending && { opacity: 0.6 }]}
+                    disabled={enrollMut.isPending}
+                    onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); enrollMut.mutate({ scheduleItemId: o.id }); }}
+                  >
+                    <Ionicons name="add" size={18} color={Colors.white} />
+                  </Pressable>
+                </View>
+                {blocked?.scheduleItemId === o.id && (
+                  <View style={{ marginBottom: 10 }}>
+                    <UnmetRequirementsBox unmet={blocked.unmet} reason={overrideReason} onChangeReason={setOverrideReason} />
+                    <View style={styles.unmetActions}>
+                      <Pressable style={styles.enrollActionBtn} onPress={() => setBlocked(null)}>
+                        <Text style={styles.enrollActionText}>Cancel</Text>
+                      </Pressable>
+                      <Pressable
+                        style={[styles.enrollActionBtn, styles.enrollAnywayBtn]}
+                        disabled={enrollMut.isPending}
+                        onPress={() => enrollMut.mutate({ scheduleItemId: o.id, override: true })}
+                      >
+                        <Text style={[styles.enrollActionText, { color: Colors.white }]}>Enroll Anyway</Text>
+                      </Pressable>
+                    </View>
+                  </View>
+                )}
+              </View>
+            ))}
+            <View style={{ height: 24 }} />
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+function describeChange(e: GradeHistoryRecord): string {
+  switch (e.action) {
+    case "created": return `Recorded ${e.newValue}`;
+    case "changed":
+      return e.oldValue !== e.newValue
+        ? `Changed ${e.oldValue} → ${e.newValue}`
+        : `Edited ${e.changedFields.join(", ") || "details"}`;
+    case "status": return `${e.oldValue} → ${e.newValue}`;
+    case "deleted": return `Deleted (${e.oldValue})`;
+  }
+}
+
+function GradeHistoryModal({ visible, onClose, grade }: {
+  visible: boolean; onClose: () => void; grade: GradeRecord | null;
+}) {
+  const { data: history = [], isLoading } = useQuery({
+    queryKey: ["admin-grade-history", grade?.id],
+    queryFn: () => adminGradesApi.history(grade!.id),
+    enabled: visible && !!grade,
+  });
+
+  if (!grade) return null;
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalSheet}>
+          <View style={styles.modalHeader}>
+            <View>
+              <Text style={styles.modalTitle}>Grade History</Text>
+              <Text style={styles.modalSubtitle}>{grade.subjectCode} · {grade.semester}</Text>
+            </View>
+            <Pressable onPress={onClose}><Ionicons name="close" size={24} color={Colors.text} /></Pressable>
+          </View>
+          <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+            {isLoading ? (
+              <ActivityIndicator color={Colors.primary} style={{ marginTop: 24 }} />
+            ) : history.length === 0 ? (
+              <Text style={styles.formHint}>No recorded changes. Grades entered before history tracking have none.</Text>
+            ) : (
+              history.map((e, i) => (
+                <View key={e.id} style={styles.historyRow}>
+                  <View style={styles.historyRail}>
+                    <View style={[styles.historyDot, e.action === "changed" && { backgroundColor: Colors.warning }]} />
+                    {i < history.length - 1 && <View style={styles.historyLine} />}
+                  </View>
+                  <View style={{ flex: 1, paddingBottom: 16 }}>
+                    <Text style={styles.historyTitle}>{describeChange(e)}</Text>
+                    <Text style={styles.historyMeta}>{e.changedByName} · {new Date(e.changedAt).toLocaleString()}</Text>
+                    {!!e.reason && <Text style={styles.historyReason}>“{e.reason}”</Text>}
+                  </View>
+                </View>
+              ))
+            )}
+            <View style={{ height: 24 }} />
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
 function GFormField({ label, value, onChangeText, placeholder, keyboardType }: {
   label: string; value: string; onChangeText: (v: string) => void; placeholder?: string; keyboardType?: any;
 }) {
@@ -145,11 +481,24 @@ function GFormField({ label, value, onChangeText, placeholder, keyboardType }: {
   );
 }
 
-function GradeCard({ item, index, onEdit, onDelete }: {
+// The next step a registrar can take from the grades list; returning a grade
+// to draft is done from the approval queue
+const NEXT_STATUS: Record<GradeStatus, { status: GradeStatus; label: string } | null> = {
+  draft: { status: "submitted", label: "Submit" },
+  submitted: { status: "approved", label: "Approve" },
+  approved: { status: "released", label: "Release" },
+  released: null,
+};
+
+function GradeCard({ item, index, onEdit, onDelete, onAdvance, onHistory }: {
   item: GradeRecord; index: number; onEdit: (g: GradeRecord) => void; onDelete: (g: GradeRecord) => void;
+  onAdvance: (g: GradeRecord) => void; onHistory: (g: GradeRecord) => void;
 }) {
+  const next = NEXT_STATUS[item.status];
+  const statusColor = Colors.gradeStatus[item.status];
   const gradeNum = parseFloat(item.grade);
-  const color = gradeNum <= 1.5 ? Colors.success : gradeNum <= 2.0 ? Colors.primary : gradeNum <= 2.5 ? Colors.warning : Colors.error;
+  // Special codes (INC, DRP, W) aren't numbers and get a neutral color
+  const color = isNaN(gradeNum) ? Colors.textSecondary : gradeNum <= 1.5 ? Colors.success : gradeNum <= 2.0 ? Colors.primary : gradeNum <= 2.5 ? Colors.warning : Colors.error;
   return (
     <Animated.View entering={FadeInDown.delay(index * 50).duration(350)}>
       <View style={styles.gradeCard}>
@@ -162,14 +511,31 @@ function GradeCard({ item, index, onEdit, onDelete }: {
           <Text style={styles.gradeName}>{item.subjectName}</Text>
           <Text style={styles.gradeInstructor}>{item.instructor} · {item.units} units</Text>
           <Text style={styles.gradeSem}>{item.semester}</Text>
+          <View style={styles.workflowRow}>
+            <View style={[styles.workflowPill, { backgroundColor: `${statusColor}15` }]}>
+              <Text style={[styles.workflowPillText, { color: statusColor }]}>{item.status}</Text>
+            </View>
+            {!!next && (
+              <Pressable onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); onAdvance(item); }}>
+                <Text style={styles.workflowAction}>{next.label} ›</Text>
+              </Pressable>
+            )}
+            {!!item.revisedAt && <Text style={styles.revisedText}>Revised</Text>}
+          </View>
         </View>
         <View style={styles.cardActions}>
           <Pressable style={[styles.actionBtn, { backgroundColor: "#EBF0F9" }]} onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); onEdit(item); }}>
             <Ionicons name="pencil" size={15} color={Colors.primary} />
           </Pressable>
-          <Pressable style={[styles.actionBtn, { backgroundColor: "#FEF2F2" }]} onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium); onDelete(item); }}>
-            <Ionicons name="trash" size={15} color={Colors.error} />
+          <Pressable style={[styles.actionBtn, { backgroundColor: Colors.surfaceSecondary }]} onPress={() => onHistory(item)}>
+            <Ionicons name="time-outline" size={15} color={Colors.textSecondary} />
           </Pressable>
+          {/* Released grades stay on record; they can only be changed */}
+          {item.status !== "released" && (
+            <Pressable style={[styles.actionBtn, { backgroundColor: "#FEF2F2" }]} onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium); onDelete(item); }}>
+              <Ionicons name="trash" size={15} color={Colors.error} />
+            </Pressable>
+          )}
         </View>
       </View>
     </Animated.View>
@@ -182,6 +548,8 @@ export default function GradesScreen() {
   const [selectedStudentId, setSelectedStudentId] = useState<string>("");
   const [gradeModal, setGradeModal] = useState(false);
   const [editGrade, setEditGrade] = useState<GradeRecord | null>(null);
+  const [historyGrade, setHistoryGrade] = useState<GradeRecord | null>(null);
+  const [enrollmentModal, setEnrollmentModal] = useState(false);
 
   const webTopInset = Platform.OS === "web" ? 67 : 0;
   const webBottomInset = Platform.OS === "web" ? 34 : 0;
@@ -199,6 +567,16 @@ export default function GradesScreen() {
   const deleteMut = useMutation({
     mutationFn: adminGradesApi.delete,
     onSuccess: () => qc.invalidateQueries({ queryKey: ["admin-grades"] }),
+    onError: (e: any) => Alert.alert("Error", e.message),
+  });
+  const statusMut = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: GradeStatus }) => adminGradesApi.setStatus([id], status),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["admin-grades"] });
+      qc.invalidateQueries({ queryKey: ["admin-grade-queue"] });
+      qc.invalidateQueries({ queryKey: ["admin-grade-history"] });
+    },
+    onError: (e: any) => Alert.alert("Error", e.message),
   });
 
   const displayGrades = useMemo(() => {
@@ -207,6 +585,21 @@ export default function GradesScreen() {
   }, [grades, selectedStudentId]);
 
   const selectedStudent = students.find((s) => s.id === selectedStudentId);
+  const gradedEnrollmentIds = useMemo(
+    () => new Set(grades.map((g) => g.enrollmentId).filter((id): id is string => !!id)),
+    [grades]
+  );
+
+  const handleAdvance = (grade: GradeRecord) => {
+    const next = NEXT_STATUS[grade.status];
+    if (!next) return;
+    const doAdvance = () => statusMut.mutate({ id: grade.id, status: next.status });
+    // Releasing makes the grade visible to the student, so confirm it
+    if (next.status !== "released" || Platform.OS === "web") { doAdvance(); return; }
+    Alert.alert("Release Grade", `Release the ${grade.subjectCode} grade to the student?`, [
+      { text: "Cancel", style: "cancel" }, { text: "Release", onPress: doAdvance },
+    ]);
+  };
 
   const handleDelete = (grade: GradeRecord) => {
     const doDelete = () => { Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning); deleteMut.mutate(grade.id); };
@@ -226,15 +619,28 @@ export default function GradesScreen() {
               {selectedStudent ? `${selectedStudent.firstName} ${selectedStudent.lastName}` : "All students"}
             </Text>
           </View>
-          <Pressable style={styles.addButton} onPress={() => {
-            if (!selectedStudentId) {
-              Alert.alert("Action Required", "Please select a specific student from the filter below before adding a grade.");
-              return;
-            }
-            setEditGrade(null); setGradeModal(true);
-          }}>
-            <Ionicons name="add" size={22} color={Colors.white} />
-          </Pressable>
+          <View style={styles.headerActions}>
+            <Pressable style={styles.secondaryButton} onPress={() => router.push("/(admin)/class-record")}>
+              <Ionicons name="grid" size={20} color={Colors.primary} />
+            </Pressable>
+            <Pressable style={styles.secondaryButton} onPress={() => router.push("/(admin)/approvals")}>
+              <Ionicons name="checkmark-done" size={20} color={Colors.primary} />
+            </Pressable>
+            {!!selectedStudent && (
+              <Pressable style={styles.secondaryButton} onPress={() => setEnrollmentModal(true)}>
+                <Ionicons name="list" size={20} color={Colors.primary} />
+              </Pressable>
+            )}
+            <Pressable style={styles.addButton} onPress={() => {
+              if (!selectedStudentId) {
+                Alert.alert("Action Required", "Please select a specific student from the filter below before adding a grade.");
+                return;
+              }
+              setEditGrade(null); setGradeModal(true);
+            }}>
+              <Ionicons name="add" size={22} color={Colors.white} />
+            </Pressable>
+          </View>
         </View>
 
         <Text style={styles.filterLabel}>Filter by Student</Text>
@@ -259,7 +665,7 @@ export default function GradesScreen() {
         </ScrollView>
       </View>
 
-      {gradesLoading ? (
+      {gradesLoading || studentsLoading ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={Colors.primary} />
         </View>
@@ -272,6 +678,8 @@ export default function GradesScreen() {
               item={item} index={index}
               onEdit={(g) => { setEditGrade(g); setGradeModal(true); }}
               onDelete={handleDelete}
+              onAdvance={handleAdvance}
+              onHistory={setHistoryGrade}
             />
           )}
           contentContainerStyle={[styles.listContent, { paddingBottom: 100 + webBottomInset }]}
@@ -290,9 +698,24 @@ export default function GradesScreen() {
       <GradeModal
         visible={gradeModal}
         onClose={() => { setGradeModal(false); setEditGrade(null); }}
-        studentId={selectedStudentId || (students[0]?.id ?? "")}
+        studentId={editGrade?.studentId ?? selectedStudentId}
         editGrade={editGrade}
+        gradedEnrollmentIds={gradedEnrollmentIds}
       />
+
+      <GradeHistoryModal
+        visible={!!historyGrade}
+        onClose={() => setHistoryGrade(null)}
+        grade={historyGrade}
+      />
+
+      {selectedStudent && (
+        <EnrollmentModal
+          visible={enrollmentModal}
+          onClose={() => setEnrollmentModal(false)}
+          student={selectedStudent}
+        />
+      )}
     </View>
   );
 }
@@ -306,9 +729,13 @@ const styles = StyleSheet.create({
   headerRow: { flexDirection: "row", justifyContent: "space-between", alignItems: "flex-start", marginBottom: 8 },
   headerTitle: { fontFamily: "Inter_700Bold", fontSize: 26, color: Colors.text },
   headerSubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, marginTop: 2 },
+  headerActions: { flexDirection: "row", gap: 8 },
   addButton: {
     width: 44, height: 44, borderRadius: 22, backgroundColor: Colors.primary, justifyContent: "center", alignItems: "center",
   },
+  secondaryButton: {
+    width: 44, height: 44, borderRadius: 22, backgroundColor: "#EBF0F9", justifyContent: "center", alignItems: "center",
+  },
   filterLabel: { fontFamily: "Inter_500Medium", fontSize: 12, color: Colors.textSecondary, marginTop: 4 },
   studentChip: {
     paddingHorizontal: 14, paddingVertical: 8, borderRadius: 20,
@@ -335,6 +762,11 @@ const styles = StyleSheet.create({
   gradeName: { fontFamily: "Inter_600SemiBold", fontSize: 14, color: Colors.text, marginTop: 2 },
   gradeInstructor: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary, marginTop: 2 },
   gradeSem: { fontFamily: "Inter_400Regular", fontSize: 11, color: Colors.textTertiary, marginTop: 2 },
+  workflowRow: { flexDirection: "row", alignItems: "center", gap: 10, marginTop: 6 },
+  workflowPill: { paddingHorizontal: 8, paddingVertical: 2, borderRadius: 8 },
+  workflowPillText: { fontFamily: "Inter_600SemiBold", fontSize: 10, textTransform: "capitalize" },
+  workflowAction: { fontFamily: "Inter_600SemiBold", fontSize: 12, color: Colors.primary },
+  revisedText: { fontFamily: "Inter_500Medium", fontSize: 11, color: Colors.warning },
   cardActions: { gap: 8 },
   actionBtn: { width: 32, height: 32, borderRadius: 8, justifyContent: "center", alignItems: "center" },
   emptyState: { alignItems: "center", paddingTop: 60, gap: 8 },
@@ -348,6 +780,7 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1, borderBottomColor: Colors.border,
   },
   modalTitle: { fontFamily: "Inter_700Bold", fontSize: 18, color: Colors.text },
+  modalSubtitle: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary },
   modalBody: { padding: 20 },
   modalError: {
     flexDirection: "row", alignItems: "center", gap: 8,
@@ -356,6 +789,7 @@ const styles = StyleSheet.create({
   modalErrorText: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.error, flex: 1 },
   formField: { marginBottom: 14 },
   formLabel: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text, marginBottom: 6 },
+  formHint: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textTertiary, marginTop: 6 },
   formInput: {
     fontFamily: "Inter_400Regular", fontSize: 14, color: Colors.text,
     backgroundColor: Colors.surfaceSecondary, borderRadius: 10,
@@ -365,9 +799,40 @@ const styles = StyleSheet.create({
     paddingHorizontal: 14, paddingVertical: 8, borderRadius: 20,
     backgroundColor: Colors.surfaceSecondary, marginRight: 8, borderWidth: 1, borderColor: Colors.border,
   },
+  chipWrap: { flexDirection: "row", flexWrap: "wrap", rowGap: 8 },
   chipActive: { backgroundColor: Colors.primary, borderColor: Colors.primary },
   chipText: { fontFamily: "Inter_500Medium", fontSize: 12, color: Colors.text },
   chipTextActive: { color: Colors.white },
+  readOnlyValue: { fontFamily: "Inter_600SemiBold", fontSize: 14, color: Colors.text },
+  enrollRow: {
+    flexDirection: "row", alignItems: "center", gap: 10,
+    paddingVertical: 10, borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  enrollCode: { fontFamily: "Inter_700Bold", fontSize: 13, color: Colors.primary },
+  enrollMeta: { fontFamily: "Inter_400Regular", fontSize: 11, color: Colors.textSecondary, marginTop: 2 },
+  enrollActions: { flexDirection: "row", gap: 6 },
+  enrollActionBtn: { paddingHorizontal: 10, paddingVertical: 6, borderRadius: 8, backgroundColor: "#FEF2F2" },
+  enrollActionText: { fontFamily: "Inter_600SemiBold", fontSize: 11, color: Colors.error },
+  enrollAddBtn: { width: 32, height: 32, borderRadius: 8, backgroundColor: Colors.primary, justifyContent: "center", alignItems: "center" },
+  enrollOverride: { fontFamily: "Inter_500Medium", fontSize: 11, color: Colors.warning, marginTop: 2 },
+  enrollAnywayBtn: { backgroundColor: Colors.warning },
+  unmetBox: { backgroundColor: "#FEF3E2", borderRadius: 12, padding: 12, gap: 10, marginTop: 10 },
+  unmetHeader: { flexDirection: "row", alignItems: "center", gap: 8 },
+  unmetTitle: { fontFamily: "Inter_600SemiBold", fontSize: 13, color: Colors.text },
+  unmetRow: { flexDirection: "row", alignItems: "center", gap: 10, backgroundColor: Colors.white, borderRadius: 10, padding: 10 },
+  unmetTag: { backgroundColor: "#FEF2F2", paddingHorizontal: 8, paddingVertical: 2, borderRadius: 8 },
+  unmetTagText: { fontFamily: "Inter_500Medium", fontSize: 11, color: Colors.error, textTransform: "capitalize" },
+  unmetActions: { flexDirection: "row", justifyContent: "flex-end", gap: 8, marginTop: 8 },
+  statusPill: { paddingHorizontal: 10, paddingVertical: 4, borderRadius: 10, backgroundColor: Colors.surfaceSecondary },
+  statusPillText: { fontFamily: "Inter_500Medium", fontSize: 11, color: Colors.textSecondary, textTransform: "capitalize" },
+  historyRow: { flexDirection: "row", gap: 12 },
+  historyRail: { alignItems: "center", width: 12 },
+  historyDot: { width: 10, height: 10, borderRadius: 5, backgroundColor: Colors.primary, marginTop: 4 },
+  historyLine: { flex: 1, width: 2, backgroundColor: Colors.border, marginTop: 2 },
+  historyTitle: { fontFamily: "Inter_600SemiBold", fontSize: 14, color: Colors.text, textTransform: "capitalize" },
+  historyMeta: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary, marginTop: 2 },
+  historyReason: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.text, fontStyle: "italic", marginTop: 4 },
   saveButton: { backgroundColor: Colors.primary, borderRadius: 12, paddingVertical: 14, alignItems: "center", marginTop: 12 },
+  saveButtonWarning: { backgroundColor: Colors.warning },
   saveButtonText: { fontFamily: "Inter_700Bold", fontSize: 15, color: Colors.white },
 });
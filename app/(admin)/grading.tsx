@@ -0,0 +1,287 @@
+import { useState, useEffect } from "react";
+import {
+  StyleSheet, Text, View, Pressable, Platform,
+  TextInput, Alert, ActivityIndicator, ScrollView,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import * as Haptics from "expo-haptics";
+import { gradingScaleApi, adminGradingScaleApi } from "@/lib/api";
+import { DEFAULT_GRADING_SCALE, type GradingScale } from "@shared/grades";
+import Colors from "@/constants/colors";
+
+interface SpecialCodeForm {
+  code: string;
+  remarks: string;
+  countsTowardGwa: boolean;
+  gradePoints: string;
+}
+
+interface ScaleFormData {
+  values: string;
+  passingGrade: string;
+  conditionalGrade: string;
+  passedRemarks: string;
+  conditionalRemarks: string;
+  failedRemarks: string;
+  specialCodes: SpecialCodeForm[];
+}
+
+type TextKey = Exclude<keyof ScaleFormData, "specialCodes">;
+
+const toForm = (s: GradingScale): ScaleFormData => ({
+  values: s.values.join(", "),
+  passingGrade: s.passingGrade.toFixed(2),
+  conditionalGrade: s.conditionalGrade === null ? "" : s.conditionalGrade.toFixed(2),
+  passedRemarks: s.passedRemarks,
+  conditionalRemarks: s.conditionalRemarks,
+  failedRemarks: s.failedRemarks,
+  specialCodes: s.specialCodes.map((c) => ({
+    code: c.code, remarks: c.remarks, countsTowardGwa: c.countsTowardGwa,
+    gradePoints: c.countsTowardGwa ? c.gradePoints.toFixed(2) : "",
+  })),
+});
+
+// The server does the full validation; this only turns the text fields into numbers
+const toScale = (f: ScaleFormData): GradingScale => ({
+  values: f.values.split(",").map((v) => v.trim()).filter(Boolean),
+  passingGrade: parseFloat(f.passingGrade),
+  conditionalGrade: f.conditionalGrade.trim() ? parseFloat(f.conditionalGrade) : null,
+  passedRemarks: f.passedRemarks.trim(),
+  conditionalRemarks: f.conditionalRemarks.trim(),
+  failedRemarks: f.failedRemarks.trim(),
+  specialCodes: f.specialCodes.map((c) => ({
+    code: c.code.trim().toUpperCase(),
+    remarks: c.remarks.trim(),
+    countsTowardGwa: c.countsTowardGwa,
+    gradePoints: c.countsTowardGwa ? parseFloat(c.gradePoints) : 0,
+  })),
+});
+
+function FormField({ label, value, onChangeText, placeholder, hint }: {
+  label: string; value: string; onChangeText: (v: string) => void; placeholder?: string; hint?: string;
+}) {
+  return (
+    <View style={styles.formField}>
+      <Text style={styles.formLabel}>{label}</Text>
+      <TextInput
+        style={styles.formInput} value={value} onChangeText={onChangeText}
+        placeholder={placeholder} placeholderTextColor={Colors.textTertiary} autoCapitalize="none"
+      />
+      {!!hint && <Text style={styles.formHint}>{hint}</Text>}
+    </View>
+  );
+}
+
+export default function GradingScaleScreen() {
+  const insets = useSafeAreaInsets();
+  const qc = useQueryClient();
+  const [form, setForm] = useState<ScaleFormData>(toForm(DEFAULT_GRADING_SCALE));
+  const [error, setError] = useState("");
+
+  const webTopInset = Platform.OS === "web" ? 67 : 0;
+  const webBottomInset = Platform.OS === "web" ? 34 : 0;
+
+  const { data: scale, isLoading } = useQuery({
+    queryKey: ["grading-scale"],
+    queryFn: gradingScaleApi.get,
+  });
+
+  useEffect(() => {
+    if (scale) setForm(toForm(scale));
+  }, [scale]);
+
+  const saveMut = useMutation({
+    mutationFn: adminGradingScaleApi.update,
+    onSuccess: (saved) => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      qc.setQueryData(["grading-scale"], saved);
+      setError("");
+      if (Platform.OS !== "web") Alert.alert("Saved", "New and edited grades will use this scale.");
+    },
+    onError: (e: any) => setError(e.message),
+  });
+
+  const field = (key: TextKey) => ({
+    value: form[key],
+    onChangeText: (v: string) => { setForm((f) => ({ ...f, [key]: v })); setError(""); },
+  });
+
+  const updateCode = (index: number, patch: Partial<SpecialCodeForm>) => {
+    setForm((f) => ({ ...f, specialCodes: f.specialCodes.map((c, i) => (i === index ? { ...c, ...patch } : c)) }));
+    setError("");
+  };
+  const addCode = () => {
+    setForm((f) => ({ ...f, specialCodes: [...f.specialCodes, { code: "", remarks: "", countsTowardGwa: false, gradePoints: "" }] }));
+  };
+  const removeCode = (index: number) => {
+    setForm((f) => ({ ...f, specialCodes: f.specialCodes.filter((_, i) => i !== index) }));
+  };
+
+  const handleSave = () => {
+    if (!form.values.trim() || !form.passingGrade.trim()) {
+      setError("Grade values and the passing grade are required.");
+      return;
+    }
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    saveMut.mutate(toScale(form));
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 12 + webTopInset }]}>
+        <Text style={styles.headerTitle}>Grading Scale</Text>
+        <Text style={styles.headerSubtitle}>Valid grades, remarks and GWA rules</Text>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}><ActivityIndicator size="large" color={Colors.primary} /></View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={[styles.content, { paddingBottom: 100 + webBottomInset }]}
+          showsVerticalScrollIndicator={false}
+        >
+          {!!error && (
+            <View style={styles.errorBox}>
+              <Ionicons name="alert-circle" size={15} color={Colors.error} />
+              <Text style={styles.errorText}>{error}</Text>
+            </View>
+          )}
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Numeric Grades</Text>
+            <FormField
+              label="Allowed Grades *" {...field("values")} placeholder="1.00, 1.25, 1.50, ..."
+              hint="Comma-separated. Lower is better."
+            />
+            <View style={styles.formRow}>
+              <View style={{ flex: 1 }}>
+                <FormField label="Passing Grade *" {...field("passingGrade")} placeholder="3.00" />
+              </View>
+              <View style={{ flex: 1 }}>
+                <FormField label="Conditional Grade" {...field("conditionalGrade")} placeholder="4.00" />
+              </View>
+            </View>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Remarks</Text>
+            <FormField label="Passed" {...field("passedRemarks")} placeholder="Passed" />
+            <FormField label="Conditional" {...field("conditionalRemarks")} placeholder="Conditional" />
+            <FormField label="Failed" {...field("failedRemarks")} placeholder="Failed" />
+          </View>
+
+          <View style={styles.card}>
+            <View style={styles.cardTitleRow}>
+              <Text style={styles.cardTitle}>Special Codes</Text>
+              <Pressable style={styles.addCodeButton} onPress={addCode}>
+                <Ionicons name="add" size={16} color={Colors.primary} />
+                <Text style={styles.addCodeText}>Add Code</Text>
+              </Pressable>
+            </View>
+            {form.specialCodes.length === 0 && (
+              <Text style={styles.formHint}>No special codes. Only numeric grades can be recorded.</Text>
+            )}
+            {form.specialCodes.map((c, i) => (
+              <View key={i} style={styles.codeRow}>
+                <View style={styles.formRow}>
+                  <View style={{ width: 90 }}>
+                    <FormField label="Code" value={c.code} onChangeText={(v) => updateCode(i, { code: v })} placeholder="INC" />
+                  </View>
+                  <View style={{ flex: 1 }}>
+                    <FormField label="Remarks" value={c.remarks} onChangeText={(v) => updateCode(i, { remarks: v })} placeholder="Incomplete" />
+                  </View>
+                  <Pressable style={styles.removeCodeButton} onPress={() => removeCode(i)}>
+                    <Ionicons name="trash" size={15} color={Colors.error} />
+                  </Pressable>
+                </View>
+                <View style={styles.formRow}>
+                  <Pressable
+                    style={[styles.chip, c.countsTowardGwa && styles.chipActive]}
+                    onPress={() => updateCode(i, { countsTowardGwa: !c.countsTowardGwa })}
+                  >
+                    <Text style={[styles.chipText, c.countsTowardGwa && styles.chipTextActive]}>
+                      {c.countsTowardGwa ? "Counts toward GWA" : "Excluded from GWA"}
+                    </Text>
+                  </Pressable>
+                  {c.countsTowardGwa && (
+                    <TextInput
+                      style={[styles.formInput, styles.pointsInput]} value={c.gradePoints}
+                      onChangeText={(v) => updateCode(i, { gradePoints: v })}
+                      placeholder="as 5.00" placeholderTextColor={Colors.textTertiary} keyboardType="decimal-pad"
+                    />
+                  )}
+                </View>
+              </View>
+            ))}
+          </View>
+
+          <Text style={styles.footnote}>
+            Changes apply to grades entered or edited from now on. Existing remarks are kept; GWA is always computed with the current scale.
+          </Text>
+
+          <Pressable
+            style={[styles.saveButton, saveMut.isPending && { opacity: 0.7 }]}
+            onPress={handleSave}
+            disabled={saveMut.isPending}
+          >
+            {saveMut.isPending
+              ? <ActivityIndicator color={Colors.white} size="small" />
+              : <Text style={styles.saveButtonText}>Save Grading Scale</Text>}
+          </Pressable>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.background },
+  header: {
+    backgroundColor: Colors.white, paddingHorizontal: 16,
+    paddingBottom: 12, borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  headerTitle: { fontFamily: "Inter_700Bold", fontSize: 26, color: Colors.text },
+  headerSubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, marginTop: 2 },
+  loadingContainer: { flex: 1, justifyContent: "center", alignItems: "center" },
+  content: { padding: 12, gap: 10 },
+  card: {
+    backgroundColor: Colors.white, borderRadius: 14, padding: 14,
+    shadowColor: Colors.cardShadow, shadowOffset: { width: 0, height: 2 }, shadowOpacity: 1, shadowRadius: 8, elevation: 2,
+  },
+  cardTitleRow: { flexDirection: "row", justifyContent: "space-between", alignItems: "center" },
+  cardTitle: { fontFamily: "Inter_600SemiBold", fontSize: 15, color: Colors.text, marginBottom: 12 },
+  errorBox: {
+    flexDirection: "row", alignItems: "center", gap: 8,
+    backgroundColor: "#FEF2F2", padding: 12, borderRadius: 10,
+  },
+  errorText: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.error, flex: 1 },
+  formRow: { flexDirection: "row", gap: 12, alignItems: "center" },
+  formField: { marginBottom: 14 },
+  formLabel: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text, marginBottom: 6 },
+  formInput: {
+    fontFamily: "Inter_400Regular", fontSize: 14, color: Colors.text,
+    backgroundColor: Colors.surfaceSecondary, borderRadius: 10,
+    paddingHorizontal: 14, paddingVertical: 12, borderWidth: 1, borderColor: Colors.border,
+  },
+  formHint: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textTertiary, marginTop: 6 },
+  codeRow: { paddingVertical: 10, borderTopWidth: 1, borderTopColor: Colors.border },
+  addCodeButton: { flexDirection: "row", alignItems: "center", gap: 4, marginBottom: 12 },
+  addCodeText: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.primary },
+  removeCodeButton: {
+    width: 32, height: 32, borderRadius: 8, backgroundColor: "#FEF2F2",
+    justifyContent: "center", alignItems: "center", marginTop: 6,
+  },
+  pointsInput: { flex: 1, paddingVertical: 8 },
+  chip: {
+    paddingHorizontal: 14, paddingVertical: 8, borderRadius: 20,
+    backgroundColor: Colors.surfaceSecondary, borderWidth: 1, borderColor: Colors.border,
+  },
+  chipActive: { backgroundColor: Colors.primary, borderColor: Colors.primary },
+  chipText: { fontFamily: "Inter_500Medium", fontSize: 12, color: Colors.text },
+  chipTextActive: { color: Colors.white },
+  footnote: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary, paddingHorizontal: 4 },
+  saveButton: { backgroundColor: Colors.primary, borderRadius: 12, paddingVertical: 14, alignItems: "center", marginTop: 4 },
+  saveButtonText: { fontFamily: "Inter_700Bold", fontSize: 15, color: Colors.white },
+});
@@ -14,6 +14,7 @@ import Animated, { FadeInDown } from "react-native-reanimated";
 import { useAuth } from "@/lib/auth-context";
 import { adminStatsApi, adminAccountApi, type AdminStats } from "@/lib/api";
 import Colors from "@/constants/colors";
+import { ADMIN_ROLE_LABELS, type AdminPermission } from "@shared/permissions";
 
 interface StatCard {
   icon: keyof typeof Ionicons.glyphMap;
@@ -35,18 +36,30 @@ interface QuickAction {
   label: string;
   route: string;
   color: string;
+  permission: AdminPermission; // hidden from admins whose role doesn't grant it
+  badge?: keyof AdminStats; // count shown next to the label when non-zero
 }
 
 const quickActions: QuickAction[] = [
-  { icon: "people-outline", label: "Manage Students", route: "/(admin)/students", color: Colors.primary },
-  { icon: "document-text-outline", label: "Manage Grades", route: "/(admin)/grades", color: "#7C3AED" },
-  { icon: "calendar-outline", label: "Manage Schedule", route: "/(admin)/schedule", color: "#059669" },
-  { icon: "megaphone-outline", label: "Post Announcement", route: "/(admin)/announcements", color: "#D97706" },
+  { icon: "people-outline", label: "Manage Students", route: "/(admin)/students", color: Colors.primary, permission: "students" },
+  { icon: "person-outline", label: "Manage Faculty", route: "/(admin)/faculty", color: "#0F766E", permission: "faculty" },
+  { icon: "document-text-outline", label: "Manage Grades", route: "/(admin)/grades", color: "#7C3AED", permission: "grades" },
+  { icon: "checkmark-done-outline", label: "Grade Approvals", route: "/(admin)/approvals", color: "#16A34A", permission: "grades", badge: "pendingGrades" },
+  { icon: "calendar-outline", label: "Manage Schedule", route: "/(admin)/schedule", color: "#059669", permission: "schedule" },
+  { icon: "checkbox-outline", label: "Attendance", route: "/(admin)/attendance", color: "#0F766E", permission: "attendance" },
+  { icon: "reader-outline", label: "Exam Schedule", route: "/(admin)/exams", color: "#DC2626", permission: "schedule" },
+  { icon: "today-outline", label: "Academic Calendar", route: "/(admin)/calendar", color: "#B45309", permission: "schedule" },
+  { icon: "calendar-number-outline", label: "Manage Terms", route: "/(admin)/terms", color: "#0891B2", permission: "academics" },
+  { icon: "school-outline", label: "Programs & Curricula", route: "/(admin)/programs", color: "#4F46E5", permission: "academics" },
+  { icon: "ribbon-outline", label: "Grading Scale", route: "/(admin)/grading", color: "#DB2777", permission: "grades" },
+  { icon: "trophy-outline", label: "Academic Standing", route: "/(admin)/standing", color: "#B8922E", permission: "grades" },
+  { icon: "megaphone-outline", label: "Post Announcement", route: "/(admin)/announcements", color: "#D97706", permission: "announcements" },
+  { icon: "shield-outline", label: "Admin Accounts", route: "/(admin)/users", color: "#475569", permission: "admins" },
 ];
 
 export default function AdminDashboard() {
   const insets = useSafeAreaInsets();
-  const { admin, isAuthenticated, isLoading: authLoading, role, logout, setAdmin } = useAuth();
+  const { admin, isAuthenticated, isLoading: authLoading, role, can, logout, setAdmin } = useAuth();
 
   useEffect(() => {
     if (!authLoading && (!isAuthenticated || role !== "admin")) {
@@ -57,20 +70,10 @@ export default function AdminDashboard() {
   const { data: stats, isLoading: statsLoading } = useQuery({
     queryKey: ["admin-stats"],
     queryFn: adminStatsApi.get,
-    enabled: isAuthenticated && role === "admin",
+    // The server refuses everything but the account until a temporary password is replaced
+    enabled: isAuthenticated && role === "admin" && !admin?.mustChangePassword,
   });
 
-  if (!admin) return null;
-
-  const webTopInset = Platform.OS === "web" ? 67 : 0;
-  const webBottomInset = Platform.OS === "web" ? 34 : 0;
-
-  const handleLogout = async () => {
-    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-    await logout();
-    router.replace("/");
-  };
-
   // ── Account Edit Modal Logic ────────────────────────────────────────────────
   const [showSettings, setShowSettings] = useState(false);
   const [newUsername, setNewUsername] = useState("");
@@ -87,6 +90,22 @@ export default function AdminDashboard() {
   const newPwRef = useRef<TextInput>(null);
   const confirmRef = useRef<TextInput>(null);
 
+  // Signing in with a temporary password goes straight to changing it
+  useEffect(() => {
+    if (admin?.mustChangePassword) setShowSettings(true);
+  }, [admin?.mustChangePassword]);
+
+  if (!admin) return null;
+
+  const webTopInset = Platform.OS === "web" ? 67 : 0;
+  const webBottomInset = Platform.OS === "web" ? 34 : 0;
+
+  const handleLogout = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    await logout();
+    router.replace("/");
+  };
+
   const handleOpenSettings = () => {
     setNewUsername(admin.username || "");
     setShowSettings(true);
@@ -121,7 +140,7 @@ export default function AdminDashboard() {
       const result = await adminAccountApi.update(payload);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       setFormSuccess("Admin account updated!");
-      if (result.user && setAdmin) setAdmin(result.user as any);
+      if (result.user && setAdmin) setAdmin(result.user);
       setTimeout(() => {
         handleCloseSettings();
       }, 1500);
@@ -153,7 +172,7 @@ export default function AdminDashboard() {
               </Text>
               <View style={styles.adminBadge}>
                 <Ionicons name="shield-checkmark" size={12} color={Colors.gold} />
-                <Text style={styles.adminBadgeText}>System Administrator</Text>
+                <Text style={styles.adminBadgeText}>{ADMIN_ROLE_LABELS[admin.adminRole] ?? "Administrator"}</Text>
               </View>
             </View>
             <View style={{ flexDirection: "row", gap: 10 }}>
@@ -167,6 +186,16 @@ export default function AdminDashboard() {
           </View>
         </LinearGradient>
 
+        {admin.mustChangePassword && (
+          <Pressable style={styles.passwordBanner} onPress={handleOpenSettings}>
+            <Ionicons name="key" size={18} color={Colors.warning} />
+            <Text style={styles.passwordBannerText}>
+              You signed in with a temporary password. Tap here to choose your own.
+            </Text>
+            <Ionicons name="chevron-forward" size={16} color={Colors.warning} />
+          </Pressable>
+        )}
+
         <View style={styles.statsSection}>
           <Text style={styles.sectionTitle}>Overview</Text>
           <View style={styles.statsGrid}>
@@ -195,7 +224,7 @@ export default function AdminDashboard() {
         <View style={styles.actionsSection}>
           <Text style={styles.sectionTitle}>Quick Actions</Text>
           <View style={styles.actionsList}>
-            {quickActions.map((action, i) => (
+            {quickActions.filter((action) => can(action.permission)).map((action, i) => (
               <Animated.View key={action.label} entering={FadeInDown.delay(300 + i * 70).duration(400)}>
                 <Pressable
                   style={({ pressed }) => [
@@ -211,6 +240,11 @@ export default function AdminDashboard() {
                     <Ionicons name={action.icon} size={22} color={action.color} />
                   </View>
                   <Text style={styles.actionLabel}>{action.label}</Text>
+                  {!!action.badge && !!stats?.[action.badge] && (
+                    <View style={styles.actionBadge}>
+                      <Text style={styles.actionBadgeText}>{stats[action.badge]}</Text>
+                    </View>
+                  )}
                   <Ionicons name="chevron-forward" size={18} color={Colors.textTertiary} />
                 </Pressable>
               </Animated.View>
@@ -365,6 +399,11 @@ const styles = StyleSheet.create({
     width: 44, height: 44, borderRadius: 22,
     backgroundColor: "rgba(255,255,255,0.15)", justifyContent: "center", alignItems: "center",
   },
+  passwordBanner: {
+    flexDirection: "row", alignItems: "center", gap: 10, marginHorizontal: 16, marginTop: 16,
+    backgroundColor: "#FEF3E2", borderRadius: 12, padding: 14, borderWidth: 1, borderColor: "#FDE6C4",
+  },
+  passwordBannerText: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text, flex: 1, lineHeight: 19 },
   statsSection: { paddingHorizontal: 16, marginTop: 20 },
   sectionTitle: { fontFamily: "Inter_700Bold", fontSize: 17, color: Colors.text, marginBottom: 12 },
   statsGrid: { flexDirection: "row", flexWrap: "wrap", gap: 12 },
@@ -389,6 +428,11 @@ const styles = StyleSheet.create({
   },
   actionIcon: { width: 40, height: 40, borderRadius: 10, justifyContent: "center", alignItems: "center", marginRight: 12 },
   actionLabel: { fontFamily: "Inter_500Medium", fontSize: 15, color: Colors.text, flex: 1 },
+  actionBadge: {
+    minWidth: 22, height: 22, borderRadius: 11, paddingHorizontal: 6, marginRight: 6,
+    backgroundColor: Colors.error, justifyContent: "center", alignItems: "center",
+  },
+  actionBadgeText: { fontFamily: "Inter_700Bold", fontSize: 11, color: Colors.white },
   infoCard: {
     marginHorizontal: 16, marginTop: 16, flexDirection: "row", alignItems: "flex-start",
     gap: 10, backgroundColor: "#EBF0F9", borderRadius: 14, padding: 14,
@@ -0,0 +1,552 @@
+import { useState, useMemo, useEffect } from "react";
+import {
+  StyleSheet, Text, View, FlatList, Pressable, Platform,
+  TextInput, Modal, Alert, ActivityIndicator, ScrollView, Switch,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import * as Haptics from "expo-haptics";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import {
+  adminProgramsApi, adminSubjectsApi,
+  type CurriculumInput, type CurriculumSemester, type CurriculumSummary, type ProgramListItem, type SubjectRecord,
+} from "@/lib/api";
+import { YEAR_LEVELS } from "@/constants/data";
+import Colors from "@/constants/colors";
+import { compareCurriculumSlots } from "@shared/curriculum";
+import { CURRICULUM_SEMESTERS } from "@shared/schema";
+
+type Slot = { yearLevel: string; semester: CurriculumSemester };
+
+// Everything that shows curricula or a student's checklist
+function invalidateCurricula(qc: ReturnType<typeof useQueryClient>) {
+  qc.invalidateQueries({ queryKey: ["admin-programs"] });
+  qc.invalidateQueries({ queryKey: ["admin-curriculum"] });
+  qc.invalidateQueries({ queryKey: ["admin-degree-progress"] });
+}
+
+function ProgramModal({ visible, onClose, editProgram }: {
+  visible: boolean; onClose: () => void; editProgram?: ProgramListItem | null;
+}) {
+  const qc = useQueryClient();
+  const isEdit = !!editProgram;
+  const [code, setCode] = useState("");
+  const [name, setName] = useState("");
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (visible) {
+      setCode(editProgram?.code ?? "");
+      setName(editProgram?.name ?? "");
+      setError("");
+    }
+  }, [visible, editProgram]);
+
+  const onSuccess = () => {
+    invalidateCurricula(qc);
+    // A rename carries over to the course of students and sections
+    qc.invalidateQueries({ queryKey: ["admin-students"] });
+    qc.invalidateQueries({ queryKey: ["admin-sections"] });
+    onClose();
+  };
+  const createMut = useMutation({
+    mutationFn: adminProgramsApi.create,
+    onSuccess,
+    onError: (e: any) => setError(e.message),
+  });
+  const updateMut = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: { code: string; name: string } }) => adminProgramsApi.update(id, data),
+    onSuccess,
+    onError: (e: any) => setError(e.message),
+  });
+
+  const handleSave = () => {
+    if (!code.trim() || !name.trim()) {
+      setError("Program Code and Name are required.");
+      return;
+    }
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (isEdit && editProgram) updateMut.mutate({ id: editProgram.id, data: { code, name } });
+    else createMut.mutate({ code, name });
+  };
+
+  const isBusy = createMut.isPending || updateMut.isPending;
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalSheet}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{isEdit ? "Edit Program" : "New Program"}</Text>
+            <Pressable onPress={onClose}><Ionicons name="close" size={24} color={Colors.text} /></Pressable>
+          </View>
+          <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+            {!!error && (
+              <View style={styles.modalError}>
+                <Ionicons name="alert-circle" size={15} color={Colors.error} />
+                <Text style={styles.modalErrorText}>{error}</Text>
+              </View>
+            )}
+            <FormField label="Program Code *" value={code} onChangeText={(v) => { setCode(v); setError(""); }} placeholder="e.g. BSIS" autoCapitalize="characters" />
+            <FormField label="Name *" value={name} onChangeText={(v) => { setName(v); setError(""); }} placeholder="e.g. BS Information System" />
+            <Text style={styles.formHint}>
+              Students and sections whose course is this name follow the program&apos;s curriculum.
+            </Text>
+            <Pressable style={[styles.saveButton, isBusy && { opacity: 0.7 }]} onPress={handleSave} disabled={isBusy}>
+              {isBusy ? <ActivityIndicator color={Colors.white} size="small" /> : <Text style={styles.saveButtonText}>{isEdit ? "Save Changes" : "Add Program"}</Text>}
+            </Pressable>
+            <View style={{ height: 24 }} />
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+// Creates a curriculum version, or edits `curriculumId`. Subjects are placed
+// into the selected year level and semester by tapping their chips.
+function CurriculumModal({ visible, onClose, program, curriculumId, subjects }: {
+  visible: boolean; onClose: () => void; program: ProgramListItem | null;
+  curriculumId: string | null; subjects: SubjectRecord[];
+}) {
+  const qc = useQueryClient();
+  const isEdit = !!curriculumId;
+  const [version, setVersion] = useState("");
+  const [isCurrent, setIsCurrent] = useState(false);
+  const [slots, setSlots] = useState<Map<string, Slot>>(new Map());
+  const [slot, setSlot] = useState<Slot>({ yearLevel: YEAR_LEVELS[0], semester: CURRICULUM_SEMESTERS[0] });
+  const [error, setError] = useState("");
+
+  const { data: detail, isLoading } = useQuery({
+    queryKey: ["admin-curriculum", curriculumId],
+    queryFn: () => adminProgramsApi.getCurriculum(curriculumId!),
+    enabled: visible && !!curriculumId,
+  });
+
+  useEffect(() => {
+    if (!visible) return;
+    setError("");
+    setSlot({ yearLevel: YEAR_LEVELS[0], semester: CURRICULUM_SEMESTERS[0] });
+    if (curriculumId && detail) {
+      setVersion(detail.version);
+      setIsCurrent(detail.isCurrent);
+      setSlots(new Map(detail.subjects.map((s) => [s.subjectId, { yearLevel: s.yearLevel, semester: s.semester }])));
+    } else if (!curriculumId) {
+      setVersion("");
+      setIsCurrent(false);
+      setSlots(new Map());
+    }
+  }, [visible, curriculumId, detail]);
+
+  const createMut = useMutation({
+    mutationFn: ({ programId, data }: { programId: string; data: CurriculumInput }) =>
+      adminProgramsApi.createCurriculum(programId, data),
+    onSuccess: () => { invalidateCurricula(qc); onClose(); },
+    onError: (e: any) => setError(e.message),
+  });
+  const updateMut = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: CurriculumInput }) => adminProgramsApi.updateCurriculum(id, data),
+    onSuccess: () => { invalidateCurricula(qc); onClose(); },
+    onError: (e: any) => setError(e.message),
+  });
+
+  // Tapping a subject adds it to the selected slot, moves it there from
+  // another slot, or removes it when it is already in this one
+  const toggleSubject = (id: string) => {
+    setSlots((prev) => {
+      const next = new Map(prev);
+      const current = next.get(id);
+      if (current && current.yearLevel === slot.yearLevel && current.semester === slot.semester) next.delete(id);
+      else next.set(id, slot);
+      return next;
+    });
+    setError("");
+  };
+
+  const subjectsById = useMemo(() => new Map(subjects.map((s) => [s.id, s])), [subjects]);
+  const totalUnits = [...slots.keys()].reduce((acc, id) => acc + (subjectsById.get(id)?.units ?? 0), 0);
+
+  const summary = useMemo(() => {
+    const groups = new Map<string, { slot: Slot; codes: string[]; units: number }>();
+    for (const [id, s] of slots) {
+      const subject = subjectsById.get(id);
+      if (!subject) continue;
+      const key = `${s.yearLevel} · ${s.semester}`;
+      const group = groups.get(key) ?? { slot: s, codes: [], units: 0 };
+      group.codes.push(subject.code);
+      group.units += subject.units;
+      groups.set(key, group);
+    }
+    return [...groups.entries()].sort(([, a], [, b]) => compareCurriculumSlots(a.slot, b.slot));
+  }, [slots, subjectsById]);
+
+  const handleSave = () => {
+    if (!version.trim()) {
+      setError("Version is required (e.g. 2024).");
+      return;
+    }
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const data: CurriculumInput = {
+      version,
+      isCurrent,
+      subjects: [...slots.entries()].map(([subjectId, s]) => ({ subjectId, ...s })),
+    };
+    if (isEdit && curriculumId) updateMut.mutate({ id: curriculumId, data });
+    else if (program) createMut.mutate({ programId: program.id, data });
+  };
+
+  const isBusy = createMut.isPending || updateMut.isPending;
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalSheet}>
+          <View style={styles.modalHeader}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.modalTitle}>{isEdit ? "Edit Curriculum" : "New Curriculum"}</Text>
+              {program && <Text style={styles.modalSubtitle}>{program.code} · {program.name}</Text>}
+            </View>
+            <Pressable onPress={onClose}><Ionicons name="close" size={24} color={Colors.text} /></Pressable>
+          </View>
+          {isEdit && isLoading ? (
+            <View style={styles.modalLoading}><ActivityIndicator size="large" color={Colors.primary} /></View>
+          ) : (
+            <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+              {!!error && (
+                <View style={styles.modalError}>
+                  <Ionicons name="alert-circle" size={15} color={Colors.error} />
+                  <Text style={styles.modalErrorText}>{error}</Text>
+                </View>
+              )}
+              <FormField label="Version *" value={version} onChangeText={(v) => { setVersion(v); setError(""); }} placeholder="e.g. 2024" />
+              <View style={styles.switchRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.formLabel}>Current version</Text>
+                  <Text style={styles.formHint}>Students without an assigned version follow the current one.</Text>
+                </View>
+                <Switch
+                  value={isCurrent}
+                  onValueChange={setIsCurrent}
+                  disabled={isEdit && detail?.isCurrent}
+                  trackColor={{ true: Colors.primary }}
+                />
+              </View>
+
+              <Text style={styles.formLabel}>Year Level</Text>
+              <View style={[styles.chipGrid, { marginBottom: 10 }]}>
+                {YEAR_LEVELS.map((y) => {
+                  const active = slot.yearLevel === y;
+                  return (
+                    <Pressable key={y} style={[styles.chip, active && styles.chipActive]} onPress={() => setSlot((s) => ({ ...s, yearLevel: y }))}>
+                      <Text style={[styles.chipText, active && styles.chipTextActive]}>{y}</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              <Text style={styles.formLabel}>Semester</Text>
+              <View style={[styles.chipGrid, { marginBottom: 14 }]}>
+                {CURRICULUM_SEMESTERS.map((sem) => {
+                  const active = slot.semester === sem;
+                  return (
+                    <Pressable key={sem} style={[styles.chip, active && styles.chipActive]} onPress={() => setSlot((s) => ({ ...s, semester: sem }))}>
+                      <Text style={[styles.chipText, active && styles.chipTextActive]}>{sem}</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+
+              <Text style={styles.formLabel}>Subjects for {slot.yearLevel}, {slot.semester}</Text>
+              {subjects.length === 0 ? (
+                <Text style={styles.formHint}>No subjects in the catalog yet.</Text>
+              ) : (
+                <View style={styles.chipGrid}>
+                  {subjects.map((s) => {
+                    const placed = slots.get(s.id);
+                    const here = placed?.yearLevel === slot.yearLevel && placed?.semester === slot.semester;
+                    return (
+                      <Pressable
+                        key={s.id}
+                        style={[styles.chip, here && styles.chipActive, placed && !here && styles.chipElsewhere]}
+                        onPress={() => toggleSubject(s.id)}
+                      >
+                        <Text style={[styles.chipText, here && styles.chipTextActive, placed && !here && styles.chipTextElsewhere]}>
+                          {s.code}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              )}
+              <Text style={[styles.formHint, { marginTop: 6 }]}>Subjects already placed in another term are faded; tap one to move it here.</Text>
+
+              <View style={styles.summaryBox}>
+                <Text style={styles.summaryTitle}>{slots.size} subjects · {totalUnits} units</Text>
+                {summary.map(([key, group]) => (
+                  <Text key={key} style={styles.summaryLine}>
+                    <Text style={styles.summaryLineLabel}>{key} ({group.units} u): </Text>
+                    {group.codes.join(", ")}
+                  </Text>
+                ))}
+              </View>
+
+              <Pressable style={[styles.saveButton, isBusy && { opacity: 0.7 }]} onPress={handleSave} disabled={isBusy}>
+                {isBusy ? <ActivityIndicator color={Colors.white} size="small" /> : <Text style={styles.saveButtonText}>{isEdit ? "Save Changes" : "Add Curriculum"}</Text>}
+              </Pressable>
+              <View style={{ height: 24 }} />
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+function FormField({ label, value, onChangeText, placeholder, autoCapitalize }: {
+  label: string; value: string; onChangeText: (v: string) => void; placeholder?: string;
+  autoCapitalize?: "none" | "sentences" | "words" | "characters";
+}) {
+  return (
+    <View style={styles.formField}>
+      <Text style={styles.formLabel}>{label}</Text>
+      <TextInput
+        style={styles.formInput} value={value} onChangeText={onChangeText}
+        placeholder={placeholder} placeholderTextColor={Colors.textTertiary}
+        autoCapitalize={autoCapitalize}
+      />
+    </View>
+  );
+}
+
+function ProgramCard({ item, index, onEdit, onDelete, onAddCurriculum, onOpenCurriculum, onDeleteCurriculum }: {
+  item: ProgramListItem; index: number;
+  onEdit: (p: ProgramListItem) => void; onDelete: (p: ProgramListItem) => void;
+  onAddCurriculum: (p: ProgramListItem) => void;
+  onOpenCurriculum: (p: ProgramListItem, c: CurriculumSummary) => void;
+  onDeleteCurriculum: (c: CurriculumSummary) => void;
+}) {
+  return (
+    <Animated.View entering={FadeInDown.delay(index * 50).duration(350)}>
+      <View style={styles.card}>
+        <View style={styles.cardTop}>
+          <View style={styles.cardContent}>
+            <Text style={styles.cardCode}>{item.code}</Text>
+            <Text style={styles.cardTitle}>{item.name}</Text>
+          </View>
+          <View style={styles.cardActions}>
+            <Pressable style={[styles.actionBtn, { backgroundColor: "#EBF0F9" }]} onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); onEdit(item); }}>
+              <Ionicons name="pencil" size={15} color={Colors.primary} />
+            </Pressable>
+            <Pressable style={[styles.actionBtn, { backgroundColor: "#FEF2F2" }]} onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium); onDelete(item); }}>
+              <Ionicons name="trash" size={15} color={Colors.error} />
+            </Pressable>
+          </View>
+        </View>
+        {item.curricula.map((c) => (
+          <Pressable key={c.id} style={styles.versionRow} onPress={() => onOpenCurriculum(item, c)}>
+            <Ionicons name="git-branch-outline" size={16} color={Colors.textSecondary} />
+            <Text style={styles.versionName}>{c.version}</Text>
+            {c.isCurrent && (
+              <View style={styles.currentBadge}><Text style={styles.currentBadgeText}>Current</Text></View>
+            )}
+            <Text style={styles.versionMeta}>{c.subjectCount} subjects · {c.totalUnits} units</Text>
+            <Pressable hitSlop={8} onPress={() => onDeleteCurriculum(c)}>
+              <Ionicons name="close-circle-outline" size={18} color={Colors.textTertiary} />
+            </Pressable>
+          </Pressable>
+        ))}
+        <Pressable style={styles.addVersionBtn} onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); onAddCurriculum(item); }}>
+          <Ionicons name="add" size={16} color={Colors.primary} />
+          <Text style={styles.addVersionText}>Add Curriculum Version</Text>
+        </Pressable>
+      </View>
+    </Animated.View>
+  );
+}
+
+export default function ProgramsScreen() {
+  const insets = useSafeAreaInsets();
+  const qc = useQueryClient();
+  const [programModal, setProgramModal] = useState(false);
+  const [editProgram, setEditProgram] = useState<ProgramListItem | null>(null);
+  const [curriculumModal, setCurriculumModal] = useState(false);
+  const [curriculumProgram, setCurriculumProgram] = useState<ProgramListItem | null>(null);
+  const [curriculumId, setCurriculumId] = useState<string | null>(null);
+
+  const webTopInset = Platform.OS === "web" ? 67 : 0;
+  const webBottomInset = Platform.OS === "web" ? 34 : 0;
+
+  const { data: programs = [], isLoading } = useQuery({
+    queryKey: ["admin-programs"],
+    queryFn: adminProgramsApi.list,
+  });
+  const { data: subjects = [] } = useQuery({
+    queryKey: ["admin-subjects"],
+    queryFn: adminSubjectsApi.list,
+  });
+
+  const deleteMut = useMutation({
+    mutationFn: adminProgramsApi.delete,
+    onSuccess: () => invalidateCurricula(qc),
+    onError: (e: any) => Alert.alert("Cannot Delete", e.message),
+  });
+  const deleteCurriculumMut = useMutation({
+    mutationFn: adminProgramsApi.deleteCurriculum,
+    onSuccess: () => invalidateCurricula(qc),
+    onError: (e: any) => Alert.alert("Cannot Delete", e.message),
+  });
+
+  const confirm = (title: string, message: string, onConfirm: () => void) => {
+    const doDelete = () => { Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning); onConfirm(); };
+    if (Platform.OS === "web") { doDelete(); return; }
+    Alert.alert(title, message, [
+      { text: "Cancel", style: "cancel" }, { text: "Delete", style: "destructive", onPress: doDelete },
+    ]);
+  };
+
+  const openCurriculum = (program: ProgramListItem, id: string | null) => {
+    setCurriculumProgram(program);
+    setCurriculumId(id);
+    setCurriculumModal(true);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 12 + webTopInset }]}>
+        <View style={styles.headerRow}>
+          <View>
+            <Text style={styles.headerTitle}>Programs</Text>
+            <Text style={styles.headerSubtitle}>{programs.length} programs · curricula by version</Text>
+          </View>
+          <Pressable style={styles.addButton} onPress={() => { setEditProgram(null); setProgramModal(true); }}>
+            <Ionicons name="add" size={22} color={Colors.white} />
+          </Pressable>
+        </View>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}><ActivityIndicator size="large" color={Colors.primary} /></View>
+      ) : (
+        <FlatList
+          data={programs}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item, index }) => (
+            <ProgramCard
+              item={item} index={index}
+              onEdit={(p) => { setEditProgram(p); setProgramModal(true); }}
+              onDelete={(p) => confirm("Delete Program", `Delete ${p.code}?`, () => deleteMut.mutate(p.id))}
+              onAddCurriculum={(p) => openCurriculum(p, null)}
+              onOpenCurriculum={(p, c) => openCurriculum(p, c.id)}
+              onDeleteCurriculum={(c) => confirm(
+                "Delete Curriculum",
+                `Delete the ${c.version} curriculum? Students assigned to it will follow the current version.`,
+                () => deleteCurriculumMut.mutate(c.id),
+              )}
+            />
+          )}
+          contentContainerStyle={[styles.listContent, { paddingBottom: 100 + webBottomInset }]}
+          showsVerticalScrollIndicator={false}
+          scrollEnabled={!!programs.length}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Ionicons name="school-outline" size={48} color={Colors.textTertiary} />
+              <Text style={styles.emptyTitle}>No Programs</Text>
+              <Text style={styles.emptySubtitle}>Tap + to add a program</Text>
+            </View>
+          }
+        />
+      )}
+
+      <ProgramModal
+        visible={programModal}
+        onClose={() => { setProgramModal(false); setEditProgram(null); }}
+        editProgram={editProgram}
+      />
+      <CurriculumModal
+        visible={curriculumModal}
+        onClose={() => { setCurriculumModal(false); setCurriculumId(null); }}
+        program={curriculumProgram}
+        curriculumId={curriculumId}
+        subjects={subjects}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.background },
+  header: {
+    backgroundColor: Colors.white, paddingHorizontal: 16,
+    paddingBottom: 12, borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  headerRow: { flexDirection: "row", justifyContent: "space-between", alignItems: "flex-start" },
+  headerTitle: { fontFamily: "Inter_700Bold", fontSize: 26, color: Colors.text },
+  headerSubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, marginTop: 2 },
+  addButton: { width: 44, height: 44, borderRadius: 22, backgroundColor: Colors.primary, justifyContent: "center", alignItems: "center" },
+  listContent: { padding: 12, gap: 10 },
+  loadingContainer: { flex: 1, justifyContent: "center", alignItems: "center" },
+  card: {
+    backgroundColor: Colors.white, borderRadius: 14, padding: 14, gap: 8,
+    shadowColor: Colors.cardShadow, shadowOffset: { width: 0, height: 2 }, shadowOpacity: 1, shadowRadius: 8, elevation: 2,
+  },
+  cardTop: { flexDirection: "row", alignItems: "center" },
+  cardContent: { flex: 1 },
+  cardCode: { fontFamily: "Inter_700Bold", fontSize: 12, color: Colors.primary, letterSpacing: 0.5 },
+  cardTitle: { fontFamily: "Inter_600SemiBold", fontSize: 14, color: Colors.text, marginTop: 2 },
+  cardActions: { flexDirection: "row", gap: 8 },
+  actionBtn: { width: 32, height: 32, borderRadius: 8, justifyContent: "center", alignItems: "center" },
+  versionRow: {
+    flexDirection: "row", alignItems: "center", gap: 8,
+    backgroundColor: Colors.surfaceSecondary, borderRadius: 10, paddingHorizontal: 12, paddingVertical: 10,
+  },
+  versionName: { fontFamily: "Inter_600SemiBold", fontSize: 13, color: Colors.text },
+  versionMeta: { flex: 1, fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary, textAlign: "right" },
+  currentBadge: { backgroundColor: "#DCFCE7", borderRadius: 6, paddingHorizontal: 6, paddingVertical: 2 },
+  currentBadgeText: { fontFamily: "Inter_600SemiBold", fontSize: 10, color: Colors.success },
+  addVersionBtn: { flexDirection: "row", alignItems: "center", justifyContent: "center", gap: 4, paddingVertical: 8 },
+  addVersionText: { fontFamily: "Inter_600SemiBold", fontSize: 13, color: Colors.primary },
+  emptyState: { alignItems: "center", paddingTop: 60, gap: 8 },
+  emptyTitle: { fontFamily: "Inter_600SemiBold", fontSize: 16, color: Colors.text },
+  emptySubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary },
+  modalOverlay: { flex: 1, backgroundColor: Colors.overlay, justifyContent: "flex-end" },
+  modalSheet: { backgroundColor: Colors.white, borderTopLeftRadius: 24, borderTopRightRadius: 24, maxHeight: "90%" },
+  modalHeader: {
+    flexDirection: "row", justifyContent: "space-between", alignItems: "center",
+    paddingHorizontal: 20, paddingTop: 20, paddingBottom: 12,
+    borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  modalTitle: { fontFamily: "Inter_700Bold", fontSize: 18, color: Colors.text },
+  modalSubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, marginTop: 2 },
+  modalBody: { padding: 20 },
+  modalLoading: { paddingVertical: 60, alignItems: "center" },
+  modalError: {
+    flexDirection: "row", alignItems: "center", gap: 8,
+    backgroundColor: "#FEF2F2", padding: 12, borderRadius: 10, marginBottom: 12,
+  },
+  modalErrorText: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.error, flex: 1 },
+  formField: { marginBottom: 14 },
+  formLabel: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text, marginBottom: 6 },
+  formHint: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textTertiary },
+  formInput: {
+    fontFamily: "Inter_400Regular", fontSize: 14, color: Colors.text,
+    backgroundColor: Colors.surfaceSecondary, borderRadius: 10,
+    paddingHorizontal: 14, paddingVertical: 12, borderWidth: 1, borderColor: Colors.border,
+  },
+  switchRow: { flexDirection: "row", alignItems: "center", gap: 12, marginBottom: 16 },
+  chipGrid: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
+  chip: {
+    paddingHorizontal: 14, paddingVertical: 8, borderRadius: 20,
+    backgroundColor: Colors.surfaceSecondary, borderWidth: 1, borderColor: Colors.border,
+  },
+  chipActive: { backgroundColor: Colors.primary, borderColor: Colors.primary },
+  chipElsewhere: { backgroundColor: "#EBF0F9", borderColor: "#EBF0F9" },
+  chipText: { fontFamily: "Inter_500Medium", fontSize: 12, color: Colors.text },
+  chipTextActive: { color: Colors.white },
+  chipTextElsewhere: { color: Colors.textTertiary },
+  summaryBox: { backgroundColor: Colors.surfaceSecondary, borderRadius: 12, padding: 12, marginTop: 16, gap: 4 },
+  summaryTitle: { fontFamily: "Inter_600SemiBold", fontSize: 13, color: Colors.text, marginBottom: 2 },
+  summaryLine: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary },
+  summaryLineLabel: { fontFamily: "Inter_600SemiBold", color: Colors.text },
+  saveButton: { backgroundColor: Colors.primary, borderRadius: 12, paddingVertical: 14, alignItems: "center", marginTop: 12 },
+  saveButtonText: { fontFamily: "Inter_700Bold", fontSize: 15, color: Colors.white },
+});
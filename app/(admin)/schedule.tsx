@@ -8,7 +8,14 @@ import { Ionicons } from "@expo/vector-icons";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import * as Haptics from "expo-haptics";
 import Animated, { FadeInDown } from "react-native-reanimated";
-import { adminScheduleApi, type ScheduleRecord } from "@/lib/api";
+import {
+  adminScheduleApi, adminSubjectsApi, adminSectionsApi, adminFacultyApi, termsApi, getScheduleConflicts,
+  type ScheduleRecord, type ScheduleInput, type ScheduleConflict, type TermRecord, type ScheduleOverrideInput,
+  type ScheduleOverrideRecord,
+} from "@/lib/api";
+import { calendarFileName, formatTimeOfDay, formatTimeRange, parseTimeOfDay } from "@shared/schedule";
+import { formatEventDates } from "@shared/calendar";
+import { OVERRIDE_TYPES, OVERRIDE_TYPE_LABELS, type OverrideType } from "@shared/overrides";
 import Colors from "@/constants/colors";
 import { DAYS } from "@/constants/data";
 
@@ -18,64 +25,118 @@ const DAY_COLORS: Record<string, string> = {
 };
 
 interface ScheduleFormData {
-  subjectCode: string; subjectName: string; days: string[];
-  timeStart: string; timeEnd: string; room: string; instructor: string;
+  subjectId: string; termId: string; sectionId: string; days: string[];
+  timeStart: string; timeEnd: string; room: string; instructorId: string; instructor: string;
 }
 
 const emptyForm: ScheduleFormData = {
-  subjectCode: "", subjectName: "", days: [],
-  timeStart: "", timeEnd: "", room: "", instructor: "",
+  subjectId: "", termId: "", sectionId: "", days: [],
+  timeStart: "", timeEnd: "", room: "", instructorId: "", instructor: "",
+};
+
+const toForm = (item: ScheduleRecord): ScheduleFormData => ({
+  subjectId: item.subjectId ?? "",
+  termId: item.termId ?? "",
+  sectionId: item.sectionId ?? "",
+  days: item.days,
+  timeStart: formatTimeOfDay(item.startMinutes), timeEnd: formatTimeOfDay(item.endMinutes),
+  room: item.room, instructorId: item.instructorId ?? "", instructor: item.instructor,
+});
+
+// A class in a section enrolls the section's students, so saving one changes enrollments too
+const invalidateScheduleQueries = (qc: ReturnType<typeof useQueryClient>) => {
+  qc.invalidateQueries({ queryKey: ["admin-schedule"] });
+  qc.invalidateQueries({ queryKey: ["admin-enrollments"] });
 };
 
-function ScheduleModal({ visible, onClose, editItem }: {
+function ScheduleModal({ visible, onClose, editItem, terms, defaultTermId }: {
   visible: boolean; onClose: () => void; editItem?: ScheduleRecord | null;
+  terms: TermRecord[]; defaultTermId: string;
 }) {
   const qc = useQueryClient();
   const isEdit = !!editItem;
-  const [form, setForm] = useState<ScheduleFormData>(
-    editItem ? { ...editItem, days: editItem.day.split(',').map(d => d.trim()).filter(Boolean) } : emptyForm
-  );
+  const [form, setForm] = useState<ScheduleFormData>(editItem ? toForm(editItem) : { ...emptyForm, termId: defaultTermId });
   const [error, setError] = useState("");
+  const [conflicts, setConflicts] = useState<ScheduleConflict[] | null>(null);
 
   useEffect(() => {
     if (visible) {
-      setForm(editItem ? { ...editItem, days: editItem.day.split(',').map(d => d.trim()).filter(Boolean) } : emptyForm);
+      setForm(editItem ? toForm(editItem) : { ...emptyForm, termId: defaultTermId });
       setError("");
     }
-  }, [visible, editItem]);
+  }, [visible, editItem, defaultTermId]);
+
+  // Any edit invalidates the conflicts reported for the previous attempt
+  useEffect(() => {
+    setConflicts(null);
+  }, [form]);
+
+  const onSaveError = (e: any) => {
+    const found = getScheduleConflicts(e);
+    if (found) { setConflicts(found); setError(""); }
+    else setError(e.message);
+  };
+
+  const { data: subjects = [] } = useQuery({
+    queryKey: ["admin-subjects"],
+    queryFn: adminSubjectsApi.list,
+    enabled: visible,
+  });
+
+  const { data: sections = [] } = useQuery({
+    queryKey: ["admin-sections"],
+    queryFn: adminSectionsApi.list,
+    enabled: visible,
+  });
+
+  const { data: faculty = [] } = useQuery({
+    queryKey: ["admin-faculty"],
+    queryFn: adminFacultyApi.list,
+    enabled: visible,
+  });
 
   const createMut = useMutation({
     mutationFn: adminScheduleApi.create,
-    onSuccess: () => { qc.invalidateQueries({ queryKey: ["admin-schedule"] }); qc.invalidateQueries({ queryKey: ["admin-stats"] }); onClose(); },
-    onError: (e: any) => setError(e.message),
+    onSuccess: () => { invalidateScheduleQueries(qc); qc.invalidateQueries({ queryKey: ["admin-stats"] }); onClose(); },
+    onError: onSaveError,
   });
   const updateMut = useMutation({
-    mutationFn: ({ id, data }: { id: string; data: Partial<ScheduleRecord> }) => adminScheduleApi.update(id, data),
-    onSuccess: () => { qc.invalidateQueries({ queryKey: ["admin-schedule"] }); onClose(); },
-    onError: (e: any) => setError(e.message),
+    mutationFn: ({ id, data }: { id: string; data: ScheduleInput }) => adminScheduleApi.update(id, data),
+    onSuccess: () => { invalidateScheduleQueries(qc); onClose(); },
+    onError: onSaveError,
   });
 
-  const field = (key: keyof Omit<ScheduleFormData, "days">) => ({
+  const field = (key: keyof Omit<ScheduleFormData, "days" | "subjectId" | "termId" | "sectionId" | "instructorId">) => ({
     value: form[key],
     onChangeText: (v: string) => { setForm((f) => ({ ...f, [key]: v })); setError(""); },
   });
 
-  const handleSave = () => {
-    if (!form.subjectCode.trim() || form.days.length === 0 || !form.timeStart.trim() || !form.timeEnd.trim()) {
-      setError("Subject Code, at least one Day, Start Time, and End Time are required."); return;
+  const handleSave = (override = false) => {
+    if (!form.subjectId || form.days.length === 0 || !form.timeStart.trim() || !form.timeEnd.trim()) {
+      setError("Subject, at least one Day, Start Time, and End Time are required."); return;
+    }
+    const startMinutes = parseTimeOfDay(form.timeStart);
+    const endMinutes = parseTimeOfDay(form.timeEnd);
+    if (startMinutes === null || endMinutes === null) {
+      setError("Enter times like 7:30 AM or 13:00."); return;
+    }
+    if (endMinutes <= startMinutes) {
+      setError("End Time must be after Start Time."); return;
     }
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
 
-    const payload = {
-      ...form,
-      day: form.days.join(', ')
+    const payload: ScheduleInput = {
+      subjectId: form.subjectId, termId: form.termId, sectionId: form.sectionId,
+      room: form.room, instructorId: form.instructorId || null, instructor: form.instructor,
+      days: form.days, startMinutes, endMinutes,
+      override,
     };
-    delete (payload as any).days;
 
-    if (isEdit && editItem) { updateMut.mutate({ id: editItem.id, data: payload as Partial<ScheduleRecord> }); }
-    else { createMut.mutate(payload as any); }
+    if (isEdit && editItem) { updateMut.mutate({ id: editItem.id, data: payload }); }
+    else { createMut.mutate(payload); }
   };
 
+  const selectedSubject = subjects.find((sub) => sub.id === form.subjectId);
   const isBusy = createMut.isPending || updateMut.isPending;
 
   return (
@@ -93,9 +154,83 @@ function ScheduleModal({ visible, onClose, editItem }: {
                 <Text style={styles.modalErrorText}>{error}</Text>
               </View>
             )}
-            <SFormField label="Subject Code *" {...field("subjectCode")} placeholder="e.g. IT 301" />
-            <SFormField label="Subject Name" {...field("subjectName")} placeholder="e.g. Web Development" />
-            <SFormField label="Instructor" {...field("instructor")} placeholder="e.g. Prof. Garcia" />
+            <View style={styles.formField}>
+              <Text style={styles.formLabel}>Subject *</Text>
+              {subjects.length === 0 ? (
+                <Text style={styles.formHint}>Add subjects to the catalog first.</Text>
+              ) : (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  {subjects.map((sub) => (
+                    <Pressable
+                      key={sub.id}
+                      style={[styles.subjectChip, form.subjectId === sub.id && styles.subjectChipActive]}
+                      onPress={() => { setForm((f) => ({ ...f, subjectId: sub.id })); setError(""); }}
+                    >
+                      <Text style={[styles.dayChipText, form.subjectId === sub.id && { color: Colors.white }]}>{sub.code}</Text>
+                    </Pressable>
+                  ))}
+                </ScrollView>
+              )}
+              {!!selectedSubject && <Text style={styles.formHint}>{selectedSubject.title}</Text>}
+            </View>
+            <View style={styles.formField}>
+              <Text style={styles.formLabel}>Term</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                {terms.map((term) => (
+                  <Pressable
+                    key={term.id}
+                    style={[styles.subjectChip, form.termId === term.id && styles.subjectChipActive]}
+                    onPress={() => setForm((f) => ({ ...f, termId: term.id }))}
+                  >
+                    <Text style={[styles.dayChipText, form.termId === term.id && { color: Colors.white }]}>{term.name}</Text>
+                  </Pressable>
+                ))}
+              </ScrollView>
+            </View>
+            <View style={styles.formField}>
+              <Text style={styles.formLabel}>Section</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                <Pressable
+                  style={[styles.subjectChip, !form.sectionId && styles.subjectChipActive]}
+                  onPress={() => setForm((f) => ({ ...f, sectionId: "" }))}
+                >
+                  <Text style={[styles.dayChipText, !form.sectionId && { color: Colors.white }]}>None</Text>
+                </Pressable>
+                {sections.map((sec) => (
+                  <Pressable
+                    key={sec.id}
+                    style={[styles.subjectChip, form.sectionId === sec.id && styles.subjectChipActive]}
+                    onPress={() => setForm((f) => ({ ...f, sectionId: sec.id }))}
+                  >
+                    <Text style={[styles.dayChipText, form.sectionId === sec.id && { color: Colors.white }]}>{sec.name}</Text>
+                  </Pressable>
+                ))}
+              </ScrollView>
+            </View>
+            <View style={styles.formField}>
+              <Text style={styles.formLabel}>Instructor</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                <Pressable
+                  style={[styles.subjectChip, !form.instructorId && styles.subjectChipActive]}
+                  onPress={() => setForm((f) => ({ ...f, instructorId: "" }))}
+                >
+                  <Text style={[styles.dayChipText, !form.instructorId && { color: Colors.white }]}>Other</Text>
+                </Pressable>
+                {faculty.map((fac) => (
+                  <Pressable
+                    key={fac.id}
+                    style={[styles.subjectChip, form.instructorId === fac.id && styles.subjectChipActive]}
+                    onPress={() => setForm((f) => ({ ...f, instructorId: fac.id, instructor: `${fac.firstName} ${fac.lastName}` }))}
+                  >
+                    <Text style={[styles.dayChipText, form.instructorId === fac.id && { color: Colors.white }]}>
+                      {fac.firstName} {fac.lastName}
+                    </Text>
+                  </Pressable>
+                ))}
+              </ScrollView>
+              {!!form.instructorId && <Text style={styles.formHint}>The class appears in this instructor&apos;s faculty app</Text>}
+            </View>
+            {!form.instructorId && <SFormField label="Instructor Name" {...field("instructor")} placeholder="e.g. Prof. Garcia" />}
             <SFormField label="Room" {...field("room")} placeholder="e.g. CL-201" />
             <SFormField label="Start Time *" {...field("timeStart")} placeholder="e.g. 7:30 AM" />
             <SFormField label="End Time *" {...field("timeEnd")} placeholder="e.g. 9:00 AM" />
@@ -116,8 +251,286 @@ function ScheduleModal({ visible, onClose, editItem }: {
                 ))}
               </View>
             </View>
-            <Pressable style={[styles.saveButton, isBusy && { opacity: 0.7 }]} onPress={handleSave} disabled={isBusy}>
-              {isBusy ? <ActivityIndicator color={Colors.white} size="small" /> : <Text style={styles.saveButtonText}>{isEdit ? "Save Changes" : "Add Schedule"}</Text>}
+            {!!conflicts && (
+              <View style={styles.conflictBox}>
+                <View style={styles.conflictHeader}>
+                  <Ionicons name="warning" size={16} color={Colors.warning} />
+                  <Text style={styles.conflictTitle}>
+                    Conflicts with {conflicts.length} existing class{conflicts.length !== 1 ? "es" : ""}
+                  </Text>
+                </View>
+                {conflicts.map(({ item, reasons }) => (
+                  <View key={item.id} style={styles.conflictRow}>
+                    <Text style={styles.conflictCode}>{item.subjectCode}</Text>
+                    <Text style={styles.conflictMeta}>
+                      {item.days.join(", ")} · {formatTimeRange(item.startMinutes, item.endMinutes)} · {item.room || "TBA"} · {item.instructor || "TBA"}
+                    </Text>
+                    <View style={styles.reasonRow}>
+                      {reasons.map((r) => (
+                        <View key={r} style={styles.reasonTag}>
+                          <Text style={styles.reasonTagText}>Same {r}</Text>
+                        </View>
+                      ))}
+                    </View>
+                  </View>
+                ))}
+              </View>
+            )}
+            <Pressable
+              style={[styles.saveButton, !!conflicts && styles.saveButtonWarning, isBusy && { opacity: 0.7 }]}
+              onPress={() => handleSave(!!conflicts)}
+              disabled={isBusy}
+            >
+              {isBusy ? <ActivityIndicator color={Colors.white} size="small" /> : (
+                <Text style={styles.saveButtonText}>{conflicts ? "Save Anyway" : isEdit ? "Save Changes" : "Add Schedule"}</Text>
+              )}
+            </Pressable>
+            <View style={{ height: 24 }} />
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+// Rooms booked in the term, each exportable as an .ics feed
+function RoomCalendarModal({ visible, onClose, items, term }: {
+  visible: boolean; onClose: () => void; items: ScheduleRecord[]; term?: TermRecord;
+}) {
+  const [error, setError] = useState("");
+
+  const rooms = new Map<string, { room: string; count: number }>();
+  for (const item of items) {
+    const key = item.room.trim().toLowerCase();
+    if (!key || key === "tba") continue;
+    const entry = rooms.get(key) ?? { room: item.room.trim(), count: 0 };
+    entry.count++;
+    rooms.set(key, entry);
+  }
+  const roomList = [...rooms.values()].sort((a, b) => a.room.localeCompare(b.room));
+
+  const exportMut = useMutation({
+    mutationFn: (room: string) =>
+      adminScheduleApi.downloadRoomCalendar(room, term?.id, calendarFileName(`${room} ${term?.name ?? ""}`)),
+    onError: (e: any) => setError(e.message),
+  });
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalSheet}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Room Calendars</Text>
+            <Pressable onPress={onClose}><Ionicons name="close" size={24} color={Colors.text} /></Pressable>
+          </View>
+          <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+            {!!error && (
+              <View style={styles.modalError}>
+                <Ionicons name="alert-circle" size={15} color={Colors.error} />
+                <Text style={styles.modalErrorText}>{error}</Text>
+              </View>
+            )}
+            <Text style={[styles.formHint, { marginTop: 0, marginBottom: 10 }]}>
+              Export every booking in a room{term ? ` for ${term.name}` : ""} as an .ics calendar.
+            </Text>
+            {roomList.length === 0 ? (
+              <Text style={styles.formHint}>No rooms are booked this term.</Text>
+            ) : roomList.map(({ room, count }) => (
+              <Pressable
+                key={room}
+                style={styles.roomRow}
+                disabled={exportMut.isPending}
+                onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); setError(""); exportMut.mutate(room); }}
+              >
+                <Ionicons name="location-outline" size={16} color={Colors.primary} />
+                <Text style={styles.roomName}>{room}</Text>
+                <Text style={styles.roomCount}>{count} class{count !== 1 ? "es" : ""}</Text>
+                {exportMut.isPending && exportMut.variables === room
+                  ? <ActivityIndicator size="small" color={Colors.primary} />
+                  : <Ionicons name="download-outline" size={18} color={Colors.primary} />}
+              </Pressable>
+            ))}
+            <View style={{ height: 24 }} />
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const OVERRIDE_COLORS: Record<OverrideType, string> = {
+  cancelled: Colors.error, rescheduled: Colors.warning, makeup: "#059669",
+};
+
+interface OverrideFormData {
+  type: OverrideType; date: string; newDate: string; timeStart: string; timeEnd: string; room: string; reason: string;
+}
+
+const emptyOverrideForm: OverrideFormData = {
+  type: "cancelled", date: "", newDate: "", timeStart: "", timeEnd: "", room: "", reason: "",
+};
+
+const formatDay = (date: string) => formatEventDates({ startDate: date, endDate: date });
+
+// "Mon, Oct 19" for a cancellation; where the meeting happens for the others
+function describeOverride(o: ScheduleOverrideRecord, item: ScheduleRecord): string {
+  if (o.type === "cancelled") return formatDay(o.date);
+  const where = [
+    formatTimeRange(o.startMinutes ?? item.startMinutes, o.endMinutes ?? item.endMinutes),
+    o.room || item.room || "TBA",
+  ].join(" · ");
+  if (o.type === "makeup") return `${formatDay(o.date)} · ${where}`;
+  return `${formatDay(o.date)} → ${o.newDate && o.newDate !== o.date ? `${formatDay(o.newDate)} · ` : ""}${where}`;
+}
+
+// One-off changes to single meetings of a class: cancel a day, move it to
+// another date, time or room, or add a make-up meeting
+function OverridesModal({ visible, onClose, item }: {
+  visible: boolean; onClose: () => void; item: ScheduleRecord | null;
+}) {
+  const qc = useQueryClient();
+  const [form, setForm] = useState<OverrideFormData>(emptyOverrideForm);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (visible) { setForm(emptyOverrideForm); setError(""); }
+  }, [visible, item]);
+
+  const { data: overrides = [], isLoading } = useQuery({
+    queryKey: ["schedule-overrides", item?.id],
+    queryFn: () => adminScheduleApi.overrides(item!.id),
+    enabled: visible && !!item,
+  });
+
+  // Overrides change which days there is attendance for
+  const onChanged = () => {
+    qc.invalidateQueries({ queryKey: ["schedule-overrides", item?.id] });
+    qc.invalidateQueries({ queryKey: ["attendance-summary", item?.id] });
+  };
+
+  const createMut = useMutation({
+    mutationFn: (data: ScheduleOverrideInput) => adminScheduleApi.createOverride(item!.id, data),
+    onSuccess: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onChanged();
+      setForm((f) => ({ ...emptyOverrideForm, type: f.type }));
+    },
+    onError: (e: any) => setError(e.message),
+  });
+  const deleteMut = useMutation({
+    mutationFn: (overrideId: string) => adminScheduleApi.deleteOverride(item!.id, overrideId),
+    onSuccess: onChanged,
+    onError: (e: any) => setError(e.message),
+  });
+
+  const field = (key: keyof Omit<OverrideFormData, "type">) => ({
+    value: form[key],
+    onChangeText: (v: string) => { setForm((f) => ({ ...f, [key]: v })); setError(""); },
+  });
+
+  const handleSave = () => {
+    if (!form.date.trim()) { setError("Date is required."); return; }
+    const data: ScheduleOverrideInput = { type: form.type, date: form.date.trim(), reason: form.reason };
+    if (form.type !== "cancelled") {
+      // Blank fields keep the class's usual date, time and room
+      for (const [key, value] of [["startMinutes", form.timeStart], ["endMinutes", form.timeEnd]] as const) {
+        if (!value.trim()) continue;
+        const minutes = parseTimeOfDay(value);
+        if (minutes === null) { setError("Enter times like 7:30 AM or 13:00."); return; }
+        data[key] = minutes;
+      }
+      if (form.room.trim()) data.room = form.room.trim();
+      if (form.type === "rescheduled" && form.newDate.trim()) data.newDate = form.newDate.trim();
+    }
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    createMut.mutate(data);
+  };
+
+  const handleDelete = (o: ScheduleOverrideRecord) => {
+    const doDelete = () => { Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning); deleteMut.mutate(o.id); };
+    if (Platform.OS === "web") { doDelete(); return; }
+    Alert.alert("Remove Change", `Put the ${formatDay(o.date)} meeting back on the usual schedule?`, [
+      { text: "Cancel", style: "cancel" }, { text: "Remove", style: "destructive", onPress: doDelete },
+    ]);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalSheet}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Schedule Changes{item ? ` · ${item.subjectCode}` : ""}</Text>
+            <Pressable onPress={onClose}><Ionicons name="close" size={24} color={Colors.text} /></Pressable>
+          </View>
+          <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+            {!!error && (
+              <View style={styles.modalError}>
+                <Ionicons name="alert-circle" size={15} color={Colors.error} />
+                <Text style={styles.modalErrorText}>{error}</Text>
+              </View>
+            )}
+            {isLoading ? (
+              <ActivityIndicator color={Colors.primary} style={{ marginBottom: 12 }} />
+            ) : overrides.length === 0 ? (
+              <Text style={[styles.formHint, { marginTop: 0, marginBottom: 10 }]}>
+                Every meeting follows the weekly schedule.
+              </Text>
+            ) : overrides.map((o) => (
+              <View key={o.id} style={styles.overrideRow}>
+                <View style={[styles.overrideTag, { backgroundColor: `${OVERRIDE_COLORS[o.type]}1A` }]}>
+                  <Text style={[styles.overrideTagText, { color: OVERRIDE_COLORS[o.type] }]}>{OVERRIDE_TYPE_LABELS[o.type]}</Text>
+                </View>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.overrideWhen}>{item ? describeOverride(o, item) : o.date}</Text>
+                  {!!o.reason && <Text style={styles.conflictMeta}>{o.reason}</Text>}
+                </View>
+                <Pressable
+                  style={[styles.actionBtn, { backgroundColor: "#FEF2F2" }]}
+                  disabled={deleteMut.isPending}
+                  onPress={() => handleDelete(o)}
+                >
+                  <Ionicons name="trash" size={15} color={Colors.error} />
+                </Pressable>
+              </View>
+            ))}
+
+            <Text style={[styles.formLabel, { marginTop: 16 }]}>Add a Change</Text>
+            <View style={[styles.dayGrid, { marginBottom: 14 }]}>
+              {OVERRIDE_TYPES.map((type) => (
+                <Pressable
+                  key={type}
+                  style={[styles.dayChip, form.type === type && { backgroundColor: OVERRIDE_COLORS[type], borderColor: OVERRIDE_COLORS[type] }]}
+                  onPress={() => { setForm((f) => ({ ...f, type })); setError(""); }}
+                >
+                  <Text style={[styles.dayChipText, form.type === type && { color: Colors.white }]}>{OVERRIDE_TYPE_LABELS[type]}</Text>
+                </Pressable>
+              ))}
+            </View>
+            <SFormField
+              label={form.type === "makeup" ? "Make-up Date *" : "Meeting Date *"}
+              {...field("date")}
+              placeholder={item ? `YYYY-MM-DD (${form.type === "makeup" ? "any day" : item.days.join(", ")})` : "YYYY-MM-DD"}
+            />
+            {form.type === "rescheduled" && <SFormField label="New Date" {...field("newDate")} placeholder="Same day if blank" />}
+            {form.type !== "cancelled" && (
+              <>
+                <SFormField label="Start Time" {...field("timeStart")} placeholder={item ? formatTimeOfDay(item.startMinutes) : ""} />
+                <SFormField label="End Time" {...field("timeEnd")} placeholder={item ? formatTimeOfDay(item.endMinutes) : ""} />
+                <SFormField label="Room" {...field("room")} placeholder={item?.room || "e.g. CL-201"} />
+              </>
+            )}
+            <SFormField label="Reason" {...field("reason")} placeholder="Shown to students" />
+            {form.type !== "cancelled" && (
+              <Text style={[styles.formHint, { marginTop: -6 }]}>Blank fields keep the class&apos;s usual time and room.</Text>
+            )}
+            <Pressable
+              style={[styles.saveButton, createMut.isPending && { opacity: 0.7 }]}
+              onPress={handleSave}
+              disabled={createMut.isPending}
+            >
+              {createMut.isPending ? <ActivityIndicator color={Colors.white} size="small" /> : (
+                <Text style={styles.saveButtonText}>Add {OVERRIDE_TYPE_LABELS[form.type]}</Text>
+              )}
             </Pressable>
             <View style={{ height: 24 }} />
           </ScrollView>
@@ -141,10 +554,11 @@ function SFormField({ label, value, onChangeText, placeholder }: {
   );
 }
 
-function ScheduleCard({ item, index, onEdit, onDelete }: {
-  item: ScheduleRecord; index: number; onEdit: (s: ScheduleRecord) => void; onDelete: (s: ScheduleRecord) => void;
+function ScheduleCard({ item, index, sectionName, onEdit, onChanges, onDelete }: {
+  item: ScheduleRecord; index: number; sectionName?: string;
+  onEdit: (s: ScheduleRecord) => void; onChanges: (s: ScheduleRecord) => void; onDelete: (s: ScheduleRecord) => void;
 }) {
-  const days = item.day ? item.day.split(',').map(d => d.trim()).filter(Boolean) : [];
+  const days = item.days;
   return (
     <Animated.View entering={FadeInDown.delay(index * 50).duration(350)}>
       <View style={styles.card}>
@@ -166,7 +580,7 @@ function ScheduleCard({ item, index, onEdit, onDelete }: {
           <View style={styles.cardMeta}>
             <View style={styles.metaItem}>
               <Ionicons name="time-outline" size={13} color={Colors.textTertiary} />
-              <Text style={styles.metaText}>{item.timeStart} – {item.timeEnd}</Text>
+              <Text style={styles.metaText}>{formatTimeRange(item.startMinutes, item.endMinutes)}</Text>
             </View>
             <View style={styles.metaItem}>
               <Ionicons name="location-outline" size={13} color={Colors.textTertiary} />
@@ -176,12 +590,21 @@ function ScheduleCard({ item, index, onEdit, onDelete }: {
               <Ionicons name="person-outline" size={13} color={Colors.textTertiary} />
               <Text style={styles.metaText}>{item.instructor || "TBA"}</Text>
             </View>
+            {!!sectionName && (
+              <View style={styles.metaItem}>
+                <Ionicons name="layers-outline" size={13} color={Colors.textTertiary} />
+                <Text style={styles.metaText}>{sectionName}</Text>
+              </View>
+            )}
           </View>
         </View>
         <View style={styles.cardActions}>
           <Pressable style={[styles.actionBtn, { backgroundColor: "#EBF0F9" }]} onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); onEdit(item); }}>
             <Ionicons name="pencil" size={15} color={Colors.primary} />
           </Pressable>
+          <Pressable style={[styles.actionBtn, { backgroundColor: "#FEF3E2" }]} onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); onChanges(item); }}>
+            <Ionicons name="swap-horizontal" size={15} color={Colors.warning} />
+          </Pressable>
           <Pressable style={[styles.actionBtn, { backgroundColor: "#FEF2F2" }]} onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium); onDelete(item); }}>
             <Ionicons name="trash" size={15} color={Colors.error} />
           </Pressable>
@@ -195,8 +618,11 @@ export default function ScheduleAdminScreen() {
   const insets = useSafeAreaInsets();
   const qc = useQueryClient();
   const [modal, setModal] = useState(false);
+  const [roomModal, setRoomModal] = useState(false);
   const [editItem, setEditItem] = useState<ScheduleRecord | null>(null);
+  const [changesItem, setChangesItem] = useState<ScheduleRecord | null>(null);
   const [filterDay, setFilterDay] = useState<string>("");
+  const [filterTermId, setFilterTermId] = useState<string | null>(null);
 
   const webTopInset = Platform.OS === "web" ? 67 : 0;
   const webBottomInset = Platform.OS === "web" ? 34 : 0;
@@ -206,17 +632,34 @@ export default function ScheduleAdminScreen() {
     queryFn: adminScheduleApi.list,
   });
 
+  const { data: terms = [] } = useQuery({
+    queryKey: ["terms"],
+    queryFn: termsApi.list,
+  });
+
+  const { data: sections = [] } = useQuery({
+    queryKey: ["admin-sections"],
+    queryFn: adminSectionsApi.list,
+  });
+  const sectionNameById = new Map(sections.map((s) => [s.id, s.name]));
+
+  // Show the active term's offerings unless another term is picked
+  const activeTermId = terms.find((t) => t.isActive)?.id ?? "";
+  const termId = filterTermId ?? activeTermId;
+
   const deleteMut = useMutation({
     mutationFn: adminScheduleApi.delete,
     onSuccess: () => { qc.invalidateQueries({ queryKey: ["admin-schedule"] }); qc.invalidateQueries({ queryKey: ["admin-stats"] }); },
+    onError: (e: any) => Alert.alert("Cannot Delete", e.message),
   });
 
-  const displayed = filterDay ? schedule.filter((s) => s.day && s.day.split(',').some(d => d.trim() === filterDay)) : schedule;
+  const inTerm = termId ? schedule.filter((s) => s.termId === termId) : schedule;
+  const displayed = filterDay ? inTerm.filter((s) => s.days.includes(filterDay)) : inTerm;
 
   const handleDelete = (item: ScheduleRecord) => {
     const doDelete = () => { Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning); deleteMut.mutate(item.id); };
     if (Platform.OS === "web") { doDelete(); return; }
-    Alert.alert("Delete Schedule", `Delete schedule for ${item.subjectCode} on ${item.day}?`, [
+    Alert.alert("Delete Schedule", `Delete schedule for ${item.subjectCode} on ${item.days.join(", ")}?`, [
       { text: "Cancel", style: "cancel" }, { text: "Delete", style: "destructive", onPress: doDelete },
     ]);
   };
@@ -227,12 +670,30 @@ export default function ScheduleAdminScreen() {
         <View style={styles.headerRow}>
           <View>
             <Text style={styles.headerTitle}>Schedule</Text>
-            <Text style={styles.headerSubtitle}>{schedule.length} class schedules</Text>
+            <Text style={styles.headerSubtitle}>{inTerm.length} class schedules</Text>
+          </View>
+          <View style={styles.headerActions}>
+            <Pressable style={styles.calendarButton} onPress={() => setRoomModal(true)}>
+              <Ionicons name="calendar-outline" size={20} color={Colors.primary} />
+            </Pressable>
+            <Pressable style={styles.addButton} onPress={() => { setEditItem(null); setModal(true); }}>
+              <Ionicons name="add" size={22} color={Colors.white} />
+            </Pressable>
           </View>
-          <Pressable style={styles.addButton} onPress={() => { setEditItem(null); setModal(true); }}>
-            <Ionicons name="add" size={22} color={Colors.white} />
-          </Pressable>
         </View>
+        {terms.length > 1 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={{ marginBottom: 8 }}>
+            {terms.map((term) => (
+              <Pressable
+                key={term.id}
+                style={[styles.dayFilter, termId === term.id && styles.dayFilterActive]}
+                onPress={() => setFilterTermId(term.id)}
+              >
+                <Text style={[styles.dayFilterText, termId === term.id && styles.dayFilterTextActive]}>{term.name}</Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+        )}
         <ScrollView horizontal showsHorizontalScrollIndicator={false}>
           <Pressable
             style={[styles.dayFilter, !filterDay && styles.dayFilterActive]}
@@ -263,7 +724,9 @@ export default function ScheduleAdminScreen() {
           renderItem={({ item, index }) => (
             <ScheduleCard
               item={item} index={index}
+              sectionName={item.sectionId ? sectionNameById.get(item.sectionId) : undefined}
               onEdit={(s) => { setEditItem(s); setModal(true); }}
+              onChanges={setChangesItem}
               onDelete={handleDelete}
             />
           )}
@@ -284,6 +747,19 @@ export default function ScheduleAdminScreen() {
         visible={modal}
         onClose={() => { setModal(false); setEditItem(null); }}
         editItem={editItem}
+        terms={terms}
+        defaultTermId={termId}
+      />
+      <RoomCalendarModal
+        visible={roomModal}
+        onClose={() => setRoomModal(false)}
+        items={inTerm}
+        term={terms.find((t) => t.id === termId)}
+      />
+      <OverridesModal
+        visible={!!changesItem}
+        onClose={() => setChangesItem(null)}
+        item={changesItem}
       />
     </View>
   );
@@ -298,6 +774,8 @@ const styles = StyleSheet.create({
   headerRow: { flexDirection: "row", justifyContent: "space-between", alignItems: "flex-start", marginBottom: 10 },
   headerTitle: { fontFamily: "Inter_700Bold", fontSize: 26, color: Colors.text },
   headerSubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, marginTop: 2 },
+  headerActions: { flexDirection: "row", gap: 8 },
+  calendarButton: { width: 44, height: 44, borderRadius: 22, backgroundColor: "#EBF0F9", justifyContent: "center", alignItems: "center" },
   addButton: { width: 44, height: 44, borderRadius: 22, backgroundColor: Colors.primary, justifyContent: "center", alignItems: "center" },
   dayFilter: {
     paddingHorizontal: 16, paddingVertical: 8, borderRadius: 20,
@@ -333,6 +811,19 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20, paddingTop: 20, paddingBottom: 12,
     borderBottomWidth: 1, borderBottomColor: Colors.border,
   },
+  roomRow: {
+    flexDirection: "row", alignItems: "center", gap: 8,
+    paddingVertical: 12, borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  roomName: { fontFamily: "Inter_600SemiBold", fontSize: 14, color: Colors.text, flex: 1 },
+  overrideRow: {
+    flexDirection: "row", alignItems: "center", gap: 10,
+    paddingVertical: 10, borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  overrideTag: { paddingHorizontal: 8, paddingVertical: 3, borderRadius: 8 },
+  overrideTagText: { fontFamily: "Inter_600SemiBold", fontSize: 11 },
+  overrideWhen: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text },
+  roomCount: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary },
   modalTitle: { fontFamily: "Inter_700Bold", fontSize: 18, color: Colors.text },
   modalBody: { padding: 20 },
   modalError: {
@@ -342,6 +833,7 @@ const styles = StyleSheet.create({
   modalErrorText: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.error, flex: 1 },
   formField: { marginBottom: 14 },
   formLabel: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text, marginBottom: 6 },
+  formHint: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textTertiary, marginTop: 6 },
   formInput: {
     fontFamily: "Inter_400Regular", fontSize: 14, color: Colors.text,
     backgroundColor: Colors.surfaceSecondary, borderRadius: 10,
@@ -352,7 +844,22 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16, paddingVertical: 8, borderRadius: 20,
     backgroundColor: Colors.surfaceSecondary, borderWidth: 1, borderColor: Colors.border,
   },
+  subjectChip: {
+    paddingHorizontal: 14, paddingVertical: 8, borderRadius: 20, marginRight: 8,
+    backgroundColor: Colors.surfaceSecondary, borderWidth: 1, borderColor: Colors.border,
+  },
+  subjectChipActive: { backgroundColor: Colors.primary, borderColor: Colors.primary },
   dayChipText: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text },
   saveButton: { backgroundColor: Colors.primary, borderRadius: 12, paddingVertical: 14, alignItems: "center", marginTop: 12 },
+  saveButtonWarning: { backgroundColor: Colors.warning },
   saveButtonText: { fontFamily: "Inter_700Bold", fontSize: 15, color: Colors.white },
+  conflictBox: { backgroundColor: "#FEF3E2", borderRadius: 12, padding: 12, gap: 10 },
+  conflictHeader: { flexDirection: "row", alignItems: "center", gap: 8 },
+  conflictTitle: { fontFamily: "Inter_600SemiBold", fontSize: 13, color: Colors.text },
+  conflictRow: { backgroundColor: Colors.white, borderRadius: 10, padding: 10 },
+  conflictCode: { fontFamily: "Inter_700Bold", fontSize: 13, color: Colors.primary },
+  conflictMeta: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary, marginTop: 2 },
+  reasonRow: { flexDirection: "row", gap: 6, marginTop: 6 },
+  reasonTag: { backgroundColor: "#FEF2F2", paddingHorizontal: 8, paddingVertical: 2, borderRadius: 8 },
+  reasonTagText: { fontFamily: "Inter_500Medium", fontSize: 11, color: Colors.error },
 });
@@ -9,11 +9,12 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import * as Haptics from "expo-haptics";
 import Animated, { FadeInDown } from "react-native-reanimated";
 import {
-    adminSectionsApi, adminStudentsApi,
-    type SectionRecord, type StudentRecord,
+    adminSectionsApi, adminStudentsApi, adminSubjectsApi, adminFacultyApi, adminProgramsApi, termsApi, getScheduleConflicts,
+    type SectionRecord,
 } from "@/lib/api";
+import { calendarFileName, formatTimeRange, parseTimeOfDay } from "@shared/schedule";
 import Colors from "@/constants/colors";
-import { COURSES, YEAR_LEVELS } from "@/constants/data";
+import { COURSES, YEAR_LEVELS, DAYS } from "@/constants/data";
 
 // ── Form helpers ──────────────────────────────────────────────────────────────
 
@@ -79,17 +80,33 @@ function SectionModal({ visible, onClose, editSection }: {
 }) {
     const qc = useQueryClient();
     const isEdit = !!editSection;
+    const { data: terms = [] } = useQuery({
+        queryKey: ["terms"],
+        queryFn: termsApi.list,
+        enabled: visible,
+    });
+    const activeSchoolYear = terms.find((t) => t.isActive)?.schoolYear ?? "";
+    // Courses are the programs' names once any programs are set up
+    const { data: programs = [] } = useQuery({
+        queryKey: ["admin-programs"],
+        queryFn: adminProgramsApi.list,
+        enabled: visible,
+    });
+    const courses = programs.length > 0 ? programs.map((p) => p.name) : COURSES;
+
     const [form, setForm] = useState<SectionForm>(
-        editSection ? { ...editSection } : emptySection
+        editSection ? { ...editSection } : { ...emptySection, schoolYear: activeSchoolYear }
     );
     const [error, setError] = useState("");
 
     useEffect(() => {
         if (visible) {
-            setForm(editSection ? { ...editSection } : emptySection);
+            setForm(editSection ? { ...editSection } : { ...emptySection, schoolYear: activeSchoolYear });
             setError("");
         }
-    }, [visible, editSection]);
+    }, [visible, editSection, activeSchoolYear]);
+
+    const schoolYears = [...new Set([...terms.map((t) => t.schoolYear), form.schoolYear].filter(Boolean))];
 
     const field = (key: keyof SectionForm) => ({
         value: form[key],
@@ -136,9 +153,9 @@ function SectionModal({ visible, onClose, editSection }: {
                             </View>
                         )}
                         <FormField label="Section Name *" placeholder="e.g. BSIS-1A" {...field("name")} />
-                        <PickerField label="Course" options={COURSES} value={form.course} onChange={(v) => setForm((f) => ({ ...f, course: v }))} />
+                        <PickerField label="Course" options={courses} value={form.course} onChange={(v) => setForm((f) => ({ ...f, course: v }))} />
                         <PickerField label="Year Level" options={YEAR_LEVELS} value={form.yearLevel} onChange={(v) => setForm((f) => ({ ...f, yearLevel: v }))} />
-                        <FormField label="School Year" placeholder="e.g. 2024-2025" {...field("schoolYear")} />
+                        <PickerField label="School Year" options={schoolYears} value={form.schoolYear} onChange={(v) => setForm((f) => ({ ...f, schoolYear: v }))} />
                         <FormField label="Description" placeholder="Optional notes..." {...field("description")} />
                         <Pressable style={[styles.saveButton, isBusy && { opacity: 0.7 }]} onPress={handleSave} disabled={isBusy}>
                             {isBusy ? <ActivityIndicator color={Colors.white} size="small" /> : (
@@ -153,6 +170,223 @@ function SectionModal({ visible, onClose, editSection }: {
     );
 }
 
+// ── Section Schedule ──────────────────────────────────────────────────────────
+
+interface MeetingForm {
+    subjectId: string;
+    days: string[];
+    timeStart: string;
+    timeEnd: string;
+    room: string;
+    instructorId: string;
+    instructor: string;
+}
+const emptyMeeting: MeetingForm = { subjectId: "", days: [], timeStart: "", timeEnd: "", room: "", instructorId: "", instructor: "" };
+
+function SectionSchedule({ section, visible }: { section: SectionRecord; visible: boolean }) {
+    const qc = useQueryClient();
+    const [adding, setAdding] = useState(false);
+    const [form, setForm] = useState<MeetingForm>(emptyMeeting);
+    const [error, setError] = useState("");
+    const [hasConflicts, setHasConflicts] = useState(false);
+
+    const { data: meetings = [], isLoading } = useQuery({
+        queryKey: ["section-schedule", section.id],
+        queryFn: () => adminSectionsApi.listSchedule(section.id),
+        enabled: visible,
+    });
+    const { data: subjects = [] } = useQuery({
+        queryKey: ["admin-subjects"],
+        queryFn: adminSubjectsApi.list,
+        enabled: visible && adding,
+    });
+    const { data: faculty = [] } = useQuery({
+        queryKey: ["admin-faculty"],
+        queryFn: adminFacultyApi.list,
+        enabled: visible && adding,
+    });
+
+    const onChanged = () => {
+        qc.invalidateQueries({ queryKey: ["section-schedule", section.id] });
+        qc.invalidateQueries({ queryKey: ["admin-schedule"] });
+        qc.invalidateQueries({ queryKey: ["admin-stats"] });
+        qc.invalidateQueries({ queryKey: ["admin-enrollments"] });
+    };
+    const addMut = useMutation({
+        mutationFn: ({ startMinutes, endMinutes, override }: { startMinutes: number; endMinutes: number; override: boolean }) =>
+            adminSectionsApi.addSchedule(section.id, {
+                subjectId: form.subjectId,
+                days: form.days,
+                startMinutes,
+                endMinutes,
+                room: form.room.trim(),
+                instructorId: form.instructorId || null,
+                instructor: form.instructor.trim(),
+                override,
+            }),
+        onSuccess: () => { onChanged(); setForm(emptyMeeting); setAdding(false); setHasConflicts(false); },
+        onError: (e: any) => { setError(e.message); setHasConflicts(!!getScheduleConflicts(e)); },
+    });
+    const removeMut = useMutation({
+        mutationFn: (itemId: string) => adminSectionsApi.removeSchedule(section.id, itemId),
+        onSuccess: onChanged,
+        onError: (e: any) => setError(e.message),
+    });
+    const exportMut = useMutation({
+        mutationFn: () => adminSectionsApi.downloadCalendar(section.id, calendarFileName(section.name)),
+        onError: (e: any) => setError(e.message),
+    });
+
+    const field = (key: "timeStart" | "timeEnd" | "room" | "instructor") => ({
+        value: form[key],
+        onChangeText: (v: string) => { setForm((f) => ({ ...f, [key]: v })); setError(""); setHasConflicts(false); },
+    });
+
+    const handleAdd = () => {
+        if (!form.subjectId || form.days.length === 0 || !form.timeStart.trim() || !form.timeEnd.trim()) {
+            setError("Subject, at least one Day, Start Time, and End Time are required.");
+            return;
+        }
+        const startMinutes = parseTimeOfDay(form.timeStart);
+        const endMinutes = parseTimeOfDay(form.timeEnd);
+        if (startMinutes === null || endMinutes === null) {
+            setError("Enter times like 7:30 AM or 13:00.");
+            return;
+        }
+        if (endMinutes <= startMinutes) {
+            setError("End Time must be after Start Time.");
+            return;
+        }
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        addMut.mutate({ startMinutes, endMinutes, override: hasConflicts });
+    };
+
+    const toggleDay = (day: string) => {
+        setForm((f) => ({ ...f, days: f.days.includes(day) ? f.days.filter((d) => d !== day) : [...f.days, day] }));
+        setHasConflicts(false);
+    };
+
+    return (
+        <ScrollView style={styles.modalBody} keyboardShouldPersistTaps="handled">
+            {!!error && (
+                <View style={styles.modalError}>
+                    <Ionicons name="alert-circle" size={15} color={Colors.error} />
+                    <Text style={styles.modalErrorText}>{error}</Text>
+                </View>
+            )}
+
+            {isLoading ? (
+                <ActivityIndicator color={Colors.primary} />
+            ) : meetings.length === 0 ? (
+                <Text style={styles.assignEmptyText}>No classes scheduled for this section this term.</Text>
+            ) : (
+                meetings.map((m) => (
+                    <View key={m.id} style={styles.meetingRow}>
+                        <View style={{ flex: 1 }}>
+                            <Text style={styles.meetingCode}>{m.subjectCode}</Text>
+                            <Text style={styles.assignedId}>{m.days.join(", ")} · {formatTimeRange(m.startMinutes, m.endMinutes)}</Text>
+                            <Text style={styles.assignedId}>{m.room || "TBA"} · {m.instructor || "TBA"}</Text>
+                        </View>
+                        <Pressable
+                            style={styles.removeBtn}
+                            onPress={() => {
+                                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                                removeMut.mutate(m.id);
+                            }}
+                        >
+                            <Ionicons name="trash" size={15} color={Colors.error} />
+                        </Pressable>
+                    </View>
+                ))
+            )}
+
+            {adding ? (
+                <View style={{ marginTop: 16 }}>
+                    <View style={styles.formField}>
+                        <Text style={styles.formLabel}>Subject *</Text>
+                        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.pickerRow}>
+                            {subjects.map((sub) => (
+                                <Pressable
+                                    key={sub.id}
+                                    style={[styles.pickerChip, form.subjectId === sub.id && styles.pickerChipActive]}
+                                    onPress={() => { setForm((f) => ({ ...f, subjectId: sub.id })); setError(""); setHasConflicts(false); }}
+                                >
+                                    <Text style={[styles.pickerChipText, form.subjectId === sub.id && styles.pickerChipTextActive]}>{sub.code}</Text>
+                                </Pressable>
+                            ))}
+                        </ScrollView>
+                    </View>
+                    <View style={styles.formField}>
+                        <Text style={styles.formLabel}>Days *</Text>
+                        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.pickerRow}>
+                            {DAYS.map((day) => (
+                                <Pressable
+                                    key={day}
+                                    style={[styles.pickerChip, form.days.includes(day) && styles.pickerChipActive]}
+                                    onPress={() => toggleDay(day)}
+                                >
+                                    <Text style={[styles.pickerChipText, form.days.includes(day) && styles.pickerChipTextActive]}>{day.slice(0, 3)}</Text>
+                                </Pressable>
+                            ))}
+                        </ScrollView>
+                    </View>
+                    <FormField label="Start Time *" placeholder="e.g. 7:30 AM" {...field("timeStart")} />
+                    <FormField label="End Time *" placeholder="e.g. 9:00 AM" {...field("timeEnd")} />
+                    <FormField label="Room" placeholder="e.g. CL-201" {...field("room")} />
+                    <View style={styles.formField}>
+                        <Text style={styles.formLabel}>Instructor</Text>
+                        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.pickerRow}>
+                            <Pressable
+                                style={[styles.pickerChip, !form.instructorId && styles.pickerChipActive]}
+                                onPress={() => setForm((f) => ({ ...f, instructorId: "" }))}
+                            >
+                                <Text style={[styles.pickerChipText, !form.instructorId && styles.pickerChipTextActive]}>Other</Text>
+                            </Pressable>
+                            {faculty.map((fac) => (
+                                <Pressable
+                                    key={fac.id}
+                                    style={[styles.pickerChip, form.instructorId === fac.id && styles.pickerChipActive]}
+                                    onPress={() => setForm((f) => ({ ...f, instructorId: fac.id, instructor: `${fac.firstName} ${fac.lastName}` }))}
+                                >
+                                    <Text style={[styles.pickerChipText, form.instructorId === fac.id && styles.pickerChipTextActive]}>
+                                        {fac.firstName} {fac.lastName}
+                                    </Text>
+                                </Pressable>
+                            ))}
+                        </ScrollView>
+                    </View>
+                    {!form.instructorId && <FormField label="Instructor Name" placeholder="e.g. Prof. Garcia" {...field("instructor")} />}
+                    <Pressable style={[styles.saveButton, addMut.isPending && { opacity: 0.7 }]} onPress={handleAdd} disabled={addMut.isPending}>
+                        {addMut.isPending ? <ActivityIndicator color={Colors.white} size="small" /> : (
+                            <Text style={styles.saveButtonText}>{hasConflicts ? "Add Anyway" : "Add Class"}</Text>
+                        )}
+                    </Pressable>
+                </View>
+            ) : (
+                <Pressable style={styles.addMeetingBtn} onPress={() => { setAdding(true); setError(""); }}>
+                    <Ionicons name="add-circle-outline" size={18} color={Colors.primary} />
+                    <Text style={styles.addMeetingText}>Add Class</Text>
+                </Pressable>
+            )}
+            {meetings.length > 0 && !adding && (
+                <Pressable
+                    style={styles.exportMeetingsBtn}
+                    onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); exportMut.mutate(); }}
+                    disabled={exportMut.isPending}
+                >
+                    {exportMut.isPending ? <ActivityIndicator color={Colors.primary} size="small" /> : (
+                        <>
+                            <Ionicons name="calendar-outline" size={18} color={Colors.primary} />
+                            <Text style={styles.addMeetingText}>Export Calendar (.ics)</Text>
+                        </>
+                    )}
+                </Pressable>
+            )}
+            <View style={{ height: 24 }} />
+        </ScrollView>
+    );
+}
+
 // ── Assign Students Modal ─────────────────────────────────────────────────────
 
 function AssignModal({ visible, onClose, section }: {
@@ -163,6 +397,7 @@ function AssignModal({ visible, onClose, section }: {
     const qc = useQueryClient();
     const [search, setSearch] = useState("");
     const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [tab, setTab] = useState<"students" | "schedule">("students");
 
     const { data: allStudents = [] } = useQuery({
         queryKey: ["admin-students"],
@@ -174,8 +409,8 @@ function AssignModal({ visible, onClose, section }: {
         enabled: visible,
     });
 
-    const assignedIds = new Set(sectionStudents.map((s) => s.id));
     const unassigned = useMemo(() => {
+        const assignedIds = new Set(sectionStudents.map((s) => s.id));
         return allStudents.filter((s) => !assignedIds.has(s.id) && s.sectionId === null);
     }, [allStudents, sectionStudents]);
 
@@ -194,6 +429,8 @@ function AssignModal({ visible, onClose, section }: {
         onSuccess: () => {
             qc.invalidateQueries({ queryKey: ["section-students", section.id] });
             qc.invalidateQueries({ queryKey: ["admin-students"] });
+            // Joining or leaving a section enrolls in or drops its classes
+            qc.invalidateQueries({ queryKey: ["admin-enrollments"] });
             setSelected(new Set());
             onClose();
         },
@@ -204,13 +441,15 @@ function AssignModal({ visible, onClose, section }: {
         onSuccess: () => {
             qc.invalidateQueries({ queryKey: ["section-students", section.id] });
             qc.invalidateQueries({ queryKey: ["admin-students"] });
+            qc.invalidateQueries({ queryKey: ["admin-enrollments"] });
         },
     });
 
     const toggle = (id: string) => {
         setSelected((prev) => {
             const next = new Set(prev);
-            next.has(id) ? next.delete(id) : next.add(id);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
             return next;
         });
     };
@@ -221,95 +460,110 @@ function AssignModal({ visible, onClose, section }: {
                 <View style={[styles.modalSheet, { maxHeight: "95%" }]}>
                     <View style={styles.modalHeader}>
                         <View>
-                            <Text style={styles.modalTitle}>Manage Students</Text>
+                            <Text style={styles.modalTitle}>Manage Section</Text>
                             <Text style={styles.modalSubtitle}>{section.name}</Text>
                         </View>
                         <Pressable onPress={onClose}><Ionicons name="close" size={24} color={Colors.text} /></Pressable>
                     </View>
 
-                    {/* Currently in section */}
-                    {sectionStudents.length > 0 && (
-                        <View style={styles.assignedSection}>
-                            <Text style={styles.assignedLabel}>In This Section ({sectionStudents.length})</Text>
-                            <ScrollView style={{ maxHeight: 140 }}>
-                                {sectionStudents.map((s) => (
-                                    <View key={s.id} style={styles.assignedRow}>
-                                        <View style={styles.assignedAvatar}>
-                                            <Text style={styles.assignedAvatarText}>{s.firstName[0]}{s.lastName[0]}</Text>
-                                        </View>
-                                        <View style={{ flex: 1 }}>
-                                            <Text style={styles.assignedName}>{s.firstName} {s.lastName}</Text>
-                                            <Text style={styles.assignedId}>{s.studentId}</Text>
-                                        </View>
-                                        <Pressable
-                                            style={styles.removeBtn}
-                                            onPress={() => {
-                                                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-                                                removeMut.mutate(s.id);
-                                            }}
-                                        >
-                                            <Ionicons name="person-remove" size={15} color={Colors.error} />
-                                        </Pressable>
-                                    </View>
-                                ))}
-                            </ScrollView>
-                        </View>
-                    )}
-
-                    {/* Add from unassigned */}
-                    <View style={styles.assignSearchBar}>
-                        <Ionicons name="search-outline" size={16} color={Colors.textTertiary} />
-                        <TextInput
-                            style={styles.assignSearchInput}
-                            placeholder="Search unassigned students..."
-                            placeholderTextColor={Colors.textTertiary}
-                            value={search}
-                            onChangeText={setSearch}
-                        />
+                    <View style={styles.tabRow}>
+                        {(["students", "schedule"] as const).map((t) => (
+                            <Pressable key={t} style={[styles.tabBtn, tab === t && styles.tabBtnActive]} onPress={() => setTab(t)}>
+                                <Ionicons name={t === "students" ? "people" : "calendar"} size={14} color={tab === t ? Colors.primary : Colors.textTertiary} />
+                                <Text style={[styles.tabText, tab === t && styles.tabTextActive]}>{t === "students" ? "Students" : "Schedule"}</Text>
+                            </Pressable>
+                        ))}
                     </View>
 
-                    <ScrollView style={{ flex: 1 }} keyboardShouldPersistTaps="handled">
-                        {filtered.length === 0 ? (
-                            <View style={styles.assignEmpty}>
-                                <Text style={styles.assignEmptyText}>
-                                    {unassigned.length === 0 ? "All students are already assigned to a section." : "No matching students."}
-                                </Text>
+                    {tab === "schedule" ? (
+                        <SectionSchedule section={section} visible={visible} />
+                    ) : (
+                        <>
+                            {/* Currently in section */}
+                            {sectionStudents.length > 0 && (
+                                <View style={styles.assignedSection}>
+                                    <Text style={styles.assignedLabel}>In This Section ({sectionStudents.length})</Text>
+                                    <ScrollView style={{ maxHeight: 140 }}>
+                                        {sectionStudents.map((s) => (
+                                            <View key={s.id} style={styles.assignedRow}>
+                                                <View style={styles.assignedAvatar}>
+                                                    <Text style={styles.assignedAvatarText}>{s.firstName[0]}{s.lastName[0]}</Text>
+                                                </View>
+                                                <View style={{ flex: 1 }}>
+                                                    <Text style={styles.assignedName}>{s.firstName} {s.lastName}</Text>
+                                                    <Text style={styles.assignedId}>{s.studentId}</Text>
+                                                </View>
+                                                <Pressable
+                                                    style={styles.removeBtn}
+                                                    onPress={() => {
+                                                        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                                                        removeMut.mutate(s.id);
+                                                    }}
+                                                >
+                                                    <Ionicons name="person-remove" size={15} color={Colors.error} />
+                                                </Pressable>
+                                            </View>
+                                        ))}
+                                    </ScrollView>
+                                </View>
+                            )}
+
+                            {/* Add from unassigned */}
+                            <View style={styles.assignSearchBar}>
+                                <Ionicons name="search-outline" size={16} color={Colors.textTertiary} />
+                                <TextInput
+                                    style={styles.assignSearchInput}
+                                    placeholder="Search unassigned students..."
+                                    placeholderTextColor={Colors.textTertiary}
+                                    value={search}
+                                    onChangeText={setSearch}
+                                />
                             </View>
-                        ) : (
-                            filtered.map((s) => {
-                                const checked = selected.has(s.id);
-                                return (
-                                    <Pressable key={s.id} style={styles.assignStudentRow} onPress={() => toggle(s.id)}>
-                                        <View style={[styles.checkbox, checked && styles.checkboxChecked]}>
-                                            {checked && <Ionicons name="checkmark" size={13} color={Colors.white} />}
-                                        </View>
-                                        <View style={styles.assignAvatarSm}>
-                                            <Text style={styles.assignAvatarSmText}>{s.firstName[0]}{s.lastName[0]}</Text>
-                                        </View>
-                                        <View style={{ flex: 1 }}>
-                                            <Text style={styles.assignedName}>{s.firstName} {s.lastName}</Text>
-                                            <Text style={styles.assignedId}>{s.studentId} · {s.yearLevel}</Text>
-                                        </View>
-                                    </Pressable>
-                                );
-                            })
-                        )}
-                    </ScrollView>
 
-                    {selected.size > 0 && (
-                        <View style={styles.assignFooter}>
-                            <Pressable
-                                style={[styles.assignBtn, assignMut.isPending && { opacity: 0.7 }]}
-                                onPress={() => assignMut.mutate()}
-                                disabled={assignMut.isPending}
-                            >
-                                {assignMut.isPending ? (
-                                    <ActivityIndicator color={Colors.white} size="small" />
+                            <ScrollView style={{ flex: 1 }} keyboardShouldPersistTaps="handled">
+                                {filtered.length === 0 ? (
+                                    <View style={styles.assignEmpty}>
+                                        <Text style={styles.assignEmptyText}>
+                                            {unassigned.length === 0 ? "All students are already assigned to a section." : "No matching students."}
+                                        </Text>
+                                    </View>
                                 ) : (
-                                    <Text style={styles.assignBtnText}>Assign {selected.size} Student{selected.size > 1 ? "s" : ""}</Text>
+                                    filtered.map((s) => {
+                                        const checked = selected.has(s.id);
+                                        return (
+                                            <Pressable key={s.id} style={styles.assignStudentRow} onPress={() => toggle(s.id)}>
+                                                <View style={[styles.checkbox, checked && styles.checkboxChecked]}>
+                                                    {checked && <Ionicons name="checkmark" size={13} color={Colors.white} />}
+                                                </View>
+                                                <View style={styles.assignAvatarSm}>
+                                                    <Text style={styles.assignAvatarSmText}>{s.firstName[0]}{s.lastName[0]}</Text>
+                                                </View>
+                                                <View style={{ flex: 1 }}>
+                                                    <Text style={styles.assignedName}>{s.firstName} {s.lastName}</Text>
+                                                    <Text style={styles.assignedId}>{s.studentId} · {s.yearLevel}</Text>
+                                                </View>
+                                            </Pressable>
+                                        );
+                                    })
                                 )}
-                            </Pressable>
-                        </View>
+                            </ScrollView>
+
+                            {selected.size > 0 && (
+                                <View style={styles.assignFooter}>
+                                    <Pressable
+                                        style={[styles.assignBtn, assignMut.isPending && { opacity: 0.7 }]}
+                                        onPress={() => assignMut.mutate()}
+                                        disabled={assignMut.isPending}
+                                    >
+                                        {assignMut.isPending ? (
+                                            <ActivityIndicator color={Colors.white} size="small" />
+                                        ) : (
+                                            <Text style={styles.assignBtnText}>Assign {selected.size} Student{selected.size > 1 ? "s" : ""}</Text>
+                                        )}
+                                    </Pressable>
+                                </View>
+                            )}
+                        </>
                     )}
                 </View>
             </View>
@@ -642,4 +896,29 @@ const styles = StyleSheet.create({
         paddingVertical: 13, alignItems: "center",
     },
     assignBtnText: { fontFamily: "Inter_700Bold", fontSize: 15, color: Colors.white },
+    tabRow: { flexDirection: "row", borderBottomWidth: 1, borderBottomColor: Colors.border },
+    tabBtn: {
+        flex: 1, flexDirection: "row", alignItems: "center", justifyContent: "center", gap: 6,
+        paddingVertical: 12, borderBottomWidth: 2, borderBottomColor: "transparent",
+    },
+    tabBtnActive: { borderBottomColor: Colors.primary },
+    tabText: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.textTertiary },
+    tabTextActive: { color: Colors.primary },
+
+    // Section schedule
+    meetingRow: {
+        flexDirection: "row", alignItems: "center", gap: 10,
+        paddingVertical: 10, borderBottomWidth: 1, borderBottomColor: Colors.border,
+    },
+    meetingCode: { fontFamily: "Inter_700Bold", fontSize: 13, color: Colors.primary },
+    addMeetingBtn: {
+        flexDirection: "row", alignItems: "center", justifyContent: "center", gap: 6,
+        marginTop: 16, paddingVertical: 12, borderRadius: 12,
+        borderWidth: 1, borderStyle: "dashed", borderColor: Colors.primary,
+    },
+    exportMeetingsBtn: {
+        flexDirection: "row", alignItems: "center", justifyContent: "center", gap: 6,
+        marginTop: 10, paddingVertical: 12, borderRadius: 12, backgroundColor: "#EBF0F9",
+    },
+    addMeetingText: { fontFamily: "Inter_600SemiBold", fontSize: 14, color: Colors.primary },
 });
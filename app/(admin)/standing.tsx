@@ -0,0 +1,286 @@
+import { useState, useEffect } from "react";
+import {
+  StyleSheet, Text, View, Pressable, Platform,
+  TextInput, Modal, ActivityIndicator, ScrollView,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import * as Haptics from "expo-haptics";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { adminStandingApi, termsApi, type StandingReport } from "@/lib/api";
+import {
+  ACADEMIC_STANDINGS, DEFAULT_STANDING_POLICY, STANDING_LABELS, type AcademicStanding, type StandingPolicy,
+} from "@shared/standing";
+import Colors from "@/constants/colors";
+
+type PolicyFormData = Record<keyof StandingPolicy, string>;
+
+const toForm = (p: StandingPolicy): PolicyFormData => ({
+  deansListMaxGwa: p.deansListMaxGwa.toFixed(2),
+  deansListMinUnits: String(p.deansListMinUnits),
+  deansListLowestGrade: p.deansListLowestGrade.toFixed(2),
+  probationFailedPercent: String(p.probationFailedPercent),
+  dismissalFailedPercent: String(p.dismissalFailedPercent),
+});
+
+const POLICY_FIELDS: { key: keyof StandingPolicy; label: string; hint: string }[] = [
+  { key: "deansListMaxGwa", label: "Dean's List GWA", hint: "Term GWA of this or better" },
+  { key: "deansListMinUnits", label: "Dean's List Minimum Units", hint: "Units carried in the term" },
+  { key: "deansListLowestGrade", label: "Dean's List Lowest Grade", hint: "No grade worse than this, and no INC/DRP/W" },
+  { key: "probationFailedPercent", label: "Probation (% units failed)", hint: "Failing this share of the units attempted" },
+  { key: "dismissalFailedPercent", label: "Dismissal (% units failed)", hint: "Failing this share of the units attempted" },
+];
+
+function PolicyModal({ visible, onClose, policy }: {
+  visible: boolean; onClose: () => void; policy: StandingPolicy;
+}) {
+  const qc = useQueryClient();
+  const [form, setForm] = useState<PolicyFormData>(toForm(policy));
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (visible) {
+      setForm(toForm(policy));
+      setError("");
+    }
+  }, [visible, policy]);
+
+  const saveMut = useMutation({
+    mutationFn: adminStandingApi.updatePolicy,
+    onSuccess: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      qc.invalidateQueries({ queryKey: ["admin-standing"] });
+      onClose();
+    },
+    onError: (e: any) => setError(e.message),
+  });
+
+  const handleSave = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    saveMut.mutate({
+      deansListMaxGwa: parseFloat(form.deansListMaxGwa),
+      deansListMinUnits: parseFloat(form.deansListMinUnits),
+      deansListLowestGrade: parseFloat(form.deansListLowestGrade),
+      probationFailedPercent: parseFloat(form.probationFailedPercent),
+      dismissalFailedPercent: parseFloat(form.dismissalFailedPercent),
+    });
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalSheet}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Standing Thresholds</Text>
+            <Pressable onPress={onClose}><Ionicons name="close" size={24} color={Colors.text} /></Pressable>
+          </View>
+          <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+            {!!error && (
+              <View style={styles.modalError}>
+                <Ionicons name="alert-circle" size={15} color={Colors.error} />
+                <Text style={styles.modalErrorText}>{error}</Text>
+              </View>
+            )}
+            {POLICY_FIELDS.map(({ key, label, hint }) => (
+              <View key={key} style={styles.formField}>
+                <Text style={styles.formLabel}>{label}</Text>
+                <TextInput
+                  style={styles.formInput} value={form[key]} keyboardType="decimal-pad"
+                  onChangeText={(v) => { setForm((f) => ({ ...f, [key]: v })); setError(""); }}
+                />
+                <Text style={styles.formHint}>{hint}</Text>
+              </View>
+            ))}
+            <Pressable style={[styles.saveButton, saveMut.isPending && { opacity: 0.7 }]} onPress={handleSave} disabled={saveMut.isPending}>
+              {saveMut.isPending ? <ActivityIndicator color={Colors.white} size="small" /> : <Text style={styles.saveButtonText}>Save Thresholds</Text>}
+            </Pressable>
+            <View style={{ height: 24 }} />
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+function StandingCard({ row, index }: { row: StandingReport["rows"][number]; index: number }) {
+  const color = Colors.standing[row.standing];
+  return (
+    <Animated.View entering={FadeInDown.delay(index * 40).duration(350)}>
+      <View style={styles.card}>
+        <View style={styles.gwaBox}>
+          <Text style={styles.gwaValue}>{row.gwa.toFixed(2)}</Text>
+          <Text style={styles.gwaLabel}>term GWA</Text>
+        </View>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.studentName}>{row.student.lastName}, {row.student.firstName}</Text>
+          <Text style={styles.studentMeta}>
+            {row.student.studentId} · {row.student.course} {row.student.yearLevel}
+          </Text>
+          <Text style={styles.studentMeta}>
+            Cumulative {row.cumulativeGwa.toFixed(2)} · {row.unitsEarned}/{row.unitsAttempted} units earned
+          </Text>
+        </View>
+        <View style={[styles.standingPill, { backgroundColor: color + "1A" }]}>
+          <Text style={[styles.standingPillText, { color }]}>{STANDING_LABELS[row.standing]}</Text>
+        </View>
+      </View>
+    </Animated.View>
+  );
+}
+
+export default function StandingScreen() {
+  const insets = useSafeAreaInsets();
+  const [termId, setTermId] = useState<string | null>(null);
+  const [filter, setFilter] = useState<AcademicStanding | null>(null);
+  const [policyModal, setPolicyModal] = useState(false);
+
+  const webTopInset = Platform.OS === "web" ? 67 : 0;
+  const webBottomInset = Platform.OS === "web" ? 34 : 0;
+
+  const { data: terms = [] } = useQuery({ queryKey: ["terms"], queryFn: termsApi.list });
+  const selectedTermId = termId ?? terms.find((t) => t.isActive)?.id ?? null;
+
+  const { data: report, isLoading, error } = useQuery({
+    queryKey: ["admin-standing", selectedTermId],
+    queryFn: () => adminStandingApi.report(selectedTermId ?? undefined),
+    enabled: !!selectedTermId,
+  });
+  const rows = report?.rows ?? [];
+  const shown = filter ? rows.filter((r) => r.standing === filter) : rows;
+  const countOf = (s: AcademicStanding) => rows.filter((r) => r.standing === s).length;
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 12 + webTopInset }]}>
+        <View style={styles.headerRow}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.headerTitle}>Academic Standing</Text>
+            <Text style={styles.headerSubtitle}>Dean&apos;s List, probation and dismissal by term</Text>
+          </View>
+          <Pressable style={styles.headerButton} onPress={() => setPolicyModal(true)}>
+            <Ionicons name="options" size={20} color={Colors.primary} />
+          </Pressable>
+        </View>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {terms.map((t) => (
+            <Pressable key={t.id} style={[styles.chip, selectedTermId === t.id && styles.chipActive]} onPress={() => setTermId(t.id)}>
+              <Text style={[styles.chipText, selectedTermId === t.id && styles.chipTextActive]}>{t.name}</Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={{ marginTop: 8 }}>
+          <Pressable style={[styles.chip, !filter && styles.chipActive]} onPress={() => setFilter(null)}>
+            <Text style={[styles.chipText, !filter && styles.chipTextActive]}>All ({rows.length})</Text>
+          </Pressable>
+          {ACADEMIC_STANDINGS.map((s) => (
+            <Pressable key={s} style={[styles.chip, filter === s && styles.chipActive]} onPress={() => setFilter(s)}>
+              <Text style={[styles.chipText, filter === s && styles.chipTextActive]}>{STANDING_LABELS[s]} ({countOf(s)})</Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}><ActivityIndicator size="large" color={Colors.primary} /></View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={[styles.content, { paddingBottom: 100 + webBottomInset }]}
+          showsVerticalScrollIndicator={false}
+        >
+          {!!error && (
+            <View style={styles.errorBox}>
+              <Ionicons name="alert-circle" size={15} color={Colors.error} />
+              <Text style={styles.errorText}>{(error as Error).message}</Text>
+            </View>
+          )}
+          {shown.length === 0 && !error && (
+            <View style={styles.emptyState}>
+              <Ionicons name="ribbon-outline" size={48} color={Colors.textTertiary} />
+              <Text style={styles.emptyTitle}>No Students</Text>
+              <Text style={styles.emptySubtitle}>Students appear here once their grades for the term are released</Text>
+            </View>
+          )}
+          {shown.map((r, i) => <StandingCard key={r.student.id} row={r} index={i} />)}
+        </ScrollView>
+      )}
+
+      <PolicyModal
+        visible={policyModal}
+        onClose={() => setPolicyModal(false)}
+        policy={report?.policy ?? DEFAULT_STANDING_POLICY}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.background },
+  header: {
+    backgroundColor: Colors.white, paddingHorizontal: 16,
+    paddingBottom: 12, borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  headerRow: { flexDirection: "row", alignItems: "flex-start", gap: 12, marginBottom: 12 },
+  headerTitle: { fontFamily: "Inter_700Bold", fontSize: 26, color: Colors.text },
+  headerSubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, marginTop: 2 },
+  headerButton: {
+    width: 44, height: 44, borderRadius: 22, backgroundColor: "#EBF0F9",
+    justifyContent: "center", alignItems: "center",
+  },
+  chip: {
+    paddingHorizontal: 14, paddingVertical: 8, borderRadius: 20,
+    backgroundColor: Colors.surfaceSecondary, marginRight: 8, borderWidth: 1, borderColor: Colors.border,
+  },
+  chipActive: { backgroundColor: Colors.primary, borderColor: Colors.primary },
+  chipText: { fontFamily: "Inter_500Medium", fontSize: 12, color: Colors.text },
+  chipTextActive: { color: Colors.white },
+  loadingContainer: { flex: 1, justifyContent: "center", alignItems: "center" },
+  content: { padding: 12, gap: 10 },
+  card: {
+    backgroundColor: Colors.white, borderRadius: 14, padding: 14,
+    flexDirection: "row", alignItems: "center", gap: 12,
+    shadowColor: Colors.cardShadow, shadowOffset: { width: 0, height: 2 }, shadowOpacity: 1, shadowRadius: 8, elevation: 2,
+  },
+  gwaBox: {
+    width: 64, alignItems: "center", justifyContent: "center",
+    borderRadius: 12, paddingVertical: 10, backgroundColor: "#EBF0F9",
+  },
+  gwaValue: { fontFamily: "Inter_700Bold", fontSize: 17, color: Colors.primary },
+  gwaLabel: { fontFamily: "Inter_500Medium", fontSize: 9, color: Colors.primary, marginTop: 2 },
+  studentName: { fontFamily: "Inter_600SemiBold", fontSize: 14, color: Colors.text },
+  studentMeta: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary, marginTop: 2 },
+  standingPill: { paddingHorizontal: 10, paddingVertical: 4, borderRadius: 10 },
+  standingPillText: { fontFamily: "Inter_600SemiBold", fontSize: 11 },
+  errorBox: {
+    flexDirection: "row", alignItems: "center", gap: 8,
+    backgroundColor: "#FEF2F2", padding: 12, borderRadius: 10,
+  },
+  errorText: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.error, flex: 1 },
+  emptyState: { alignItems: "center", paddingTop: 60, gap: 8, paddingHorizontal: 24 },
+  emptyTitle: { fontFamily: "Inter_600SemiBold", fontSize: 16, color: Colors.text },
+  emptySubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, textAlign: "center" },
+  modalOverlay: { flex: 1, backgroundColor: Colors.overlay, justifyContent: "flex-end" },
+  modalSheet: { backgroundColor: Colors.white, borderTopLeftRadius: 24, borderTopRightRadius: 24, maxHeight: "90%" },
+  modalHeader: {
+    flexDirection: "row", justifyContent: "space-between", alignItems: "center",
+    paddingHorizontal: 20, paddingTop: 20, paddingBottom: 12,
+    borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  modalTitle: { fontFamily: "Inter_700Bold", fontSize: 18, color: Colors.text },
+  modalBody: { padding: 20 },
+  modalError: {
+    flexDirection: "row", alignItems: "center", gap: 8,
+    backgroundColor: "#FEF2F2", padding: 12, borderRadius: 10, marginBottom: 12,
+  },
+  modalErrorText: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.error, flex: 1 },
+  formField: { marginBottom: 14 },
+  formLabel: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text, marginBottom: 6 },
+  formHint: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textTertiary, marginTop: 6 },
+  formInput: {
+    fontFamily: "Inter_400Regular", fontSize: 14, color: Colors.text,
+    backgroundColor: Colors.surfaceSecondary, borderRadius: 10,
+    paddingHorizontal: 14, paddingVertical: 12, borderWidth: 1, borderColor: Colors.border,
+  },
+  saveButton: { backgroundColor: Colors.primary, borderRadius: 12, paddingVertical: 14, alignItems: "center", marginTop: 4 },
+  saveButtonText: { fontFamily: "Inter_700Bold", fontSize: 15, color: Colors.white },
+});
@@ -8,9 +8,11 @@ import { Ionicons } from "@expo/vector-icons";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import * as Haptics from "expo-haptics";
 import Animated, { FadeInDown } from "react-native-reanimated";
-import { adminStudentsApi, adminSectionsApi, type StudentRecord } from "@/lib/api";
+import { adminStudentsApi, adminSectionsApi, adminProgramsApi, type StudentRecord } from "@/lib/api";
 import Colors from "@/constants/colors";
+import { useAuth } from "@/lib/auth-context";
 import { COURSES, YEAR_LEVELS, GENDERS, STATUSES, SUFFIXES } from "@/constants/data";
+import DegreeChecklist from "@/components/DegreeChecklist";
 
 interface StudentFormData {
   studentId: string;
@@ -45,6 +47,7 @@ function StudentModal({
   editStudent?: StudentRecord | null;
 }) {
   const qc = useQueryClient();
+  const { can } = useAuth();
   const [form, setForm] = useState<StudentFormData>(
     editStudent
       ? { ...emptyForm, ...editStudent, sectionId: editStudent.sectionId || "", password: "" }
@@ -66,15 +69,36 @@ function StudentModal({
     queryKey: ["admin-sections"],
     queryFn: adminSectionsApi.list,
   });
+  // Courses are the programs' names once any programs are set up
+  const { data: programs = [] } = useQuery({
+    queryKey: ["admin-programs"],
+    queryFn: adminProgramsApi.list,
+  });
+  const courses = programs.length > 0 ? programs.map((p) => p.name) : COURSES;
 
   const createMut = useMutation({
     mutationFn: adminStudentsApi.create,
-    onSuccess: () => { qc.invalidateQueries({ queryKey: ["admin-students"] }); qc.invalidateQueries({ queryKey: ["admin-stats"] }); onClose(); },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["admin-students"] });
+      qc.invalidateQueries({ queryKey: ["admin-stats"] });
+      qc.invalidateQueries({ queryKey: ["admin-enrollments"] });
+      onClose();
+    },
     onError: (e: any) => setError(e.message),
   });
   const updateMut = useMutation({
     mutationFn: ({ id, data }: { id: string; data: Partial<StudentRecord> & { password?: string } }) => adminStudentsApi.update(id, data),
-    onSuccess: () => { qc.invalidateQueries({ queryKey: ["admin-students"] }); onClose(); },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["admin-students"] });
+      qc.invalidateQueries({ queryKey: ["admin-degree-progress"] });
+      // A section change enrolls the student in (or drops) its classes
+      qc.invalidateQueries({ queryKey: ["admin-enrollments"] });
+      onClose();
+    },
+    onError: (e: any) => setError(e.message),
+  });
+  const transcriptMut = useMutation({
+    mutationFn: (s: StudentRecord) => adminStudentsApi.downloadTranscript(s.id, `transcript-${s.studentId}.pdf`),
     onError: (e: any) => setError(e.message),
   });
 
@@ -121,12 +145,26 @@ function StudentModal({
                 <Text style={styles.modalErrorText}>{error}</Text>
               </View>
             )}
+            {isEdit && editStudent && can("grades") && (
+              <Pressable
+                style={styles.transcriptButton}
+                onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); transcriptMut.mutate(editStudent); }}
+                disabled={transcriptMut.isPending}
+              >
+                {transcriptMut.isPending ? <ActivityIndicator color={Colors.primary} size="small" /> : (
+                  <>
+                    <Ionicons name="document-text-outline" size={18} color={Colors.primary} />
+                    <Text style={styles.transcriptButtonText}>Transcript of Records (PDF)</Text>
+                  </>
+                )}
+              </Pressable>
+            )}
             <FormField label="Student ID *" {...field("studentId")} editable={!isEdit} />
             <FormField label="First Name *" {...field("firstName")} />
             <FormField label="Last Name *" {...field("lastName")} />
             <FormField label="Middle Name" {...field("middleName")} />
             <PickerField label="Suffix" options={SUFFIXES} value={form.suffix} onChange={(v) => setForm((f) => ({ ...f, suffix: v }))} />
-            <PickerField label="Course" options={COURSES} value={form.course} onChange={(v) => setForm((f) => ({ ...f, course: v }))} />
+            <PickerField label="Course" options={courses} value={form.course} onChange={(v) => setForm((f) => ({ ...f, course: v }))} />
             <PickerField label="Year Level" options={YEAR_LEVELS} value={form.yearLevel} onChange={(v) => setForm((f) => ({ ...f, yearLevel: v }))} />
             <PickerField label="Gender" options={GENDERS} value={form.gender} onChange={(v) => setForm((f) => ({ ...f, gender: v }))} />
             <PickerField label="Status" options={STATUSES} value={form.status} onChange={(v) => setForm((f) => ({ ...f, status: v }))} />
@@ -227,9 +265,108 @@ function PickerField({ label, options, value, onChange }: {
   );
 }
 
-function StudentCard({ item, index, onEdit, onDelete }: {
+// The student's curriculum checklist, with the curriculum version they follow
+function DegreeProgressModal({ student, onClose }: { student: StudentRecord | null; onClose: () => void }) {
+  const qc = useQueryClient();
+  const [error, setError] = useState("");
+  // The version the student is pinned to; null follows the program's current one
+  const [pinnedId, setPinnedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError("");
+    setPinnedId(student?.curriculumId ?? null);
+  }, [student]);
+
+  const { data: progress, isLoading } = useQuery({
+    queryKey: ["admin-degree-progress", student?.id],
+    queryFn: () => adminStudentsApi.degreeProgress(student!.id),
+    enabled: !!student,
+  });
+  const { data: programs = [] } = useQuery({
+    queryKey: ["admin-programs"],
+    queryFn: adminProgramsApi.list,
+    enabled: !!student,
+  });
+  const versions = programs.find((p) => p.name === student?.course)?.curricula ?? [];
+
+  const setCurriculumMut = useMutation({
+    mutationFn: (curriculumId: string | null) => adminStudentsApi.setCurriculum(student!.id, curriculumId),
+    onSuccess: (_, curriculumId) => {
+      setPinnedId(curriculumId);
+      qc.invalidateQueries({ queryKey: ["admin-degree-progress", student?.id] });
+      qc.invalidateQueries({ queryKey: ["admin-students"] });
+    },
+    onError: (e: any) => setError(e.message),
+  });
+
+  return (
+    <Modal visible={!!student} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalSheet}>
+          <View style={styles.modalHeader}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.modalTitle}>Degree Progress</Text>
+              {student && <Text style={styles.modalSubtitle}>{student.firstName} {student.lastName} · {student.course}</Text>}
+            </View>
+            <Pressable onPress={onClose}>
+              <Ionicons name="close" size={24} color={Colors.text} />
+            </Pressable>
+          </View>
+          <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+            {!!error && (
+              <View style={styles.modalError}>
+                <Ionicons name="alert-circle" size={15} color={Colors.error} />
+                <Text style={styles.modalErrorText}>{error}</Text>
+              </View>
+            )}
+            {versions.length > 0 && (
+              <View style={styles.formField}>
+                <Text style={styles.formLabel}>Curriculum Version</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.pickerRow}>
+                  <Pressable
+                    style={[styles.pickerChip, !pinnedId && styles.pickerChipActive]}
+                    onPress={() => { setError(""); setCurriculumMut.mutate(null); }}
+                  >
+                    <Text style={[styles.pickerChipText, !pinnedId && styles.pickerChipTextActive]}>Current</Text>
+                  </Pressable>
+                  {versions.map((c) => {
+                    const active = pinnedId === c.id;
+                    return (
+                      <Pressable
+                        key={c.id}
+                        style={[styles.pickerChip, active && styles.pickerChipActive]}
+                        onPress={() => { setError(""); setCurriculumMut.mutate(c.id); }}
+                      >
+                        <Text style={[styles.pickerChipText, active && styles.pickerChipTextActive]}>{c.version}</Text>
+                      </Pressable>
+                    );
+                  })}
+                </ScrollView>
+              </View>
+            )}
+            {isLoading ? (
+              <ActivityIndicator size="large" color={Colors.primary} style={{ paddingVertical: 40 }} />
+            ) : progress?.curriculum ? (
+              <DegreeChecklist progress={progress} />
+            ) : (
+              <View style={styles.emptyState}>
+                <Ionicons name="school-outline" size={48} color={Colors.textTertiary} />
+                <Text style={styles.emptyTitle}>No Curriculum</Text>
+                <Text style={styles.emptySubtitle}>Add a curriculum for {student?.course} under Programs</Text>
+              </View>
+            )}
+            <View style={{ height: 24 }} />
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+function StudentCard({ item, index, onEdit, onDelete, onProgress }: {
   item: StudentRecord; index: number;
   onEdit: (s: StudentRecord) => void; onDelete: (s: StudentRecord) => void;
+  onProgress?: (s: StudentRecord) => void; // degree progress shows grades; left out without that permission
 }) {
   return (
     <Animated.View entering={FadeInDown.delay(index * 50).duration(350)}>
@@ -257,6 +394,14 @@ function StudentCard({ item, index, onEdit, onDelete }: {
           </View>
         </View>
         <View style={styles.studentActions}>
+          {onProgress && (
+            <Pressable
+              style={[styles.actionBtn, { backgroundColor: "#FBF5E6" }]}
+              onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); onProgress(item); }}
+            >
+              <Ionicons name="school" size={16} color={Colors.goldDark} />
+            </Pressable>
+          )}
           <Pressable
             style={[styles.actionBtn, { backgroundColor: "#EBF0F9" }]}
             onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); onEdit(item); }}
@@ -278,9 +423,11 @@ function StudentCard({ item, index, onEdit, onDelete }: {
 export default function StudentsScreen() {
   const insets = useSafeAreaInsets();
   const qc = useQueryClient();
+  const { can } = useAuth();
   const [search, setSearch] = useState("");
   const [modalVisible, setModalVisible] = useState(false);
   const [editStudent, setEditStudent] = useState<StudentRecord | null>(null);
+  const [progressStudent, setProgressStudent] = useState<StudentRecord | null>(null);
 
   const webTopInset = Platform.OS === "web" ? 67 : 0;
   const webBottomInset = Platform.OS === "web" ? 34 : 0;
@@ -365,6 +512,7 @@ export default function StudentsScreen() {
               index={index}
               onEdit={handleEdit}
               onDelete={handleDelete}
+              onProgress={can("grades") ? setProgressStudent : undefined}
             />
           )}
           contentContainerStyle={[
@@ -390,6 +538,7 @@ export default function StudentsScreen() {
         onClose={() => setModalVisible(false)}
         editStudent={editStudent}
       />
+      <DegreeProgressModal student={progressStudent} onClose={() => setProgressStudent(null)} />
     </View>
   );
 }
@@ -455,12 +604,18 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1, borderBottomColor: Colors.border,
   },
   modalTitle: { fontFamily: "Inter_700Bold", fontSize: 18, color: Colors.text },
+  modalSubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, marginTop: 2 },
   modalBody: { padding: 20 },
   modalError: {
     flexDirection: "row", alignItems: "center", gap: 8,
     backgroundColor: "#FEF2F2", padding: 12, borderRadius: 10, marginBottom: 12,
   },
   modalErrorText: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.error, flex: 1 },
+  transcriptButton: {
+    flexDirection: "row", alignItems: "center", justifyContent: "center", gap: 6,
+    paddingVertical: 12, borderRadius: 12, backgroundColor: "#EBF0F9", marginBottom: 16,
+  },
+  transcriptButtonText: { fontFamily: "Inter_600SemiBold", fontSize: 14, color: Colors.primary },
   formField: { marginBottom: 14 },
   formLabel: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text, marginBottom: 6 },
   formInput: {
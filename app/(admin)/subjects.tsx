@@ -0,0 +1,402 @@
+import { useState, useMemo, useEffect } from "react";
+import {
+  StyleSheet, Text, View, FlatList, Pressable, Platform,
+  TextInput, Modal, Alert, ActivityIndicator, ScrollView,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import * as Haptics from "expo-haptics";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { adminSubjectsApi, type SubjectRecord } from "@/lib/api";
+import Colors from "@/constants/colors";
+
+interface SubjectFormData {
+  code: string;
+  title: string;
+  units: string;
+  lectureHours: string;
+  labHours: string;
+  prerequisites: string[];
+  corequisites: string[];
+}
+
+type RequirementKey = "prerequisites" | "corequisites";
+
+const REQUIREMENT_FIELDS: { key: RequirementKey; label: string }[] = [
+  { key: "prerequisites", label: "Prerequisites" },
+  { key: "corequisites", label: "Corequisites (passed or taken in the same term)" },
+];
+
+const emptyForm: SubjectFormData = {
+  code: "", title: "", units: "3", lectureHours: "3", labHours: "0", prerequisites: [], corequisites: [],
+};
+
+const toForm = (s: SubjectRecord): SubjectFormData => ({
+  code: s.code,
+  title: s.title,
+  units: String(s.units),
+  lectureHours: String(s.lectureHours),
+  labHours: String(s.labHours),
+  prerequisites: s.prerequisites,
+  corequisites: s.corequisites,
+});
+
+function SubjectModal({ visible, onClose, editSubject, subjects }: {
+  visible: boolean; onClose: () => void; editSubject?: SubjectRecord | null; subjects: SubjectRecord[];
+}) {
+  const qc = useQueryClient();
+  const isEdit = !!editSubject;
+  const [form, setForm] = useState<SubjectFormData>(editSubject ? toForm(editSubject) : emptyForm);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (visible) {
+      setForm(editSubject ? toForm(editSubject) : emptyForm);
+      setError("");
+    }
+  }, [visible, editSubject]);
+
+  const createMut = useMutation({
+    mutationFn: adminSubjectsApi.create,
+    onSuccess: () => { qc.invalidateQueries({ queryKey: ["admin-subjects"] }); onClose(); },
+    onError: (e: any) => setError(e.message),
+  });
+  const updateMut = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<SubjectRecord> }) => adminSubjectsApi.update(id, data),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["admin-subjects"] });
+      qc.invalidateQueries({ queryKey: ["admin-grades"] });
+      qc.invalidateQueries({ queryKey: ["admin-schedule"] });
+      onClose();
+    },
+    onError: (e: any) => setError(e.message),
+  });
+
+  const field = (key: keyof Omit<SubjectFormData, RequirementKey>) => ({
+    value: form[key],
+    onChangeText: (v: string) => { setForm((f) => ({ ...f, [key]: v })); setError(""); },
+  });
+
+  const toggleRequirement = (key: RequirementKey, id: string) => {
+    setForm((f) => ({
+      ...f,
+      [key]: f[key].includes(id) ? f[key].filter((p) => p !== id) : [...f[key], id],
+    }));
+  };
+
+  const handleSave = () => {
+    if (!form.code.trim() || !form.title.trim()) {
+      setError("Subject Code and Title are required.");
+      return;
+    }
+    const units = parseInt(form.units);
+    if (isNaN(units) || units < 0) {
+      setError("Units must be a whole number.");
+      return;
+    }
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const payload: Partial<SubjectRecord> = {
+      code: form.code,
+      title: form.title,
+      units,
+      lectureHours: parseInt(form.lectureHours) || 0,
+      labHours: parseInt(form.labHours) || 0,
+      prerequisites: form.prerequisites,
+      corequisites: form.corequisites,
+    };
+    if (isEdit && editSubject) {
+      updateMut.mutate({ id: editSubject.id, data: payload });
+    } else {
+      createMut.mutate(payload);
+    }
+  };
+
+  const prerequisiteOptions = subjects.filter((s) => s.id !== editSubject?.id);
+  const isBusy = createMut.isPending || updateMut.isPending;
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalSheet}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{isEdit ? "Edit Subject" : "New Subject"}</Text>
+            <Pressable onPress={onClose}><Ionicons name="close" size={24} color={Colors.text} /></Pressable>
+          </View>
+          <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+            {!!error && (
+              <View style={styles.modalError}>
+                <Ionicons name="alert-circle" size={15} color={Colors.error} />
+                <Text style={styles.modalErrorText}>{error}</Text>
+              </View>
+            )}
+            <FormField label="Subject Code *" {...field("code")} placeholder="e.g. IT 301" autoCapitalize="characters" />
+            <FormField label="Title *" {...field("title")} placeholder="e.g. Web Development" />
+            <FormField label="Units" {...field("units")} keyboardType="number-pad" placeholder="3" />
+            <View style={styles.formRow}>
+              <View style={{ flex: 1 }}>
+                <FormField label="Lecture Hours" {...field("lectureHours")} keyboardType="number-pad" placeholder="3" />
+              </View>
+              <View style={{ flex: 1 }}>
+                <FormField label="Lab Hours" {...field("labHours")} keyboardType="number-pad" placeholder="0" />
+              </View>
+            </View>
+            {REQUIREMENT_FIELDS.map(({ key, label }) => (
+              <View key={key} style={styles.formField}>
+                <Text style={styles.formLabel}>{label}</Text>
+                {prerequisiteOptions.length === 0 ? (
+                  <Text style={styles.formHint}>No other subjects in the catalog yet.</Text>
+                ) : (
+                  <View style={styles.chipGrid}>
+                    {prerequisiteOptions.map((s) => {
+                      const active = form[key].includes(s.id);
+                      return (
+                        <Pressable key={s.id} style={[styles.chip, active && styles.chipActive]} onPress={() => toggleRequirement(key, s.id)}>
+                          <Text style={[styles.chipText, active && styles.chipTextActive]}>{s.code}</Text>
+                        </Pressable>
+                      );
+                    })}
+                  </View>
+                )}
+              </View>
+            ))}
+            <Pressable style={[styles.saveButton, isBusy && { opacity: 0.7 }]} onPress={handleSave} disabled={isBusy}>
+              {isBusy ? <ActivityIndicator color={Colors.white} size="small" /> : <Text style={styles.saveButtonText}>{isEdit ? "Save Changes" : "Add Subject"}</Text>}
+            </Pressable>
+            <View style={{ height: 24 }} />
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+function FormField({ label, value, onChangeText, placeholder, keyboardType, autoCapitalize }: {
+  label: string; value: string; onChangeText: (v: string) => void; placeholder?: string;
+  keyboardType?: any; autoCapitalize?: "none" | "sentences" | "words" | "characters";
+}) {
+  return (
+    <View style={styles.formField}>
+      <Text style={styles.formLabel}>{label}</Text>
+      <TextInput
+        style={styles.formInput} value={value} onChangeText={onChangeText}
+        placeholder={placeholder} placeholderTextColor={Colors.textTertiary}
+        keyboardType={keyboardType} autoCapitalize={autoCapitalize}
+      />
+    </View>
+  );
+}
+
+function SubjectCard({ item, index, codeById, onEdit, onDelete }: {
+  item: SubjectRecord; index: number; codeById: Map<string, string>;
+  onEdit: (s: SubjectRecord) => void; onDelete: (s: SubjectRecord) => void;
+}) {
+  const prerequisiteCodes = item.prerequisites.map((id) => codeById.get(id)).filter(Boolean);
+  const corequisiteCodes = item.corequisites.map((id) => codeById.get(id)).filter(Boolean);
+  return (
+    <Animated.View entering={FadeInDown.delay(index * 50).duration(350)}>
+      <View style={styles.card}>
+        <View style={styles.unitsBox}>
+          <Text style={styles.unitsValue}>{item.units}</Text>
+          <Text style={styles.unitsLabel}>units</Text>
+        </View>
+        <View style={styles.cardContent}>
+          <Text style={styles.cardCode}>{item.code}</Text>
+          <Text style={styles.cardTitle}>{item.title}</Text>
+          <Text style={styles.cardMeta}>{item.lectureHours} lec · {item.labHours} lab hrs/week</Text>
+          {prerequisiteCodes.length > 0 && (
+            <Text style={styles.cardPrereq}>Prerequisites: {prerequisiteCodes.join(", ")}</Text>
+          )}
+          {corequisiteCodes.length > 0 && (
+            <Text style={styles.cardPrereq}>Corequisites: {corequisiteCodes.join(", ")}</Text>
+          )}
+        </View>
+        <View style={styles.cardActions}>
+          <Pressable style={[styles.actionBtn, { backgroundColor: "#EBF0F9" }]} onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); onEdit(item); }}>
+            <Ionicons name="pencil" size={15} color={Colors.primary} />
+          </Pressable>
+          <Pressable style={[styles.actionBtn, { backgroundColor: "#FEF2F2" }]} onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium); onDelete(item); }}>
+            <Ionicons name="trash" size={15} color={Colors.error} />
+          </Pressable>
+        </View>
+      </View>
+    </Animated.View>
+  );
+}
+
+export default function SubjectsScreen() {
+  const insets = useSafeAreaInsets();
+  const qc = useQueryClient();
+  const [modal, setModal] = useState(false);
+  const [editSubject, setEditSubject] = useState<SubjectRecord | null>(null);
+  const [search, setSearch] = useState("");
+
+  const webTopInset = Platform.OS === "web" ? 67 : 0;
+  const webBottomInset = Platform.OS === "web" ? 34 : 0;
+
+  const { data: subjects = [], isLoading } = useQuery({
+    queryKey: ["admin-subjects"],
+    queryFn: adminSubjectsApi.list,
+  });
+
+  const deleteMut = useMutation({
+    mutationFn: adminSubjectsApi.delete,
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["admin-subjects"] }),
+    onError: (e: any) => Alert.alert("Cannot Delete", e.message),
+  });
+
+  const codeById = useMemo(() => new Map(subjects.map((s) => [s.id, s.code])), [subjects]);
+
+  const filtered = useMemo(() => {
+    if (!search.trim()) return subjects;
+    const q = search.toLowerCase();
+    return subjects.filter((s) => s.code.toLowerCase().includes(q) || s.title.toLowerCase().includes(q));
+  }, [subjects, search]);
+
+  const handleDelete = (subject: SubjectRecord) => {
+    const doDelete = () => { Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning); deleteMut.mutate(subject.id); };
+    if (Platform.OS === "web") { doDelete(); return; }
+    Alert.alert("Delete Subject", `Delete ${subject.code} from the catalog?`, [
+      { text: "Cancel", style: "cancel" }, { text: "Delete", style: "destructive", onPress: doDelete },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 12 + webTopInset }]}>
+        <View style={styles.headerRow}>
+          <View>
+            <Text style={styles.headerTitle}>Subjects</Text>
+            <Text style={styles.headerSubtitle}>{subjects.length} in catalog</Text>
+          </View>
+          <Pressable style={styles.addButton} onPress={() => { setEditSubject(null); setModal(true); }}>
+            <Ionicons name="add" size={22} color={Colors.white} />
+          </Pressable>
+        </View>
+        <View style={styles.searchContainer}>
+          <Ionicons name="search-outline" size={18} color={Colors.textTertiary} />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search by code or title..."
+            placeholderTextColor={Colors.textTertiary}
+            value={search}
+            onChangeText={setSearch}
+            autoCorrect={false}
+          />
+          {!!search && (
+            <Pressable onPress={() => setSearch("")}>
+              <Ionicons name="close-circle" size={18} color={Colors.textTertiary} />
+            </Pressable>
+          )}
+        </View>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}><ActivityIndicator size="large" color={Colors.primary} /></View>
+      ) : (
+        <FlatList
+          data={filtered}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item, index }) => (
+            <SubjectCard
+              item={item} index={index} codeById={codeById}
+              onEdit={(s) => { setEditSubject(s); setModal(true); }}
+              onDelete={handleDelete}
+            />
+          )}
+          contentContainerStyle={[styles.listContent, { paddingBottom: 100 + webBottomInset }]}
+          showsVerticalScrollIndicator={false}
+          scrollEnabled={!!filtered.length}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Ionicons name="library-outline" size={48} color={Colors.textTertiary} />
+              <Text style={styles.emptyTitle}>{search ? "No results found" : "No Subjects"}</Text>
+              <Text style={styles.emptySubtitle}>{search ? "Try a different search term" : "Tap + to add a subject"}</Text>
+            </View>
+          }
+        />
+      )}
+
+      <SubjectModal
+        visible={modal}
+        onClose={() => { setModal(false); setEditSubject(null); }}
+        editSubject={editSubject}
+        subjects={subjects}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.background },
+  header: {
+    backgroundColor: Colors.white, paddingHorizontal: 16,
+    paddingBottom: 12, borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  headerRow: { flexDirection: "row", justifyContent: "space-between", alignItems: "flex-start", marginBottom: 12 },
+  headerTitle: { fontFamily: "Inter_700Bold", fontSize: 26, color: Colors.text },
+  headerSubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, marginTop: 2 },
+  addButton: { width: 44, height: 44, borderRadius: 22, backgroundColor: Colors.primary, justifyContent: "center", alignItems: "center" },
+  searchContainer: {
+    flexDirection: "row", alignItems: "center", gap: 10,
+    backgroundColor: Colors.surfaceSecondary, borderRadius: 12,
+    paddingHorizontal: 12, paddingVertical: 10, borderWidth: 1, borderColor: Colors.border,
+  },
+  searchInput: { flex: 1, fontFamily: "Inter_400Regular", fontSize: 14, color: Colors.text },
+  listContent: { padding: 12, gap: 10 },
+  loadingContainer: { flex: 1, justifyContent: "center", alignItems: "center" },
+  card: {
+    backgroundColor: Colors.white, borderRadius: 14, padding: 14,
+    flexDirection: "row", alignItems: "center",
+    shadowColor: Colors.cardShadow, shadowOffset: { width: 0, height: 2 }, shadowOpacity: 1, shadowRadius: 8, elevation: 2,
+  },
+  unitsBox: {
+    width: 56, alignItems: "center", justifyContent: "center",
+    borderRadius: 12, paddingVertical: 10, marginRight: 12, backgroundColor: "#EBF0F9",
+  },
+  unitsValue: { fontFamily: "Inter_700Bold", fontSize: 18, color: Colors.primary },
+  unitsLabel: { fontFamily: "Inter_500Medium", fontSize: 9, color: Colors.primary, marginTop: 2 },
+  cardContent: { flex: 1 },
+  cardCode: { fontFamily: "Inter_700Bold", fontSize: 12, color: Colors.primary, letterSpacing: 0.5 },
+  cardTitle: { fontFamily: "Inter_600SemiBold", fontSize: 14, color: Colors.text, marginTop: 2 },
+  cardMeta: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary, marginTop: 2 },
+  cardPrereq: { fontFamily: "Inter_400Regular", fontSize: 11, color: Colors.textTertiary, marginTop: 2 },
+  cardActions: { gap: 8 },
+  actionBtn: { width: 32, height: 32, borderRadius: 8, justifyContent: "center", alignItems: "center" },
+  emptyState: { alignItems: "center", paddingTop: 60, gap: 8 },
+  emptyTitle: { fontFamily: "Inter_600SemiBold", fontSize: 16, color: Colors.text },
+  emptySubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary },
+  modalOverlay: { flex: 1, backgroundColor: Colors.overlay, justifyContent: "flex-end" },
+  modalSheet: { backgroundColor: Colors.white, borderTopLeftRadius: 24, borderTopRightRadius: 24, maxHeight: "90%" },
+  modalHeader: {
+    flexDirection: "row", justifyContent: "space-between", alignItems: "center",
+    paddingHorizontal: 20, paddingTop: 20, paddingBottom: 12,
+    borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  modalTitle: { fontFamily: "Inter_700Bold", fontSize: 18, color: Colors.text },
+  modalBody: { padding: 20 },
+  modalError: {
+    flexDirection: "row", alignItems: "center", gap: 8,
+    backgroundColor: "#FEF2F2", padding: 12, borderRadius: 10, marginBottom: 12,
+  },
+  modalErrorText: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.error, flex: 1 },
+  formRow: { flexDirection: "row", gap: 12 },
+  formField: { marginBottom: 14 },
+  formLabel: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text, marginBottom: 6 },
+  formHint: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textTertiary },
+  formInput: {
+    fontFamily: "Inter_400Regular", fontSize: 14, color: Colors.text,
+    backgroundColor: Colors.surfaceSecondary, borderRadius: 10,
+    paddingHorizontal: 14, paddingVertical: 12, borderWidth: 1, borderColor: Colors.border,
+  },
+  chipGrid: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
+  chip: {
+    paddingHorizontal: 14, paddingVertical: 8, borderRadius: 20,
+    backgroundColor: Colors.surfaceSecondary, borderWidth: 1, borderColor: Colors.border,
+  },
+  chipActive: { backgroundColor: Colors.primary, borderColor: Colors.primary },
+  chipText: { fontFamily: "Inter_500Medium", fontSize: 12, color: Colors.text },
+  chipTextActive: { color: Colors.white },
+  saveButton: { backgroundColor: Colors.primary, borderRadius: 12, paddingVertical: 14, alignItems: "center", marginTop: 12 },
+  saveButtonText: { fontFamily: "Inter_700Bold", fontSize: 15, color: Colors.white },
+});
@@ -0,0 +1,338 @@
+import { useState, useEffect } from "react";
+import {
+  StyleSheet, Text, View, FlatList, Pressable, Platform,
+  TextInput, Modal, Alert, ActivityIndicator, ScrollView,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import * as Haptics from "expo-haptics";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { termsApi, adminTermsApi, type TermRecord } from "@/lib/api";
+import Colors from "@/constants/colors";
+
+interface TermFormData {
+  name: string;
+  schoolYear: string;
+  startDate: string;
+  endDate: string;
+}
+
+const emptyForm: TermFormData = { name: "", schoolYear: "", startDate: "", endDate: "" };
+
+const toForm = (t: TermRecord): TermFormData => ({
+  name: t.name, schoolYear: t.schoolYear, startDate: t.startDate, endDate: t.endDate,
+});
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Everything that shows or defaults to the current term
+const invalidateTermQueries = (qc: ReturnType<typeof useQueryClient>) => {
+  qc.invalidateQueries({ queryKey: ["terms"] });
+  qc.invalidateQueries({ queryKey: ["admin-grades"] });
+  qc.invalidateQueries({ queryKey: ["admin-enrollments"] });
+};
+
+function TermModal({ visible, onClose, editTerm }: {
+  visible: boolean; onClose: () => void; editTerm?: TermRecord | null;
+}) {
+  const qc = useQueryClient();
+  const isEdit = !!editTerm;
+  const [form, setForm] = useState<TermFormData>(editTerm ? toForm(editTerm) : emptyForm);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (visible) {
+      setForm(editTerm ? toForm(editTerm) : emptyForm);
+      setError("");
+    }
+  }, [visible, editTerm]);
+
+  const createMut = useMutation({
+    mutationFn: adminTermsApi.create,
+    onSuccess: () => { invalidateTermQueries(qc); onClose(); },
+    onError: (e: any) => setError(e.message),
+  });
+  const updateMut = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<TermRecord> }) => adminTermsApi.update(id, data),
+    onSuccess: () => { invalidateTermQueries(qc); onClose(); },
+    onError: (e: any) => setError(e.message),
+  });
+
+  const field = (key: keyof TermFormData) => ({
+    value: form[key],
+    onChangeText: (v: string) => { setForm((f) => ({ ...f, [key]: v })); setError(""); },
+  });
+
+  const handleSave = () => {
+    if (!form.name.trim() || !form.schoolYear.trim() || !form.startDate.trim() || !form.endDate.trim()) {
+      setError("All fields are required.");
+      return;
+    }
+    if (!DATE_PATTERN.test(form.startDate.trim()) || !DATE_PATTERN.test(form.endDate.trim())) {
+      setError("Dates must be in YYYY-MM-DD format.");
+      return;
+    }
+    if (form.endDate.trim() < form.startDate.trim()) {
+      setError("End date must be on or after the start date.");
+      return;
+    }
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const payload: Partial<TermRecord> = {
+      name: form.name.trim(),
+      schoolYear: form.schoolYear.trim(),
+      startDate: form.startDate.trim(),
+      endDate: form.endDate.trim(),
+    };
+    if (isEdit && editTerm) {
+      updateMut.mutate({ id: editTerm.id, data: payload });
+    } else {
+      createMut.mutate(payload);
+    }
+  };
+
+  const isBusy = createMut.isPending || updateMut.isPending;
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalSheet}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{isEdit ? "Edit Term" : "New Term"}</Text>
+            <Pressable onPress={onClose}><Ionicons name="close" size={24} color={Colors.text} /></Pressable>
+          </View>
+          <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+            {!!error && (
+              <View style={styles.modalError}>
+                <Ionicons name="alert-circle" size={15} color={Colors.error} />
+                <Text style={styles.modalErrorText}>{error}</Text>
+              </View>
+            )}
+            <FormField label="Name *" {...field("name")} placeholder="e.g. 1st Semester 2025-2026" />
+            <FormField label="School Year *" {...field("schoolYear")} placeholder="e.g. 2025-2026" />
+            <View style={styles.formRow}>
+              <View style={{ flex: 1 }}>
+                <FormField label="Start Date *" {...field("startDate")} placeholder="YYYY-MM-DD" />
+              </View>
+              <View style={{ flex: 1 }}>
+                <FormField label="End Date *" {...field("endDate")} placeholder="YYYY-MM-DD" />
+              </View>
+            </View>
+            <Pressable style={[styles.saveButton, isBusy && { opacity: 0.7 }]} onPress={handleSave} disabled={isBusy}>
+              {isBusy ? <ActivityIndicator color={Colors.white} size="small" /> : <Text style={styles.saveButtonText}>{isEdit ? "Save Changes" : "Add Term"}</Text>}
+            </Pressable>
+            <View style={{ height: 24 }} />
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+function FormField({ label, value, onChangeText, placeholder }: {
+  label: string; value: string; onChangeText: (v: string) => void; placeholder?: string;
+}) {
+  return (
+    <View style={styles.formField}>
+      <Text style={styles.formLabel}>{label}</Text>
+      <TextInput
+        style={styles.formInput} value={value} onChangeText={onChangeText}
+        placeholder={placeholder} placeholderTextColor={Colors.textTertiary} autoCapitalize="none"
+      />
+    </View>
+  );
+}
+
+function TermCard({ item, index, onEdit, onDelete, onActivate }: {
+  item: TermRecord; index: number;
+  onEdit: (t: TermRecord) => void; onDelete: (t: TermRecord) => void; onActivate: (t: TermRecord) => void;
+}) {
+  return (
+    <Animated.View entering={FadeInDown.delay(index * 50).duration(350)}>
+      <View style={[styles.card, item.isActive && styles.cardActive]}>
+        <View style={styles.cardContent}>
+          <View style={styles.cardTitleRow}>
+            <Text style={styles.cardTitle}>{item.name}</Text>
+            {item.isActive && (
+              <View style={styles.activeBadge}>
+                <Text style={styles.activeBadgeText}>Active</Text>
+              </View>
+            )}
+          </View>
+          <Text style={styles.cardMeta}>AY {item.schoolYear}</Text>
+          <Text style={styles.cardMeta}>{item.startDate} to {item.endDate}</Text>
+          {!item.isActive && (
+            <Pressable style={styles.activateButton} onPress={() => onActivate(item)}>
+              <Ionicons name="radio-button-on" size={14} color={Colors.primary} />
+              <Text style={styles.activateButtonText}>Set as active term</Text>
+            </Pressable>
+          )}
+        </View>
+        <View style={styles.cardActions}>
+          <Pressable style={[styles.actionBtn, { backgroundColor: "#EBF0F9" }]} onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); onEdit(item); }}>
+            <Ionicons name="pencil" size={15} color={Colors.primary} />
+          </Pressable>
+          {!item.isActive && (
+            <Pressable style={[styles.actionBtn, { backgroundColor: "#FEF2F2" }]} onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium); onDelete(item); }}>
+              <Ionicons name="trash" size={15} color={Colors.error} />
+            </Pressable>
+          )}
+        </View>
+      </View>
+    </Animated.View>
+  );
+}
+
+export default function TermsScreen() {
+  const insets = useSafeAreaInsets();
+  const qc = useQueryClient();
+  const [modal, setModal] = useState(false);
+  const [editTerm, setEditTerm] = useState<TermRecord | null>(null);
+
+  const webTopInset = Platform.OS === "web" ? 67 : 0;
+  const webBottomInset = Platform.OS === "web" ? 34 : 0;
+
+  const { data: terms = [], isLoading } = useQuery({
+    queryKey: ["terms"],
+    queryFn: termsApi.list,
+  });
+
+  const deleteMut = useMutation({
+    mutationFn: adminTermsApi.delete,
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["terms"] }),
+    onError: (e: any) => Alert.alert("Cannot Delete", e.message),
+  });
+  const activateMut = useMutation({
+    mutationFn: adminTermsApi.activate,
+    onSuccess: () => invalidateTermQueries(qc),
+    onError: (e: any) => Alert.alert("Error", e.message),
+  });
+
+  // Newest first
+  const displayed = [...terms].reverse();
+  const activeTerm = terms.find((t) => t.isActive);
+
+  const handleDelete = (term: TermRecord) => {
+    const doDelete = () => { Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning); deleteMut.mutate(term.id); };
+    if (Platform.OS === "web") { doDelete(); return; }
+    Alert.alert("Delete Term", `Delete ${term.name}?`, [
+      { text: "Cancel", style: "cancel" }, { text: "Delete", style: "destructive", onPress: doDelete },
+    ]);
+  };
+
+  const handleActivate = (term: TermRecord) => {
+    const doActivate = () => { Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success); activateMut.mutate(term.id); };
+    if (Platform.OS === "web") { doActivate(); return; }
+    Alert.alert(
+      "Switch Active Term",
+      `Make ${term.name} the current term? Students will see its schedule and new classes will default to it.`,
+      [{ text: "Cancel", style: "cancel" }, { text: "Switch", onPress: doActivate }],
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 12 + webTopInset }]}>
+        <View style={styles.headerRow}>
+          <View>
+            <Text style={styles.headerTitle}>Terms</Text>
+            <Text style={styles.headerSubtitle}>{activeTerm ? `Current: ${activeTerm.name}` : "No active term"}</Text>
+          </View>
+          <Pressable style={styles.addButton} onPress={() => { setEditTerm(null); setModal(true); }}>
+            <Ionicons name="add" size={22} color={Colors.white} />
+          </Pressable>
+        </View>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}><ActivityIndicator size="large" color={Colors.primary} /></View>
+      ) : (
+        <FlatList
+          data={displayed}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item, index }) => (
+            <TermCard
+              item={item} index={index}
+              onEdit={(t) => { setEditTerm(t); setModal(true); }}
+              onDelete={handleDelete}
+              onActivate={handleActivate}
+            />
+          )}
+          contentContainerStyle={[styles.listContent, { paddingBottom: 100 + webBottomInset }]}
+          showsVerticalScrollIndicator={false}
+          scrollEnabled={!!displayed.length}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Ionicons name="calendar-number-outline" size={48} color={Colors.textTertiary} />
+              <Text style={styles.emptyTitle}>No Terms</Text>
+              <Text style={styles.emptySubtitle}>Tap + to add the current term</Text>
+            </View>
+          }
+        />
+      )}
+
+      <TermModal
+        visible={modal}
+        onClose={() => { setModal(false); setEditTerm(null); }}
+        editTerm={editTerm}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.background },
+  header: {
+    backgroundColor: Colors.white, paddingHorizontal: 16,
+    paddingBottom: 12, borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  headerRow: { flexDirection: "row", justifyContent: "space-between", alignItems: "flex-start" },
+  headerTitle: { fontFamily: "Inter_700Bold", fontSize: 26, color: Colors.text },
+  headerSubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, marginTop: 2 },
+  addButton: { width: 44, height: 44, borderRadius: 22, backgroundColor: Colors.primary, justifyContent: "center", alignItems: "center" },
+  listContent: { padding: 12, gap: 10 },
+  loadingContainer: { flex: 1, justifyContent: "center", alignItems: "center" },
+  card: {
+    backgroundColor: Colors.white, borderRadius: 14, padding: 14,
+    flexDirection: "row", alignItems: "center", borderWidth: 1, borderColor: "transparent",
+    shadowColor: Colors.cardShadow, shadowOffset: { width: 0, height: 2 }, shadowOpacity: 1, shadowRadius: 8, elevation: 2,
+  },
+  cardActive: { borderColor: Colors.primary },
+  cardContent: { flex: 1 },
+  cardTitleRow: { flexDirection: "row", alignItems: "center", gap: 8 },
+  cardTitle: { fontFamily: "Inter_600SemiBold", fontSize: 15, color: Colors.text },
+  cardMeta: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary, marginTop: 2 },
+  activeBadge: { backgroundColor: Colors.primary, paddingHorizontal: 8, paddingVertical: 2, borderRadius: 8 },
+  activeBadgeText: { fontFamily: "Inter_600SemiBold", fontSize: 10, color: Colors.white },
+  activateButton: { flexDirection: "row", alignItems: "center", gap: 6, marginTop: 8, alignSelf: "flex-start" },
+  activateButtonText: { fontFamily: "Inter_500Medium", fontSize: 12, color: Colors.primary },
+  cardActions: { gap: 8 },
+  actionBtn: { width: 32, height: 32, borderRadius: 8, justifyContent: "center", alignItems: "center" },
+  emptyState: { alignItems: "center", paddingTop: 60, gap: 8 },
+  emptyTitle: { fontFamily: "Inter_600SemiBold", fontSize: 16, color: Colors.text },
+  emptySubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary },
+  modalOverlay: { flex: 1, backgroundColor: Colors.overlay, justifyContent: "flex-end" },
+  modalSheet: { backgroundColor: Colors.white, borderTopLeftRadius: 24, borderTopRightRadius: 24, maxHeight: "90%" },
+  modalHeader: {
+    flexDirection: "row", justifyContent: "space-between", alignItems: "center",
+    paddingHorizontal: 20, paddingTop: 20, paddingBottom: 12,
+    borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  modalTitle: { fontFamily: "Inter_700Bold", fontSize: 18, color: Colors.text },
+  modalBody: { padding: 20 },
+  modalError: {
+    flexDirection: "row", alignItems: "center", gap: 8,
+    backgroundColor: "#FEF2F2", padding: 12, borderRadius: 10, marginBottom: 12,
+  },
+  modalErrorText: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.error, flex: 1 },
+  formRow: { flexDirection: "row", gap: 12 },
+  formField: { marginBottom: 14 },
+  formLabel: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text, marginBottom: 6 },
+  formInput: {
+    fontFamily: "Inter_400Regular", fontSize: 14, color: Colors.text,
+    backgroundColor: Colors.surfaceSecondary, borderRadius: 10,
+    paddingHorizontal: 14, paddingVertical: 12, borderWidth: 1, borderColor: Colors.border,
+  },
+  saveButton: { backgroundColor: Colors.primary, borderRadius: 12, paddingVertical: 14, alignItems: "center", marginTop: 12 },
+  saveButtonText: { fontFamily: "Inter_700Bold", fontSize: 15, color: Colors.white },
+});
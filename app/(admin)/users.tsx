@@ -0,0 +1,455 @@
+import { useState, useEffect } from "react";
+import {
+  StyleSheet, Text, View, FlatList, Pressable, Platform,
+  TextInput, Modal, Alert, ActivityIndicator, ScrollView,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import * as Haptics from "expo-haptics";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { adminUsersApi, type AdminAccountRecord } from "@/lib/api";
+import { useAuth } from "@/lib/auth-context";
+import { ADMIN_ROLES, ADMIN_ROLE_LABELS, type AdminRole } from "@shared/permissions";
+import type { StaffStatus } from "@shared/schema";
+import Colors from "@/constants/colors";
+
+interface AdminFormData {
+  firstName: string;
+  lastName: string;
+  username: string;
+  adminRole: AdminRole;
+  status: StaffStatus;
+}
+
+const emptyForm: AdminFormData = { firstName: "", lastName: "", username: "", adminRole: "registrar", status: "active" };
+
+const toForm = (a: AdminAccountRecord): AdminFormData => ({
+  firstName: a.firstName, lastName: a.lastName, username: a.username, adminRole: a.adminRole, status: a.status,
+});
+
+// Renaming yourself changes the name on the dashboard too
+const invalidateAdminQueries = (qc: ReturnType<typeof useQueryClient>) => {
+  qc.invalidateQueries({ queryKey: ["admin-users"] });
+  qc.invalidateQueries({ queryKey: ["admin-account"] });
+};
+
+function AdminModal({ visible, onClose, editAdmin, isSelf, onCreated }: {
+  visible: boolean; onClose: () => void; editAdmin?: AdminAccountRecord | null; isSelf: boolean;
+  onCreated: (user: AdminAccountRecord, temporaryPassword: string) => void;
+}) {
+  const qc = useQueryClient();
+  const isEdit = !!editAdmin;
+  const [form, setForm] = useState<AdminFormData>(editAdmin ? toForm(editAdmin) : emptyForm);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (visible) {
+      setForm(editAdmin ? toForm(editAdmin) : emptyForm);
+      setError("");
+    }
+  }, [visible, editAdmin]);
+
+  const createMut = useMutation({
+    mutationFn: adminUsersApi.create,
+    onSuccess: ({ user, temporaryPassword }) => {
+      invalidateAdminQueries(qc);
+      onClose();
+      onCreated(user, temporaryPassword);
+    },
+    onError: (e: any) => setError(e.message),
+  });
+  const updateMut = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<AdminFormData> }) => adminUsersApi.update(id, data),
+    onSuccess: () => { invalidateAdminQueries(qc); onClose(); },
+    onError: (e: any) => setError(e.message),
+  });
+
+  const field = (key: "firstName" | "lastName" | "username") => ({
+    value: form[key],
+    onChangeText: (v: string) => { setForm((f) => ({ ...f, [key]: v })); setError(""); },
+  });
+
+  const handleSave = () => {
+    if (!form.firstName.trim() || !form.lastName.trim() || (!isEdit && !form.username.trim())) {
+      setError("Name and username are required.");
+      return;
+    }
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const names = { firstName: form.firstName.trim(), lastName: form.lastName.trim() };
+    if (isEdit && editAdmin) {
+      // The server refuses role and status changes to your own account
+      updateMut.mutate({
+        id: editAdmin.id,
+        data: isSelf ? names : { ...names, adminRole: form.adminRole, status: form.status },
+      });
+    } else {
+      createMut.mutate({ ...names, username: form.username.trim(), adminRole: form.adminRole });
+    }
+  };
+
+  const isBusy = createMut.isPending || updateMut.isPending;
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalSheet}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{isEdit ? "Edit Admin" : "New Admin"}</Text>
+            <Pressable onPress={onClose}><Ionicons name="close" size={24} color={Colors.text} /></Pressable>
+          </View>
+          <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+            {!!error && (
+              <View style={styles.modalError}>
+                <Ionicons name="alert-circle" size={15} color={Colors.error} />
+                <Text style={styles.modalErrorText}>{error}</Text>
+              </View>
+            )}
+            <View style={styles.formRow}>
+              <View style={{ flex: 1 }}>
+                <FormField label="First Name *" {...field("firstName")} placeholder="e.g. Ana" />
+              </View>
+              <View style={{ flex: 1 }}>
+                <FormField label="Last Name *" {...field("lastName")} placeholder="e.g. Reyes" />
+              </View>
+            </View>
+            {isEdit ? (
+              <View style={styles.formField}>
+                <Text style={styles.formLabel}>Username</Text>
+                <Text style={styles.readOnlyValue}>@{form.username}</Text>
+              </View>
+            ) : (
+              <FormField label="Username *" {...field("username")} placeholder="e.g. areyes" />
+            )}
+
+            <View style={styles.formField}>
+              <Text style={styles.formLabel}>Role</Text>
+              <View style={styles.chipGrid}>
+                {ADMIN_ROLES.map((r) => (
+                  <Pressable
+                    key={r}
+                    style={[styles.chip, form.adminRole === r && styles.chipActive, isSelf && form.adminRole !== r && { opacity: 0.5 }]}
+                    onPress={() => setForm((f) => ({ ...f, adminRole: r }))}
+                    disabled={isSelf}
+                  >
+                    <Text style={[styles.chipText, form.adminRole === r && { color: Colors.white }]}>{ADMIN_ROLE_LABELS[r]}</Text>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+
+            {isEdit && (
+              <View style={styles.formField}>
+                <Text style={styles.formLabel}>Status</Text>
+                <View style={styles.chipGrid}>
+                  {(["active", "disabled"] as const).map((s) => (
+                    <Pressable
+                      key={s}
+                      style={[
+                        styles.chip,
+                        form.status === s && (s === "disabled" ? styles.chipDanger : styles.chipActive),
+                        isSelf && form.status !== s && { opacity: 0.5 },
+                      ]}
+                      onPress={() => setForm((f) => ({ ...f, status: s }))}
+                      disabled={isSelf}
+                    >
+                      <Text style={[styles.chipText, form.status === s && { color: Colors.white }]}>
+                        {s === "active" ? "Active" : "Disabled"}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            <View style={styles.noteBox}>
+              <Ionicons name="information-circle-outline" size={15} color={Colors.primary} />
+              <Text style={styles.noteText}>
+                {isSelf
+                  ? "You can't change your own role or disable your own account."
+                  : isEdit
+                    ? "Disabling an account signs it out and blocks sign-in until it's enabled again."
+                    : "A temporary password is generated; the new admin is asked to change it after signing in."}
+              </Text>
+            </View>
+
+            <Pressable style={[styles.saveButton, isBusy && { opacity: 0.7 }]} onPress={handleSave} disabled={isBusy}>
+              {isBusy ? <ActivityIndicator color={Colors.white} size="small" /> : <Text style={styles.saveButtonText}>{isEdit ? "Save Changes" : "Add Admin"}</Text>}
+            </Pressable>
+            <View style={{ height: 24 }} />
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+function FormField({ label, value, onChangeText, placeholder }: {
+  label: string; value: string; onChangeText: (v: string) => void; placeholder?: string;
+}) {
+  return (
+    <View style={styles.formField}>
+      <Text style={styles.formLabel}>{label}</Text>
+      <TextInput
+        style={styles.formInput} value={value} onChangeText={onChangeText}
+        placeholder={placeholder} placeholderTextColor={Colors.textTertiary} autoCapitalize="none"
+      />
+    </View>
+  );
+}
+
+// Shown once; the password isn't stored anywhere it can be read back
+function TemporaryPasswordModal({ issued, onClose }: {
+  issued: { username: string; password: string } | null; onClose: () => void;
+}) {
+  return (
+    <Modal visible={!!issued} animationType="fade" transparent onRequestClose={onClose}>
+      <View style={styles.dialogOverlay}>
+        <View style={styles.dialog}>
+          <View style={styles.dialogIcon}>
+            <Ionicons name="key" size={24} color={Colors.primary} />
+          </View>
+          <Text style={styles.dialogTitle}>Temporary Password</Text>
+          <Text style={styles.dialogText}>
+            Give this to @{issued?.username}. It won&apos;t be shown again, and they&apos;ll be asked to change it after signing in.
+          </Text>
+          <View style={styles.passwordBox}>
+            <Text style={styles.passwordText} selectable>{issued?.password}</Text>
+          </View>
+          <Pressable style={[styles.saveButton, { alignSelf: "stretch" }]} onPress={onClose}>
+            <Text style={styles.saveButtonText}>Done</Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+function AdminCard({ item, index, isSelf, onEdit, onResetPassword, onDelete }: {
+  item: AdminAccountRecord; index: number; isSelf: boolean;
+  onEdit: (a: AdminAccountRecord) => void; onResetPassword: (a: AdminAccountRecord) => void; onDelete: (a: AdminAccountRecord) => void;
+}) {
+  const disabled = item.status === "disabled";
+  return (
+    <Animated.View entering={FadeInDown.delay(index * 50).duration(350)}>
+      <View style={[styles.card, disabled && { opacity: 0.7 }]}>
+        <View style={styles.avatar}>
+          <Text style={styles.avatarText}>{item.firstName.charAt(0)}{item.lastName.charAt(0)}</Text>
+        </View>
+        <View style={styles.cardContent}>
+          <Text style={styles.cardTitle}>{item.lastName}, {item.firstName}{isSelf ? " (you)" : ""}</Text>
+          <Text style={styles.cardMeta}>@{item.username} · {ADMIN_ROLE_LABELS[item.adminRole] ?? item.adminRole}</Text>
+          {(disabled || item.mustChangePassword) && (
+            <View style={styles.badgeRow}>
+              {disabled && (
+                <View style={[styles.badge, { backgroundColor: "#FEF2F2" }]}>
+                  <Text style={[styles.badgeText, { color: Colors.error }]}>Disabled</Text>
+                </View>
+              )}
+              {item.mustChangePassword && (
+                <View style={[styles.badge, { backgroundColor: "#FEF3E2" }]}>
+                  <Text style={[styles.badgeText, { color: Colors.warning }]}>Temporary password</Text>
+                </View>
+              )}
+            </View>
+          )}
+        </View>
+        <View style={styles.cardActions}>
+          {!isSelf && (
+            <Pressable style={[styles.actionBtn, { backgroundColor: "#FEF3E2" }]} onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); onResetPassword(item); }}>
+              <Ionicons name="key" size={15} color={Colors.warning} />
+            </Pressable>
+          )}
+          <Pressable style={[styles.actionBtn, { backgroundColor: "#EBF0F9" }]} onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); onEdit(item); }}>
+            <Ionicons name="pencil" size={15} color={Colors.primary} />
+          </Pressable>
+          {!isSelf && (
+            <Pressable style={[styles.actionBtn, { backgroundColor: "#FEF2F2" }]} onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium); onDelete(item); }}>
+              <Ionicons name="trash" size={15} color={Colors.error} />
+            </Pressable>
+          )}
+        </View>
+      </View>
+    </Animated.View>
+  );
+}
+
+export default function AdminUsersScreen() {
+  const insets = useSafeAreaInsets();
+  const qc = useQueryClient();
+  const { admin } = useAuth();
+  const [modal, setModal] = useState(false);
+  const [editAdmin, setEditAdmin] = useState<AdminAccountRecord | null>(null);
+  const [issued, setIssued] = useState<{ username: string; password: string } | null>(null);
+
+  const webTopInset = Platform.OS === "web" ? 67 : 0;
+  const webBottomInset = Platform.OS === "web" ? 34 : 0;
+
+  const { data: admins = [], isLoading } = useQuery({
+    queryKey: ["admin-users"],
+    queryFn: adminUsersApi.list,
+  });
+
+  const resetMut = useMutation({
+    mutationFn: (a: AdminAccountRecord) =>
+      adminUsersApi.temporaryPassword(a.id).then(({ temporaryPassword }) => ({ username: a.username, password: temporaryPassword })),
+    onSuccess: (result) => { qc.invalidateQueries({ queryKey: ["admin-users"] }); setIssued(result); },
+    onError: (e: any) => Alert.alert("Cannot Reset Password", e.message),
+  });
+
+  const deleteMut = useMutation({
+    mutationFn: adminUsersApi.delete,
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["admin-users"] }),
+    onError: (e: any) => Alert.alert("Cannot Delete", e.message),
+  });
+
+  const handleResetPassword = (a: AdminAccountRecord) => {
+    const doReset = () => resetMut.mutate(a);
+    if (Platform.OS === "web") { doReset(); return; }
+    Alert.alert(
+      "Issue Temporary Password",
+      `${a.firstName} ${a.lastName} will be signed out and must sign in with the new password.`,
+      [{ text: "Cancel", style: "cancel" }, { text: "Issue", onPress: doReset }],
+    );
+  };
+
+  const handleDelete = (a: AdminAccountRecord) => {
+    const doDelete = () => { Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning); deleteMut.mutate(a.id); };
+    if (Platform.OS === "web") { doDelete(); return; }
+    Alert.alert("Delete Admin", `Delete the account of ${a.firstName} ${a.lastName}?`, [
+      { text: "Cancel", style: "cancel" }, { text: "Delete", style: "destructive", onPress: doDelete },
+    ]);
+  };
+
+  const activeCount = admins.filter((a) => a.status === "active").length;
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 12 + webTopInset }]}>
+        <View style={styles.headerRow}>
+          <View>
+            <Text style={styles.headerTitle}>Admin Accounts</Text>
+            <Text style={styles.headerSubtitle}>
+              {admins.length} account{admins.length === 1 ? "" : "s"} · {activeCount} active
+            </Text>
+          </View>
+          <Pressable style={styles.addButton} onPress={() => { setEditAdmin(null); setModal(true); }}>
+            <Ionicons name="add" size={22} color={Colors.white} />
+          </Pressable>
+        </View>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}><ActivityIndicator size="large" color={Colors.primary} /></View>
+      ) : (
+        <FlatList
+          data={admins}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item, index }) => (
+            <AdminCard
+              item={item} index={index} isSelf={item.id === admin?.id}
+              onEdit={(a) => { setEditAdmin(a); setModal(true); }}
+              onResetPassword={handleResetPassword}
+              onDelete={handleDelete}
+            />
+          )}
+          contentContainerStyle={[styles.listContent, { paddingBottom: 100 + webBottomInset }]}
+          showsVerticalScrollIndicator={false}
+          scrollEnabled={!!admins.length}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Ionicons name="shield-outline" size={48} color={Colors.textTertiary} />
+              <Text style={styles.emptyTitle}>No Admin Accounts</Text>
+              <Text style={styles.emptySubtitle}>Tap + to give a staff member access to the admin portal</Text>
+            </View>
+          }
+        />
+      )}
+
+      <AdminModal
+        visible={modal}
+        onClose={() => { setModal(false); setEditAdmin(null); }}
+        editAdmin={editAdmin}
+        isSelf={!!editAdmin && editAdmin.id === admin?.id}
+        onCreated={(user, password) => setIssued({ username: user.username, password })}
+      />
+      <TemporaryPasswordModal issued={issued} onClose={() => setIssued(null)} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.background },
+  header: {
+    backgroundColor: Colors.white, paddingHorizontal: 16,
+    paddingBottom: 12, borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  headerRow: { flexDirection: "row", justifyContent: "space-between", alignItems: "flex-start" },
+  headerTitle: { fontFamily: "Inter_700Bold", fontSize: 26, color: Colors.text },
+  headerSubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, marginTop: 2 },
+  addButton: { width: 44, height: 44, borderRadius: 22, backgroundColor: Colors.primary, justifyContent: "center", alignItems: "center" },
+  listContent: { padding: 12, gap: 10 },
+  loadingContainer: { flex: 1, justifyContent: "center", alignItems: "center" },
+  card: {
+    backgroundColor: Colors.white, borderRadius: 14, padding: 14, flexDirection: "row", alignItems: "center", gap: 12,
+    shadowColor: Colors.cardShadow, shadowOffset: { width: 0, height: 2 }, shadowOpacity: 1, shadowRadius: 8, elevation: 2,
+  },
+  avatar: { width: 40, height: 40, borderRadius: 20, backgroundColor: "#EBF0F9", justifyContent: "center", alignItems: "center" },
+  avatarText: { fontFamily: "Inter_700Bold", fontSize: 14, color: Colors.primary },
+  cardContent: { flex: 1 },
+  cardTitle: { fontFamily: "Inter_600SemiBold", fontSize: 15, color: Colors.text },
+  cardMeta: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary, marginTop: 2 },
+  badgeRow: { flexDirection: "row", flexWrap: "wrap", gap: 6, marginTop: 6 },
+  badge: { paddingHorizontal: 8, paddingVertical: 3, borderRadius: 6 },
+  badgeText: { fontFamily: "Inter_600SemiBold", fontSize: 11 },
+  cardActions: { flexDirection: "row", gap: 8 },
+  actionBtn: { width: 32, height: 32, borderRadius: 8, justifyContent: "center", alignItems: "center" },
+  emptyState: { alignItems: "center", paddingTop: 60, gap: 8, paddingHorizontal: 32 },
+  emptyTitle: { fontFamily: "Inter_600SemiBold", fontSize: 16, color: Colors.text },
+  emptySubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, textAlign: "center" },
+  modalOverlay: { flex: 1, backgroundColor: Colors.overlay, justifyContent: "flex-end" },
+  modalSheet: { backgroundColor: Colors.white, borderTopLeftRadius: 24, borderTopRightRadius: 24, maxHeight: "90%" },
+  modalHeader: {
+    flexDirection: "row", justifyContent: "space-between", alignItems: "center",
+    paddingHorizontal: 20, paddingTop: 20, paddingBottom: 12,
+    borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  modalTitle: { fontFamily: "Inter_700Bold", fontSize: 18, color: Colors.text },
+  modalBody: { padding: 20 },
+  modalError: {
+    flexDirection: "row", alignItems: "center", gap: 8,
+    backgroundColor: "#FEF2F2", padding: 12, borderRadius: 10, marginBottom: 12,
+  },
+  modalErrorText: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.error, flex: 1 },
+  formRow: { flexDirection: "row", gap: 12 },
+  formField: { marginBottom: 14 },
+  formLabel: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text, marginBottom: 6 },
+  formInput: {
+    fontFamily: "Inter_400Regular", fontSize: 14, color: Colors.text,
+    backgroundColor: Colors.surfaceSecondary, borderRadius: 10,
+    paddingHorizontal: 14, paddingVertical: 12, borderWidth: 1, borderColor: Colors.border,
+  },
+  readOnlyValue: { fontFamily: "Inter_400Regular", fontSize: 14, color: Colors.textSecondary },
+  chipGrid: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
+  chip: {
+    paddingHorizontal: 14, paddingVertical: 8, borderRadius: 20,
+    backgroundColor: Colors.surfaceSecondary, borderWidth: 1, borderColor: Colors.border,
+  },
+  chipActive: { backgroundColor: Colors.primary, borderColor: Colors.primary },
+  chipDanger: { backgroundColor: Colors.error, borderColor: Colors.error },
+  chipText: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text },
+  noteBox: { flexDirection: "row", alignItems: "flex-start", gap: 8, backgroundColor: "#EBF0F9", padding: 12, borderRadius: 10 },
+  noteText: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.primary, flex: 1, lineHeight: 18 },
+  saveButton: { backgroundColor: Colors.primary, borderRadius: 12, paddingVertical: 14, alignItems: "center", marginTop: 12 },
+  saveButtonText: { fontFamily: "Inter_700Bold", fontSize: 15, color: Colors.white },
+  dialogOverlay: { flex: 1, backgroundColor: Colors.overlay, justifyContent: "center", padding: 24 },
+  dialog: { backgroundColor: Colors.white, borderRadius: 20, padding: 24, alignItems: "center", gap: 10 },
+  dialogIcon: { width: 52, height: 52, borderRadius: 26, backgroundColor: "#EBF0F9", justifyContent: "center", alignItems: "center" },
+  dialogTitle: { fontFamily: "Inter_700Bold", fontSize: 18, color: Colors.text },
+  dialogText: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, textAlign: "center", lineHeight: 19 },
+  passwordBox: {
+    alignSelf: "stretch", backgroundColor: Colors.surfaceSecondary, borderRadius: 12,
+    paddingVertical: 14, borderWidth: 1, borderColor: Colors.border, alignItems: "center",
+  },
+  passwordText: { fontFamily: "Inter_700Bold", fontSize: 22, color: Colors.text, letterSpacing: 2 },
+});
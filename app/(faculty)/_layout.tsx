@@ -0,0 +1,56 @@
+import { Tabs } from "expo-router";
+import { BlurView } from "expo-blur";
+import { Platform, StyleSheet, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import Colors from "@/constants/colors";
+
+export default function FacultyLayout() {
+  const isIOS = Platform.OS === "ios";
+  const isWeb = Platform.OS === "web";
+
+  return (
+    <Tabs
+      screenOptions={{
+        headerShown: false,
+        tabBarActiveTintColor: Colors.gold,
+        tabBarInactiveTintColor: "rgba(255,255,255,0.5)",
+        tabBarLabelStyle: {
+          fontFamily: "Inter_500Medium",
+          fontSize: 10,
+        },
+        tabBarStyle: {
+          position: "absolute",
+          backgroundColor: isIOS ? "transparent" : Colors.primaryDark,
+          borderTopWidth: 0,
+          elevation: 0,
+          ...(isWeb ? { height: 84 } : {}),
+        },
+        tabBarBackground: () =>
+          isIOS ? (
+            <BlurView
+              intensity={100}
+              tint="dark"
+              style={[StyleSheet.absoluteFill, { backgroundColor: `${Colors.primaryDark}CC` }]}
+            />
+          ) : isWeb ? (
+            <View style={[StyleSheet.absoluteFill, { backgroundColor: Colors.primaryDark }]} />
+          ) : null,
+      }}
+    >
+      <Tabs.Screen
+        name="index"
+        options={{
+          title: "Classes",
+          tabBarIcon: ({ color, size }) => <Ionicons name="easel" size={size} color={color} />,
+        }}
+      />
+      <Tabs.Screen
+        name="profile"
+        options={{
+          title: "Profile",
+          tabBarIcon: ({ color, size }) => <Ionicons name="person" size={size} color={color} />,
+        }}
+      />
+    </Tabs>
+  );
+}
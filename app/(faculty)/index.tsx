@@ -0,0 +1,474 @@
+import { useEffect, useState } from "react";
+import {
+  StyleSheet, Text, View, FlatList, Pressable, Platform,
+  Modal, ActivityIndicator, ScrollView, RefreshControl, Alert,
+} from "react-native";
+import { router } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { LinearGradient } from "expo-linear-gradient";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import * as Haptics from "expo-haptics";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { useAuth } from "@/lib/auth-context";
+import {
+  facultyClassesApi, facultyGradesApi, facultyAttendanceApi, gradingScaleApi, termsApi,
+  type FacultyClassRecord, type ClassListEntry,
+} from "@/lib/api";
+import AttendancePanel from "@/components/AttendancePanel";
+import { formatTimeRange } from "@shared/schedule";
+import { DEFAULT_GRADING_SCALE } from "@shared/grades";
+import Colors from "@/constants/colors";
+
+// Contact hours per week across the teaching load
+function weeklyHours(classes: FacultyClassRecord[]): number {
+  const minutes = classes.reduce((acc, c) => acc + (c.endMinutes - c.startMinutes) * c.days.length, 0);
+  return Math.round((minutes / 60) * 10) / 10;
+}
+
+function studentName(entry: ClassListEntry): string {
+  if (!entry.student) return "Unknown student";
+  const { lastName, firstName, middleName } = entry.student;
+  return `${lastName}, ${firstName}${middleName ? ` ${middleName.charAt(0)}.` : ""}`;
+}
+
+function ClassListModal({ visible, onClose, item }: {
+  visible: boolean; onClose: () => void; item: FacultyClassRecord | null;
+}) {
+  const qc = useQueryClient();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [tab, setTab] = useState<"grades" | "attendance">("grades");
+
+  useEffect(() => {
+    if (visible) {
+      setEditingId(null);
+      setError("");
+      setTab("grades");
+    }
+  }, [visible, item]);
+
+  const { data: roster = [], isLoading } = useQuery({
+    queryKey: ["faculty-class-list", item?.id],
+    queryFn: () => facultyClassesApi.students(item!.id),
+    enabled: visible && !!item,
+  });
+  const { data: scale = DEFAULT_GRADING_SCALE } = useQuery({
+    queryKey: ["grading-scale"],
+    queryFn: gradingScaleApi.get,
+    enabled: visible,
+  });
+  const gradeOptions = [...scale.values, ...scale.specialCodes.map((c) => c.code)];
+  const { data: terms = [] } = useQuery({
+    queryKey: ["terms"],
+    queryFn: termsApi.list,
+    enabled: visible,
+  });
+
+  const gradeMut = useMutation({
+    mutationFn: ({ entry, grade }: { entry: ClassListEntry; grade: string }) =>
+      entry.grade
+        ? facultyGradesApi.update(entry.grade.id, grade)
+        : facultyGradesApi.create({ enrollmentId: entry.enrollment.id, grade }),
+    onSuccess: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setEditingId(null);
+      setError("");
+      qc.invalidateQueries({ queryKey: ["faculty-class-list", item?.id] });
+      qc.invalidateQueries({ queryKey: ["faculty-classes"] });
+    },
+    onError: (e: any) => setError(e.message),
+  });
+  const submitMut = useMutation({
+    mutationFn: () => facultyGradesApi.submitClass(item!.id),
+    onSuccess: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setEditingId(null);
+      setError("");
+      qc.invalidateQueries({ queryKey: ["faculty-class-list", item?.id] });
+      qc.invalidateQueries({ queryKey: ["faculty-classes"] });
+    },
+    onError: (e: any) => setError(e.message),
+  });
+
+  if (!item) return null;
+  const enrolled = roster.filter((e) => e.enrollment.status === "enrolled");
+  const left = roster.filter((e) => e.enrollment.status !== "enrolled");
+  const draftCount = roster.filter((e) => e.grade?.status === "draft").length;
+
+  const handleSubmit = () => {
+    const ungraded = enrolled.filter((e) => !e.grade).length;
+    const doSubmit = () => submitMut.mutate();
+    if (Platform.OS === "web") { doSubmit(); return; }
+    Alert.alert(
+      "Submit Grades",
+      `Send ${draftCount} grade(s) to the registrar for approval? You can't change them after submitting.` +
+        (ungraded > 0 ? ` ${ungraded} student(s) are still ungraded.` : ""),
+      [{ text: "Cancel", style: "cancel" }, { text: "Submit", onPress: doSubmit }],
+    );
+  };
+
+  const renderEntry = (entry: ClassListEntry) => {
+    const isActive = entry.enrollment.status === "enrolled";
+    // Once submitted, only the registrar can change the grade
+    const isEditable = isActive && (!entry.grade || entry.grade.status === "draft");
+    const isEditing = editingId === entry.enrollment.id;
+    return (
+      <View key={entry.enrollment.id} style={styles.rosterRow}>
+        <Pressable
+          style={styles.rosterMain}
+          disabled={!isEditable}
+          onPress={() => { setEditingId(isEditing ? null : entry.enrollment.id); setError(""); }}
+        >
+          <View style={{ flex: 1 }}>
+            <Text style={[styles.rosterName, !isActive && styles.rosterInactive]}>{studentName(entry)}</Text>
+            <Text style={styles.rosterMeta}>
+              {entry.student?.studentId ?? "—"} · {entry.student?.course ?? ""} {entry.student?.yearLevel ?? ""}
+            </Text>
+          </View>
+          {isActive ? (
+            <View style={{ alignItems: "flex-end" }}>
+              <View style={[styles.gradePill, !entry.grade && styles.gradePillEmpty]}>
+                <Text style={[styles.gradePillText, !entry.grade && styles.gradePillTextEmpty]}>
+                  {entry.grade ? entry.grade.grade : "Not graded"}
+                </Text>
+              </View>
+              {!!entry.grade && (
+                <Text style={[styles.gradeStatusText, { color: Colors.gradeStatus[entry.grade.status] }]}>
+                  {entry.grade.status}
+                </Text>
+              )}
+            </View>
+          ) : (
+            <Text style={styles.statusText}>{entry.enrollment.status}</Text>
+          )}
+        </Pressable>
+        {isEditing && (
+          <View style={styles.gradeChips}>
+            {gradeOptions.map((g) => (
+              <Pressable
+                key={g}
+                style={[styles.chip, entry.grade?.grade === g && styles.chipActive]}
+                disabled={gradeMut.isPending}
+                onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); gradeMut.mutate({ entry, grade: g }); }}
+              >
+                <Text style={[styles.chipText, entry.grade?.grade === g && styles.chipTextActive]}>{g}</Text>
+              </Pressable>
+            ))}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalSheet}>
+          <View style={styles.modalHeader}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.modalTitle}>{item.subjectCode}{item.sectionName ? ` · ${item.sectionName}` : ""}</Text>
+              <Text style={styles.modalSubtitle}>{item.subjectName}</Text>
+            </View>
+            <Pressable onPress={onClose}><Ionicons name="close" size={24} color={Colors.text} /></Pressable>
+          </View>
+          <View style={styles.tabRow}>
+            {(["grades", "attendance"] as const).map((t) => (
+              <Pressable key={t} style={[styles.tabItem, tab === t && styles.tabItemActive]} onPress={() => setTab(t)}>
+                <Text style={[styles.tabText, tab === t && styles.tabTextActive]}>{t === "grades" ? "Grades" : "Attendance"}</Text>
+              </Pressable>
+            ))}
+          </View>
+          <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+            {tab === "attendance" ? (
+              <AttendancePanel
+                classId={item.id}
+                days={item.days}
+                term={terms.find((t) => t.id === item.termId)}
+                source={{
+                  sheet: (date) => facultyAttendanceApi.sheet(item.id, date),
+                  save: (data) => facultyAttendanceApi.save(item.id, data),
+                  summary: () => facultyAttendanceApi.summary(item.id),
+                  checkinToken: () => facultyAttendanceApi.checkinToken(item.id),
+                  overrides: () => facultyClassesApi.overrides(item.id),
+                }}
+              />
+            ) : (
+              <>
+                {!!error && (
+                  <View style={styles.modalError}>
+                    <Ionicons name="alert-circle" size={15} color={Colors.error} />
+                    <Text style={styles.modalErrorText}>{error}</Text>
+                  </View>
+                )}
+                {isLoading ? (
+                  <ActivityIndicator color={Colors.primary} style={{ marginTop: 24 }} />
+                ) : roster.length === 0 ? (
+                  <Text style={styles.emptyHint}>No students are enrolled in this class yet.</Text>
+                ) : (
+                  <>
+                    {draftCount > 0 && (
+                      <Pressable
+                        style={[styles.submitButton, submitMut.isPending && { opacity: 0.7 }]}
+                        onPress={handleSubmit}
+                        disabled={submitMut.isPending}
+                      >
+                        {submitMut.isPending
+                          ? <ActivityIndicator color={Colors.white} size="small" />
+                          : <Text style={styles.submitButtonText}>Submit {draftCount} Grade(s) for Approval</Text>}
+                      </Pressable>
+                    )}
+                    <Text style={styles.rosterHeading}>Enrolled ({enrolled.length}) · tap a student to encode a grade</Text>
+                    {enrolled.map(renderEntry)}
+                    {left.length > 0 && (
+                      <>
+                        <Text style={[styles.rosterHeading, { marginTop: 16 }]}>Dropped / Withdrawn ({left.length})</Text>
+                        {left.map(renderEntry)}
+                      </>
+                    )}
+                  </>
+                )}
+              </>
+            )}
+            <View style={{ height: 24 }} />
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+function ClassCard({ item, index, onPress }: {
+  item: FacultyClassRecord; index: number; onPress: (c: FacultyClassRecord) => void;
+}) {
+  const complete = item.enrolledCount > 0 && item.gradedCount === item.enrolledCount;
+  return (
+    <Animated.View entering={FadeInDown.delay(index * 50).duration(350)}>
+      <Pressable
+        style={({ pressed }) => [styles.card, pressed && { opacity: 0.9 }]}
+        onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); onPress(item); }}
+      >
+        <View style={styles.cardContent}>
+          <View style={styles.cardTitleRow}>
+            <Text style={styles.cardCode}>{item.subjectCode}</Text>
+            {!!item.sectionName && <Text style={styles.cardSection}>{item.sectionName}</Text>}
+          </View>
+          <Text style={styles.cardTitle}>{item.subjectName}</Text>
+          <View style={styles.metaRow}>
+            <Ionicons name="time-outline" size={13} color={Colors.textSecondary} />
+            <Text style={styles.metaText}>{item.days.join(", ")} · {formatTimeRange(item.startMinutes, item.endMinutes)}</Text>
+          </View>
+          <View style={styles.metaRow}>
+            <Ionicons name="location-outline" size={13} color={Colors.textSecondary} />
+            <Text style={styles.metaText}>{item.room || "TBA"}</Text>
+          </View>
+        </View>
+        <View style={styles.cardStats}>
+          <Text style={styles.cardCount}>{item.enrolledCount}</Text>
+          <Text style={styles.cardCountLabel}>students</Text>
+          <Text style={[styles.gradedText, complete && { color: Colors.success }]}>
+            {item.gradedCount}/{item.enrolledCount} graded
+          </Text>
+          {item.draftCount > 0 && <Text style={styles.draftText}>{item.draftCount} not submitted</Text>}
+        </View>
+      </Pressable>
+    </Animated.View>
+  );
+}
+
+export default function FacultyClassesScreen() {
+  const insets = useSafeAreaInsets();
+  const { faculty, isAuthenticated, isLoading: authLoading, role, logout } = useAuth();
+  const [termId, setTermId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<FacultyClassRecord | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && (!isAuthenticated || role !== "faculty")) {
+      router.replace("/");
+    }
+  }, [isAuthenticated, authLoading, role]);
+
+  const { data: terms = [] } = useQuery({
+    queryKey: ["terms"],
+    queryFn: termsApi.list,
+    enabled: role === "faculty",
+  });
+  const selectedTermId = termId ?? terms.find((t) => t.isActive)?.id ?? null;
+
+  const { data: classes = [], isLoading, refetch, isRefetching } = useQuery({
+    queryKey: ["faculty-classes", selectedTermId],
+    queryFn: () => facultyClassesApi.list(selectedTermId ?? undefined),
+    enabled: role === "faculty",
+  });
+
+  if (!faculty) return null;
+
+  const webTopInset = Platform.OS === "web" ? 67 : 0;
+  const webBottomInset = Platform.OS === "web" ? 34 : 0;
+  const totalStudents = classes.reduce((acc, c) => acc + c.enrolledCount, 0);
+
+  const handleLogout = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    await logout();
+    router.replace("/");
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={[Colors.primaryDark, Colors.primary]}
+        style={[styles.header, { paddingTop: insets.top + 20 + webTopInset }]}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+      >
+        <View style={styles.headerRow}>
+          <View>
+            <Text style={styles.headerGreeting}>Faculty Portal</Text>
+            <Text style={styles.headerName}>{faculty.firstName} {faculty.lastName}</Text>
+          </View>
+          <Pressable style={styles.iconButton} onPress={handleLogout}>
+            <Ionicons name="log-out-outline" size={20} color={Colors.white} />
+          </Pressable>
+        </View>
+        <View style={styles.loadRow}>
+          <View style={styles.loadStat}>
+            <Text style={styles.loadValue}>{classes.length}</Text>
+            <Text style={styles.loadLabel}>Classes</Text>
+          </View>
+          <View style={styles.loadStat}>
+            <Text style={styles.loadValue}>{weeklyHours(classes)}</Text>
+            <Text style={styles.loadLabel}>Hours / week</Text>
+          </View>
+          <View style={styles.loadStat}>
+            <Text style={styles.loadValue}>{totalStudents}</Text>
+            <Text style={styles.loadLabel}>Students</Text>
+          </View>
+        </View>
+      </LinearGradient>
+
+      {terms.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.termBar} contentContainerStyle={styles.termBarContent}>
+          {[...terms].reverse().map((t) => (
+            <Pressable
+              key={t.id}
+              style={[styles.chip, selectedTermId === t.id && styles.chipActive]}
+              onPress={() => setTermId(t.id)}
+            >
+              <Text style={[styles.chipText, selectedTermId === t.id && styles.chipTextActive]}>{t.name}</Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+      )}
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}><ActivityIndicator size="large" color={Colors.primary} /></View>
+      ) : (
+        <FlatList
+          data={classes}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item, index }) => <ClassCard item={item} index={index} onPress={setSelected} />}
+          contentContainerStyle={[styles.listContent, { paddingBottom: 100 + webBottomInset }]}
+          showsVerticalScrollIndicator={false}
+          refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={refetch} tintColor={Colors.primary} />}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Ionicons name="easel-outline" size={48} color={Colors.textTertiary} />
+              <Text style={styles.emptyTitle}>No Classes</Text>
+              <Text style={styles.emptySubtitle}>Classes assigned to you by the registrar appear here</Text>
+            </View>
+          }
+        />
+      )}
+
+      <ClassListModal visible={!!selected} onClose={() => setSelected(null)} item={selected} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.background },
+  header: { paddingHorizontal: 20, paddingBottom: 20 },
+  headerRow: { flexDirection: "row", justifyContent: "space-between", alignItems: "flex-start" },
+  headerGreeting: { fontFamily: "Inter_400Regular", fontSize: 13, color: "rgba(255,255,255,0.7)" },
+  headerName: { fontFamily: "Inter_700Bold", fontSize: 24, color: Colors.white, marginTop: 2 },
+  iconButton: {
+    width: 44, height: 44, borderRadius: 22,
+    backgroundColor: "rgba(255,255,255,0.15)", justifyContent: "center", alignItems: "center",
+  },
+  loadRow: { flexDirection: "row", gap: 10, marginTop: 18 },
+  loadStat: { flex: 1, backgroundColor: "rgba(255,255,255,0.1)", borderRadius: 12, padding: 10, alignItems: "center" },
+  loadValue: { fontFamily: "Inter_700Bold", fontSize: 20, color: Colors.gold },
+  loadLabel: { fontFamily: "Inter_400Regular", fontSize: 11, color: "rgba(255,255,255,0.7)", marginTop: 2 },
+  termBar: { flexGrow: 0, backgroundColor: Colors.white, borderBottomWidth: 1, borderBottomColor: Colors.border },
+  termBarContent: { paddingHorizontal: 12, paddingVertical: 10 },
+  listContent: { padding: 12, gap: 10 },
+  loadingContainer: { flex: 1, justifyContent: "center", alignItems: "center" },
+  card: {
+    backgroundColor: Colors.white, borderRadius: 14, padding: 14, flexDirection: "row", alignItems: "center",
+    shadowColor: Colors.cardShadow, shadowOffset: { width: 0, height: 2 }, shadowOpacity: 1, shadowRadius: 8, elevation: 2,
+  },
+  cardContent: { flex: 1, gap: 3 },
+  cardTitleRow: { flexDirection: "row", alignItems: "center", gap: 8 },
+  cardCode: { fontFamily: "Inter_700Bold", fontSize: 15, color: Colors.primary },
+  cardSection: {
+    fontFamily: "Inter_600SemiBold", fontSize: 10, color: Colors.primary, backgroundColor: "#EBF0F9",
+    paddingHorizontal: 8, paddingVertical: 2, borderRadius: 8, overflow: "hidden",
+  },
+  cardTitle: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text },
+  metaRow: { flexDirection: "row", alignItems: "center", gap: 5 },
+  metaText: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary },
+  cardStats: { alignItems: "center", minWidth: 72 },
+  cardCount: { fontFamily: "Inter_700Bold", fontSize: 22, color: Colors.text },
+  cardCountLabel: { fontFamily: "Inter_400Regular", fontSize: 11, color: Colors.textSecondary },
+  gradedText: { fontFamily: "Inter_500Medium", fontSize: 11, color: Colors.warning, marginTop: 6 },
+  draftText: { fontFamily: "Inter_400Regular", fontSize: 10, color: Colors.textTertiary, marginTop: 2 },
+  emptyState: { alignItems: "center", paddingTop: 60, gap: 8, paddingHorizontal: 32 },
+  emptyTitle: { fontFamily: "Inter_600SemiBold", fontSize: 16, color: Colors.text },
+  emptySubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, textAlign: "center" },
+  chip: {
+    paddingHorizontal: 14, paddingVertical: 8, borderRadius: 20,
+    backgroundColor: Colors.surfaceSecondary, marginRight: 8, borderWidth: 1, borderColor: Colors.border,
+  },
+  chipActive: { backgroundColor: Colors.primary, borderColor: Colors.primary },
+  chipText: { fontFamily: "Inter_500Medium", fontSize: 12, color: Colors.text },
+  chipTextActive: { color: Colors.white },
+  modalOverlay: { flex: 1, backgroundColor: Colors.overlay, justifyContent: "flex-end" },
+  modalSheet: { backgroundColor: Colors.white, borderTopLeftRadius: 24, borderTopRightRadius: 24, maxHeight: "90%" },
+  modalHeader: {
+    flexDirection: "row", justifyContent: "space-between", alignItems: "center",
+    paddingHorizontal: 20, paddingTop: 20, paddingBottom: 12,
+    borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  modalTitle: { fontFamily: "Inter_700Bold", fontSize: 18, color: Colors.text },
+  modalSubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, marginTop: 2 },
+  modalBody: { padding: 20 },
+  tabRow: { flexDirection: "row", paddingHorizontal: 20, gap: 8, paddingTop: 12 },
+  tabItem: { paddingHorizontal: 14, paddingVertical: 7, borderRadius: 16, backgroundColor: Colors.surfaceSecondary },
+  tabItemActive: { backgroundColor: Colors.primary },
+  tabText: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text },
+  tabTextActive: { color: Colors.white },
+  modalError: {
+    flexDirection: "row", alignItems: "center", gap: 8,
+    backgroundColor: "#FEF2F2", padding: 12, borderRadius: 10, marginBottom: 12,
+  },
+  modalErrorText: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.error, flex: 1 },
+  emptyHint: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, textAlign: "center", marginTop: 24 },
+  submitButton: { backgroundColor: Colors.primary, borderRadius: 12, paddingVertical: 12, alignItems: "center", marginBottom: 14 },
+  submitButtonText: { fontFamily: "Inter_700Bold", fontSize: 14, color: Colors.white },
+  rosterHeading: {
+    fontFamily: "Inter_600SemiBold", fontSize: 12, color: Colors.textTertiary,
+    textTransform: "uppercase", letterSpacing: 0.6, marginBottom: 6,
+  },
+  rosterRow: { paddingVertical: 10, borderBottomWidth: 1, borderBottomColor: Colors.border },
+  rosterMain: { flexDirection: "row", alignItems: "center", gap: 10 },
+  rosterName: { fontFamily: "Inter_600SemiBold", fontSize: 14, color: Colors.text },
+  rosterInactive: { color: Colors.textTertiary, textDecorationLine: "line-through" },
+  rosterMeta: { fontFamily: "Inter_400Regular", fontSize: 11, color: Colors.textSecondary, marginTop: 2 },
+  gradePill: { backgroundColor: "#EBF0F9", paddingHorizontal: 10, paddingVertical: 5, borderRadius: 10 },
+  gradePillEmpty: { backgroundColor: Colors.surfaceSecondary },
+  gradePillText: { fontFamily: "Inter_700Bold", fontSize: 13, color: Colors.primary },
+  gradeStatusText: { fontFamily: "Inter_500Medium", fontSize: 10, marginTop: 3, textTransform: "capitalize" },
+  gradePillTextEmpty: { fontFamily: "Inter_500Medium", fontSize: 11, color: Colors.textTertiary },
+  statusText: { fontFamily: "Inter_500Medium", fontSize: 11, color: Colors.textTertiary, textTransform: "capitalize" },
+  gradeChips: { flexDirection: "row", flexWrap: "wrap", rowGap: 8, marginTop: 10 },
+});
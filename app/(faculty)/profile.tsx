@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import {
+  StyleSheet, Text, View, ScrollView, Pressable, Platform,
+  TextInput, ActivityIndicator,
+} from "react-native";
+import { router } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import * as Haptics from "expo-haptics";
+import { useAuth } from "@/lib/auth-context";
+import { facultyProfileApi, facultyAccountApi } from "@/lib/api";
+import Colors from "@/constants/colors";
+
+function PasswordField({ label, value, onChangeText }: {
+  label: string; value: string; onChangeText: (v: string) => void;
+}) {
+  return (
+    <View style={styles.formField}>
+      <Text style={styles.formLabel}>{label}</Text>
+      <TextInput
+        style={styles.formInput} value={value} onChangeText={onChangeText}
+        secureTextEntry autoCapitalize="none" placeholderTextColor={Colors.textTertiary}
+      />
+    </View>
+  );
+}
+
+export default function FacultyProfileScreen() {
+  const insets = useSafeAreaInsets();
+  const { faculty, role, logout, setFaculty } = useAuth();
+  const [currentPw, setCurrentPw] = useState("");
+  const [newPw, setNewPw] = useState("");
+  const [confirmPw, setConfirmPw] = useState("");
+  const [message, setMessage] = useState<{ text: string; ok: boolean } | null>(null);
+
+  const webTopInset = Platform.OS === "web" ? 67 : 0;
+  const webBottomInset = Platform.OS === "web" ? 34 : 0;
+
+  // Pick up name changes made by the registrar
+  const { data: profile } = useQuery({
+    queryKey: ["faculty-profile"],
+    queryFn: facultyProfileApi.get,
+    enabled: role === "faculty",
+  });
+  useEffect(() => {
+    if (profile) setFaculty(profile);
+  }, [profile, setFaculty]);
+
+  const passwordMut = useMutation({
+    mutationFn: facultyAccountApi.changePassword,
+    onSuccess: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setCurrentPw(""); setNewPw(""); setConfirmPw("");
+      setMessage({ text: "Password updated.", ok: true });
+    },
+    onError: (e: any) => setMessage({ text: e.message, ok: false }),
+  });
+
+  if (!faculty) return null;
+
+  const handleChangePassword = () => {
+    setMessage(null);
+    if (!currentPw || !newPw) { setMessage({ text: "Enter your current and new password.", ok: false }); return; }
+    if (newPw.length < 8) { setMessage({ text: "New password must be at least 8 characters.", ok: false }); return; }
+    if (newPw !== confirmPw) { setMessage({ text: "New passwords do not match.", ok: false }); return; }
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    passwordMut.mutate({ currentPassword: currentPw, newPassword: newPw });
+  };
+
+  const handleLogout = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    await logout();
+    router.replace("/");
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 12 + webTopInset }]}>
+        <Text style={styles.headerTitle}>Profile</Text>
+      </View>
+      <ScrollView contentContainerStyle={[styles.content, { paddingBottom: 100 + webBottomInset }]} showsVerticalScrollIndicator={false}>
+        <View style={styles.card}>
+          <View style={styles.avatar}>
+            <Ionicons name="person" size={32} color={Colors.primary} />
+          </View>
+          <Text style={styles.name}>{faculty.firstName} {faculty.lastName}</Text>
+          <Text style={styles.meta}>@{faculty.username} · Faculty</Text>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Change Password</Text>
+          {!!message && (
+            <View style={[styles.alertBox, message.ok && styles.alertSuccess]}>
+              <Ionicons
+                name={message.ok ? "checkmark-circle" : "alert-circle"} size={15}
+                color={message.ok ? Colors.success : Colors.error}
+              />
+              <Text style={[styles.alertText, message.ok && { color: Colors.success }]}>{message.text}</Text>
+            </View>
+          )}
+          <PasswordField label="Current Password" value={currentPw} onChangeText={setCurrentPw} />
+          <PasswordField label="New Password" value={newPw} onChangeText={setNewPw} />
+          <PasswordField label="Confirm New Password" value={confirmPw} onChangeText={setConfirmPw} />
+          <Pressable
+            style={[styles.saveButton, passwordMut.isPending && { opacity: 0.7 }]}
+            onPress={handleChangePassword}
+            disabled={passwordMut.isPending}
+          >
+            {passwordMut.isPending
+              ? <ActivityIndicator color={Colors.white} size="small" />
+              : <Text style={styles.saveButtonText}>Update Password</Text>}
+          </Pressable>
+        </View>
+
+        <Pressable style={styles.logoutButton} onPress={handleLogout}>
+          <Ionicons name="log-out-outline" size={18} color={Colors.error} />
+          <Text style={styles.logoutText}>Sign Out</Text>
+        </Pressable>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.background },
+  header: {
+    backgroundColor: Colors.white, paddingHorizontal: 16,
+    paddingBottom: 12, borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  headerTitle: { fontFamily: "Inter_700Bold", fontSize: 26, color: Colors.text },
+  content: { padding: 12, gap: 10 },
+  card: {
+    backgroundColor: Colors.white, borderRadius: 14, padding: 16,
+    shadowColor: Colors.cardShadow, shadowOffset: { width: 0, height: 2 }, shadowOpacity: 1, shadowRadius: 8, elevation: 2,
+  },
+  avatar: {
+    width: 64, height: 64, borderRadius: 32, backgroundColor: "#EBF0F9",
+    justifyContent: "center", alignItems: "center", alignSelf: "center", marginBottom: 10,
+  },
+  name: { fontFamily: "Inter_700Bold", fontSize: 18, color: Colors.text, textAlign: "center" },
+  meta: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, textAlign: "center", marginTop: 2 },
+  cardTitle: { fontFamily: "Inter_600SemiBold", fontSize: 15, color: Colors.text, marginBottom: 12 },
+  alertBox: {
+    flexDirection: "row", alignItems: "center", gap: 8,
+    backgroundColor: "#FEF2F2", borderRadius: 10, padding: 12, marginBottom: 12,
+  },
+  alertSuccess: { backgroundColor: "#F0FDF4" },
+  alertText: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.error, flex: 1 },
+  formField: { marginBottom: 14 },
+  formLabel: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text, marginBottom: 6 },
+  formInput: {
+    fontFamily: "Inter_400Regular", fontSize: 14, color: Colors.text,
+    backgroundColor: Colors.surfaceSecondary, borderRadius: 10,
+    paddingHorizontal: 14, paddingVertical: 12, borderWidth: 1, borderColor: Colors.border,
+  },
+  saveButton: { backgroundColor: Colors.primary, borderRadius: 12, paddingVertical: 14, alignItems: "center", marginTop: 4 },
+  saveButtonText: { fontFamily: "Inter_700Bold", fontSize: 15, color: Colors.white },
+  logoutButton: {
+    flexDirection: "row", alignItems: "center", justifyContent: "center", gap: 8,
+    backgroundColor: "#FEF2F2", borderRadius: 14, paddingVertical: 14,
+  },
+  logoutText: { fontFamily: "Inter_600SemiBold", fontSize: 15, color: Colors.error },
+});
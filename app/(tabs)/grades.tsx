@@ -9,19 +9,25 @@ import {
   ScrollView,
   Pressable,
   ActivityIndicator,
+  Alert,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import Animated, { FadeInDown } from "react-native-reanimated";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import * as Haptics from "expo-haptics";
 import Colors from "@/constants/colors";
-import { studentGradesApi, type GradeRecord } from "@/lib/api";
+import { useAuth } from "@/lib/auth-context";
+import { studentGradesApi, termsApi, gradingScaleApi, type GradeRecord } from "@/lib/api";
+import { sortSemesterLabels } from "@shared/terms";
+import { computeGwa, DEFAULT_GRADING_SCALE, type GradingScale } from "@shared/grades";
+import { projectGwa } from "@shared/standing";
 
 function GradeCard({ item, index }: { item: GradeRecord; index: number }) {
   const gradeNum = parseFloat(item.grade);
-  const gradeColor =
-    gradeNum <= 1.5
+  const gradeColor = isNaN(gradeNum)
+    ? Colors.textSecondary
+    : gradeNum <= 1.5
       ? Colors.success
       : gradeNum <= 2.0
         ? "#2563EB"
@@ -51,15 +57,121 @@ function GradeCard({ item, index }: { item: GradeRecord; index: number }) {
             <Text style={[styles.gradeValue, { color: gradeColor }]}>{item.grade}</Text>
           </View>
           <Text style={[styles.remarksText, { color: gradeColor }]}>{item.remarks}</Text>
+          {!!item.revisedAt && (
+            <View style={styles.revisedBadge}>
+              <Ionicons name="create-outline" size={10} color={Colors.warning} />
+              <Text style={styles.revisedText}>Revised</Text>
+            </View>
+          )}
         </View>
       </View>
     </Animated.View>
   );
 }
 
+// Hypothetical grades for the subjects still in progress, and the term and
+// cumulative GWA they would give alongside the released ones
+function WhatIfView({ recorded, scale, bottomInset }: {
+  recorded: GradeRecord[]; scale: GradingScale; bottomInset: number;
+}) {
+  const [picked, setPicked] = useState<Record<string, string>>({});
+
+  const { data: subjects = [], isLoading } = useQuery({
+    queryKey: ["student-in-progress"],
+    queryFn: studentGradesApi.inProgress,
+  });
+
+  const hypothetical = subjects
+    .filter((s) => picked[s.enrollmentId])
+    .map((s) => ({ grade: picked[s.enrollmentId], units: s.units, semester: s.semester }));
+  const projection = projectGwa(recorded, hypothetical, scale);
+  const currentGwa = computeGwa(recorded, scale);
+
+  const pick = (enrollmentId: string, grade: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setPicked((p) => ({ ...p, [enrollmentId]: p[enrollmentId] === grade ? "" : grade }));
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingState}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      contentContainerStyle={[styles.listContent, { paddingBottom: 100 + bottomInset }]}
+      showsVerticalScrollIndicator={false}
+    >
+      <View style={[styles.summaryRow, { marginHorizontal: 0, marginTop: 0 }]}>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{currentGwa > 0 ? currentGwa.toFixed(2) : "—"}</Text>
+          <Text style={styles.summaryLabel}>Current GWA</Text>
+        </View>
+        <View style={styles.summaryDivider} />
+        <View style={styles.summaryItem}>
+          <Text style={[styles.summaryValue, { color: Colors.goldDark }]}>
+            {hypothetical.length > 0 ? projection.cumulativeGwa.toFixed(2) : "—"}
+          </Text>
+          <Text style={styles.summaryLabel}>Projected GWA</Text>
+        </View>
+      </View>
+      {projection.terms.map((t) => (
+        <View key={t.semester} style={styles.whatIfTermRow}>
+          <Text style={styles.whatIfTermLabel}>{t.semester} term GWA</Text>
+          <Text style={styles.whatIfTermValue}>{t.gwa.toFixed(2)}</Text>
+        </View>
+      ))}
+
+      {subjects.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="calculator-outline" size={48} color={Colors.textTertiary} />
+          <Text style={styles.emptyTitle}>Nothing In Progress</Text>
+          <Text style={styles.emptySubtitle}>Subjects you are enrolled in appear here until their grades are released</Text>
+        </View>
+      ) : (
+        <Text style={styles.whatIfHint}>Pick the grade you expect in each subject. Nothing here is saved.</Text>
+      )}
+
+      {subjects.map((s) => (
+        <View key={s.enrollmentId} style={styles.whatIfCard}>
+          <View style={styles.whatIfCardHeader}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.gradeCodeText}>{s.subjectCode}</Text>
+              <Text style={styles.subjectName}>{s.subjectName}</Text>
+            </View>
+            <Text style={styles.unitsText}>{s.units} units</Text>
+          </View>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 6 }}>
+            {scale.values.map((g) => {
+              const active = picked[s.enrollmentId] === g;
+              return (
+                <Pressable key={g} style={[styles.whatIfChip, active && styles.semesterChipActive]} onPress={() => pick(s.enrollmentId, g)}>
+                  <Text style={[styles.whatIfChipText, active && styles.semesterChipTextActive]}>{g}</Text>
+                </Pressable>
+              );
+            })}
+          </ScrollView>
+        </View>
+      ))}
+
+      {hypothetical.length > 0 && (
+        <Pressable style={styles.whatIfReset} onPress={() => setPicked({})}>
+          <Ionicons name="refresh" size={15} color={Colors.primary} />
+          <Text style={styles.whatIfResetText}>Clear All</Text>
+        </Pressable>
+      )}
+    </ScrollView>
+  );
+}
+
 export default function GradesScreen() {
   const insets = useSafeAreaInsets();
+  const { student } = useAuth();
   const [selectedSemester, setSelectedSemester] = useState<string | null>(null);
+  const [whatIf, setWhatIf] = useState(false);
 
   const webTopInset = Platform.OS === "web" ? 67 : 0;
 
@@ -74,21 +186,37 @@ export default function GradesScreen() {
     queryFn: studentGradesApi.list,
   });
 
-  // Derive semesters from fetched data
-  const semesters = [...new Set(allGrades.map((g) => g.semester))];
+  const { data: terms = [] } = useQuery({
+    queryKey: ["terms"],
+    queryFn: termsApi.list,
+  });
+
+  const { data: scale = DEFAULT_GRADING_SCALE } = useQuery({
+    queryKey: ["grading-scale"],
+    queryFn: gradingScaleApi.get,
+  });
 
-  // Auto-select first semester when data loads
-  const activeSemester = selectedSemester ?? semesters[0] ?? null;
+  // Derive semesters from fetched data, oldest term first
+  const semesters = sortSemesterLabels([...new Set(allGrades.map((g) => g.semester))], terms);
+
+  // Auto-select the current term, or the latest one with grades
+  const currentTerm = terms.find((t) => t.isActive);
+  const defaultSemester = currentTerm && semesters.includes(currentTerm.name)
+    ? currentTerm.name
+    : semesters[semesters.length - 1];
+  const activeSemester = selectedSemester ?? defaultSemester ?? null;
 
   const grades = activeSemester
     ? allGrades.filter((g) => g.semester === activeSemester)
     : allGrades;
 
   const totalUnits = grades.reduce((acc, g) => acc + g.units, 0);
-  const gwa =
-    totalUnits > 0
-      ? grades.reduce((acc, g) => acc + parseFloat(g.grade) * g.units, 0) / totalUnits
-      : 0;
+  const gwa = computeGwa(grades, scale);
+
+  const transcriptMut = useMutation({
+    mutationFn: () => studentGradesApi.downloadTranscript(`transcript-${student?.studentId ?? "student"}.pdf`),
+    onError: (e: Error) => Alert.alert("Could Not Download", e.message),
+  });
 
   const onRefresh = useCallback(() => {
     refetch();
@@ -145,13 +273,52 @@ export default function GradesScreen() {
   return (
     <View style={styles.container}>
       <View style={[styles.header, { paddingTop: insets.top + 12 + webTopInset }]}>
-        <Text style={styles.headerTitle}>My Grades</Text>
-        <Text style={styles.headerSubtitle}>
-          {activeSemester || "Loading…"}
-        </Text>
+        <View style={styles.headerRow}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.headerTitle}>My Grades</Text>
+            <Text style={styles.headerSubtitle}>
+              {whatIf ? "What-if calculator" : activeSemester || "Loading…"}
+            </Text>
+          </View>
+          <Pressable
+            style={[styles.transcriptButton, whatIf && { backgroundColor: Colors.primary }]}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              setWhatIf((w) => !w);
+            }}
+          >
+            <Ionicons name="calculator-outline" size={16} color={whatIf ? Colors.white : Colors.primary} />
+            <Text style={[styles.transcriptButtonText, whatIf && { color: Colors.white }]}>What-if</Text>
+          </Pressable>
+          <Pressable
+            style={styles.transcriptButton}
+            disabled={transcriptMut.isPending || allGrades.length === 0}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              transcriptMut.mutate();
+            }}
+          >
+            {transcriptMut.isPending ? (
+              <ActivityIndicator size="small" color={Colors.primary} />
+            ) : (
+              <>
+                <Ionicons
+                  name={Platform.OS === "ios" ? "share-outline" : "download-outline"}
+                  size={16}
+                  color={allGrades.length === 0 ? Colors.textTertiary : Colors.primary}
+                />
+                <Text style={[styles.transcriptButtonText, allGrades.length === 0 && { color: Colors.textTertiary }]}>
+                  Transcript
+                </Text>
+              </>
+            )}
+          </Pressable>
+        </View>
       </View>
 
-      {isLoading ? (
+      {whatIf && !isLoading && !isError ? (
+        <WhatIfView recorded={allGrades} scale={scale} bottomInset={Platform.OS === "web" ? 34 : 0} />
+      ) : isLoading ? (
         <View style={styles.loadingState}>
           <ActivityIndicator size="large" color={Colors.primary} />
           <Text style={styles.loadingText}>Loading your grades…</Text>
@@ -201,6 +368,17 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: Colors.border,
   },
+  headerRow: { flexDirection: "row", alignItems: "center", gap: 12 },
+  transcriptButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 9,
+    borderRadius: 10,
+    backgroundColor: Colors.surfaceSecondary,
+  },
+  transcriptButtonText: { fontFamily: "Inter_600SemiBold", fontSize: 13, color: Colors.primary },
   headerTitle: { fontFamily: "Inter_700Bold", fontSize: 26, color: Colors.text },
   headerSubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, marginTop: 2 },
   semesterSelector: {
@@ -277,6 +455,30 @@ const styles = StyleSheet.create({
   gradeBubble: { width: 56, height: 56, borderRadius: 16, justifyContent: "center", alignItems: "center", marginBottom: 4 },
   gradeValue: { fontFamily: "Inter_700Bold", fontSize: 20 },
   remarksText: { fontFamily: "Inter_500Medium", fontSize: 11 },
+  revisedBadge: {
+    flexDirection: "row", alignItems: "center", gap: 3, marginTop: 4,
+    backgroundColor: "#FEF3E2", paddingHorizontal: 6, paddingVertical: 2, borderRadius: 6,
+  },
+  revisedText: { fontFamily: "Inter_500Medium", fontSize: 10, color: Colors.warning },
+  whatIfTermRow: {
+    flexDirection: "row", justifyContent: "space-between", alignItems: "center",
+    backgroundColor: Colors.white, borderRadius: 12, paddingHorizontal: 16, paddingVertical: 12,
+  },
+  whatIfTermLabel: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.textSecondary },
+  whatIfTermValue: { fontFamily: "Inter_700Bold", fontSize: 16, color: Colors.goldDark },
+  whatIfHint: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary, marginTop: 4 },
+  whatIfCard: {
+    backgroundColor: Colors.white, borderRadius: 16, padding: 16, gap: 10,
+    shadowColor: Colors.cardShadow, shadowOffset: { width: 0, height: 2 }, shadowOpacity: 1, shadowRadius: 8, elevation: 2,
+  },
+  whatIfCardHeader: { flexDirection: "row", alignItems: "flex-start", gap: 12 },
+  whatIfChip: {
+    paddingHorizontal: 12, paddingVertical: 7, borderRadius: 16,
+    backgroundColor: Colors.surfaceSecondary, borderWidth: 1, borderColor: Colors.border,
+  },
+  whatIfChipText: { fontFamily: "Inter_600SemiBold", fontSize: 12, color: Colors.text },
+  whatIfReset: { flexDirection: "row", alignItems: "center", justifyContent: "center", gap: 6, paddingVertical: 12 },
+  whatIfResetText: { fontFamily: "Inter_600SemiBold", fontSize: 13, color: Colors.primary },
   emptyState: { alignItems: "center", justifyContent: "center", paddingTop: 60, gap: 8 },
   emptyTitle: { fontFamily: "Inter_600SemiBold", fontSize: 16, color: Colors.text },
   emptySubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, textAlign: "center" },
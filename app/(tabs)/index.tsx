@@ -1,4 +1,4 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import {
   StyleSheet,
   Text,
@@ -16,7 +16,13 @@ import * as Haptics from "expo-haptics";
 import Animated, { FadeInDown } from "react-native-reanimated";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/lib/auth-context";
-import { studentStatsApi, studentAnnouncementsApi } from "@/lib/api";
+import {
+  calendarApi, studentStatsApi, studentAnnouncementsApi, studentScheduleApi, type ScheduleRecord,
+} from "@/lib/api";
+import { currentAndNextMeeting, formatTimeOfDay, weekDayOf, type UpcomingMeeting } from "@shared/schedule";
+import { CALENDAR_EVENT_LABELS, classCancellation } from "@shared/calendar";
+import { toIsoDate } from "@shared/attendance";
+import { STANDING_LABELS, type StudentStanding } from "@shared/standing";
 import Colors from "@/constants/colors";
 
 interface QuickAction {
@@ -37,6 +43,14 @@ const quickActions: QuickAction[] = [
     color: Colors.primary,
     bgColor: "#EBF0F9",
   },
+  {
+    icon: "school",
+    label: "Degree Progress",
+    description: "Curriculum checklist",
+    route: "/degree-progress",
+    color: "#B8922E",
+    bgColor: "#FBF5E6",
+  },
   {
     icon: "calendar",
     label: "Schedule",
@@ -45,6 +59,22 @@ const quickActions: QuickAction[] = [
     color: "#7C3AED",
     bgColor: "#F3EEFE",
   },
+  {
+    icon: "checkbox",
+    label: "Attendance",
+    description: "Absences per class",
+    route: "/attendance",
+    color: "#0F766E",
+    bgColor: "#E6F4F1",
+  },
+  {
+    icon: "today",
+    label: "Calendar",
+    description: "Holidays and deadlines",
+    route: "/calendar",
+    color: "#DC2626",
+    bgColor: "#FEF2F2",
+  },
   {
     icon: "megaphone",
     label: "Announcements",
@@ -86,6 +116,135 @@ function QuickActionCard({ action, index }: { action: QuickAction; index: number
   );
 }
 
+function whenLabel({ item, day, daysAway }: UpcomingMeeting<ScheduleRecord>): string {
+  const dayLabel = daysAway === 0 ? "Today" : daysAway === 1 ? "Tomorrow" : day;
+  return `${dayLabel}, ${formatTimeOfDay(item.startMinutes)}`;
+}
+
+function ClassBanner({ schedule }: { schedule: ScheduleRecord[] }) {
+  const [now, setNow] = useState(() => new Date());
+
+  // Re-evaluate every minute so the banner rolls over when a class ends
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // The coming week's holidays and suspensions, which cancel that day's classes
+  const from = toIsoDate(now);
+  const to = toIsoDate(new Date(now.getFullYear(), now.getMonth(), now.getDate() + 7));
+  const { data: events = [] } = useQuery({
+    queryKey: ["calendar", from, to],
+    queryFn: () => calendarApi.list(from, to),
+  });
+
+  const { current, next } = currentAndNextMeeting(
+    schedule, now, (date) => classCancellation(events, toIsoDate(date)) !== null,
+  );
+  const cancellation = classCancellation(events, from);
+  const hasClassToday = schedule.some((m) => m.days.includes(weekDayOf(now)));
+
+  if (cancellation && hasClassToday) {
+    const color = Colors.calendarEvent[cancellation.type];
+    return (
+      <Animated.View entering={FadeInDown.delay(200).duration(500)}>
+        <Pressable
+          style={({ pressed }) => [styles.classBanner, pressed && { opacity: 0.85 }]}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            router.push("/calendar" as any);
+          }}
+        >
+          <View style={styles.classBannerHeader}>
+            <View style={[styles.classBannerDot, { backgroundColor: color }]} />
+            <Text style={styles.classBannerLabel}>No Classes Today</Text>
+            <Text style={[styles.classBannerWhen, { color }]}>{CALENDAR_EVENT_LABELS[cancellation.type]}</Text>
+          </View>
+          <Text style={styles.classBannerName}>{cancellation.title}</Text>
+          {!!cancellation.description && (
+            <Text style={styles.classBannerMetaText}>{cancellation.description}</Text>
+          )}
+          {next && (
+            <Text style={styles.classBannerNext}>
+              Next: {next.item.subjectCode} · {whenLabel(next)}
+            </Text>
+          )}
+        </Pressable>
+      </Animated.View>
+    );
+  }
+
+  const featured = current ?? next?.item;
+  if (!featured) return null;
+
+  return (
+    <Animated.View entering={FadeInDown.delay(200).duration(500)}>
+      <Pressable
+        style={({ pressed }) => [styles.classBanner, pressed && { opacity: 0.85 }]}
+        onPress={() => {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+          router.push("/(tabs)/schedule" as any);
+        }}
+      >
+        <View style={styles.classBannerHeader}>
+          <View style={[styles.classBannerDot, { backgroundColor: current ? Colors.success : Colors.gold }]} />
+          <Text style={styles.classBannerLabel}>{current ? "Now" : "Next Class"}</Text>
+          <Text style={styles.classBannerWhen}>
+            {current ? `Until ${formatTimeOfDay(current.endMinutes)}` : next && whenLabel(next)}
+          </Text>
+        </View>
+        <Text style={styles.classBannerCode}>{featured.subjectCode}</Text>
+        <Text style={styles.classBannerName}>{featured.subjectName}</Text>
+        <View style={styles.classBannerMeta}>
+          <Ionicons name="location-outline" size={13} color={Colors.textTertiary} />
+          <Text style={styles.classBannerMetaText}>{featured.room || "TBA"}</Text>
+          <Ionicons name="person-outline" size={13} color={Colors.textTertiary} />
+          <Text style={styles.classBannerMetaText}>{featured.instructor || "TBA"}</Text>
+        </View>
+        {current && next && (
+          <Text style={styles.classBannerNext}>
+            Next: {next.item.subjectCode} · {whenLabel(next)}
+          </Text>
+        )}
+      </Pressable>
+    </Animated.View>
+  );
+}
+
+// The latest term with released grades: its standing, term and cumulative GWA
+function StandingCard({ standing }: { standing: StudentStanding }) {
+  const latest = standing.terms[standing.terms.length - 1];
+  if (!latest) return null;
+  const color = Colors.standing[latest.standing];
+
+  return (
+    <Animated.View entering={FadeInDown.delay(800).duration(500)} style={styles.semesterCard}>
+      <View style={styles.semesterHeader}>
+        <Ionicons name="trophy-outline" size={20} color={Colors.primary} />
+        <Text style={styles.semesterTitle}>Academic Standing</Text>
+        <View style={[styles.standingBadge, { backgroundColor: color + "1A" }]}>
+          <Text style={[styles.standingBadgeText, { color }]}>{STANDING_LABELS[latest.standing]}</Text>
+        </View>
+      </View>
+      <Text style={styles.semesterValue}>{latest.semester}</Text>
+      <View style={styles.semesterStats}>
+        <View style={styles.semesterStatItem}>
+          <Text style={styles.statNumber}>{latest.gwa.toFixed(2)}</Text>
+          <Text style={styles.statLabel}>Term GWA</Text>
+        </View>
+        <View style={styles.semesterStatItem}>
+          <Text style={styles.statNumber}>{standing.cumulativeGwa.toFixed(2)}</Text>
+          <Text style={styles.statLabel}>Cumulative</Text>
+        </View>
+        <View style={styles.semesterStatItem}>
+          <Text style={styles.statNumber}>{standing.unitsEarned}/{standing.unitsAttempted}</Text>
+          <Text style={styles.statLabel}>Units Earned</Text>
+        </View>
+      </View>
+    </Animated.View>
+  );
+}
+
 export default function DashboardScreen() {
   const insets = useSafeAreaInsets();
   const { student, isAuthenticated, isLoading } = useAuth();
@@ -96,6 +255,18 @@ export default function DashboardScreen() {
     enabled: isAuthenticated,
   });
 
+  const { data: standing } = useQuery({
+    queryKey: ["student-standing"],
+    queryFn: studentStatsApi.standing,
+    enabled: isAuthenticated,
+  });
+
+  const { data: schedule = [] } = useQuery({
+    queryKey: ["student-schedule"],
+    queryFn: studentScheduleApi.list,
+    enabled: isAuthenticated,
+  });
+
   const { data: announcements, isLoading: announcementsLoading } = useQuery({
     queryKey: ["student-announcements"],
     queryFn: studentAnnouncementsApi.list,
@@ -176,6 +347,7 @@ export default function DashboardScreen() {
         </LinearGradient>
 
         <View style={styles.sectionContainer}>
+          <ClassBanner schedule={schedule} />
           <Text style={styles.sectionTitle}>Quick Access</Text>
           <View style={styles.actionsGrid}>
             {quickActions.map((action, index) => (
@@ -220,6 +392,8 @@ export default function DashboardScreen() {
           </View>
         </Animated.View>
 
+        {standing && <StandingCard standing={standing} />}
+
         <View style={styles.sectionContainer}>
           <Text style={[styles.sectionTitle, { marginTop: 24 }]}>Recent Announcements</Text>
           {announcementsLoading ? (
@@ -394,6 +568,74 @@ const styles = StyleSheet.create({
     color: Colors.text,
     marginBottom: 14,
   },
+  classBanner: {
+    backgroundColor: Colors.white,
+    borderRadius: 16,
+    padding: 18,
+    marginBottom: 20,
+    shadowColor: Colors.cardShadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 1,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  classBannerHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginBottom: 10,
+  },
+  classBannerDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  classBannerLabel: {
+    fontFamily: "Inter_600SemiBold",
+    fontSize: 12,
+    color: Colors.text,
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    flex: 1,
+  },
+  classBannerWhen: {
+    fontFamily: "Inter_500Medium",
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  classBannerCode: {
+    fontFamily: "Inter_700Bold",
+    fontSize: 12,
+    color: Colors.primary,
+    letterSpacing: 0.5,
+    marginBottom: 2,
+  },
+  classBannerName: {
+    fontFamily: "Inter_600SemiBold",
+    fontSize: 16,
+    color: Colors.text,
+    marginBottom: 8,
+  },
+  classBannerMeta: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 5,
+  },
+  classBannerMetaText: {
+    fontFamily: "Inter_400Regular",
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginRight: 8,
+  },
+  classBannerNext: {
+    fontFamily: "Inter_500Medium",
+    fontSize: 12,
+    color: Colors.textSecondary,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+    paddingTop: 10,
+    marginTop: 12,
+  },
   actionsGrid: {
     flexDirection: "row",
     flexWrap: "wrap",
@@ -453,6 +695,16 @@ const styles = StyleSheet.create({
     fontSize: 15,
     color: Colors.text,
   },
+  standingBadge: {
+    marginLeft: "auto",
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+  },
+  standingBadgeText: {
+    fontFamily: "Inter_600SemiBold",
+    fontSize: 11,
+  },
   semesterValue: {
     fontFamily: "Inter_400Regular",
     fontSize: 13,
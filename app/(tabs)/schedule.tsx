@@ -1,4 +1,4 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useMemo } from "react";
 import {
   StyleSheet,
   Text,
@@ -8,14 +8,23 @@ import {
   Platform,
   FlatList,
   ActivityIndicator,
+  Alert,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import Animated, { FadeInDown } from "react-native-reanimated";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import Colors from "@/constants/colors";
-import { studentScheduleApi, type ScheduleRecord } from "@/lib/api";
+import {
+  calendarApi, studentScheduleApi, termsApi, type CalendarEventRecord, type ExamRecord, type ScheduleOverrideRecord,
+  type ScheduleRecord,
+} from "@/lib/api";
+import { WEEK_DAYS, calendarFileName, formatTimeOfDay, formatTimeRange, layoutDay } from "@shared/schedule";
+import { EXAM_TYPE_LABELS, examStart, formatCountdown } from "@shared/exams";
+import { CALENDAR_EVENT_LABELS, classCancellation } from "@shared/calendar";
+import { toIsoDate } from "@shared/attendance";
+import { isCancelledChange, meetingsOn, type EffectiveMeeting } from "@shared/overrides";
 
 const DAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"];
 
@@ -35,31 +44,86 @@ const dayColors: Record<string, string> = {
   Friday: "#DC2626",
 };
 
-function ScheduleCard({ item, index }: { item: ScheduleRecord; index: number }) {
+// Week grid geometry
+const HOUR_HEIGHT = 56;
+const TIME_AXIS_WIDTH = 48;
+const DAY_COLUMN_WIDTH = 96;
+
+const SUBJECT_COLORS = [Colors.primary, "#7C3AED", "#059669", "#D97706", "#DC2626", "#0891B2", "#DB2777", "#4F46E5"];
+
+type ViewMode = "day" | "week";
+type DayMeeting = EffectiveMeeting<ScheduleRecord, ScheduleOverrideRecord>;
+type Segment = "classes" | "exams";
+
+const EXAM_COLORS = { prelim: "#0891B2", midterm: "#7C3AED", final: "#DC2626" };
+
+// The date (YYYY-MM-DD) of each day of the current week, Monday to Sunday, so
+// a weekend make-up class shows on the day it happens
+function weekDates(now: Date): Record<string, string> {
+  const monday = now.getDate() - (now.getDay() + 6) % 7;
+  return Object.fromEntries(
+    WEEK_DAYS.map((day, i) => [day, toIsoDate(new Date(now.getFullYear(), now.getMonth(), monday + i))]),
+  );
+}
+
+function formatShortDate(date: string) {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+// How a meeting differs from the weekly schedule, for its tag
+function changeLabel(meeting: DayMeeting): string | null {
+  const { change, override, item } = meeting;
+  if (!change || !override) return null;
+  switch (change) {
+    case "cancelled": return "Cancelled";
+    case "moved_out": return `Moved to ${formatShortDate(override.newDate ?? override.date)}`;
+    case "moved_in": return `Moved from ${formatShortDate(override.date)}`;
+    case "changed": return meeting.room !== item.room ? "Room changed" : "Time changed";
+    case "makeup": return "Make-up class";
+  }
+}
+
+function ScheduleCard({ meeting, index, dayOff }: { meeting: DayMeeting; index: number; dayOff: boolean }) {
+  const { item } = meeting;
+  const cancelled = dayOff || isCancelledChange(meeting.change);
+  const label = dayOff ? "Cancelled" : changeLabel(meeting);
   return (
     <Animated.View entering={FadeInDown.delay(index * 80).duration(400)}>
-      <View style={styles.scheduleCard}>
+      <View style={[styles.scheduleCard, cancelled && styles.cancelledCard]}>
         <View style={styles.timeColumn}>
-          <Text style={styles.timeStart}>{item.timeStart}</Text>
+          <Text style={styles.timeStart}>{formatTimeOfDay(meeting.startMinutes)}</Text>
           <View style={styles.timeDivider}>
             <View style={styles.timeDot} />
             <View style={styles.timeLine} />
             <View style={styles.timeDot} />
           </View>
-          <Text style={styles.timeEnd}>{item.timeEnd}</Text>
+          <Text style={styles.timeEnd}>{formatTimeOfDay(meeting.endMinutes)}</Text>
         </View>
         <View style={styles.cardContent}>
-          <Text style={styles.cardSubjectCode}>{item.subjectCode}</Text>
-          <Text style={styles.cardSubjectName}>{item.subjectName}</Text>
+          <View style={styles.cardTitleRow}>
+            <Text style={styles.cardSubjectCode}>{item.subjectCode}</Text>
+            {!!label && (
+              <View style={[styles.cancelledTag, !cancelled && styles.changedTag]}>
+                <Text style={[styles.cancelledTagText, !cancelled && styles.changedTagText]}>{label}</Text>
+              </View>
+            )}
+          </View>
+          <Text style={[styles.cardSubjectName, cancelled && styles.cancelledText]}>{item.subjectName}</Text>
           <View style={styles.cardDetailsRow}>
             <View style={styles.cardDetail}>
               <Ionicons name="location-outline" size={13} color={Colors.textTertiary} />
-              <Text style={styles.cardDetailText}>{item.room}</Text>
+              <Text style={styles.cardDetailText}>{meeting.room}</Text>
             </View>
             <View style={styles.cardDetail}>
               <Ionicons name="person-outline" size={13} color={Colors.textTertiary} />
               <Text style={styles.cardDetailText}>{item.instructor}</Text>
             </View>
+            {!!meeting.override?.reason && (
+              <View style={styles.cardDetail}>
+                <Ionicons name="information-circle-outline" size={13} color={Colors.textTertiary} />
+                <Text style={styles.cardDetailText}>{meeting.override.reason}</Text>
+              </View>
+            )}
           </View>
         </View>
       </View>
@@ -67,9 +131,173 @@ function ScheduleCard({ item, index }: { item: ScheduleRecord; index: number })
   );
 }
 
+function ExamCard({ exam, index, now }: { exam: ExamRecord; index: number; now: Date }) {
+  const color = EXAM_COLORS[exam.type];
+  const countdown = formatCountdown(examStart(exam), now);
+  const date = new Date(`${exam.date}T00:00:00`);
+  return (
+    <Animated.View entering={FadeInDown.delay(index * 80).duration(400)}>
+      <View style={styles.scheduleCard}>
+        <View style={[styles.examDate, { backgroundColor: `${color}14` }]}>
+          <Text style={[styles.examMonth, { color }]}>{date.toLocaleDateString("en-US", { month: "short" }).toUpperCase()}</Text>
+          <Text style={[styles.examDay, { color }]}>{date.getDate()}</Text>
+          <Text style={styles.examWeekday}>{date.toLocaleDateString("en-US", { weekday: "short" })}</Text>
+        </View>
+        <View style={styles.cardContent}>
+          <View style={styles.cardTitleRow}>
+            <Text style={[styles.cardSubjectCode, { color }]}>{exam.subjectCode} · {EXAM_TYPE_LABELS[exam.type].toUpperCase()}</Text>
+            <View style={[styles.countdownBadge, { backgroundColor: countdown ? `${color}14` : Colors.surfaceSecondary }]}>
+              <Ionicons name="hourglass-outline" size={11} color={countdown ? color : Colors.textSecondary} />
+              <Text style={[styles.countdownText, { color: countdown ? color : Colors.textSecondary }]}>
+                {countdown ? `in ${countdown}` : "Now"}
+              </Text>
+            </View>
+          </View>
+          <Text style={styles.cardSubjectName}>{exam.subjectName}</Text>
+          <View style={styles.cardDetailsRow}>
+            <View style={styles.cardDetail}>
+              <Ionicons name="time-outline" size={13} color={Colors.textTertiary} />
+              <Text style={styles.cardDetailText}>{formatTimeRange(exam.startMinutes, exam.endMinutes)}</Text>
+            </View>
+            <View style={styles.cardDetail}>
+              <Ionicons name="location-outline" size={13} color={Colors.textTertiary} />
+              <Text style={styles.cardDetailText}>{exam.room || "TBA"}</Text>
+            </View>
+            {!!exam.proctor && (
+              <View style={styles.cardDetail}>
+                <Ionicons name="eye-outline" size={13} color={Colors.textTertiary} />
+                <Text style={styles.cardDetailText}>Proctor: {exam.proctor}</Text>
+              </View>
+            )}
+          </View>
+        </View>
+      </View>
+    </Animated.View>
+  );
+}
+
+// Upcoming exams, soonest first; exams that have ended today drop off
+function ExamList({ exams, bottomInset }: { exams: ExamRecord[]; bottomInset: number }) {
+  const [now, setNow] = useState(new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const upcoming = exams.filter((e) => {
+    const end = examStart(e);
+    end.setMinutes(end.getMinutes() + e.endMinutes - e.startMinutes);
+    return end > now;
+  });
+
+  return (
+    <FlatList
+      data={upcoming}
+      keyExtractor={(item) => item.id}
+      renderItem={({ item, index }) => <ExamCard exam={item} index={index} now={now} />}
+      contentContainerStyle={[styles.listContent, { paddingBottom: 100 + bottomInset }]}
+      showsVerticalScrollIndicator={false}
+      ListEmptyComponent={
+        <View style={styles.emptyState}>
+          <Ionicons name="reader-outline" size={48} color={Colors.textTertiary} />
+          <Text style={styles.emptyTitle}>No Upcoming Exams</Text>
+          <Text style={styles.emptySubtitle}>Exam dates appear here once the registrar schedules them</Text>
+        </View>
+      }
+    />
+  );
+}
+
+function WeekGrid({ items, meetingsByDay, cancellations, bottomInset }: {
+  items: ScheduleRecord[]; meetingsByDay: Record<string, DayMeeting[]>;
+  cancellations: Record<string, CalendarEventRecord | null>; bottomInset: number;
+}) {
+  // Colours follow the subject, assigned in code order so they stay put
+  const colorByCode = useMemo(() => {
+    const codes = [...new Set(items.map((i) => i.subjectCode))].sort();
+    return new Map(codes.map((code, i) => [code, SUBJECT_COLORS[i % SUBJECT_COLORS.length]]));
+  }, [items]);
+
+  // Weekend columns only appear when something meets then
+  const days = WEEK_DAYS.filter((d) => DAYS.includes(d) || meetingsByDay[d].length > 0);
+  const meetings = days.flatMap((d) => meetingsByDay[d]);
+  const firstHour = Math.min(7, ...meetings.map((m) => Math.floor(m.startMinutes / 60)));
+  const lastHour = Math.max(18, ...meetings.map((m) => Math.ceil(m.endMinutes / 60)));
+  const hours = Array.from({ length: lastHour - firstHour }, (_, i) => firstHour + i);
+  const offset = (minutes: number) => ((minutes - firstHour * 60) / 60) * HOUR_HEIGHT;
+
+  return (
+    <ScrollView contentContainerStyle={{ paddingBottom: 100 + bottomInset }} showsVerticalScrollIndicator={false}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.gridContent}>
+        <View>
+          <View style={styles.gridHeaderRow}>
+            <View style={{ width: TIME_AXIS_WIDTH }} />
+            {days.map((day) => (
+              <View key={day} style={styles.gridDayHeader}>
+                <Text style={[styles.gridDayText, { color: dayColors[day] ?? Colors.text }]}>
+                  {dayAbbreviations[day] ?? day.slice(0, 3)}
+                </Text>
+                {cancellations[day] && (
+                  <Text style={[styles.gridDayOff, { color: Colors.calendarEvent[cancellations[day].type] }]} numberOfLines={1}>
+                    No classes
+                  </Text>
+                )}
+              </View>
+            ))}
+          </View>
+          <View style={styles.gridBody}>
+            <View style={{ width: TIME_AXIS_WIDTH }}>
+              {hours.map((h) => (
+                <View key={h} style={styles.gridHourLabel}>
+                  <Text style={styles.gridHourText}>{formatTimeOfDay(h * 60).replace(":00", "")}</Text>
+                </View>
+              ))}
+            </View>
+            {days.map((day) => (
+              <View key={day} style={[styles.gridColumn, { height: hours.length * HOUR_HEIGHT }]}>
+                {hours.map((h) => <View key={h} style={styles.gridHourLine} />)}
+                {layoutDay(meetingsByDay[day]).map(({ item: meeting, lane, lanes }) => {
+                  const { item } = meeting;
+                  const color = colorByCode.get(item.subjectCode) ?? Colors.primary;
+                  const label = changeLabel(meeting);
+                  return (
+                    <View
+                      key={meeting.override?.id ?? item.id}
+                      style={[
+                        styles.gridBlock,
+                        {
+                          top: offset(meeting.startMinutes),
+                          height: offset(meeting.endMinutes) - offset(meeting.startMinutes),
+                          left: `${(lane / lanes) * 100}%`,
+                          width: `${100 / lanes}%`,
+                          backgroundColor: `${color}1A`,
+                          borderLeftColor: color,
+                        },
+                        (cancellations[day] || isCancelledChange(meeting.change)) && styles.cancelledCard,
+                      ]}
+                    >
+                      <Text style={[styles.gridBlockCode, { color }]} numberOfLines={1}>{item.subjectCode}</Text>
+                      <Text style={styles.gridBlockMeta} numberOfLines={1}>{formatTimeOfDay(meeting.startMinutes)}</Text>
+                      <Text style={styles.gridBlockMeta} numberOfLines={1}>{meeting.room || "TBA"}</Text>
+                      {!!label && <Text style={styles.gridBlockChange} numberOfLines={1}>{label}</Text>}
+                    </View>
+                  );
+                })}
+              </View>
+            ))}
+          </View>
+        </View>
+      </ScrollView>
+    </ScrollView>
+  );
+}
+
 export default function ScheduleScreen() {
   const insets = useSafeAreaInsets();
   const [selectedDay, setSelectedDay] = useState(DAYS[0]);
+  const [view, setView] = useState<ViewMode>("day");
+  const [segment, setSegment] = useState<Segment>("classes");
 
   const webTopInset = Platform.OS === "web" ? 67 : 0;
 
@@ -78,54 +306,169 @@ export default function ScheduleScreen() {
     queryFn: studentScheduleApi.list,
   });
 
-  const schedule = allItems.filter((item) => item.day && item.day.split(',').some(d => d.trim() === selectedDay));
+  const { data: exams = [], isLoading: examsLoading } = useQuery({
+    queryKey: ["student-exams"],
+    queryFn: studentScheduleApi.exams,
+  });
+
+  // Re-checked every minute so the week rolls over at midnight without a restart
+  const [today, setToday] = useState(() => toIsoDate(new Date()));
+  useEffect(() => {
+    const timer = setInterval(() => setToday(toIsoDate(new Date())), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+  const dates = useMemo(() => weekDates(new Date(`${today}T00:00:00`)), [today]);
+  const { data: events = [] } = useQuery({
+    queryKey: ["calendar", dates.Monday, dates.Sunday],
+    queryFn: () => calendarApi.list(dates.Monday, dates.Sunday),
+  });
+  const cancellations = useMemo(
+    () => Object.fromEntries(WEEK_DAYS.map((day) => [day, classCancellation(events, dates[day])])),
+    [events, dates],
+  );
+  const cancellation = cancellations[selectedDay];
+
+  // Cancelled, moved and make-up meetings this week, applied per day
+  const { data: overrides = [] } = useQuery({
+    queryKey: ["student-schedule-overrides", dates.Monday, dates.Sunday],
+    queryFn: () => studentScheduleApi.overrides(dates.Monday, dates.Sunday),
+  });
+  const meetingsByDay = useMemo(
+    () => Object.fromEntries(WEEK_DAYS.map((day) => [day, meetingsOn(allItems, overrides, dates[day])])),
+    [allItems, overrides, dates],
+  );
+  // Weekend days only appear when something meets then
+  const selectableDays = WEEK_DAYS.filter((d) => DAYS.includes(d) || meetingsByDay[d].length > 0);
+
+  const { data: terms = [] } = useQuery({
+    queryKey: ["terms"],
+    queryFn: termsApi.list,
+  });
+  const currentTerm = terms.find((t) => t.isActive);
+
+  const exportMut = useMutation({
+    mutationFn: () => studentScheduleApi.downloadCalendar(calendarFileName(`${currentTerm?.name ?? ""} classes`)),
+    onError: (e: Error) => Alert.alert("Could Not Export", e.message),
+  });
+
+  const schedule = meetingsByDay[selectedDay];
 
   const getCountForDay = useCallback(
-    (day: string) => allItems.filter((item) => item.day && item.day.split(',').some(d => d.trim() === day)).length,
-    [allItems]
+    (day: string) => meetingsByDay[day].filter((m) => !isCancelledChange(m.change)).length,
+    [meetingsByDay]
   );
 
   return (
     <View style={styles.container}>
       <View style={[styles.header, { paddingTop: insets.top + 12 + webTopInset }]}>
-        <Text style={styles.headerTitle}>Class Schedule</Text>
-        <Text style={styles.headerSubtitle}>1st Semester, AY 2024-2025</Text>
+        <View style={styles.headerRow}>
+          <View>
+            <Text style={styles.headerTitle}>Class Schedule</Text>
+            <Text style={styles.headerSubtitle}>{currentTerm?.name ?? "—"}</Text>
+          </View>
+          {segment === "classes" && <View style={styles.headerActions}>
+            <Pressable
+              style={styles.exportButton}
+              disabled={exportMut.isPending || allItems.length === 0}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                exportMut.mutate();
+              }}
+            >
+              {exportMut.isPending ? (
+                <ActivityIndicator size="small" color={Colors.primary} />
+              ) : (
+                <Ionicons name="calendar-outline" size={18} color={allItems.length === 0 ? Colors.textTertiary : Colors.primary} />
+              )}
+            </Pressable>
+            <View style={styles.viewToggle}>
+              {(["day", "week"] as const).map((mode) => (
+                <Pressable
+                  key={mode}
+                  style={[styles.viewToggleButton, view === mode && styles.viewToggleButtonActive]}
+                  onPress={() => {
+                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                    setView(mode);
+                  }}
+                >
+                  <Ionicons
+                    name={mode === "day" ? "list" : "grid"}
+                    size={16}
+                    color={view === mode ? Colors.white : Colors.textSecondary}
+                  />
+                </Pressable>
+              ))}
+            </View>
+          </View>}
+        </View>
+        <View style={styles.segment}>
+          {(["classes", "exams"] as const).map((s) => (
+            <Pressable
+              key={s}
+              style={[styles.segmentItem, segment === s && styles.segmentItemActive]}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                setSegment(s);
+              }}
+            >
+              <Text style={[styles.segmentText, segment === s && styles.segmentTextActive]}>
+                {s === "classes" ? "Classes" : `Exams${exams.length > 0 ? ` (${exams.length})` : ""}`}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
       </View>
 
-      <View style={styles.daySelector}>
-        <ScrollView
-          horizontal
-          showsHorizontalScrollIndicator={false}
-          contentContainerStyle={styles.daySelectorContent}
-        >
-          {DAYS.map((day) => {
-            const isSelected = day === selectedDay;
-            const dayColor = dayColors[day];
-            return (
-              <Pressable
-                key={day}
-                style={[
-                  styles.dayButton,
-                  isSelected && { backgroundColor: dayColor },
-                ]}
-                onPress={() => {
-                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-                  setSelectedDay(day);
-                }}
-              >
-                <Text style={[styles.dayAbbrev, isSelected && styles.dayAbbrevSelected]}>
-                  {dayAbbreviations[day]}
-                </Text>
-                <Text style={[styles.dayCount, isSelected && styles.dayCountSelected]}>
-                  {isLoading ? "…" : getCountForDay(day)}
-                </Text>
-              </Pressable>
-            );
-          })}
-        </ScrollView>
-      </View>
+      {segment === "classes" && view === "day" && (
+        <View style={styles.daySelector}>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.daySelectorContent}
+          >
+            {selectableDays.map((day) => {
+              const isSelected = day === selectedDay;
+              const dayColor = dayColors[day] ?? Colors.primary;
+              return (
+                <Pressable
+                  key={day}
+                  style={[
+                    styles.dayButton,
+                    isSelected && { backgroundColor: dayColor },
+                  ]}
+                  onPress={() => {
+                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                    setSelectedDay(day);
+                  }}
+                >
+                  <Text style={[styles.dayAbbrev, isSelected && styles.dayAbbrevSelected]}>
+                    {dayAbbreviations[day] ?? day.slice(0, 3)}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.dayCount,
+                      cancellations[day] && { color: Colors.calendarEvent[cancellations[day].type] },
+                      isSelected && styles.dayCountSelected,
+                    ]}
+                  >
+                    {isLoading ? "…" : cancellations[day] ? "Off" : getCountForDay(day)}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </ScrollView>
+        </View>
+      )}
 
-      {isLoading ? (
+      {segment === "exams" ? (
+        examsLoading ? (
+          <View style={styles.loadingState}>
+            <ActivityIndicator size="large" color={Colors.primary} />
+          </View>
+        ) : (
+          <ExamList exams={exams} bottomInset={Platform.OS === "web" ? 34 : 0} />
+        )
+      ) : isLoading ? (
         <View style={styles.loadingState}>
           <ActivityIndicator size="large" color={Colors.primary} />
           <Text style={styles.loadingText}>Loading schedule…</Text>
@@ -139,23 +482,51 @@ export default function ScheduleScreen() {
             <Text style={styles.retryText}>Retry</Text>
           </Pressable>
         </View>
+      ) : view === "week" ? (
+        allItems.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="calendar-outline" size={48} color={Colors.textTertiary} />
+            <Text style={styles.emptyTitle}>No Classes</Text>
+            <Text style={styles.emptySubtitle}>You have no scheduled classes this term</Text>
+          </View>
+        ) : (
+          <WeekGrid
+            items={allItems}
+            meetingsByDay={meetingsByDay}
+            cancellations={cancellations}
+            bottomInset={Platform.OS === "web" ? 34 : 0}
+          />
+        )
       ) : (
         <FlatList
           data={schedule}
-          keyExtractor={(item) => item.id}
-          renderItem={({ item, index }) => <ScheduleCard item={item} index={index} />}
+          keyExtractor={(m) => m.override?.id ?? m.item.id}
+          renderItem={({ item, index }) => <ScheduleCard meeting={item} index={index} dayOff={!!cancellation} />}
           contentContainerStyle={[
             styles.listContent,
             { paddingBottom: 100 + (Platform.OS === "web" ? 34 : 0) },
           ]}
           showsVerticalScrollIndicator={false}
           ListHeaderComponent={
-            <View style={styles.dayHeader}>
-              <View style={[styles.dayHeaderDot, { backgroundColor: dayColors[selectedDay] }]} />
-              <Text style={styles.dayHeaderText}>{selectedDay}</Text>
-              <Text style={styles.dayHeaderCount}>
-                {schedule.length} {schedule.length === 1 ? "class" : "classes"}
-              </Text>
+            <View>
+              <View style={styles.dayHeader}>
+                <View style={[styles.dayHeaderDot, { backgroundColor: dayColors[selectedDay] ?? Colors.primary }]} />
+                <Text style={styles.dayHeaderText}>{selectedDay}, {formatShortDate(dates[selectedDay])}</Text>
+                <Text style={styles.dayHeaderCount}>
+                  {getCountForDay(selectedDay)} {getCountForDay(selectedDay) === 1 ? "class" : "classes"}
+                </Text>
+              </View>
+              {cancellation && (
+                <View style={[styles.cancelNotice, { backgroundColor: `${Colors.calendarEvent[cancellation.type]}14` }]}>
+                  <Ionicons name="close-circle" size={18} color={Colors.calendarEvent[cancellation.type]} />
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.cancelNoticeTitle, { color: Colors.calendarEvent[cancellation.type] }]}>
+                      No classes · {CALENDAR_EVENT_LABELS[cancellation.type]}
+                    </Text>
+                    <Text style={styles.cancelNoticeText}>{cancellation.title}</Text>
+                  </View>
+                </View>
+              )}
             </View>
           }
           ListEmptyComponent={
@@ -182,8 +553,26 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: Colors.border,
   },
+  headerRow: { flexDirection: "row", justifyContent: "space-between", alignItems: "center" },
   headerTitle: { fontFamily: "Inter_700Bold", fontSize: 26, color: Colors.text },
   headerSubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, marginTop: 2 },
+  headerActions: { flexDirection: "row", alignItems: "center", gap: 8 },
+  exportButton: {
+    width: 38,
+    height: 38,
+    borderRadius: 10,
+    backgroundColor: Colors.surfaceSecondary,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  segment: { flexDirection: "row", backgroundColor: Colors.surfaceSecondary, borderRadius: 10, padding: 3, marginTop: 12 },
+  segmentItem: { flex: 1, paddingVertical: 7, borderRadius: 8, alignItems: "center" },
+  segmentItemActive: { backgroundColor: Colors.white },
+  segmentText: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.textSecondary },
+  segmentTextActive: { fontFamily: "Inter_600SemiBold", color: Colors.primary },
+  viewToggle: { flexDirection: "row", backgroundColor: Colors.surfaceSecondary, borderRadius: 10, padding: 3, gap: 2 },
+  viewToggleButton: { paddingHorizontal: 12, paddingVertical: 7, borderRadius: 8 },
+  viewToggleButtonActive: { backgroundColor: Colors.primary },
   daySelector: { backgroundColor: Colors.white, borderBottomWidth: 1, borderBottomColor: Colors.border },
   daySelectorContent: { paddingHorizontal: 16, paddingVertical: 12, gap: 8 },
   dayButton: {
@@ -229,9 +618,46 @@ const styles = StyleSheet.create({
   cardDetailsRow: { gap: 6 },
   cardDetail: { flexDirection: "row", alignItems: "center", gap: 5 },
   cardDetailText: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary },
+  cancelledCard: { opacity: 0.5 },
+  cancelledText: { textDecorationLine: "line-through" },
+  cancelledTag: { backgroundColor: `${Colors.error}14`, paddingHorizontal: 8, paddingVertical: 2, borderRadius: 8 },
+  cancelledTagText: { fontFamily: "Inter_600SemiBold", fontSize: 11, color: Colors.error },
+  changedTag: { backgroundColor: `${Colors.warning}1A` },
+  changedTagText: { color: Colors.warning },
+  cancelNotice: { flexDirection: "row", alignItems: "center", gap: 10, borderRadius: 12, padding: 12, marginBottom: 6 },
+  cancelNoticeTitle: { fontFamily: "Inter_600SemiBold", fontSize: 13 },
+  cancelNoticeText: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.text, marginTop: 1 },
+  examDate: { width: 56, borderRadius: 12, alignItems: "center", justifyContent: "center", paddingVertical: 8, marginRight: 14 },
+  examMonth: { fontFamily: "Inter_600SemiBold", fontSize: 11, letterSpacing: 0.5 },
+  examDay: { fontFamily: "Inter_700Bold", fontSize: 22 },
+  examWeekday: { fontFamily: "Inter_400Regular", fontSize: 11, color: Colors.textSecondary },
+  cardTitleRow: { flexDirection: "row", alignItems: "center", justifyContent: "space-between", gap: 8 },
+  countdownBadge: { flexDirection: "row", alignItems: "center", gap: 4, paddingHorizontal: 8, paddingVertical: 3, borderRadius: 10 },
+  countdownText: { fontFamily: "Inter_600SemiBold", fontSize: 11 },
   emptyState: { alignItems: "center", justifyContent: "center", paddingTop: 60, gap: 8 },
   emptyTitle: { fontFamily: "Inter_600SemiBold", fontSize: 16, color: Colors.text },
   emptySubtitle: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, textAlign: "center" },
   retryButton: { marginTop: 8, paddingHorizontal: 24, paddingVertical: 10, backgroundColor: Colors.primary, borderRadius: 20 },
+  gridContent: { padding: 12 },
+  gridHeaderRow: { flexDirection: "row", marginBottom: 6 },
+  gridDayHeader: { width: DAY_COLUMN_WIDTH, alignItems: "center" },
+  gridDayOff: { fontFamily: "Inter_500Medium", fontSize: 10 },
+  gridDayText: { fontFamily: "Inter_600SemiBold", fontSize: 13 },
+  gridBody: { flexDirection: "row" },
+  gridHourLabel: { height: HOUR_HEIGHT },
+  gridHourText: { fontFamily: "Inter_400Regular", fontSize: 10, color: Colors.textTertiary, marginTop: -6 },
+  gridColumn: { width: DAY_COLUMN_WIDTH, borderLeftWidth: 1, borderLeftColor: Colors.border },
+  gridHourLine: { height: HOUR_HEIGHT, borderTopWidth: 1, borderTopColor: Colors.border },
+  gridBlock: {
+    position: "absolute",
+    borderRadius: 6,
+    borderLeftWidth: 3,
+    paddingHorizontal: 4,
+    paddingVertical: 3,
+    overflow: "hidden",
+  },
+  gridBlockCode: { fontFamily: "Inter_700Bold", fontSize: 11 },
+  gridBlockMeta: { fontFamily: "Inter_400Regular", fontSize: 10, color: Colors.textSecondary },
+  gridBlockChange: { fontFamily: "Inter_600SemiBold", fontSize: 9, color: Colors.warning },
   retryText: { fontFamily: "Inter_600SemiBold", fontSize: 14, color: Colors.white },
 });
@@ -17,7 +17,12 @@ function RootLayoutNav() {
       <Stack.Screen name="index" options={{ headerShown: false }} />
       <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
       <Stack.Screen name="(admin)" options={{ headerShown: false }} />
+      <Stack.Screen name="(faculty)" options={{ headerShown: false }} />
       <Stack.Screen name="announcements" options={{ headerShown: false }} />
+      <Stack.Screen name="degree-progress" options={{ headerShown: false }} />
+      <Stack.Screen name="attendance" options={{ headerShown: false }} />
+      <Stack.Screen name="check-in" options={{ headerShown: false }} />
+      <Stack.Screen name="calendar" options={{ headerShown: false }} />
     </Stack>
   );
 }
@@ -0,0 +1,354 @@
+import {
+  StyleSheet,
+  Text,
+  View,
+  ScrollView,
+  RefreshControl,
+  Pressable,
+  Platform,
+  ActivityIndicator,
+} from "react-native";
+import { router } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { useQuery } from "@tanstack/react-query";
+import Colors from "@/constants/colors";
+import { useAuth } from "@/lib/auth-context";
+import { studentAttendanceApi, type StudentClassAttendance } from "@/lib/api";
+import { ATTENDANCE_LABELS } from "@shared/attendance";
+import { formatTimeRange } from "@shared/schedule";
+
+const ALERT_LABELS = { warning: "Warning", exceeded: "Over limit" } as const;
+const RECENT_RECORDS = 5;
+
+function formatDate(date: string) {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" });
+}
+
+function ClassCard({ item, index }: { item: StudentClassAttendance; index: number }) {
+  const alertColor = Colors.absenceAlert[item.alert];
+  const counts = [
+    { label: "Present", value: item.present, color: Colors.attendance.present },
+    { label: "Late", value: item.late, color: Colors.attendance.late },
+    { label: "Absent", value: item.absent, color: Colors.attendance.absent },
+    { label: "Excused", value: item.excused, color: Colors.attendance.excused },
+  ];
+
+  return (
+    <Animated.View entering={FadeInDown.delay(index * 50).duration(350)} style={styles.card}>
+      <View style={styles.cardHeader}>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.cardCode}>{item.subjectCode}</Text>
+          <Text style={styles.cardTitle} numberOfLines={1}>{item.subjectName}</Text>
+          <Text style={styles.cardMeta}>
+            {item.days.join(", ")} · {formatTimeRange(item.startMinutes, item.endMinutes)}
+          </Text>
+        </View>
+        {item.alert !== "none" && (
+          <View style={[styles.alertBadge, { backgroundColor: alertColor + "18" }]}>
+            <Ionicons name="warning" size={12} color={alertColor} />
+            <Text style={[styles.alertText, { color: alertColor }]}>{ALERT_LABELS[item.alert]}</Text>
+          </View>
+        )}
+      </View>
+
+      <View style={styles.countRow}>
+        {counts.map((c) => (
+          <View key={c.label} style={styles.countCell}>
+            <Text style={[styles.countValue, { color: c.color }]}>{c.value}</Text>
+            <Text style={styles.countLabel}>{c.label}</Text>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.absenceRow}>
+        <Text style={styles.absenceText}>
+          {item.absences} of {item.meetings} meetings counted absent
+        </Text>
+        <Text style={[styles.absencePercent, { color: alertColor }]}>{item.absencePercent}%</Text>
+      </View>
+
+      {item.records.slice(0, RECENT_RECORDS).map((r) => (
+        <View key={r.date} style={styles.recordRow}>
+          <View style={[styles.recordDot, { backgroundColor: Colors.attendance[r.status] }]} />
+          <Text style={styles.recordDate}>{formatDate(r.date)}</Text>
+          <Text style={[styles.recordStatus, { color: Colors.attendance[r.status] }]}>
+            {ATTENDANCE_LABELS[r.status]}
+          </Text>
+          {!!r.remarks && <Text style={styles.recordRemarks} numberOfLines={1}>{r.remarks}</Text>}
+        </View>
+      ))}
+    </Animated.View>
+  );
+}
+
+export default function AttendanceScreen() {
+  const insets = useSafeAreaInsets();
+  const { isAuthenticated } = useAuth();
+  const webTopInset = Platform.OS === "web" ? 67 : 0;
+
+  const { data, isLoading, isRefetching, refetch } = useQuery({
+    queryKey: ["student-attendance"],
+    queryFn: () => studentAttendanceApi.get(),
+    enabled: isAuthenticated,
+  });
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 12 + webTopInset }]}>
+        <View style={styles.headerRow}>
+          <Pressable
+            style={styles.backButton}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              router.back();
+            }}
+          >
+            <Ionicons name="arrow-back" size={22} color={Colors.text} />
+          </Pressable>
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.headerTitle}>Attendance</Text>
+            <Text style={styles.headerSubtitle} numberOfLines={1}>
+              {data?.term?.name ?? "Absences per class"}
+            </Text>
+          </View>
+          <Pressable
+            style={styles.checkInButton}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              router.push("/check-in");
+            }}
+          >
+            <Ionicons name="qr-code-outline" size={16} color={Colors.white} />
+            <Text style={styles.checkInText}>Check In</Text>
+          </Pressable>
+        </View>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={[
+            styles.content,
+            { paddingBottom: insets.bottom + 24 + (Platform.OS === "web" ? 34 : 0) },
+          ]}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl refreshing={isRefetching} onRefresh={refetch} tintColor={Colors.primary} />
+          }
+        >
+          {data && data.classes.length > 0 && (
+            <Text style={styles.policyNote}>
+              Warning at {data.policy.warningPercent}% of meetings, limit {data.policy.limitPercent}%
+              {data.policy.lateEquivalent > 0 ? ` · ${data.policy.lateEquivalent} lates count as 1 absence` : ""}
+            </Text>
+          )}
+          {data?.classes.map((c, i) => <ClassCard key={c.enrollmentId} item={c} index={i} />)}
+          {(!data || data.classes.length === 0) && (
+            <View style={styles.emptyState}>
+              <Ionicons name="checkbox-outline" size={48} color={Colors.textTertiary} />
+              <Text style={styles.emptyTitle}>No Classes</Text>
+              <Text style={styles.emptySubtitle}>
+                Attendance appears here once you&apos;re enrolled in classes this term
+              </Text>
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    backgroundColor: Colors.white,
+    paddingHorizontal: 16,
+    paddingBottom: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    backgroundColor: Colors.surfaceSecondary,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  checkInButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 9,
+  },
+  checkInText: {
+    fontFamily: "Inter_600SemiBold",
+    fontSize: 13,
+    color: Colors.white,
+  },
+  headerTitle: {
+    fontFamily: "Inter_700Bold",
+    fontSize: 22,
+    color: Colors.text,
+  },
+  headerSubtitle: {
+    fontFamily: "Inter_400Regular",
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  policyNote: {
+    fontFamily: "Inter_400Regular",
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  card: {
+    backgroundColor: Colors.white,
+    borderRadius: 14,
+    padding: 14,
+    gap: 10,
+    shadowColor: Colors.cardShadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 1,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 10,
+  },
+  cardCode: {
+    fontFamily: "Inter_700Bold",
+    fontSize: 13,
+    color: Colors.primary,
+  },
+  cardTitle: {
+    fontFamily: "Inter_600SemiBold",
+    fontSize: 14,
+    color: Colors.text,
+    marginTop: 2,
+  },
+  cardMeta: {
+    fontFamily: "Inter_400Regular",
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  alertBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  alertText: {
+    fontFamily: "Inter_600SemiBold",
+    fontSize: 11,
+  },
+  countRow: {
+    flexDirection: "row",
+    backgroundColor: Colors.surfaceSecondary,
+    borderRadius: 10,
+    paddingVertical: 8,
+  },
+  countCell: {
+    flex: 1,
+    alignItems: "center",
+  },
+  countValue: {
+    fontFamily: "Inter_700Bold",
+    fontSize: 16,
+  },
+  countLabel: {
+    fontFamily: "Inter_400Regular",
+    fontSize: 11,
+    color: Colors.textSecondary,
+  },
+  absenceRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  absenceText: {
+    fontFamily: "Inter_400Regular",
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  absencePercent: {
+    fontFamily: "Inter_700Bold",
+    fontSize: 14,
+  },
+  recordRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  recordDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  recordDate: {
+    fontFamily: "Inter_500Medium",
+    fontSize: 12,
+    color: Colors.text,
+    width: 96,
+  },
+  recordStatus: {
+    fontFamily: "Inter_600SemiBold",
+    fontSize: 12,
+  },
+  recordRemarks: {
+    flex: 1,
+    fontFamily: "Inter_400Regular",
+    fontSize: 12,
+    color: Colors.textTertiary,
+  },
+  emptyState: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingTop: 60,
+    gap: 8,
+  },
+  emptyTitle: {
+    fontFamily: "Inter_600SemiBold",
+    fontSize: 16,
+    color: Colors.text,
+  },
+  emptySubtitle: {
+    fontFamily: "Inter_400Regular",
+    fontSize: 13,
+    color: Colors.textSecondary,
+    textAlign: "center",
+  },
+});
@@ -0,0 +1,241 @@
+import { useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  ScrollView,
+  RefreshControl,
+  Pressable,
+  Platform,
+  ActivityIndicator,
+} from "react-native";
+import { router } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { useQuery } from "@tanstack/react-query";
+import Colors from "@/constants/colors";
+import { calendarApi, type CalendarEventRecord } from "@/lib/api";
+import { CALENDAR_EVENT_LABELS, cancelsClasses, coversDate, formatEventDates, monthRange } from "@shared/calendar";
+import MonthCalendar from "@/components/MonthCalendar";
+
+function EventCard({ event, index }: { event: CalendarEventRecord; index: number }) {
+  const color = Colors.calendarEvent[event.type];
+  return (
+    <Animated.View entering={FadeInDown.delay(index * 50).duration(350)} style={styles.eventCard}>
+      <View style={[styles.eventStripe, { backgroundColor: color }]} />
+      <View style={styles.eventBody}>
+        <View style={styles.eventTopRow}>
+          <Text style={[styles.eventType, { color }]}>{CALENDAR_EVENT_LABELS[event.type]}</Text>
+          <Text style={styles.eventDates}>{formatEventDates(event)}</Text>
+        </View>
+        <Text style={styles.eventTitle}>{event.title}</Text>
+        {cancelsClasses(event) && (
+          <View style={styles.noClasses}>
+            <Ionicons name="close-circle" size={13} color={color} />
+            <Text style={[styles.noClassesText, { color }]}>No classes</Text>
+          </View>
+        )}
+        {!!event.description && <Text style={styles.eventDescription}>{event.description}</Text>}
+      </View>
+    </Animated.View>
+  );
+}
+
+export default function CalendarScreen() {
+  const insets = useSafeAreaInsets();
+  const webTopInset = Platform.OS === "web" ? 67 : 0;
+  const [month, setMonth] = useState(() => ({ year: new Date().getFullYear(), month: new Date().getMonth() }));
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const { from, to } = monthRange(month.year, month.month);
+
+  const { data: events = [], isLoading, isRefetching, refetch } = useQuery({
+    queryKey: ["calendar", from, to],
+    queryFn: () => calendarApi.list(from, to),
+  });
+
+  const shown = selectedDate ? events.filter((e) => coversDate(e, selectedDate)) : events;
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 12 + webTopInset }]}>
+        <View style={styles.headerRow}>
+          <Pressable
+            style={styles.backButton}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              router.back();
+            }}
+          >
+            <Ionicons name="arrow-back" size={22} color={Colors.text} />
+          </Pressable>
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.headerTitle}>Academic Calendar</Text>
+            <Text style={styles.headerSubtitle}>Holidays, suspensions and deadlines</Text>
+          </View>
+        </View>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={[
+          styles.content,
+          { paddingBottom: insets.bottom + 24 + (Platform.OS === "web" ? 34 : 0) },
+        ]}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl refreshing={isRefetching} onRefresh={refetch} tintColor={Colors.primary} />
+        }
+      >
+        <MonthCalendar
+          year={month.year}
+          month={month.month}
+          events={events}
+          selectedDate={selectedDate}
+          onSelectDate={setSelectedDate}
+          onChangeMonth={(year, m) => {
+            setMonth({ year, month: m });
+            setSelectedDate(null);
+          }}
+        />
+
+        <Text style={styles.sectionTitle}>
+          {selectedDate
+            ? formatEventDates({ startDate: selectedDate, endDate: selectedDate })
+            : "This Month"}
+        </Text>
+
+        {isLoading ? (
+          <ActivityIndicator color={Colors.primary} style={{ marginTop: 24 }} />
+        ) : shown.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="calendar-clear-outline" size={40} color={Colors.textTertiary} />
+            <Text style={styles.emptySubtitle}>
+              {selectedDate ? "Nothing on the calendar this day" : "Nothing on the calendar this month"}
+            </Text>
+          </View>
+        ) : (
+          shown.map((e, i) => <EventCard key={e.id} event={e} index={i} />)
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    backgroundColor: Colors.white,
+    paddingHorizontal: 16,
+    paddingBottom: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    backgroundColor: Colors.surfaceSecondary,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontFamily: "Inter_700Bold",
+    fontSize: 22,
+    color: Colors.text,
+  },
+  headerSubtitle: {
+    fontFamily: "Inter_400Regular",
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontFamily: "Inter_600SemiBold",
+    fontSize: 15,
+    color: Colors.text,
+    marginTop: 4,
+  },
+  eventCard: {
+    flexDirection: "row",
+    backgroundColor: Colors.white,
+    borderRadius: 14,
+    overflow: "hidden",
+    shadowColor: Colors.cardShadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 1,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  eventStripe: {
+    width: 5,
+  },
+  eventBody: {
+    flex: 1,
+    padding: 14,
+    gap: 4,
+  },
+  eventTopRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: 8,
+  },
+  eventType: {
+    fontFamily: "Inter_700Bold",
+    fontSize: 11,
+    letterSpacing: 0.5,
+    textTransform: "uppercase",
+  },
+  eventDates: {
+    fontFamily: "Inter_500Medium",
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  eventTitle: {
+    fontFamily: "Inter_600SemiBold",
+    fontSize: 15,
+    color: Colors.text,
+  },
+  noClasses: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  noClassesText: {
+    fontFamily: "Inter_600SemiBold",
+    fontSize: 12,
+  },
+  eventDescription: {
+    fontFamily: "Inter_400Regular",
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  emptyState: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingTop: 24,
+    gap: 8,
+  },
+  emptySubtitle: {
+    fontFamily: "Inter_400Regular",
+    fontSize: 13,
+    color: Colors.textSecondary,
+    textAlign: "center",
+  },
+});
@@ -0,0 +1,230 @@
+import { useRef, useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  Pressable,
+  Platform,
+  ActivityIndicator,
+} from "react-native";
+import { router } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { CameraView, useCameraPermissions, type BarcodeScanningResult } from "expo-camera";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import Colors from "@/constants/colors";
+import { studentAttendanceApi, type CheckInResult } from "@/lib/api";
+import { parseCheckinQr } from "@shared/attendance";
+
+type ScanState =
+  | { kind: "scanning" }
+  | { kind: "success"; result: CheckInResult }
+  | { kind: "error"; message: string };
+
+export default function CheckInScreen() {
+  const insets = useSafeAreaInsets();
+  const qc = useQueryClient();
+  const webTopInset = Platform.OS === "web" ? 67 : 0;
+  const [permission, requestPermission] = useCameraPermissions();
+  const [state, setState] = useState<ScanState>({ kind: "scanning" });
+  // The camera reports the same code many times a second; only act on the first
+  const handling = useRef(false);
+
+  const checkInMut = useMutation({
+    mutationFn: studentAttendanceApi.checkIn,
+    onSuccess: (result) => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      qc.invalidateQueries({ queryKey: ["student-attendance"] });
+      setState({ kind: "success", result });
+    },
+    onError: (e: any) => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setState({ kind: "error", message: e.message });
+    },
+  });
+
+  const handleScan = ({ data }: BarcodeScanningResult) => {
+    if (handling.current) return;
+    const token = parseCheckinQr(data);
+    if (!token) return;
+    handling.current = true;
+    checkInMut.mutate(token);
+  };
+
+  const scanAgain = () => {
+    handling.current = false;
+    setState({ kind: "scanning" });
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 12 + webTopInset }]}>
+        <View style={styles.headerRow}>
+          <Pressable
+            style={styles.backButton}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              router.back();
+            }}
+          >
+            <Ionicons name="arrow-back" size={22} color={Colors.text} />
+          </Pressable>
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.headerTitle}>Check In</Text>
+            <Text style={styles.headerSubtitle}>Scan the code your instructor is showing</Text>
+          </View>
+        </View>
+      </View>
+
+      <View style={[styles.content, { paddingBottom: insets.bottom + 24 + (Platform.OS === "web" ? 34 : 0) }]}>
+        {!permission ? (
+          <ActivityIndicator size="large" color={Colors.primary} />
+        ) : !permission.granted ? (
+          <View style={styles.message}>
+            <Ionicons name="camera-outline" size={48} color={Colors.textTertiary} />
+            <Text style={styles.messageTitle}>Camera Access Needed</Text>
+            <Text style={styles.messageText}>Allow the camera to scan your class&apos;s check-in code</Text>
+            {permission.canAskAgain && (
+              <Pressable style={styles.primaryButton} onPress={requestPermission}>
+                <Text style={styles.primaryButtonText}>Allow Camera</Text>
+              </Pressable>
+            )}
+          </View>
+        ) : state.kind === "success" ? (
+          <View style={styles.message}>
+            <Ionicons name="checkmark-circle" size={56} color={Colors.attendance.present} />
+            <Text style={styles.messageTitle}>You&apos;re Checked In</Text>
+            <Text style={styles.messageText}>
+              {state.result.subjectCode} · {state.result.subjectName}
+            </Text>
+            <Pressable style={styles.primaryButton} onPress={() => router.back()}>
+              <Text style={styles.primaryButtonText}>Done</Text>
+            </Pressable>
+          </View>
+        ) : state.kind === "error" ? (
+          <View style={styles.message}>
+            <Ionicons name="close-circle" size={56} color={Colors.error} />
+            <Text style={styles.messageTitle}>Couldn&apos;t Check In</Text>
+            <Text style={styles.messageText}>{state.message}</Text>
+            <Pressable style={styles.primaryButton} onPress={scanAgain}>
+              <Text style={styles.primaryButtonText}>Scan Again</Text>
+            </Pressable>
+          </View>
+        ) : (
+          <>
+            <View style={styles.cameraFrame}>
+              <CameraView
+                style={StyleSheet.absoluteFill}
+                facing="back"
+                barcodeScannerSettings={{ barcodeTypes: ["qr"] }}
+                onBarcodeScanned={checkInMut.isPending ? undefined : handleScan}
+              />
+              {checkInMut.isPending && (
+                <View style={styles.cameraOverlay}>
+                  <ActivityIndicator size="large" color={Colors.white} />
+                </View>
+              )}
+            </View>
+            <Text style={styles.scanHint}>
+              Point the camera at the QR code. Codes change every few seconds, so scan the one on screen now.
+            </Text>
+          </>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    backgroundColor: Colors.white,
+    paddingHorizontal: 16,
+    paddingBottom: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    backgroundColor: Colors.surfaceSecondary,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontFamily: "Inter_700Bold",
+    fontSize: 22,
+    color: Colors.text,
+  },
+  headerSubtitle: {
+    fontFamily: "Inter_400Regular",
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+    justifyContent: "center",
+  },
+  cameraFrame: {
+    width: "100%",
+    aspectRatio: 1,
+    borderRadius: 20,
+    overflow: "hidden",
+    backgroundColor: Colors.text,
+  },
+  cameraOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: Colors.overlay,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  scanHint: {
+    fontFamily: "Inter_400Regular",
+    fontSize: 13,
+    color: Colors.textSecondary,
+    textAlign: "center",
+    marginTop: 16,
+  },
+  message: {
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 24,
+  },
+  messageTitle: {
+    fontFamily: "Inter_600SemiBold",
+    fontSize: 17,
+    color: Colors.text,
+  },
+  messageText: {
+    fontFamily: "Inter_400Regular",
+    fontSize: 13,
+    color: Colors.textSecondary,
+    textAlign: "center",
+  },
+  primaryButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 28,
+    marginTop: 12,
+  },
+  primaryButtonText: {
+    fontFamily: "Inter_700Bold",
+    fontSize: 15,
+    color: Colors.white,
+  },
+});
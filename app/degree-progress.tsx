@@ -0,0 +1,149 @@
+import {
+  StyleSheet,
+  Text,
+  View,
+  ScrollView,
+  RefreshControl,
+  Pressable,
+  Platform,
+  ActivityIndicator,
+} from "react-native";
+import { router } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { useQuery } from "@tanstack/react-query";
+import Colors from "@/constants/colors";
+import { useAuth } from "@/lib/auth-context";
+import { studentStatsApi } from "@/lib/api";
+import DegreeChecklist from "@/components/DegreeChecklist";
+
+export default function DegreeProgressScreen() {
+  const insets = useSafeAreaInsets();
+  const { isAuthenticated } = useAuth();
+  const webTopInset = Platform.OS === "web" ? 67 : 0;
+
+  const { data: progress, isLoading, isRefetching, refetch } = useQuery({
+    queryKey: ["student-degree-progress"],
+    queryFn: studentStatsApi.degreeProgress,
+    enabled: isAuthenticated,
+  });
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 12 + webTopInset }]}>
+        <View style={styles.headerRow}>
+          <Pressable
+            style={styles.backButton}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              router.back();
+            }}
+          >
+            <Ionicons name="arrow-back" size={22} color={Colors.text} />
+          </Pressable>
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.headerTitle}>Degree Progress</Text>
+            <Text style={styles.headerSubtitle} numberOfLines={1}>
+              {progress?.program?.name ?? "Curriculum checklist"}
+            </Text>
+          </View>
+        </View>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={[
+            styles.content,
+            { paddingBottom: insets.bottom + 24 + (Platform.OS === "web" ? 34 : 0) },
+          ]}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl refreshing={isRefetching} onRefresh={refetch} tintColor={Colors.primary} />
+          }
+        >
+          {progress?.curriculum ? (
+            <DegreeChecklist progress={progress} />
+          ) : (
+            <View style={styles.emptyState}>
+              <Ionicons name="school-outline" size={48} color={Colors.textTertiary} />
+              <Text style={styles.emptyTitle}>No Curriculum Yet</Text>
+              <Text style={styles.emptySubtitle}>
+                The registrar hasn&apos;t set up a curriculum for your program
+              </Text>
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    backgroundColor: Colors.white,
+    paddingHorizontal: 16,
+    paddingBottom: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    backgroundColor: Colors.surfaceSecondary,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontFamily: "Inter_700Bold",
+    fontSize: 22,
+    color: Colors.text,
+  },
+  headerSubtitle: {
+    fontFamily: "Inter_400Regular",
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  content: {
+    padding: 16,
+  },
+  emptyState: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingTop: 60,
+    gap: 8,
+  },
+  emptyTitle: {
+    fontFamily: "Inter_600SemiBold",
+    fontSize: 16,
+    color: Colors.text,
+  },
+  emptySubtitle: {
+    fontFamily: "Inter_400Regular",
+    fontSize: 13,
+    color: Colors.textSecondary,
+    textAlign: "center",
+  },
+});
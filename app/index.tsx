@@ -16,9 +16,15 @@ import { LinearGradient } from "expo-linear-gradient";
 import { Ionicons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import Animated, { FadeInDown, FadeInUp } from "react-native-reanimated";
-import { useAuth } from "@/lib/auth-context";
+import { useAuth, type UserRole } from "@/lib/auth-context";
 import Colors from "@/constants/colors";
 
+function homeRoute(role: UserRole | null | undefined) {
+  if (role === "admin") return "/(admin)" as const;
+  if (role === "faculty") return "/(faculty)" as const;
+  return "/(tabs)" as const;
+}
+
 export default function LoginScreen() {
   const insets = useSafeAreaInsets();
   const { login, isAuthenticated, isLoading: authLoading, role } = useAuth();
@@ -31,11 +37,7 @@ export default function LoginScreen() {
 
   useEffect(() => {
     if (isAuthenticated && !authLoading) {
-      if (role === "admin") {
-        router.replace("/(admin)");
-      } else {
-        router.replace("/(tabs)");
-      }
+      router.replace(homeRoute(role));
     }
   }, [isAuthenticated, authLoading, role]);
 
@@ -62,11 +64,7 @@ export default function LoginScreen() {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
     } else {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      if (result.role === "admin") {
-        router.replace("/(admin)");
-      } else {
-        router.replace("/(tabs)");
-      }
+      router.replace(homeRoute(result.role));
     }
   };
 
@@ -0,0 +1,312 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import Colors from "@/constants/colors";
+import {
+  ATTENDANCE_LABELS, ATTENDANCE_STATUSES, toIsoDate, type AttendanceStatus,
+} from "@shared/attendance";
+import { classCancellation } from "@shared/calendar";
+import { effectiveMeetingDates } from "@shared/overrides";
+import {
+  calendarApi, type AttendanceInput, type AttendanceSheet, type CheckinToken, type ClassAttendanceSummary,
+  type ScheduleOverrideRecord, type TermRecord,
+} from "@/lib/api";
+import CheckinQr from "@/components/CheckinQr";
+
+// Where the panel reads and writes; admin and faculty use different endpoints
+export interface AttendanceSource {
+  sheet: (date: string) => Promise<AttendanceSheet>;
+  save: (data: AttendanceInput) => Promise<AttendanceSheet>;
+  summary: () => Promise<ClassAttendanceSummary>;
+  checkinToken: () => Promise<CheckinToken>;
+  overrides: () => Promise<ScheduleOverrideRecord[]>;
+}
+
+const ALERT_LABELS = { none: "", warning: "Warning", exceeded: "Over limit" };
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" });
+}
+
+function studentName(student: AttendanceSheet["rows"][number]["student"]): string {
+  if (!student) return "Unknown student";
+  return `${student.lastName}, ${student.firstName}${student.middleName ? ` ${student.middleName.charAt(0)}.` : ""}`;
+}
+
+/**
+ * Attendance for one class: pick a meeting date and mark each enrolled student,
+ * or switch to the term summary with the server's absence alerts.
+ */
+export default function AttendancePanel({ classId, days, term, source }: {
+  classId: string; days: string[]; term: TermRecord | undefined; source: AttendanceSource;
+}) {
+  const qc = useQueryClient();
+  const [view, setView] = useState<"take" | "summary">("take");
+  const [marks, setMarks] = useState<Map<string, AttendanceStatus>>(new Map());
+  const [error, setError] = useState("");
+  const [showQr, setShowQr] = useState(false);
+  const today = toIsoDate(new Date());
+
+  // Holidays and suspensions in the term cancel that day's meeting
+  const { data: events = [] } = useQuery({
+    queryKey: ["calendar", term?.startDate, term?.endDate],
+    queryFn: () => calendarApi.list(term?.startDate, term?.endDate),
+    enabled: !!term,
+  });
+
+  // Cancelled, moved and make-up meetings change which days there is a sheet for
+  const { data: overrides = [] } = useQuery({
+    queryKey: ["schedule-overrides", classId],
+    queryFn: source.overrides,
+  });
+
+  // The term's meetings so far, newest first
+  const dates = useMemo(() => {
+    if (!term) return [];
+    const end = term.endDate < today ? term.endDate : today;
+    return effectiveMeetingDates(days, overrides, term.startDate, end)
+      .filter((d) => !classCancellation(events, d))
+      .reverse();
+  }, [days, term, today, events, overrides]);
+  const [date, setDate] = useState<string | null>(null);
+  const selectedDate = date ?? dates[0] ?? null;
+
+  useEffect(() => {
+    setDate(null);
+    setView("take");
+    setShowQr(false);
+  }, [classId]);
+
+  const { data: sheet, isLoading: sheetLoading } = useQuery({
+    queryKey: ["attendance-sheet", classId, selectedDate],
+    queryFn: () => source.sheet(selectedDate!),
+    enabled: view === "take" && !!selectedDate,
+  });
+  const { data: summary, isLoading: summaryLoading } = useQuery({
+    queryKey: ["attendance-summary", classId],
+    queryFn: source.summary,
+    enabled: view === "summary",
+  });
+
+  useEffect(() => {
+    setMarks(new Map((sheet?.rows ?? []).flatMap((r) => (r.record ? [[r.enrollmentId, r.record.status] as const] : []))));
+    setError("");
+  }, [sheet]);
+
+  const saveMut = useMutation({
+    mutationFn: source.save,
+    onSuccess: (saved) => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      qc.setQueryData(["attendance-sheet", classId, saved.date], saved);
+      qc.invalidateQueries({ queryKey: ["attendance-summary", classId] });
+    },
+    onError: (e: any) => setError(e.message),
+  });
+
+  const rows = sheet?.rows ?? [];
+  const unmarked = rows.filter((r) => !marks.has(r.enrollmentId)).length;
+  const isDirty = rows.some((r) => marks.get(r.enrollmentId) !== r.record?.status);
+
+  const mark = (enrollmentId: string, status: AttendanceStatus) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setMarks((prev) => new Map(prev).set(enrollmentId, status));
+    setError("");
+  };
+
+  // Students who scanned in while the code was up show once the sheet reloads
+  const closeQr = () => {
+    setShowQr(false);
+    qc.invalidateQueries({ queryKey: ["attendance-sheet", classId, today] });
+    qc.invalidateQueries({ queryKey: ["attendance-summary", classId] });
+  };
+
+  const handleSave = () => {
+    if (!selectedDate) return;
+    const records = rows.flatMap((r) => {
+      const status = marks.get(r.enrollmentId);
+      return status ? [{ enrollmentId: r.enrollmentId, status }] : [];
+    });
+    if (records.length === 0) {
+      setError("Mark at least one student.");
+      return;
+    }
+    saveMut.mutate({ date: selectedDate, records });
+  };
+
+  return (
+    <View>
+      <View style={styles.segment}>
+        {(["take", "summary"] as const).map((v) => (
+          <Pressable key={v} style={[styles.segmentItem, view === v && styles.segmentItemActive]} onPress={() => setView(v)}>
+            <Text style={[styles.segmentText, view === v && styles.segmentTextActive]}>
+              {v === "take" ? "Take Attendance" : "Summary"}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {!!error && (
+        <View style={styles.errorBox}>
+          <Ionicons name="alert-circle" size={15} color={Colors.error} />
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      )}
+
+      {view === "take" ? (
+        dates.length === 0 ? (
+          <Text style={styles.hint}>
+            {term ? "The class hasn't met yet this term." : "The class has no term, so there are no meeting dates."}
+          </Text>
+        ) : (
+          <>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.dateRow}>
+              {dates.map((d) => (
+                <Pressable key={d} style={[styles.chip, selectedDate === d && styles.chipActive]} onPress={() => setDate(d)}>
+                  <Text style={[styles.chipText, selectedDate === d && styles.chipTextActive]}>{formatDate(d)}</Text>
+                </Pressable>
+              ))}
+            </ScrollView>
+            {selectedDate === today && (showQr ? (
+              <CheckinQr classId={classId} fetchToken={source.checkinToken} onClose={closeQr} />
+            ) : (
+              <Pressable style={styles.qrButton} onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); setShowQr(true); }}>
+                <Ionicons name="qr-code-outline" size={16} color={Colors.primary} />
+                <Text style={styles.qrButtonText}>Show Check-in QR Code</Text>
+              </Pressable>
+            ))}
+            {sheetLoading ? (
+              <ActivityIndicator color={Colors.primary} style={{ marginTop: 24 }} />
+            ) : rows.length === 0 ? (
+              <Text style={styles.hint}>No students are enrolled in this class.</Text>
+            ) : (
+              <>
+                <View style={styles.toolbar}>
+                  <Text style={styles.toolbarText}>{unmarked > 0 ? `${unmarked} not marked` : "Everyone is marked"}</Text>
+                  <Pressable
+                    onPress={() => setMarks((prev) => {
+                      const next = new Map(prev);
+                      rows.forEach((r) => { if (!next.has(r.enrollmentId)) next.set(r.enrollmentId, "present"); });
+                      return next;
+                    })}
+                  >
+                    <Text style={styles.toolbarAction}>Mark rest present</Text>
+                  </Pressable>
+                </View>
+                {rows.map((r) => (
+                  <View key={r.enrollmentId} style={styles.row}>
+                    <Text style={styles.rowName} numberOfLines={1}>{studentName(r.student)}</Text>
+                    {!!r.record?.checkInToken && <Ionicons name="qr-code" size={14} color={Colors.textTertiary} />}
+                    <View style={styles.statusChips}>
+                      {ATTENDANCE_STATUSES.map((s) => {
+                        const active = marks.get(r.enrollmentId) === s;
+                        const color = Colors.attendance[s];
+                        return (
+                          <Pressable
+                            key={s}
+                            style={[styles.statusChip, active && { backgroundColor: color, borderColor: color }]}
+                            onPress={() => mark(r.enrollmentId, s)}
+                          >
+                            <Text style={[styles.statusChipText, active && { color: Colors.white }]}>
+                              {ATTENDANCE_LABELS[s].charAt(0)}
+                            </Text>
+                          </Pressable>
+                        );
+                      })}
+                    </View>
+                  </View>
+                ))}
+                <Text style={styles.legend}>P Present · L Late · A Absent · E Excused · QR icon: checked in by scan</Text>
+                <Pressable
+                  style={[styles.saveButton, (!isDirty || saveMut.isPending) && { opacity: 0.6 }]}
+                  onPress={handleSave}
+                  disabled={!isDirty || saveMut.isPending}
+                >
+                  {saveMut.isPending
+                    ? <ActivityIndicator color={Colors.white} size="small" />
+                    : <Text style={styles.saveButtonText}>Save Attendance</Text>}
+                </Pressable>
+              </>
+            )}
+          </>
+        )
+      ) : summaryLoading || !summary ? (
+        <ActivityIndicator color={Colors.primary} style={{ marginTop: 24 }} />
+      ) : summary.rows.length === 0 ? (
+        <Text style={styles.hint}>No students are enrolled in this class.</Text>
+      ) : (
+        <>
+          <Text style={styles.policyText}>
+            {summary.meetings} meetings · warning at {summary.policy.warningPercent}%, limit {summary.policy.limitPercent}%
+            {summary.policy.lateEquivalent > 0 ? ` · ${summary.policy.lateEquivalent} lates = 1 absence` : ""}
+          </Text>
+          {summary.rows.map((r) => (
+            <View key={r.enrollmentId} style={styles.row}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.rowName} numberOfLines={1}>{studentName(r.student)}</Text>
+                <Text style={styles.rowMeta}>
+                  {r.present} present · {r.late} late · {r.absent} absent · {r.excused} excused
+                </Text>
+              </View>
+              <View style={{ alignItems: "flex-end" }}>
+                <Text style={[styles.percentText, { color: Colors.absenceAlert[r.alert] }]}>{r.absencePercent}%</Text>
+                {r.alert !== "none" && (
+                  <Text style={[styles.alertText, { color: Colors.absenceAlert[r.alert] }]}>{ALERT_LABELS[r.alert]}</Text>
+                )}
+              </View>
+            </View>
+          ))}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  segment: { flexDirection: "row", backgroundColor: Colors.surfaceSecondary, borderRadius: 10, padding: 3, marginBottom: 12 },
+  segmentItem: { flex: 1, paddingVertical: 8, borderRadius: 8, alignItems: "center" },
+  segmentItemActive: { backgroundColor: Colors.white },
+  segmentText: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.textSecondary },
+  segmentTextActive: { fontFamily: "Inter_600SemiBold", color: Colors.primary },
+  errorBox: {
+    flexDirection: "row", alignItems: "center", gap: 8,
+    backgroundColor: "#FEF2F2", padding: 12, borderRadius: 10, marginBottom: 12,
+  },
+  errorText: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.error, flex: 1 },
+  hint: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.textSecondary, textAlign: "center", marginTop: 24 },
+  dateRow: { flexGrow: 0, marginBottom: 10 },
+  chip: {
+    paddingHorizontal: 14, paddingVertical: 8, borderRadius: 20,
+    backgroundColor: Colors.surfaceSecondary, marginRight: 8, borderWidth: 1, borderColor: Colors.border,
+  },
+  chipActive: { backgroundColor: Colors.primary, borderColor: Colors.primary },
+  chipText: { fontFamily: "Inter_500Medium", fontSize: 12, color: Colors.text },
+  chipTextActive: { color: Colors.white },
+  qrButton: {
+    flexDirection: "row", alignItems: "center", justifyContent: "center", gap: 6,
+    paddingVertical: 10, borderRadius: 10, borderWidth: 1, borderColor: Colors.primary, marginBottom: 10,
+  },
+  qrButtonText: { fontFamily: "Inter_600SemiBold", fontSize: 13, color: Colors.primary },
+  toolbar: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 4 },
+  toolbarText: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary },
+  toolbarAction: { fontFamily: "Inter_600SemiBold", fontSize: 12, color: Colors.primary },
+  row: {
+    flexDirection: "row", alignItems: "center", gap: 10,
+    paddingVertical: 10, borderBottomWidth: 1, borderBottomColor: Colors.border,
+  },
+  rowName: { flex: 1, fontFamily: "Inter_600SemiBold", fontSize: 14, color: Colors.text },
+  rowMeta: { fontFamily: "Inter_400Regular", fontSize: 11, color: Colors.textSecondary, marginTop: 2 },
+  statusChips: { flexDirection: "row", gap: 6 },
+  statusChip: {
+    width: 32, height: 32, borderRadius: 16, alignItems: "center", justifyContent: "center",
+    backgroundColor: Colors.surfaceSecondary, borderWidth: 1, borderColor: Colors.border,
+  },
+  statusChipText: { fontFamily: "Inter_700Bold", fontSize: 12, color: Colors.textSecondary },
+  legend: { fontFamily: "Inter_400Regular", fontSize: 11, color: Colors.textTertiary, marginTop: 8 },
+  saveButton: { backgroundColor: Colors.primary, borderRadius: 12, paddingVertical: 14, alignItems: "center", marginTop: 14 },
+  saveButtonText: { fontFamily: "Inter_700Bold", fontSize: 15, color: Colors.white },
+  policyText: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary, marginBottom: 4 },
+  percentText: { fontFamily: "Inter_700Bold", fontSize: 15 },
+  alertText: { fontFamily: "Inter_600SemiBold", fontSize: 10, marginTop: 2 },
+});
@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from "react";
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useQuery } from "@tanstack/react-query";
+import QRCode from "react-native-qrcode-svg";
+import Colors from "@/constants/colors";
+import { CHECKIN_ROTATION_SECONDS, checkinQrValue } from "@shared/attendance";
+import type { CheckinToken } from "@/lib/api";
+
+/**
+ * The rotating QR code students scan to check in to today's meeting. A new
+ * code is fetched every CHECKIN_ROTATION_SECONDS while this is on screen.
+ */
+export default function CheckinQr({ classId, fetchToken, onClose }: {
+  classId: string; fetchToken: () => Promise<CheckinToken>; onClose: () => void;
+}) {
+  const [now, setNow] = useState(Date.now());
+
+  const { data, error, dataUpdatedAt } = useQuery({
+    queryKey: ["checkin-token", classId],
+    queryFn: fetchToken,
+    refetchInterval: CHECKIN_ROTATION_SECONDS * 1000,
+    refetchIntervalInBackground: false,
+    gcTime: 0,
+    retry: false,
+  });
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const secondsLeft = Math.max(0, CHECKIN_ROTATION_SECONDS - Math.floor((now - dataUpdatedAt) / 1000));
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Scan to Check In</Text>
+        <Pressable onPress={onClose} hitSlop={8}>
+          <Ionicons name="close-circle" size={22} color={Colors.textTertiary} />
+        </Pressable>
+      </View>
+      {error ? (
+        <Text style={styles.errorText}>{(error as Error).message}</Text>
+      ) : !data ? (
+        <ActivityIndicator color={Colors.primary} style={{ marginVertical: 80 }} />
+      ) : (
+        <>
+          <View style={styles.qrFrame}>
+            <QRCode value={checkinQrValue(data.token)} size={220} color={Colors.text} backgroundColor={Colors.white} />
+          </View>
+          <Text style={styles.meta}>New code in {secondsLeft}s</Text>
+        </>
+      )}
+      <Text style={styles.hint}>Students open Attendance → Check In in the app. Close this to see who checked in.</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.surfaceSecondary, borderRadius: 14, padding: 14,
+    alignItems: "center", marginBottom: 12, borderWidth: 1, borderColor: Colors.border,
+  },
+  header: { flexDirection: "row", alignSelf: "stretch", justifyContent: "space-between", alignItems: "center", marginBottom: 10 },
+  title: { fontFamily: "Inter_700Bold", fontSize: 15, color: Colors.text },
+  qrFrame: { padding: 12, backgroundColor: Colors.white, borderRadius: 12 },
+  meta: { fontFamily: "Inter_500Medium", fontSize: 12, color: Colors.textSecondary, marginTop: 10 },
+  hint: { fontFamily: "Inter_400Regular", fontSize: 11, color: Colors.textTertiary, marginTop: 8, textAlign: "center" },
+  errorText: { fontFamily: "Inter_400Regular", fontSize: 13, color: Colors.error, textAlign: "center", marginVertical: 24 },
+});
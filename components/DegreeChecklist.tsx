@@ -0,0 +1,124 @@
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import Colors from "@/constants/colors";
+import { PROGRESS_LABELS, type ProgressStatus } from "@shared/curriculum";
+import type { DegreeProgressReport } from "@/lib/api";
+
+const STATUS_ICONS: Record<ProgressStatus, keyof typeof Ionicons.glyphMap> = {
+  passed: "checkmark-circle",
+  in_progress: "time",
+  failed: "close-circle",
+  remaining: "ellipse-outline",
+};
+
+type Item = DegreeProgressReport["items"][number];
+
+// Consecutive items of the same year level and semester (the server sorts them)
+function groupBySlot(items: Item[]): { label: string; items: Item[] }[] {
+  const groups: { label: string; items: Item[] }[] = [];
+  for (const item of items) {
+    const label = `${item.yearLevel} · ${item.semester}`;
+    const last = groups[groups.length - 1];
+    if (last && last.label === label) last.items.push(item);
+    else groups.push({ label, items: [item] });
+  }
+  return groups;
+}
+
+/** Units summary and the curriculum's subjects by year and semester, each marked with its progress. */
+export default function DegreeChecklist({ progress }: { progress: DegreeProgressReport }) {
+  const percent = progress.totalUnits > 0 ? Math.round((progress.unitsPassed / progress.totalUnits) * 100) : 0;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.summaryCard}>
+        <Text style={styles.summaryTitle}>
+          {progress.program?.code ?? "Curriculum"} · {progress.curriculum?.version}
+        </Text>
+        <View style={styles.barTrack}>
+          <View style={[styles.barFill, { width: `${percent}%` }]} />
+        </View>
+        <View style={styles.summaryRow}>
+          <View style={styles.summaryItem}>
+            <Text style={styles.summaryValue}>{progress.unitsPassed}</Text>
+            <Text style={styles.summaryLabel}>Units Passed</Text>
+          </View>
+          <View style={styles.summaryItem}>
+            <Text style={styles.summaryValue}>{progress.unitsRemaining}</Text>
+            <Text style={styles.summaryLabel}>Units Remaining</Text>
+          </View>
+          <View style={styles.summaryItem}>
+            <Text style={styles.summaryValue}>{percent}%</Text>
+            <Text style={styles.summaryLabel}>of {progress.totalUnits}</Text>
+          </View>
+        </View>
+      </View>
+
+      {groupBySlot(progress.items).map((group) => (
+        <View key={group.label} style={styles.groupCard}>
+          <Text style={styles.groupTitle}>{group.label}</Text>
+          {group.items.map((item) => {
+            const color = Colors.progress[item.status];
+            return (
+              <View key={item.subjectId} style={styles.itemRow}>
+                <Ionicons name={STATUS_ICONS[item.status]} size={18} color={color} />
+                <View style={styles.itemText}>
+                  <Text style={styles.itemCode}>{item.code}</Text>
+                  <Text style={styles.itemTitle} numberOfLines={1}>{item.title}</Text>
+                </View>
+                <View style={styles.itemRight}>
+                  <Text style={[styles.itemStatus, { color }]}>
+                    {item.grade && item.status !== "in_progress" ? item.grade : PROGRESS_LABELS[item.status]}
+                  </Text>
+                  <Text style={styles.itemUnits}>{item.units} units</Text>
+                </View>
+              </View>
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { gap: 12 },
+  summaryCard: {
+    backgroundColor: Colors.white,
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+    shadowColor: Colors.cardShadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 1,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  summaryTitle: { fontFamily: "Inter_600SemiBold", fontSize: 15, color: Colors.text },
+  barTrack: { height: 8, borderRadius: 4, backgroundColor: Colors.surfaceSecondary, overflow: "hidden" },
+  barFill: { height: 8, borderRadius: 4, backgroundColor: Colors.success },
+  summaryRow: { flexDirection: "row" },
+  summaryItem: { flex: 1, alignItems: "center" },
+  summaryValue: { fontFamily: "Inter_700Bold", fontSize: 20, color: Colors.primary },
+  summaryLabel: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary },
+  groupCard: {
+    backgroundColor: Colors.white,
+    borderRadius: 16,
+    padding: 14,
+    gap: 10,
+    shadowColor: Colors.cardShadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 1,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  groupTitle: { fontFamily: "Inter_600SemiBold", fontSize: 13, color: Colors.textSecondary },
+  itemRow: { flexDirection: "row", alignItems: "center", gap: 10 },
+  itemText: { flex: 1 },
+  itemCode: { fontFamily: "Inter_600SemiBold", fontSize: 14, color: Colors.text },
+  itemTitle: { fontFamily: "Inter_400Regular", fontSize: 12, color: Colors.textSecondary },
+  itemRight: { alignItems: "flex-end" },
+  itemStatus: { fontFamily: "Inter_600SemiBold", fontSize: 12 },
+  itemUnits: { fontFamily: "Inter_400Regular", fontSize: 11, color: Colors.textTertiary },
+});
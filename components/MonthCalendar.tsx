@@ -0,0 +1,121 @@
+import React from "react";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { classCancellation, coversDate } from "@shared/calendar";
+import { toIsoDate } from "@shared/attendance";
+import type { CalendarEventRecord } from "@/lib/api";
+
+const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+const MAX_DOTS = 3;
+
+// The month's dates (YYYY-MM-DD) in Monday-first weeks, null for the padding days
+function monthWeeks(year: number, month: number): (string | null)[][] {
+  const leading = (new Date(year, month, 1).getDay() + 6) % 7;
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  const cells: (string | null)[] = Array(leading).fill(null);
+  for (let day = 1; day <= daysInMonth; day++) cells.push(toIsoDate(new Date(year, month, day)));
+  while (cells.length % 7 !== 0) cells.push(null);
+  const weeks: (string | null)[][] = [];
+  for (let i = 0; i < cells.length; i += 7) weeks.push(cells.slice(i, i + 7));
+  return weeks;
+}
+
+/**
+ * A month grid of the academic calendar: each day shows a dot per event, and
+ * days a holiday or suspension cancels classes are shaded.
+ */
+export default function MonthCalendar({ year, month, events, selectedDate, onSelectDate, onChangeMonth }: {
+  year: number; month: number; events: CalendarEventRecord[];
+  selectedDate: string | null; onSelectDate: (date: string | null) => void;
+  onChangeMonth: (year: number, month: number) => void;
+}) {
+  const today = toIsoDate(new Date());
+  const title = new Date(year, month, 1).toLocaleDateString("en-US", { month: "long", year: "numeric" });
+
+  const step = (delta: number) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const next = new Date(year, month + delta, 1);
+    onChangeMonth(next.getFullYear(), next.getMonth());
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Pressable style={styles.navButton} onPress={() => step(-1)} hitSlop={8}>
+          <Ionicons name="chevron-back" size={18} color={Colors.text} />
+        </Pressable>
+        <Text style={styles.title}>{title}</Text>
+        <Pressable style={styles.navButton} onPress={() => step(1)} hitSlop={8}>
+          <Ionicons name="chevron-forward" size={18} color={Colors.text} />
+        </Pressable>
+      </View>
+      <View style={styles.row}>
+        {WEEKDAY_LABELS.map((label) => (
+          <Text key={label} style={styles.weekday}>{label}</Text>
+        ))}
+      </View>
+      {monthWeeks(year, month).map((week, i) => (
+        <View key={i} style={styles.row}>
+          {week.map((date, j) => {
+            if (!date) return <View key={j} style={styles.cell} />;
+            const dayEvents = events.filter((e) => coversDate(e, date));
+            const cancelled = classCancellation(dayEvents, date);
+            const isSelected = date === selectedDate;
+            return (
+              <Pressable
+                key={date}
+                style={styles.cell}
+                onPress={() => onSelectDate(isSelected ? null : date)}
+              >
+                <View
+                  style={[
+                    styles.day,
+                    cancelled && { backgroundColor: `${Colors.calendarEvent[cancelled.type]}1A` },
+                    date === today && styles.today,
+                    isSelected && styles.selected,
+                  ]}
+                >
+                  <Text style={[styles.dayText, isSelected && { color: Colors.white }]}>
+                    {Number(date.slice(8))}
+                  </Text>
+                </View>
+                <View style={styles.dots}>
+                  {dayEvents.slice(0, MAX_DOTS).map((e) => (
+                    <View key={e.id} style={[styles.dot, { backgroundColor: Colors.calendarEvent[e.type] }]} />
+                  ))}
+                </View>
+              </Pressable>
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.white, borderRadius: 16, padding: 12,
+    shadowColor: Colors.cardShadow, shadowOffset: { width: 0, height: 2 }, shadowOpacity: 1, shadowRadius: 8, elevation: 2,
+  },
+  header: { flexDirection: "row", alignItems: "center", justifyContent: "space-between", marginBottom: 8 },
+  navButton: {
+    width: 32, height: 32, borderRadius: 10, backgroundColor: Colors.surfaceSecondary,
+    justifyContent: "center", alignItems: "center",
+  },
+  title: { fontFamily: "Inter_700Bold", fontSize: 16, color: Colors.text },
+  row: { flexDirection: "row" },
+  weekday: {
+    flex: 1, textAlign: "center", fontFamily: "Inter_500Medium", fontSize: 11,
+    color: Colors.textTertiary, paddingVertical: 6,
+  },
+  cell: { flex: 1, alignItems: "center", paddingVertical: 3 },
+  day: { width: 34, height: 34, borderRadius: 17, justifyContent: "center", alignItems: "center" },
+  today: { borderWidth: 1.5, borderColor: Colors.primary },
+  selected: { backgroundColor: Colors.primary },
+  dayText: { fontFamily: "Inter_500Medium", fontSize: 13, color: Colors.text },
+  dots: { flexDirection: "row", gap: 2, height: 6, marginTop: 2 },
+  dot: { width: 5, height: 5, borderRadius: 2.5 },
+});
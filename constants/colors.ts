@@ -18,6 +18,47 @@ const Colors = {
   warning: "#F59E0B",
   cardShadow: "rgba(26, 58, 107, 0.08)",
   overlay: "rgba(0, 0, 0, 0.5)",
+  // Grade workflow badges, keyed by GradeStatus
+  gradeStatus: {
+    draft: "#6B7280",
+    submitted: "#D97706",
+    approved: "#2A5298",
+    released: "#16A34A",
+  },
+  // Academic standing badges, keyed by AcademicStanding
+  standing: {
+    deans_list: "#B8922E",
+    good: "#16A34A",
+    probation: "#D97706",
+    dismissal: "#DC2626",
+  },
+  // Attendance marks, keyed by AttendanceStatus
+  attendance: {
+    present: "#16A34A",
+    late: "#D97706",
+    absent: "#DC2626",
+    excused: "#2A5298",
+  },
+  // Absence alerts, keyed by AbsenceAlert
+  absenceAlert: {
+    none: "#16A34A",
+    warning: "#D97706",
+    exceeded: "#DC2626",
+  },
+  // Degree checklist rows, keyed by ProgressStatus
+  progress: {
+    passed: "#16A34A",
+    in_progress: "#2A5298",
+    failed: "#DC2626",
+    remaining: "#6B7280",
+  },
+  // Academic calendar events, keyed by CalendarEventType
+  calendarEvent: {
+    holiday: "#DC2626",
+    suspension: "#D97706",
+    enrollment: "#2A5298",
+    grade_deadline: "#7C3AED",
+  },
   light: {
     text: "#1A1D26",
     background: "#F5F7FA",
@@ -1,4 +1,15 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Platform, Share } from "react-native";
+import { Directory, File, Paths } from "expo-file-system";
+import type { GradingScale } from "@shared/grades";
+import type { StandingPolicy, StudentStanding, TermStanding } from "@shared/standing";
+import type { DegreeProgress } from "@shared/curriculum";
+import type { AttendancePolicy, AttendanceStatus, AttendanceSummary } from "@shared/attendance";
+import type { ExamConflictReason, ExamType } from "@shared/exams";
+import type { CalendarEventType } from "@shared/calendar";
+import type { OverrideType } from "@shared/overrides";
+import type { AdminRole } from "@shared/permissions";
+import type { CurriculumSemester, StaffStatus } from "@shared/schema";
 
 const getBaseUrl = () => {
   const domain = process.env.EXPO_PUBLIC_DOMAIN;
@@ -14,10 +25,15 @@ async function getToken(): Promise<string | null> {
   return AsyncStorage.getItem("@zdspgc_token");
 }
 
-async function request<T>(
-  path: string,
-  options: RequestInit = {}
-): Promise<T> {
+/** A non-2xx response; `data` is the parsed JSON body. */
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public data: Record<string, unknown>) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+async function send(path: string, options: RequestInit = {}): Promise<Response> {
   const token = await getToken();
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
@@ -34,12 +50,49 @@ async function request<T>(
 
   if (!res.ok) {
     const err = await res.json().catch(() => ({ message: "Request failed" }));
-    throw new Error(err.message || `HTTP ${res.status}`);
+    throw new ApiError(err.message || `HTTP ${res.status}`, res.status, err);
   }
+  return res;
+}
 
+async function request<T>(
+  path: string,
+  options: RequestInit = {}
+): Promise<T> {
+  const res = await send(path, options);
   return res.json();
 }
 
+/**
+ * Fetches a generated file (PDF, .ics) and hands it to the user: a browser
+ * download on web, the share sheet on iOS, and a save-to-folder picker on
+ * Android.
+ */
+async function download(path: string, fileName: string, mimeType: string): Promise<void> {
+  if (Platform.OS === "web") {
+    const res = await send(path);
+    const url = URL.createObjectURL(await res.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  const token = await getToken();
+  const file = await File.downloadFileAsync(`${BASE_URL}${path}`, new File(Paths.cache, fileName), {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    idempotent: true,
+  });
+  if (Platform.OS === "ios") {
+    await Share.share({ url: file.uri, title: fileName });
+    return;
+  }
+  const folder = await Directory.pickDirectoryAsync();
+  folder.createFile(fileName, mimeType).write(await file.bytes());
+}
+
 export const api = {
   get: <T>(path: string) => request<T>(path),
   post: <T>(path: string, body: unknown) =>
@@ -47,13 +100,14 @@ export const api = {
   put: <T>(path: string, body: unknown) =>
     request<T>(path, { method: "PUT", body: JSON.stringify(body) }),
   delete: <T>(path: string) => request<T>(path, { method: "DELETE" }),
+  download,
 };
 
 // ─── Auth ─────────────────────────────────────────────────────────────────────
 
 export interface LoginResponse {
   token: string;
-  role: "student" | "admin";
+  role: "student" | "admin" | "faculty";
   user: Record<string, unknown>;
 }
 
@@ -97,6 +151,7 @@ export interface StudentRecord {
   gender: string;
   status: string;
   sectionId: string | null;
+  curriculumId: string | null; // null follows the program's current curriculum
   role: "student";
 }
 
@@ -107,6 +162,11 @@ export const adminStudentsApi = {
   update: (id: string, data: Partial<StudentRecord> & { password?: string }) =>
     api.put<StudentRecord>(`/api/admin/students/${id}`, data),
   delete: (id: string) => api.delete<{ message: string }>(`/api/admin/students/${id}`),
+  downloadTranscript: (id: string, fileName: string) =>
+    api.download(`/api/admin/students/${id}/transcript.pdf`, fileName, "application/pdf"),
+  degreeProgress: (id: string) => api.get<DegreeProgressReport>(`/api/admin/students/${id}/degree-progress`),
+  setCurriculum: (id: string, curriculumId: string | null) =>
+    api.put<DegreeProgressReport>(`/api/admin/students/${id}/curriculum`, { curriculumId }),
 };
 
 // ─── Admin — Sections ────────────────────────────────────────────────────────────────
@@ -130,13 +190,154 @@ export const adminSectionsApi = {
   removeStudent: (sectionId: string, studentId: string) =>
     api.delete<{ message: string }>(`/api/admin/sections/${sectionId}/students/${studentId}`),
   listStudents: (id: string) => api.get<StudentRecord[]>(`/api/admin/sections/${id}/students`),
+  listSchedule: (id: string) => api.get<ScheduleRecord[]>(`/api/admin/sections/${id}/schedule`),
+  addSchedule: (id: string, data: ScheduleInput) =>
+    api.post<ScheduleRecord>(`/api/admin/sections/${id}/schedule`, data),
+  removeSchedule: (sectionId: string, itemId: string) =>
+    api.delete<{ message: string }>(`/api/admin/sections/${sectionId}/schedule/${itemId}`),
+  // The section's active-term classes as an .ics calendar
+  downloadCalendar: (id: string, fileName: string) =>
+    api.download(`/api/admin/sections/${id}/schedule.ics`, fileName, "text/calendar"),
+};
+
+// ─── Terms ─────────────────────────────────────────────────────────────────────
+
+export interface TermRecord {
+  id: string;
+  name: string;
+  schoolYear: string;
+  startDate: string;
+  endDate: string;
+  isActive: boolean;
+}
+
+// Public list, ordered by start date
+export const termsApi = {
+  list: () => api.get<TermRecord[]>("/api/terms"),
+};
+
+export const adminTermsApi = {
+  create: (data: Partial<TermRecord>) => api.post<TermRecord>("/api/admin/terms", data),
+  update: (id: string, data: Partial<TermRecord>) => api.put<TermRecord>(`/api/admin/terms/${id}`, data),
+  activate: (id: string) => api.post<TermRecord>(`/api/admin/terms/${id}/activate`, {}),
+  delete: (id: string) => api.delete<{ message: string }>(`/api/admin/terms/${id}`),
+};
+
+// ─── Admin — Subjects ─────────────────────────────────────────────────────────
+
+export interface SubjectRecord {
+  id: string;
+  code: string;
+  title: string;
+  units: number;
+  lectureHours: number;
+  labHours: number;
+  prerequisites: string[];
+  corequisites: string[]; // passed before, or taken in the same term
+}
+
+export interface UnmetRequirement {
+  subjectId: string;
+  code: string;
+  title: string;
+  type: "prerequisite" | "corequisite";
+}
+
+// `override` goes ahead despite unmet prerequisites; the enrollment records it
+export interface RequirementOverride {
+  override?: boolean;
+  overrideReason?: string;
+}
+
+/** The missing prerequisites/corequisites from a 409 enroll or grade response, if that's what `error` is. */
+export function getUnmetRequirements(error: unknown): UnmetRequirement[] | null {
+  if (!(error instanceof ApiError) || error.status !== 409) return null;
+  const unmet = error.data.unmet;
+  return Array.isArray(unmet) ? (unmet as UnmetRequirement[]) : null;
+}
+
+export const adminSubjectsApi = {
+  list: () => api.get<SubjectRecord[]>("/api/admin/subjects"),
+  create: (data: Partial<SubjectRecord>) => api.post<SubjectRecord>("/api/admin/subjects", data),
+  update: (id: string, data: Partial<SubjectRecord>) =>
+    api.put<SubjectRecord>(`/api/admin/subjects/${id}`, data),
+  delete: (id: string) => api.delete<{ message: string }>(`/api/admin/subjects/${id}`),
+};
+
+// ─── Admin — Programs & Curricula ──────────────────────────────────────────────
+
+export type { CurriculumSemester };
+
+export interface CurriculumRecord {
+  id: string;
+  programId: string;
+  version: string;
+  isCurrent: boolean;
+}
+
+export interface CurriculumSummary extends CurriculumRecord {
+  subjectCount: number;
+  totalUnits: number;
+}
+
+export interface ProgramRecord {
+  id: string;
+  code: string;
+  name: string; // what students' and sections' course is set to
+}
+
+export interface ProgramListItem extends ProgramRecord {
+  curricula: CurriculumSummary[]; // newest version first
+}
+
+export interface CurriculumEntry {
+  subjectId: string;
+  code: string;
+  title: string;
+  units: number;
+  yearLevel: string;
+  semester: CurriculumSemester;
+}
+
+export interface CurriculumDetail extends CurriculumRecord {
+  subjects: CurriculumEntry[];
+}
+
+export interface CurriculumInput {
+  version?: string;
+  isCurrent?: boolean;
+  subjects?: { subjectId: string; yearLevel: string; semester: CurriculumSemester }[];
+}
+
+export type DegreeProgressReport = DegreeProgress<CurriculumEntry> & {
+  program: ProgramRecord | null;
+  curriculum: CurriculumRecord | null; // null when the student's course has no curriculum
+};
+
+export const adminProgramsApi = {
+  list: () => api.get<ProgramListItem[]>("/api/admin/programs"),
+  create: (data: { code: string; name: string }) => api.post<ProgramRecord>("/api/admin/programs", data),
+  update: (id: string, data: { code?: string; name?: string }) =>
+    api.put<ProgramRecord>(`/api/admin/programs/${id}`, data),
+  delete: (id: string) => api.delete<{ message: string }>(`/api/admin/programs/${id}`),
+  getCurriculum: (id: string) => api.get<CurriculumDetail>(`/api/admin/curricula/${id}`),
+  createCurriculum: (programId: string, data: CurriculumInput) =>
+    api.post<CurriculumDetail>(`/api/admin/programs/${programId}/curricula`, data),
+  updateCurriculum: (id: string, data: CurriculumInput) =>
+    api.put<CurriculumDetail>(`/api/admin/curricula/${id}`, data),
+  deleteCurriculum: (id: string) => api.delete<{ message: string }>(`/api/admin/curricula/${id}`),
 };
 
 // ─── Admin — Grades ───────────────────────────────────────────────────────────
 
+export type GradeStatus = "draft" | "submitted" | "approved" | "released";
+
 export interface GradeRecord {
   id: string;
   studentId: string;
+  enrollmentId: string | null;
+  subjectId: string | null;
+  termId: string | null;
   subjectCode: string;
   subjectName: string;
   instructor: string;
@@ -144,36 +345,354 @@ export interface GradeRecord {
   units: number;
   semester: string;
   remarks: string;
+  status: GradeStatus;
+  submittedBy: string | null;
+  submittedAt: number | null;
+  approvedBy: string | null;
+  approvedAt: number | null;
+  releasedBy: string | null;
+  releasedAt: number | null;
+  revisedAt: number | null; // set when a released grade is changed
+}
+
+export type GradeHistoryAction = "created" | "changed" | "status" | "deleted";
+
+// One entry in a grade's audit trail; values are grades, or statuses for "status"
+export interface GradeHistoryRecord {
+  id: string;
+  gradeId: string;
+  studentId: string;
+  action: GradeHistoryAction;
+  oldValue: string | null;
+  newValue: string | null;
+  changedFields: string[]; // grade fields a "changed" entry touched
+  changedBy: string;
+  changedByName: string;
+  reason: string;
+  changedAt: number;
+}
+
+// One class's grades in the registrar's approval queue
+export interface GradeQueueClass {
+  scheduleItemId: string | null;
+  subjectCode: string;
+  subjectName: string;
+  instructor: string;
+  sectionName: string | null;
+  termId: string | null;
+  semester: string;
+  grades: (GradeRecord & { studentName: string; studentNumber: string })[];
 }
 
 export const adminGradesApi = {
   list: (studentId?: string) =>
     api.get<GradeRecord[]>(studentId ? `/api/admin/grades?studentId=${studentId}` : "/api/admin/grades"),
-  create: (data: Partial<GradeRecord>) => api.post<GradeRecord>("/api/admin/grades", data),
-  update: (id: string, data: Partial<GradeRecord>) =>
+  create: (data: Partial<GradeRecord> & RequirementOverride) => api.post<GradeRecord>("/api/admin/grades", data),
+  // `reason` is required when changing a released grade
+  update: (id: string, data: Partial<GradeRecord> & { reason?: string }) =>
     api.put<GradeRecord>(`/api/admin/grades/${id}`, data),
   delete: (id: string) => api.delete<{ message: string }>(`/api/admin/grades/${id}`),
+  history: (id: string) => api.get<GradeHistoryRecord[]>(`/api/admin/grades/${id}/history`),
+  queue: (status: "submitted" | "approved") => api.get<GradeQueueClass[]>(`/api/admin/grades/queue?status=${status}`),
+  setStatus: (ids: string[], status: GradeStatus, reason?: string) =>
+    api.post<GradeRecord[]>("/api/admin/grades/status", { ids, status, reason }),
+  releaseTerm: (termId: string) => api.post<{ released: number }>("/api/admin/grades/release", { termId }),
+};
+
+// A section's enrolled students in one subject, for bulk grade encoding
+export interface ClassRecord {
+  items: ScheduleRecord[];
+  rows: ClassListEntry[];
+}
+
+export interface ClassRecordFilter {
+  sectionId: string;
+  subjectId: string;
+  termId?: string;
+}
+
+export interface ClassRecordCellError {
+  enrollmentId: string;
+  message: string;
+  unmet?: UnmetRequirement[]; // the cell can be saved with `override`
+}
+
+export const adminClassRecordApi = {
+  get: (filter: ClassRecordFilter) => {
+    const params = new URLSearchParams({ sectionId: filter.sectionId, subjectId: filter.subjectId });
+    if (filter.termId) params.set("termId", filter.termId);
+    return api.get<ClassRecord>(`/api/admin/class-record?${params.toString()}`);
+  },
+  // All or nothing: a single invalid cell rejects the whole save. `reason` is
+  // required when the save changes released grades.
+  save: (data: ClassRecordFilter & RequirementOverride & { grades: { enrollmentId: string; grade: string }[]; reason?: string }) =>
+    api.put<GradeRecord[]>("/api/admin/class-record", data),
+};
+
+/** The per-cell errors from a rejected class-record save, if that's what `error` is. */
+export function getClassRecordErrors(error: unknown): ClassRecordCellError[] | null {
+  if (!(error instanceof ApiError) || error.status !== 400) return null;
+  const errors = error.data.errors;
+  return Array.isArray(errors) ? (errors as ClassRecordCellError[]) : null;
+}
+
+export const gradingScaleApi = {
+  get: () => api.get<GradingScale>("/api/grading-scale"),
+};
+
+export const adminGradingScaleApi = {
+  update: (data: GradingScale) => api.put<GradingScale>("/api/admin/grading-scale", data),
+};
+
+// ─── Admin — Academic Standing ────────────────────────────────────────────────
+
+export interface StandingReport {
+  term: TermRecord;
+  policy: StandingPolicy;
+  rows: (TermStanding & { student: NonNullable<ClassListEntry["student"]> })[];
+}
+
+export const adminStandingApi = {
+  report: (termId?: string) =>
+    api.get<StandingReport>(termId ? `/api/admin/standing?termId=${termId}` : "/api/admin/standing"),
+  getPolicy: () => api.get<StandingPolicy>("/api/admin/standing-policy"),
+  updatePolicy: (data: StandingPolicy) => api.put<StandingPolicy>("/api/admin/standing-policy", data),
 };
 
 // ─── Admin — Schedule ─────────────────────────────────────────────────────────
 
 export interface ScheduleRecord {
   id: string;
+  subjectId: string | null;
+  termId: string | null;
+  sectionId: string | null;
   subjectCode: string;
   subjectName: string;
-  day: string;
-  timeStart: string;
-  timeEnd: string;
+  // Days in week order, e.g. ["Monday", "Wednesday"]
+  days: string[];
+  // Minutes since midnight; format with formatTimeOfDay from @shared/schedule
+  startMinutes: number;
+  endMinutes: number;
   room: string;
+  // Linked faculty account; `instructor` is its name (or free text when unlinked)
+  instructorId: string | null;
   instructor: string;
 }
 
+// `override` saves despite room/instructor/section conflicts
+export type ScheduleInput = Partial<ScheduleRecord> & { override?: boolean };
+
+export type ConflictReason = "room" | "instructor" | "section";
+
+export interface ScheduleConflict {
+  item: ScheduleRecord;
+  reasons: ConflictReason[];
+}
+
+/** The clashing meetings from a 409 schedule response, if that's what `error` is. */
+export function getScheduleConflicts(error: unknown): ScheduleConflict[] | null {
+  if (!(error instanceof ApiError) || error.status !== 409) return null;
+  const conflicts = error.data.conflicts;
+  return Array.isArray(conflicts) ? (conflicts as ScheduleConflict[]) : null;
+}
+
+// A one-off change to one meeting of a class (see @shared/overrides)
+export interface ScheduleOverrideRecord {
+  id: string;
+  scheduleItemId: string;
+  type: OverrideType;
+  // The regular meeting that is cancelled or rescheduled, or the make-up date
+  date: string; // YYYY-MM-DD
+  // Where a rescheduled or make-up meeting happens instead; null when cancelled
+  newDate: string | null;
+  startMinutes: number | null;
+  endMinutes: number | null;
+  room: string | null;
+  reason: string;
+  createdBy: string;
+  createdAt: number;
+}
+
+export type ScheduleOverrideInput = Pick<ScheduleOverrideRecord, "type" | "date"> &
+  Partial<Pick<ScheduleOverrideRecord, "newDate" | "startMinutes" | "endMinutes" | "room" | "reason">>;
+
 export const adminScheduleApi = {
   list: () => api.get<ScheduleRecord[]>("/api/admin/schedule"),
-  create: (data: Partial<ScheduleRecord>) => api.post<ScheduleRecord>("/api/admin/schedule", data),
-  update: (id: string, data: Partial<ScheduleRecord>) =>
+  create: (data: ScheduleInput) => api.post<ScheduleRecord>("/api/admin/schedule", data),
+  update: (id: string, data: ScheduleInput) =>
     api.put<ScheduleRecord>(`/api/admin/schedule/${id}`, data),
   delete: (id: string) => api.delete<{ message: string }>(`/api/admin/schedule/${id}`),
+  overrides: (id: string) => api.get<ScheduleOverrideRecord[]>(`/api/admin/schedule/${id}/overrides`),
+  createOverride: (id: string, data: ScheduleOverrideInput) =>
+    api.post<ScheduleOverrideRecord>(`/api/admin/schedule/${id}/overrides`, data),
+  deleteOverride: (id: string, overrideId: string) =>
+    api.delete<{ message: string }>(`/api/admin/schedule/${id}/overrides/${overrideId}`),
+  downloadRoomCalendar: (room: string, termId: string | undefined, fileName: string) =>
+    api.download(
+      `/api/admin/rooms/${encodeURIComponent(room)}/schedule.ics${termId ? `?termId=${termId}` : ""}`,
+      fileName,
+      "text/calendar",
+    ),
+};
+
+// ─── Admin — Exams ────────────────────────────────────────────────────────────
+
+export interface ExamRecord {
+  id: string;
+  scheduleItemId: string;
+  type: ExamType;
+  date: string; // YYYY-MM-DD
+  startMinutes: number;
+  endMinutes: number;
+  room: string;
+  // Linked faculty account; `proctor` is its name (or free text when unlinked)
+  proctorId: string | null;
+  proctor: string;
+  // From the class offering
+  subjectCode: string;
+  subjectName: string;
+  sectionId: string | null;
+  termId: string | null;
+}
+
+// `override` saves despite student/room/proctor conflicts
+export type ExamInput = Partial<Pick<ExamRecord,
+  "scheduleItemId" | "type" | "date" | "startMinutes" | "endMinutes" | "room" | "proctorId" | "proctor"
+>> & { override?: boolean };
+
+export interface ExamConflict {
+  exam: ExamRecord;
+  reasons: ExamConflictReason[];
+  students: number; // how many students sit both exams
+}
+
+/** The clashing exams from a 409 exam response, if that's what `error` is. */
+export function getExamConflicts(error: unknown): ExamConflict[] | null {
+  if (!(error instanceof ApiError) || error.status !== 409) return null;
+  const conflicts = error.data.conflicts;
+  return Array.isArray(conflicts) ? (conflicts as ExamConflict[]) : null;
+}
+
+export const adminExamsApi = {
+  list: (termId?: string) => api.get<ExamRecord[]>(termId ? `/api/admin/exams?termId=${termId}` : "/api/admin/exams"),
+  create: (data: ExamInput) => api.post<ExamRecord>("/api/admin/exams", data),
+  update: (id: string, data: ExamInput) => api.put<ExamRecord>(`/api/admin/exams/${id}`, data),
+  delete: (id: string) => api.delete<{ message: string }>(`/api/admin/exams/${id}`),
+};
+
+// ─── Admin — Enrollments ──────────────────────────────────────────────────────
+
+export type EnrollmentStatus = "enrolled" | "dropped" | "withdrawn";
+
+export interface EnrollmentRecord {
+  id: string;
+  studentId: string;
+  scheduleItemId: string;
+  termId: string | null;
+  semester: string;
+  status: EnrollmentStatus;
+  enrolledAt: number;
+  statusChangedAt: number | null;
+  // Set when an admin waived unmet prerequisites/corequisites (subject codes)
+  overrideBy: string | null;
+  overrideAt: number | null;
+  overrideReason: string;
+  overriddenRequirements: string[];
+  scheduleItem: ScheduleRecord | null;
+}
+
+export const adminEnrollmentsApi = {
+  list: (filter: { studentId?: string; scheduleItemId?: string } = {}) => {
+    const params = new URLSearchParams();
+    if (filter.studentId) params.set("studentId", filter.studentId);
+    if (filter.scheduleItemId) params.set("scheduleItemId", filter.scheduleItemId);
+    const query = params.toString();
+    return api.get<EnrollmentRecord[]>(`/api/admin/enrollments${query ? `?${query}` : ""}`);
+  },
+  enroll: (data: { studentId: string; scheduleItemId: string } & RequirementOverride) =>
+    api.post<EnrollmentRecord>("/api/admin/enrollments", data),
+  drop: (id: string, status: Exclude<EnrollmentStatus, "enrolled"> = "dropped") =>
+    api.post<EnrollmentRecord>(`/api/admin/enrollments/${id}/drop`, { status }),
+};
+
+// ─── Attendance ───────────────────────────────────────────────────────────────
+
+export interface AttendanceRecord {
+  id: string;
+  enrollmentId: string;
+  studentId: string;
+  scheduleItemId: string;
+  date: string; // YYYY-MM-DD
+  status: AttendanceStatus;
+  remarks: string;
+  recordedBy: string;
+  recordedAt: number;
+  checkInToken: string | null; // set when the student checked in by QR code
+}
+
+type ClassListStudent = NonNullable<ClassListEntry["student"]>;
+
+// One meeting's enrolled students with that date's record (null until taken)
+export interface AttendanceSheet {
+  date: string;
+  rows: { enrollmentId: string; student: ClassListStudent | null; record: AttendanceRecord | null }[];
+}
+
+export interface AttendanceInput {
+  date: string;
+  records: { enrollmentId: string; status: AttendanceStatus; remarks?: string }[];
+}
+
+// A QR check-in code for today's meeting; ask for a new one every CHECKIN_ROTATION_SECONDS
+export interface CheckinToken {
+  token: string;
+  scheduleItemId: string;
+  date: string;
+  expiresAt: number;
+}
+
+export interface CheckInResult {
+  record: AttendanceRecord;
+  subjectCode: string;
+  subjectName: string;
+}
+
+// Students past the absence limit come first, then warnings
+export interface ClassAttendanceSummary {
+  meetings: number;
+  policy: AttendancePolicy;
+  rows: (AttendanceSummary & { enrollmentId: string; student: ClassListStudent | null })[];
+}
+
+export interface StudentClassAttendance extends AttendanceSummary {
+  enrollmentId: string;
+  scheduleItemId: string;
+  subjectCode: string;
+  subjectName: string;
+  instructor: string;
+  days: string[];
+  startMinutes: number;
+  endMinutes: number;
+  records: { date: string; status: AttendanceStatus; remarks: string }[]; // newest first
+}
+
+export interface StudentAttendance {
+  term: TermRecord | null;
+  policy: AttendancePolicy;
+  classes: StudentClassAttendance[];
+}
+
+export const adminAttendanceApi = {
+  sheet: (scheduleItemId: string, date: string) =>
+    api.get<AttendanceSheet>(`/api/admin/attendance?scheduleItemId=${scheduleItemId}&date=${date}`),
+  save: (scheduleItemId: string, data: AttendanceInput) =>
+    api.put<AttendanceSheet>("/api/admin/attendance", { scheduleItemId, ...data }),
+  summary: (scheduleItemId: string) =>
+    api.get<ClassAttendanceSummary>(`/api/admin/attendance/summary?scheduleItemId=${scheduleItemId}`),
+  getPolicy: () => api.get<AttendancePolicy>("/api/admin/attendance-policy"),
+  updatePolicy: (data: AttendancePolicy) => api.put<AttendancePolicy>("/api/admin/attendance-policy", data),
+  checkinToken: (scheduleItemId: string) =>
+    api.post<CheckinToken>("/api/admin/attendance/checkin-token", { scheduleItemId }),
 };
 
 // ─── Admin — Announcements ────────────────────────────────────────────────────
@@ -202,6 +721,35 @@ export const studentAnnouncementsApi = {
   list: () => api.get<AnnouncementRecord[]>("/api/student/announcements"),
 };
 
+// ─── Academic Calendar ───────────────────────────────────────────────────────
+
+export interface CalendarEventRecord {
+  id: string;
+  title: string;
+  type: CalendarEventType;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+  description: string;
+}
+
+// Public list of events overlapping `from`..`to`, by start date
+export const calendarApi = {
+  list: (from?: string, to?: string) => {
+    const params = new URLSearchParams();
+    if (from) params.set("from", from);
+    if (to) params.set("to", to);
+    const query = params.toString();
+    return api.get<CalendarEventRecord[]>(query ? `/api/calendar?${query}` : "/api/calendar");
+  },
+};
+
+export const adminCalendarApi = {
+  create: (data: Partial<CalendarEventRecord>) => api.post<CalendarEventRecord>("/api/admin/calendar", data),
+  update: (id: string, data: Partial<CalendarEventRecord>) =>
+    api.put<CalendarEventRecord>(`/api/admin/calendar/${id}`, data),
+  delete: (id: string) => api.delete<{ message: string }>(`/api/admin/calendar/${id}`),
+};
+
 // ─── Admin — Stats ────────────────────────────────────────────────────────────
 
 export interface AdminStats {
@@ -209,6 +757,7 @@ export interface AdminStats {
   totalAnnouncements: number;
   totalSchedules: number;
   totalGrades: number;
+  pendingGrades: number;
   courses: number;
 }
 
@@ -216,23 +765,90 @@ export const adminStatsApi = {
   get: () => api.get<AdminStats>("/api/admin/stats"),
 };
 
+// ─── Admin — Faculty ──────────────────────────────────────────────────────────
+
+export interface FacultyRecord {
+  id: string;
+  username: string;
+  firstName: string;
+  lastName: string;
+  role: "faculty";
+}
+
+export const adminFacultyApi = {
+  list: () => api.get<FacultyRecord[]>("/api/admin/faculty"),
+  create: (data: Partial<FacultyRecord> & { password: string }) => api.post<FacultyRecord>("/api/admin/faculty", data),
+  update: (id: string, data: Partial<FacultyRecord> & { password?: string }) =>
+    api.put<FacultyRecord>(`/api/admin/faculty/${id}`, data),
+  delete: (id: string) => api.delete<{ message: string }>(`/api/admin/faculty/${id}`),
+};
+
+// ─── Admin — Admin Accounts ───────────────────────────────────────────────────
+
+export interface AdminAccountRecord {
+  id: string;
+  username: string;
+  firstName: string;
+  lastName: string;
+  role: "admin";
+  adminRole: AdminRole;
+  status: StaffStatus;
+  mustChangePassword: boolean;
+}
+
+export type AdminAccountInput = Pick<AdminAccountRecord, "username" | "firstName" | "lastName" | "adminRole">;
+
+export const adminUsersApi = {
+  list: () => api.get<AdminAccountRecord[]>("/api/admin/users"),
+  // The new account signs in with the returned temporary password
+  create: (data: AdminAccountInput) =>
+    api.post<{ user: AdminAccountRecord; temporaryPassword: string }>("/api/admin/users", data),
+  update: (id: string, data: Partial<Pick<AdminAccountRecord, "firstName" | "lastName" | "adminRole" | "status">>) =>
+    api.put<AdminAccountRecord>(`/api/admin/users/${id}`, data),
+  temporaryPassword: (id: string) =>
+    api.post<{ temporaryPassword: string }>(`/api/admin/users/${id}/temporary-password`, {}),
+  delete: (id: string) => api.delete<{ message: string }>(`/api/admin/users/${id}`),
+};
+
 // ─── Admin — Account ──────────────────────────────────────────────────────────
 
 export const adminAccountApi = {
+  // The signed-in admin as stored now (role changes apply without signing out)
+  get: () => api.get<AdminAccountRecord>("/api/admin/account"),
   update: (data: { currentPassword: string; newUsername?: string; newPassword?: string }) =>
-    api.put<{ message: string; user: Record<string, unknown> }>("/api/admin/account", data),
+    api.put<{ message: string; user: AdminAccountRecord }>("/api/admin/account", data),
 };
 
 // ─── Student — Grades ─────────────────────────────────────────────────────────
 
+// An enrolled subject with no released grade yet
+export interface InProgressSubject {
+  enrollmentId: string;
+  subjectId: string;
+  subjectCode: string;
+  subjectName: string;
+  units: number;
+  termId: string | null;
+  semester: string;
+}
+
 export const studentGradesApi = {
   list: () => api.get<GradeRecord[]>("/api/student/grades"),
+  inProgress: () => api.get<InProgressSubject[]>("/api/student/in-progress"),
+  downloadTranscript: (fileName: string) => api.download("/api/student/transcript.pdf", fileName, "application/pdf"),
 };
 
 // ─── Student — Schedule ───────────────────────────────────────────────────────
 
 export const studentScheduleApi = {
   list: () => api.get<ScheduleRecord[]>("/api/student/schedule"),
+  // Active-term exams from today on, soonest first
+  exams: () => api.get<ExamRecord[]>("/api/student/exams"),
+  // Changes to the student's classes whose original or new date is in `from`..`to`
+  overrides: (from: string, to: string) =>
+    api.get<ScheduleOverrideRecord[]>(`/api/student/schedule/overrides?from=${from}&to=${to}`),
+  // Weekly .ics events bounded by the active term
+  downloadCalendar: (fileName: string) => api.download("/api/student/schedule.ics", fileName, "text/calendar"),
 };
 
 // ─── Student — Stats ──────────────────────────────────────────────────────────
@@ -247,6 +863,16 @@ export interface StudentStats {
 
 export const studentStatsApi = {
   get: () => api.get<StudentStats>("/api/student/stats"),
+  standing: () => api.get<StudentStanding>("/api/student/standing"),
+  degreeProgress: () => api.get<DegreeProgressReport>("/api/student/degree-progress"),
+};
+
+// ─── Student — Attendance ─────────────────────────────────────────────────────
+
+export const studentAttendanceApi = {
+  get: (termId?: string) =>
+    api.get<StudentAttendance>(termId ? `/api/student/attendance?termId=${termId}` : "/api/student/attendance"),
+  checkIn: (token: string) => api.post<CheckInResult>("/api/student/checkin", { token }),
 };
 
 // ─── Student — Profile ────────────────────────────────────────────────────────
@@ -261,3 +887,50 @@ export const studentAccountApi = {
   update: (data: { currentPassword: string; newStudentId?: string; newPassword?: string }) =>
     api.put<{ message: string; user: StudentRecord }>("/api/student/account", data),
 };
+
+// ─── Faculty ──────────────────────────────────────────────────────────────────
+
+export interface FacultyClassRecord extends ScheduleRecord {
+  sectionName: string | null;
+  enrolledCount: number;
+  gradedCount: number;
+  draftCount: number;
+}
+
+export interface ClassListEntry {
+  enrollment: Omit<EnrollmentRecord, "scheduleItem">;
+  student: Pick<StudentRecord, "id" | "studentId" | "firstName" | "lastName" | "middleName" | "course" | "yearLevel"> | null;
+  grade: GradeRecord | null;
+}
+
+export const facultyClassesApi = {
+  list: (termId?: string) =>
+    api.get<FacultyClassRecord[]>(termId ? `/api/faculty/classes?termId=${termId}` : "/api/faculty/classes"),
+  students: (id: string) => api.get<ClassListEntry[]>(`/api/faculty/classes/${id}/students`),
+  overrides: (id: string) => api.get<ScheduleOverrideRecord[]>(`/api/faculty/classes/${id}/overrides`),
+};
+
+export const facultyAttendanceApi = {
+  sheet: (classId: string, date: string) =>
+    api.get<AttendanceSheet>(`/api/faculty/classes/${classId}/attendance?date=${date}`),
+  save: (classId: string, data: AttendanceInput) =>
+    api.put<AttendanceSheet>(`/api/faculty/classes/${classId}/attendance`, data),
+  summary: (classId: string) => api.get<ClassAttendanceSummary>(`/api/faculty/classes/${classId}/attendance/summary`),
+  checkinToken: (classId: string) => api.post<CheckinToken>(`/api/faculty/classes/${classId}/checkin-token`, {}),
+};
+
+export const facultyGradesApi = {
+  create: (data: { enrollmentId: string; grade: string }) => api.post<GradeRecord>("/api/faculty/grades", data),
+  update: (id: string, grade: string) => api.put<GradeRecord>(`/api/faculty/grades/${id}`, { grade }),
+  // Sends every draft grade in the class to the registrar
+  submitClass: (classId: string) => api.post<GradeRecord[]>(`/api/faculty/classes/${classId}/submit`, {}),
+};
+
+export const facultyProfileApi = {
+  get: () => api.get<FacultyRecord>("/api/faculty/profile"),
+};
+
+export const facultyAccountApi = {
+  changePassword: (data: { currentPassword: string; newPassword: string }) =>
+    api.post<{ message: string }>("/api/faculty/change-password", data),
+};
@@ -1,6 +1,7 @@
 import { createContext, useContext, useState, useMemo, useCallback, ReactNode, useEffect } from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { loginApi, logoutApi } from "@/lib/api";
+import { hasPermission, type AdminPermission, type AdminRole } from "@shared/permissions";
 
 export interface Student {
   id: string;
@@ -26,21 +27,38 @@ export interface AdminUser {
   firstName: string;
   lastName: string;
   role: "admin";
+  adminRole: AdminRole;
+  // Set when an administrator issued a temporary password
+  mustChangePassword?: boolean;
 }
 
-type AuthUser = Student | AdminUser;
+export interface FacultyUser {
+  id: string;
+  username: string;
+  firstName: string;
+  lastName: string;
+  role: "faculty";
+}
+
+type AuthUser = Student | AdminUser | FacultyUser;
+export type UserRole = AuthUser["role"];
 
 interface AuthContextValue {
   user: AuthUser | null;
   student: Student | null;
   admin: AdminUser | null;
-  role: "student" | "admin" | null;
+  faculty: FacultyUser | null;
+  role: UserRole | null;
+  // Whether the signed-in admin's role grants `permission`; false for everyone
+  // else, and for an admin who still has to replace a temporary password
+  can: (permission: AdminPermission) => boolean;
   isLoading: boolean;
   isAuthenticated: boolean;
-  login: (username: string, password: string) => Promise<{ success: boolean; error?: string; role?: "student" | "admin" }>;
+  login: (username: string, password: string) => Promise<{ success: boolean; error?: string; role?: UserRole }>;
   logout: () => Promise<void>;
   setStudent: (s: Student) => void;
   setAdmin: (a: AdminUser) => void;
+  setFaculty: (f: FacultyUser) => void;
 }
 
 const AuthContext = createContext<AuthContextValue | null>(null);
@@ -92,6 +110,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const role = user?.role ?? null;
 
+  const can = useCallback(
+    (permission: AdminPermission) =>
+      user?.role === "admin" && !user.mustChangePassword && hasPermission(user.adminRole, permission),
+    [user],
+  );
+
   const setStudent = useCallback((s: Student) => {
     setUser(s);
     AsyncStorage.setItem(USER_KEY, JSON.stringify(s)).catch(() => { });
@@ -102,18 +126,26 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     AsyncStorage.setItem(USER_KEY, JSON.stringify(a)).catch(() => { });
   }, []);
 
+  const setFaculty = useCallback((f: FacultyUser) => {
+    setUser(f);
+    AsyncStorage.setItem(USER_KEY, JSON.stringify(f)).catch(() => { });
+  }, []);
+
   const value = useMemo(() => ({
     user,
     student: role === "student" ? (user as Student) : null,
     admin: role === "admin" ? (user as AdminUser) : null,
+    faculty: role === "faculty" ? (user as FacultyUser) : null,
     role,
+    can,
     isLoading,
     isAuthenticated: !!user,
     login,
     logout,
     setStudent,
     setAdmin,
-  }), [user, role, isLoading, login, logout, setStudent, setAdmin]);
+    setFaculty,
+  }), [user, role, can, isLoading, login, logout, setStudent, setAdmin, setFaculty]);
 
   return (
     <AuthContext.Provider value={value}>
@@ -0,0 +1,146 @@
+import type { ScheduleItem, ScheduleOverride, Term } from "../shared/schema";
+import { weekDayOf, type WeekDay } from "../shared/schedule";
+
+// ─── iCalendar Export ─────────────────────────────────────────────────────────
+//
+// Renders class meetings as an RFC 5545 calendar: one weekly recurring event
+// per meeting, from the first class day on or after the term start until the
+// term end. Times are "floating" (no time zone), so calendar apps show them
+// at the same clock time the school posts. Days the school cancels classes
+// (holidays, suspensions) are left out of each series with EXDATE, as are
+// meetings an override cancels or moves; moved and make-up meetings are
+// single events of their own.
+
+const BYDAY: Record<WeekDay, string> = {
+  Monday: "MO", Tuesday: "TU", Wednesday: "WE", Thursday: "TH",
+  Friday: "FR", Saturday: "SA", Sunday: "SU",
+};
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// "2026-08-03" → local-midnight Date (term dates carry no time zone)
+function parseDate(value: string): Date {
+  const [y, m, d] = value.split("-").map(Number);
+  return new Date(y, m - 1, d);
+}
+
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
+
+function formatDateTime(date: Date, minutes: number): string {
+  return `${formatDate(date)}T${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}00`;
+}
+
+function formatUtcStamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Content lines are limited to 75 octets; continuation lines start with a space
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let rest = line;
+  let limit = 75;
+  while (Buffer.byteLength(rest) > limit) {
+    let cut = Math.min(rest.length, limit);
+    while (Buffer.byteLength(rest.slice(0, cut)) > limit) cut--;
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+    limit = 74; // the leading space counts toward the continuation line
+  }
+  parts.push(rest);
+  return parts.join("\r\n ");
+}
+
+// The first date on or after `from` that falls on one of `days`
+function firstMeetingDate(from: Date, days: string[]): Date | null {
+  for (let offset = 0; offset < 7; offset++) {
+    const date = new Date(from.getFullYear(), from.getMonth(), from.getDate() + offset);
+    if (days.includes(weekDayOf(date))) return date;
+  }
+  return null;
+}
+
+function eventDetails(item: ScheduleItem, room: string): string[] {
+  const lines = [`SUMMARY:${escapeText(`${item.subjectCode} ${item.subjectName}`.trim())}`];
+  if (room) lines.push(`LOCATION:${escapeText(room)}`);
+  if (item.instructor) lines.push(`DESCRIPTION:${escapeText(`Instructor: ${item.instructor}`)}`);
+  return lines;
+}
+
+function meetingEvent(item: ScheduleItem, term: Term, stamp: string, skippedDates: string[]): string[] {
+  const termEnd = parseDate(term.endDate);
+  const first = firstMeetingDate(parseDate(term.startDate), item.days);
+  if (!first || first > termEnd) return [];
+
+  const byDay = item.days.map((d) => BYDAY[d as WeekDay]).filter(Boolean).join(",");
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${item.id}@zdspgc-portal`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatDateTime(first, item.startMinutes)}`,
+    `DTEND:${formatDateTime(first, item.endMinutes)}`,
+    `RRULE:FREQ=WEEKLY;BYDAY=${byDay};UNTIL=${formatDate(termEnd)}T235959`,
+    ...[...new Set(skippedDates)]
+      .sort()
+      .map(parseDate)
+      .filter((date) => date >= first && date <= termEnd && item.days.includes(weekDayOf(date)))
+      .map((date) => `EXDATE:${formatDateTime(date, item.startMinutes)}`),
+    ...eventDetails(item, item.room),
+  ];
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+// A rescheduled or make-up meeting as a single event
+function overrideEvent(item: ScheduleItem, override: ScheduleOverride, stamp: string): string[] {
+  const date = parseDate(override.newDate ?? override.date);
+  return [
+    "BEGIN:VEVENT",
+    `UID:${override.id}@zdspgc-portal`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatDateTime(date, override.startMinutes ?? item.startMinutes)}`,
+    `DTEND:${formatDateTime(date, override.endMinutes ?? item.endMinutes)}`,
+    ...eventDetails(item, override.room ?? item.room),
+    "END:VEVENT",
+  ];
+}
+
+/**
+ * Renders `items` as a calendar named `name`, bounded by `term`, skipping
+ * meetings on `cancelledDates` (YYYY-MM-DD) and applying `overrides`.
+ */
+export function buildScheduleCalendar(
+  name: string,
+  items: ScheduleItem[],
+  term: Term,
+  cancelledDates: string[] = [],
+  overrides: ScheduleOverride[] = [],
+): string {
+  const stamp = formatUtcStamp(new Date());
+  const itemEvents = (item: ScheduleItem) => {
+    const own = overrides.filter((o) => o.scheduleItemId === item.id);
+    const changedDates = own.filter((o) => o.type !== "makeup").map((o) => o.date);
+    return [
+      ...meetingEvent(item, term, stamp, [...cancelledDates, ...changedDates]),
+      ...own
+        .filter((o) => o.type !== "cancelled" && !cancelledDates.includes(o.newDate ?? o.date))
+        .flatMap((o) => overrideEvent(item, o, stamp)),
+    ];
+  };
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//ZDSPGC Portal//Class Schedule//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...items.filter((item) => item.days.length > 0).flatMap(itemEvents),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,375 @@
+import { randomUUID } from "crypto";
+import { and, eq, isNull, isNotNull, sql } from "drizzle-orm";
+import { db } from "./db";
+import {
+  subjects, grades, scheduleItems, enrollments, terms, students, users, type Subject, type Term, type InsertTerm,
+} from "../shared/schema";
+import { normalizeSubjectCode } from "../shared/subjects";
+import { formatTimeOfDay, normalizeDays, parseTimeOfDay, splitDays } from "../shared/schedule";
+import { SCHOOL_TIME_ZONE, schoolToday } from "../shared/attendance";
+
+// ─── Data Migrations ──────────────────────────────────────────────────────────
+//
+// Schema changes are applied with `npm run db:push`; the steps below then
+// move existing rows onto the new structures. Every step is idempotent and
+// runs on each server start, so it is safe to deploy before or after the data
+// it migrates exists.
+
+// Key of the Postgres advisory lock that lets one instance migrate at a time
+const MIGRATION_LOCK_KEY = 724_301;
+
+// Serverless cold starts can run this from several instances at once. They
+// take turns under an advisory lock (held on one pooled connection), and
+// whoever goes second finds nothing left to do.
+export async function runDataMigrations(): Promise<void> {
+  const client = await db.$client.connect();
+  try {
+    await client.query("SELECT pg_advisory_lock($1)", [MIGRATION_LOCK_KEY]);
+    try {
+      await runBackfills();
+    } finally {
+      await client.query("SELECT pg_advisory_unlock($1)", [MIGRATION_LOCK_KEY]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+async function runBackfills(): Promise<void> {
+  await backfillSubjects();
+  await backfillEnrollments();
+  await backfillTerms();
+  await backfillScheduleTimes();
+  await backfillScheduleSections();
+  await backfillScheduleInstructors();
+  await backfillSectionEnrollments();
+}
+
+// Grades and schedule rows used to carry the subject as free text. Group them
+// by subject code, create one catalog entry per code and point the rows at it.
+async function backfillSubjects(): Promise<void> {
+  const legacyGrades = await db.select().from(grades).where(isNull(grades.subjectId));
+  const legacySchedule = await db.select().from(scheduleItems).where(isNull(scheduleItems.subjectId));
+  if (legacyGrades.length === 0 && legacySchedule.length === 0) return;
+
+  const catalog = new Map<string, Subject>();
+  for (const subject of await db.select().from(subjects)) {
+    catalog.set(subject.code, subject);
+  }
+
+  const resolve = async (rawCode: string, title: string, units?: number): Promise<Subject> => {
+    const code = normalizeSubjectCode(rawCode);
+    const existing = catalog.get(code);
+    if (existing) return existing;
+    // An instance deployed without the lock may have added the code meanwhile
+    const [created] = await db.insert(subjects).values({
+      id: randomUUID(),
+      code,
+      title: title || code,
+      units: units ?? 3,
+    }).onConflictDoNothing({ target: subjects.code }).returning();
+    const subject = created ?? (await db.select().from(subjects).where(eq(subjects.code, code)))[0];
+    catalog.set(code, subject);
+    return subject;
+  };
+
+  for (const row of legacyGrades) {
+    const subject = await resolve(row.subjectCode, row.subjectName, row.units);
+    await db.update(grades)
+      .set({ subjectId: subject.id, subjectCode: subject.code, subjectName: subject.title })
+      .where(eq(grades.id, row.id));
+  }
+
+  for (const row of legacySchedule) {
+    const subject = await resolve(row.subjectCode, row.subjectName);
+    await db.update(scheduleItems)
+      .set({ subjectId: subject.id, subjectCode: subject.code, subjectName: subject.title })
+      .where(eq(scheduleItems.id, row.id));
+  }
+
+  console.log(`[migrations] linked ${legacyGrades.length} grade(s) and ${legacySchedule.length} schedule item(s) to the subject catalog`);
+}
+
+// Students used to be considered "taking" every offering of a subject they had
+// a grade in. Turn each of those implicit links into an explicit enrollment so
+// nobody's schedule changes, and attach the grade to the first one.
+async function backfillEnrollments(): Promise<void> {
+  const legacyGrades = await db.select().from(grades)
+    .where(and(isNull(grades.enrollmentId), isNotNull(grades.subjectId)));
+  if (legacyGrades.length === 0) return;
+
+  const items = await db.select().from(scheduleItems);
+  const existing = await db.select().from(enrollments);
+  // An enrollment holds at most one grade (unique index)
+  const graded = new Set(
+    (await db.select({ enrollmentId: grades.enrollmentId }).from(grades).where(isNotNull(grades.enrollmentId)))
+      .map((g) => g.enrollmentId),
+  );
+  let linked = 0;
+  let unlinked = 0;
+
+  for (const grade of legacyGrades) {
+    const offerings = items.filter((i) => i.subjectId === grade.subjectId);
+    if (offerings.length === 0) continue;
+
+    let firstId: string | undefined;
+    for (const item of offerings) {
+      let enrollment = existing.find((e) => e.studentId === grade.studentId && e.scheduleItemId === item.id);
+      if (!enrollment) {
+        [enrollment] = await db.insert(enrollments).values({
+          id: randomUUID(),
+          studentId: grade.studentId,
+          scheduleItemId: item.id,
+          semester: grade.semester,
+          status: "enrolled",
+          enrolledAt: Date.now(),
+        }).returning();
+        existing.push(enrollment);
+      }
+      if (!graded.has(enrollment.id)) firstId ??= enrollment.id;
+    }
+
+    // A retake whose every offering is already graded stays unlinked
+    if (!firstId) {
+      unlinked++;
+      continue;
+    }
+    await db.update(grades).set({ enrollmentId: firstId }).where(eq(grades.id, grade.id));
+    graded.add(firstId);
+    linked++;
+  }
+
+  if (linked > 0) console.log(`[migrations] created enrollments for ${linked} graded subject(s)`);
+  if (unlinked > 0) console.log(`[migrations] ${unlinked} grade(s) left without an enrollment: each offering of the subject is already graded`);
+}
+
+// Builds a term from a semester label such as "1st Semester 2024-2025" or
+// "Summer 2025", using the usual August / January / June start months.
+function termFromLabel(label: string): InsertTerm | null {
+  const semester = /^(1st|2nd) Semester,? (?:AY )?(\d{4})-(\d{4})$/i.exec(label.trim());
+  if (semester) {
+    const [, which, from, to] = semester;
+    const first = which.toLowerCase() === "1st";
+    return {
+      name: `${first ? "1st" : "2nd"} Semester ${from}-${to}`,
+      schoolYear: `${from}-${to}`,
+      startDate: first ? `${from}-08-01` : `${to}-01-06`,
+      endDate: first ? `${from}-12-15` : `${to}-05-31`,
+    };
+  }
+  const summer = /^Summer,? (?:AY )?(?:\d{4}-)?(\d{4})$/i.exec(label.trim());
+  if (summer) {
+    const year = Number(summer[1]);
+    return {
+      name: `Summer ${year}`,
+      schoolYear: `${year - 1}-${year}`,
+      startDate: `${year}-06-01`,
+      endDate: `${year}-07-31`,
+    };
+  }
+  return null;
+}
+
+// The label of the term a given date falls in.
+function labelForDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = date.getMonth() + 1;
+  if (month >= 8) return `1st Semester ${year}-${year + 1}`;
+  if (month >= 6) return `Summer ${year}`;
+  return `2nd Semester ${year - 1}-${year}`;
+}
+
+// Semesters used to be free-text labels. Create a term for every label in use,
+// make sure exactly one term is active and link grades, enrollments and
+// schedule offerings to their term.
+async function backfillTerms(): Promise<void> {
+  const all = await db.select().from(terms);
+  const byName = new Map(all.map((t) => [t.name, t]));
+  let created = 0;
+
+  const ensure = async (label: string): Promise<Term | undefined> => {
+    const existing = byName.get(label);
+    if (existing) return existing;
+    const values = termFromLabel(label);
+    if (!values) return undefined;
+    const match = byName.get(values.name);
+    if (match) {
+      byName.set(label, match);
+      return match;
+    }
+    const [term] = await db.insert(terms).values({ id: randomUUID(), ...values }).returning();
+    byName.set(label, term);
+    byName.set(term.name, term);
+    all.push(term);
+    created++;
+    return term;
+  };
+
+  const legacyGrades = await db.select().from(grades).where(isNull(grades.termId));
+  const legacyEnrollments = await db.select().from(enrollments).where(isNull(enrollments.termId));
+  for (const label of new Set([...legacyGrades, ...legacyEnrollments].map((r) => r.semester))) {
+    await ensure(label);
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+  if (all.length === 0) await ensure(labelForDate(new Date()));
+
+  if (!all.some((t) => t.isActive) && all.length > 0) {
+    const sorted = [...all].sort((a, b) => a.startDate.localeCompare(b.startDate));
+    const current =
+      sorted.find((t) => t.startDate <= today && today <= t.endDate) ??
+      [...sorted].reverse().find((t) => t.startDate <= today) ??
+      sorted[0];
+    await db.update(terms).set({ isActive: true }).where(eq(terms.id, current.id));
+    current.isActive = true;
+    console.log(`[migrations] marked ${current.name} as the active term`);
+  }
+
+  for (const row of legacyGrades) {
+    const term = byName.get(row.semester);
+    if (term) await db.update(grades).set({ termId: term.id, semester: term.name }).where(eq(grades.id, row.id));
+  }
+  for (const row of legacyEnrollments) {
+    const term = byName.get(row.semester);
+    if (term) await db.update(enrollments).set({ termId: term.id, semester: term.name }).where(eq(enrollments.id, row.id));
+  }
+
+  // An offering belongs to the term its students enrolled in; offerings nobody
+  // has enrolled in yet go to the active term.
+  const legacyItems = await db.select().from(scheduleItems).where(isNull(scheduleItems.termId));
+  if (legacyItems.length > 0) {
+    const linked = await db.select().from(enrollments).where(isNotNull(enrollments.termId));
+    const active = all.find((t) => t.isActive);
+    for (const item of legacyItems) {
+      const termId = linked.find((e) => e.scheduleItemId === item.id)?.termId ?? active?.id;
+      if (termId) await db.update(scheduleItems).set({ termId }).where(eq(scheduleItems.id, item.id));
+    }
+  }
+
+  if (created > 0) console.log(`[migrations] created ${created} term(s) from semester labels`);
+}
+
+// Schedule times used to be free text ("7:30 AM") and days a comma-joined
+// string. Parse them into the structured columns and rewrite the display
+// strings in canonical form. Rows that can't be parsed are reported and left
+// for an admin to fix by hand.
+async function backfillScheduleTimes(): Promise<void> {
+  const legacyItems = await db.select().from(scheduleItems)
+    .where(sql`cardinality(${scheduleItems.days}) = 0`);
+  if (legacyItems.length === 0) return;
+
+  let parsed = 0;
+  for (const item of legacyItems) {
+    const days = normalizeDays(splitDays(item.day));
+    const startMinutes = parseTimeOfDay(item.timeStart);
+    const endMinutes = parseTimeOfDay(item.timeEnd);
+    if (!days || startMinutes === null || endMinutes === null || endMinutes <= startMinutes) {
+      console.warn(`[migrations] could not parse schedule item ${item.id} (${item.day} ${item.timeStart}–${item.timeEnd})`);
+      continue;
+    }
+    await db.update(scheduleItems).set({
+      days,
+      startMinutes,
+      endMinutes,
+      day: days.join(", "),
+      timeStart: formatTimeOfDay(startMinutes),
+      timeEnd: formatTimeOfDay(endMinutes),
+    }).where(eq(scheduleItems.id, item.id));
+    parsed++;
+  }
+
+  if (parsed > 0) console.log(`[migrations] converted ${parsed} schedule item(s) to structured times`);
+}
+
+// Class meetings used to have no section. When every student enrolled in a
+// meeting belongs to the same section, file the meeting under that section;
+// mixed or empty classes are left for an admin to assign.
+async function backfillScheduleSections(): Promise<void> {
+  const legacyItems = await db.select().from(scheduleItems).where(isNull(scheduleItems.sectionId));
+  if (legacyItems.length === 0) return;
+
+  const active = await db.select().from(enrollments).where(eq(enrollments.status, "enrolled"));
+  const sectionByStudent = new Map(
+    (await db.select().from(students)).map((s) => [s.id, s.sectionId])
+  );
+  let linked = 0;
+
+  for (const item of legacyItems) {
+    const sectionIds = new Set(
+      active.filter((e) => e.scheduleItemId === item.id).map((e) => sectionByStudent.get(e.studentId) ?? null)
+    );
+    const [sectionId] = [...sectionIds];
+    if (sectionIds.size !== 1 || !sectionId) continue;
+    await db.update(scheduleItems).set({ sectionId }).where(eq(scheduleItems.id, item.id));
+    linked++;
+  }
+
+  if (linked > 0) console.log(`[migrations] assigned ${linked} schedule item(s) to sections`);
+}
+
+// Instructors used to be free text only. Link each unlinked class whose
+// instructor name matches exactly one faculty account (ignoring case and
+// spacing); anything else stays a plain name until an admin picks the account.
+async function backfillScheduleInstructors(): Promise<void> {
+  const faculty = await db.select().from(users).where(eq(users.role, "faculty"));
+  if (faculty.length === 0) return;
+  const legacyItems = await db.select().from(scheduleItems)
+    .where(and(isNull(scheduleItems.instructorId), sql`trim(${scheduleItems.instructor}) <> ''`));
+  if (legacyItems.length === 0) return;
+
+  const key = (name: string) => name.trim().replace(/\s+/g, " ").toLowerCase();
+  const byName = new Map<string, string[]>();
+  for (const f of faculty) {
+    const name = key(`${f.firstName} ${f.lastName}`);
+    byName.set(name, [...(byName.get(name) ?? []), f.id]);
+  }
+  let linked = 0;
+
+  for (const item of legacyItems) {
+    const matches = byName.get(key(item.instructor)) ?? [];
+    if (matches.length !== 1) continue;
+    await db.update(scheduleItems).set({ instructorId: matches[0] }).where(eq(scheduleItems.id, item.id));
+    linked++;
+  }
+
+  if (linked > 0) console.log(`[migrations] linked ${linked} schedule item(s) to faculty accounts`);
+}
+
+// Section members used to see their section's classes without being enrolled
+// in them. Enroll them in the classes of terms that haven't ended, unless they
+// already have an enrollment (even a dropped one) in the class.
+async function backfillSectionEnrollments(): Promise<void> {
+  const today = schoolToday(process.env.SCHOOL_TIME_ZONE || SCHOOL_TIME_ZONE);
+  const openTerms = new Map(
+    (await db.select().from(terms)).filter((t) => t.endDate >= today).map((t) => [t.id, t])
+  );
+  const sectionItems = (await db.select().from(scheduleItems).where(isNotNull(scheduleItems.sectionId)))
+    .filter((i) => i.termId && openTerms.has(i.termId));
+  if (sectionItems.length === 0) return;
+
+  const members = await db.select().from(students).where(isNotNull(students.sectionId));
+  const existing = new Set(
+    (await db.select().from(enrollments)).map((e) => `${e.studentId}:${e.scheduleItemId}`)
+  );
+  let created = 0;
+
+  for (const student of members) {
+    for (const item of sectionItems.filter((i) => i.sectionId === student.sectionId)) {
+      if (existing.has(`${student.id}:${item.id}`)) continue;
+      const term = openTerms.get(item.termId!)!;
+      await db.insert(enrollments).values({
+        id: randomUUID(),
+        studentId: student.id,
+        scheduleItemId: item.id,
+        termId: term.id,
+        semester: term.name,
+        status: "enrolled",
+        enrolledAt: Date.now(),
+      });
+      existing.add(`${student.id}:${item.id}`);
+      created++;
+    }
+  }
+
+  if (created > 0) console.log(`[migrations] enrolled section members in ${created} section class(es)`);
+}
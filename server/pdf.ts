@@ -0,0 +1,145 @@
+// ─── Minimal PDF Writer ───────────────────────────────────────────────────────
+//
+// Just enough of PDF 1.4 to lay out text reports: pages, the built-in
+// Helvetica fonts (no embedding needed) and rules. Coordinates are in points
+// from the top-left corner of the page; text is WinAnsi-encoded, so accented
+// Latin names (Ñ, é) and curly quotes print and anything else becomes "?".
+
+type Rgb = [number, number, number];
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: "left" | "center" | "right";
+  color?: Rgb;
+}
+
+// Advance widths of ASCII 32–126 in 1/1000 em, from the Adobe AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// WinAnsi is Latin-1 plus typographic punctuation in 0x80–0x9F
+const WIN_ANSI_EXTRAS: Record<string, string> = {
+  "\u2013": "\x96", "\u2014": "\x97", "\u2018": "\x91", "\u2019": "\x92",
+  "\u201c": "\x93", "\u201d": "\x94", "\u2022": "\x95", "\u2026": "\x85",
+};
+
+function encodeText(value: string): string {
+  return value.replace(/[^\x20-\x7e\xa0-\xff]/g, (ch) => WIN_ANSI_EXTRAS[ch] ?? "?");
+}
+
+function escapeString(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)");
+}
+
+const num = (n: number) => String(Math.round(n * 100) / 100);
+
+export class PdfDocument {
+  // A4 portrait
+  readonly width = 595.28;
+  readonly height = 841.89;
+  private pages: string[][] = [];
+  private current: string[] = [];
+
+  constructor() {
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.current = [];
+    this.pages.push(this.current);
+  }
+
+  /** Draws on an earlier page, e.g. to add "Page 1 of 3" footers at the end. */
+  goToPage(index: number): void {
+    this.current = this.pages[index];
+  }
+
+  measure(value: string, size: number, bold = false): number {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let total = 0;
+    for (const ch of encodeText(value)) {
+      const code = ch.charCodeAt(0);
+      total += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+    }
+    return (total * size) / 1000;
+  }
+
+  /** Shortens `value` with an ellipsis until it fits in `maxWidth`. */
+  fit(value: string, maxWidth: number, size: number, bold = false): string {
+    if (this.measure(value, size, bold) <= maxWidth) return value;
+    let cut = value.length;
+    while (cut > 0 && this.measure(`${value.slice(0, cut)}...`, size, bold) > maxWidth) cut--;
+    return `${value.slice(0, cut).trimEnd()}...`;
+  }
+
+  /** Draws text with its baseline at `y`; `x` is the left, centre or right edge per `align`. */
+  text(value: string, x: number, y: number, options: TextOptions = {}): void {
+    const { size = 10, bold = false, align = "left", color = [0, 0, 0] } = options;
+    const width = this.measure(value, size, bold);
+    const left = align === "right" ? x - width : align === "center" ? x - width / 2 : x;
+    this.current.push(
+      `BT ${color.map(num).join(" ")} rg /${bold ? "F2" : "F1"} ${num(size)} Tf ` +
+      `${num(left)} ${num(this.height - y)} Td (${escapeString(encodeText(value))}) Tj ET`,
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5, color: Rgb = [0, 0, 0]): void {
+    this.current.push(
+      `${color.map(num).join(" ")} RG ${num(width)} w ` +
+      `${num(x1)} ${num(this.height - y1)} m ${num(x2)} ${num(this.height - y2)} l S`,
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: Rgb): void {
+    this.current.push(`${fill.map(num).join(" ")} rg ${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re f`);
+  }
+
+  toBuffer(): Buffer {
+    // Objects 1–4 are fixed; each page then takes a page object and a content stream
+    const objects: string[] = [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      `<< /Type /Pages /Kids [${this.pages.map((_, i) => `${5 + i * 2} 0 R`).join(" ")}] /Count ${this.pages.length} >>`,
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    ];
+    this.pages.forEach((ops, i) => {
+      const content = ops.join("\n");
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(this.width)} ${num(this.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+      );
+      objects.push(`<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`);
+    });
+
+    let body = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    objects.forEach((obj, i) => {
+      offsets.push(Buffer.byteLength(body, "latin1"));
+      body += `${i + 1} 0 obj\n${obj}\nendobj\n`;
+    });
+    const xrefOffset = Buffer.byteLength(body, "latin1");
+    body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    body += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+    body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+    return Buffer.from(body, "latin1");
+  }
+}
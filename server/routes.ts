@@ -1,12 +1,48 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "node:http";
-import { randomUUID } from "crypto";
+import { randomBytes, randomUUID } from "crypto";
 import bcrypt from "bcryptjs";
-import { storage } from "./storage";
-import { type User } from "../shared/schema";
+import { storage, type CurriculumEntryInput } from "./storage";
+import { runDataMigrations } from "./migrations";
+import { buildScheduleCalendar } from "./ical";
+import { renderTranscript } from "./transcript";
+import {
+  CURRICULUM_SEMESTERS, ENROLLMENT_STATUSES, GRADE_STATUSES, STAFF_STATUSES, type User, type InsertScheduleItem, type ScheduleItem, type Term, type Student,
+  type Grade, type InsertGrade, type GradeStatus, type Enrollment, type InsertEnrollment, type Subject, type InsertSubject,
+  type AttendanceRecord, type InsertAttendanceRecord, type CheckinToken, type Exam, type InsertExam,
+  type CalendarEvent, type InsertCalendarEvent, type ScheduleOverride, type InsertScheduleOverride,
+} from "../shared/schema";
+import { findUnmetRequirements, normalizeSubjectCode, type UnmetRequirement } from "../shared/subjects";
+import { sortSemesterLabels } from "../shared/terms";
+import { compareCurriculumSlots, computeDegreeProgress } from "../shared/curriculum";
+import {
+  ATTENDANCE_STATUSES, CHECKIN_TOKEN_TTL_SECONDS, DEFAULT_ATTENDANCE_POLICY, isMeetingDate,
+  parseAttendancePolicy, SCHOOL_TIME_ZONE, schoolToday, summarizeAttendance, weekDayOfIsoDate, type AttendancePolicy,
+} from "../shared/attendance";
+import { EXAM_TYPES, compareExams, examsOverlap, type ExamConflictReason } from "../shared/exams";
+import { CALENDAR_EVENT_TYPES, cancelsClasses, classCancellation, datesBetween } from "../shared/calendar";
+import { OVERRIDE_TYPES, effectiveMeetingDates, meetsOn, type OverrideType } from "../shared/overrides";
+import {
+  ADMIN_PERMISSION_LABELS, ADMIN_ROLES, hasPermission, isAdminRole, type AdminPermission,
+} from "../shared/permissions";
+import {
+  ACADEMIC_STANDINGS, DEFAULT_STANDING_POLICY, computeStudentStanding, parseStandingPolicy, type StandingPolicy,
+} from "../shared/standing";
+import {
+  DEFAULT_GRADING_SCALE, computeGwa, gradeRemarks, isPassingGrade, normalizeGrade, parseGradingScale, type GradingScale,
+} from "../shared/grades";
+import {
+  bookingKey, calendarFileName, compareMeetings, conflictReasons, formatTimeOfDay, formatTimeRange, normalizeDays,
+  type ScheduleSlot,
+} from "../shared/schedule";
 
 const SALT_ROUNDS = 10;
 const TOKEN_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const GRADING_SCALE_KEY = "grading_scale";
+const STANDING_POLICY_KEY = "standing_policy";
+const ATTENDANCE_POLICY_KEY = "attendance_policy";
+// Check-in and exam dates follow this timezone, not the server's (UTC when deployed)
+const SCHOOL_TZ = process.env.SCHOOL_TIME_ZONE || SCHOOL_TIME_ZONE;
 
 // ─── Auth Middleware ──────────────────────────────────────────────────────────
 
@@ -36,9 +72,33 @@ async function requireAdminToken(req: Request, res: Response, next: NextFunction
   if (session.role !== "admin") {
     return res.status(403).json({ message: "Forbidden: Admin access required" });
   }
+  // An admin on a temporary password can only reach their account until they
+  // replace it (PUT /api/admin/account)
+  if (req.path !== "/api/admin/account") {
+    const admin = await storage.getAdminById(session.userId);
+    if (admin?.mustChangePassword) {
+      return res.status(403).json({ message: "Change your temporary password to continue", mustChangePassword: true });
+    }
+  }
+  (req as Request & { adminUserId: string }).adminUserId = session.userId;
   next();
 }
 
+// An admin session whose role grants `permission` (shared/permissions.ts).
+// The role is read on every request, so a change applies without signing out.
+function requirePermission(permission: AdminPermission) {
+  return (req: Request, res: Response, next: NextFunction) =>
+    requireAdminToken(req, res, async () => {
+      const admin = await storage.getAdminById((req as Request & { adminUserId: string }).adminUserId);
+      if (!admin || !hasPermission(admin.adminRole, permission)) {
+        return res.status(403).json({
+          message: `Forbidden: your role doesn't allow ${ADMIN_PERMISSION_LABELS[permission].toLowerCase()}`,
+        });
+      }
+      next();
+    });
+}
+
 async function requireStudentToken(req: Request, res: Response, next: NextFunction) {
   const session = await getSession(req);
   if (!session) {
@@ -51,37 +111,967 @@ async function requireStudentToken(req: Request, res: Response, next: NextFuncti
   next();
 }
 
+async function requireFacultyToken(req: Request, res: Response, next: NextFunction) {
+  const session = await getSession(req);
+  if (!session) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  if (session.role !== "faculty") {
+    return res.status(403).json({ message: "Forbidden: Faculty access required" });
+  }
+  (req as Request & { facultyUserId: string }).facultyUserId = session.userId;
+  next();
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+type SubjectLoad = Partial<Pick<InsertSubject, "units" | "lectureHours" | "labHours">>;
+
+// A subject's units and weekly hours from the body: whole numbers, with at
+// least one unit. Fields left out (or blank) take the value in `defaults`.
+// Returns the message for a 400 when one isn't a valid number.
+function subjectLoadFromBody(body: Record<string, any>, defaults: SubjectLoad = {}): SubjectLoad | string {
+  const load: SubjectLoad = { ...defaults };
+  for (const field of ["units", "lectureHours", "labHours"] as const) {
+    const raw = body[field];
+    if (raw === undefined || raw === null || raw === "") continue;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < (field === "units" ? 1 : 0)) {
+      return field === "units" ? "units must be a whole number of at least 1" : `${field} must be a whole number`;
+    }
+    load[field] = value;
+  }
+  return load;
+}
+
+// Returns the de-duplicated prerequisite (or corequisite) ids, or null if any
+// of them is not a known subject (or is the subject itself).
+async function validatePrerequisites(value: unknown, selfId?: string): Promise<string[] | null> {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) return null;
+  const ids = [...new Set(value.map(String))];
+  for (const id of ids) {
+    if (id === selfId || !(await storage.getSubjectById(id))) return null;
+  }
+  return ids;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// The term a record should be filed under: the one requested, or the active
+// term when none was given. Undefined means the requested term does not exist
+// (or there is no active term to fall back on).
+async function resolveTerm(termId: unknown) {
+  if (termId) return storage.getTermById(String(termId));
+  return storage.getActiveTerm();
+}
+
+// What an instructor sees of a student on their class list
+function classListStudent(s: Student) {
+  return {
+    id: s.id, studentId: s.studentId, firstName: s.firstName, lastName: s.lastName,
+    middleName: s.middleName, course: s.course, yearLevel: s.yearLevel,
+  };
+}
+
+// A grade checked against the grading scale, with its remarks. Returns the
+// message for a 400 when the scale doesn't allow it.
+async function gradeValueFromBody(value: unknown): Promise<Pick<InsertGrade, "grade" | "remarks"> | string> {
+  const scale = await getGradingScale();
+  const grade = normalizeGrade(value, scale);
+  if (!grade) return `"${value}" is not a valid grade on the grading scale`;
+  return { grade, remarks: gradeRemarks(grade, scale) };
+}
+
+type RouteError = { status: number; message: string };
+
+// Validates a new grade for `body.enrollmentId` and fills in the subject
+// snapshot and term from the enrolled class. With `instructorId`, the class
+// must be one that faculty member teaches.
+async function gradeFromBody(body: Record<string, any>, instructorId?: string): Promise<InsertGrade | RouteError> {
+  if (!body.enrollmentId || !body.grade) {
+    return { status: 400, message: "enrollmentId and grade are required" };
+  }
+  const enrollment = await storage.getEnrollmentById(body.enrollmentId);
+  if (!enrollment) return { status: 400, message: "Unknown enrollment" };
+  const item = await storage.getScheduleItemById(enrollment.scheduleItemId);
+  if (instructorId && item?.instructorId !== instructorId) {
+    return { status: 403, message: "You can only grade your own classes" };
+  }
+  if (enrollment.status !== "enrolled") {
+    return { status: 400, message: "Student is no longer enrolled in this class" };
+  }
+  const value = await gradeValueFromBody(body.grade);
+  if (typeof value === "string") return { status: 400, message: value };
+  if (await storage.getGradeByEnrollmentId(enrollment.id)) {
+    return { status: 409, message: "A grade has already been recorded for this enrollment" };
+  }
+  const subject = item?.subjectId ? await storage.getSubjectById(item.subjectId) : undefined;
+  if (!item || !subject) {
+    return { status: 400, message: "The enrolled class is not linked to a catalog subject" };
+  }
+  return {
+    ...gradeSnapshot(enrollment, item, subject),
+    instructor: (!instructorId && body.instructor) || item.instructor,
+    ...value,
+  };
+}
+
+// A new draft grade's copy of the class, subject and term it was earned in
+function gradeSnapshot(enrollment: Enrollment, item: ScheduleItem, subject: Subject) {
+  return {
+    studentId: enrollment.studentId,
+    enrollmentId: enrollment.id,
+    subjectId: subject.id,
+    subjectCode: subject.code,
+    subjectName: subject.title,
+    instructor: item.instructor,
+    units: subject.units,
+    termId: enrollment.termId,
+    semester: enrollment.semester,
+    status: "draft",
+  } satisfies Omit<InsertGrade, "grade">;
+}
+
+// The class record for a subject in a section: that section's meetings of the
+// subject in the term, and the students enrolled in any of them
+async function classRecord(sectionId: string, subject: Subject, term: Term) {
+  const items = (await storage.getScheduleItems({ sectionId, termId: term.id }))
+    .filter((i) => i.subjectId === subject.id);
+  const rows = (await Promise.all(items.map((i) => storage.getEnrollments({ scheduleItemId: i.id })))).flat();
+  return { items, enrollments: rows.filter((e) => e.status === "enrolled") };
+}
+
+// The prerequisites and corequisites of `subject` that the student hasn't met:
+// prerequisites need a released passing grade, corequisites can also be taken
+// alongside it in `termId`.
+async function unmetRequirements(studentId: string, subject: Subject, termId: string | null): Promise<UnmetRequirement[]> {
+  if (subject.prerequisites.length === 0 && subject.corequisites.length === 0) return [];
+  const [released, enrolled, items, catalog, scale] = await Promise.all([
+    storage.getGrades({ studentId, status: "released" }),
+    storage.getEnrollments({ studentId }),
+    storage.getAllScheduleItems(),
+    storage.getAllSubjects(),
+    getGradingScale(),
+  ]);
+  const passed = new Set(released.filter((g) => g.subjectId && isPassingGrade(g.grade, scale)).map((g) => g.subjectId!));
+  const subjectOfItem = new Map(items.map((i) => [i.id, i.subjectId]));
+  const concurrent = new Set(enrolled
+    .filter((e) => e.status === "enrolled" && e.termId === termId)
+    .map((e) => subjectOfItem.get(e.scheduleItemId))
+    .filter((id): id is string => !!id));
+  return findUnmetRequirements(subject, passed, concurrent, new Map(catalog.map((c) => [c.id, c])));
+}
+
+// "IT 101 (prerequisite), IT 102 (corequisite)"
+function describeUnmet(unmet: UnmetRequirement[]): string {
+  return unmet.map((u) => `${u.code} (${u.type})`).join(", ");
+}
+
+// 409 body listing what's missing; resending with `override: true` goes ahead
+// and records the override on the enrollment.
+function unmetResponse(unmet: UnmetRequirement[]) {
+  return { message: `Unmet requirements: ${describeUnmet(unmet)}`, unmet };
+}
+
+// The enrollment fields that record an admin waiving `unmet`
+function overrideFields(unmet: UnmetRequirement[], userId: string, reason: unknown) {
+  return {
+    overrideBy: userId,
+    overrideAt: Date.now(),
+    overrideReason: typeof reason === "string" ? reason.trim() : "",
+    overriddenRequirements: unmet.map((u) => u.code),
+  } satisfies Partial<InsertEnrollment>;
+}
+
+// Changing the value of a released grade needs a reason on record. Returns
+// the message for a 400 when it's missing.
+function missingReason(existing: Grade, grade: string, reason: unknown): string | null {
+  if (existing.status !== "released" || existing.grade === grade) return null;
+  return typeof reason === "string" && reason.trim() ? null : "A reason is required to change a released grade";
+}
+
+// Where a grade may go next from each status. Released grades are final.
+const GRADE_TRANSITIONS: Record<GradeStatus, GradeStatus[]> = {
+  draft: ["submitted"],
+  submitted: ["approved", "draft"],
+  approved: ["released", "draft"],
+  released: [],
+};
+
+// The statuses a grade may move to `status` from
+function transitionSources(status: GradeStatus): GradeStatus[] {
+  return GRADE_STATUSES.filter((from) => GRADE_TRANSITIONS[from].includes(status));
+}
+
+// 409 for a status change that lost a race: a grade moved after it was checked
+const GRADES_CHANGED: RouteError = {
+  status: 409,
+  message: "Some of these grades were changed by someone else in the meantime; reload and try again",
+};
+
+// Validates `{ ids, status }` for a bulk status change. Returns the grades to
+// move, or a RouteError naming the first grade that can't make the move.
+// storage.setGradeStatus checks the statuses again inside its transaction.
+async function gradesForTransition(body: Record<string, any>): Promise<{ ids: string[]; status: GradeStatus } | RouteError> {
+  const { ids, status } = body;
+  if (!Array.isArray(ids) || ids.length === 0 || !GRADE_STATUSES.includes(status)) {
+    return { status: 400, message: `ids and a status of ${GRADE_STATUSES.join(", ")} are required` };
+  }
+  const unique = [...new Set(ids.map(String))];
+  for (const id of unique) {
+    const grade = await storage.getGradeById(id);
+    if (!grade) return { status: 404, message: `Grade ${id} not found` };
+    if (!GRADE_TRANSITIONS[grade.status as GradeStatus]?.includes(status)) {
+      return { status: 409, message: `${grade.subjectCode} grade is ${grade.status} and cannot be moved to ${status}` };
+    }
+  }
+  return { ids: unique, status };
+}
+
+function facultyName(user: User): string {
+  return `${user.firstName} ${user.lastName}`.trim();
+}
+
+// A password an admin hands over in person, so without look-alike characters;
+// the account can't use any other admin route until it's replaced
+// (requireAdminToken)
+function generateTemporaryPassword(): string {
+  const alphabet = "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789";
+  return Array.from(randomBytes(10), (b) => alphabet[b % alphabet.length]).join("");
+}
+
+// The instructor of a class: a faculty account (whose name becomes the display
+// name) or, with no `instructorId`, a free-text name. Returns the message for
+// a 400 when the account doesn't exist.
+async function instructorFromBody(
+  body: Record<string, any>,
+): Promise<Pick<InsertScheduleItem, "instructorId" | "instructor"> | string> {
+  if (!body.instructorId) return { instructorId: null, instructor: body.instructor || "" };
+  const faculty = await storage.getFacultyById(String(body.instructorId));
+  if (!faculty) return "Unknown faculty member";
+  return { instructorId: faculty.id, instructor: facultyName(faculty) };
+}
+
+// Validates a new class meeting and fills in the subject snapshot and term.
+// Returns the row to insert, or the message for a 400 response.
+async function scheduleItemFromBody(body: Record<string, any>): Promise<(InsertScheduleItem & ScheduleSlot) | string> {
+  if (!body.subjectId) return "subjectId is required";
+  const subject = await storage.getSubjectById(body.subjectId);
+  if (!subject) return "Unknown subject";
+  const term = await resolveTerm(body.termId);
+  if (!term) return body.termId ? "Unknown term" : "No active term; set one before scheduling classes";
+  if (body.sectionId && !(await storage.getSectionById(body.sectionId))) return "Unknown section";
+  const time = meetingTimeFromBody(body);
+  if (typeof time === "string") return time;
+  const instructor = await instructorFromBody(body);
+  if (typeof instructor === "string") return instructor;
+  return {
+    subjectId: subject.id,
+    termId: term.id,
+    sectionId: body.sectionId || null,
+    subjectCode: subject.code,
+    subjectName: subject.title,
+    ...time,
+    room: body.room || "",
+    instructorId: instructor.instructorId,
+    instructor: instructor.instructor ?? "",
+  };
+}
+
+type MeetingTime = Required<Pick<InsertScheduleItem, "days" | "startMinutes" | "endMinutes" | "day" | "timeStart" | "timeEnd">>;
+
+// Checks a start/end pair of minutes since midnight. Returns the message for a 400, or null.
+function timeRangeError(startMinutes: unknown, endMinutes: unknown): string | null {
+  if (
+    !Number.isInteger(startMinutes) || !Number.isInteger(endMinutes) ||
+    (startMinutes as number) < 0 || (endMinutes as number) > 24 * 60
+  ) {
+    return "startMinutes and endMinutes must be whole minutes since midnight";
+  }
+  if ((endMinutes as number) <= (startMinutes as number)) return "endMinutes must be after startMinutes";
+  return null;
+}
+
+// Validates `days` / `startMinutes` / `endMinutes` and derives the legacy
+// display strings from them. Returns the message for a 400 on bad input.
+function meetingTimeFromBody(body: Record<string, any>): MeetingTime | string {
+  const days = normalizeDays(body.days);
+  if (!days) return "days must be a non-empty list of weekday names";
+  const { startMinutes, endMinutes } = body;
+  const timeError = timeRangeError(startMinutes, endMinutes);
+  if (timeError) return timeError;
+  return {
+    days,
+    startMinutes,
+    endMinutes,
+    day: days.join(", "),
+    timeStart: formatTimeOfDay(startMinutes),
+    timeEnd: formatTimeOfDay(endMinutes),
+  };
+}
+
+// Meetings in the same term that clash with `slot`, skipping the one being edited.
+async function findScheduleConflicts(slot: ScheduleSlot, excludeId?: string) {
+  const others = await storage.getScheduleItems({ termId: slot.termId ?? undefined });
+  return others
+    .filter((item) => item.id !== excludeId)
+    .map((item) => ({ item, reasons: conflictReasons(slot, item) }))
+    .filter((c) => c.reasons.length > 0);
+}
+
+// 409 body listing the clashes; resending with `override: true` saves anyway.
+function conflictResponse(conflicts: Awaited<ReturnType<typeof findScheduleConflicts>>) {
+  const summary = conflicts
+    .map(({ item, reasons }) =>
+      `${item.subjectCode} ${item.days.join(", ")} ${formatTimeRange(item.startMinutes, item.endMinutes)} (${reasons.join(", ")})`
+    )
+    .join("; ");
+  return { message: `Schedule conflict: ${summary}`, conflicts };
+}
+
+// A student's classes in `term`: the offerings they're enrolled in. Section
+// members are enrolled in their section's classes (enrollSectionStudents), so
+// this is the same roster attendance, check-in and grading use.
+async function studentScheduleItems(userId: string, term: Term | undefined): Promise<ScheduleItem[]> {
+  const myEnrollments = await storage.getEnrollments({ studentId: userId });
+  const enrolledItemIds = new Set(
+    myEnrollments.filter((e) => e.status === "enrolled").map((e) => e.scheduleItemId)
+  );
+  const termSchedules = term
+    ? await storage.getScheduleItems({ termId: term.id })
+    : await storage.getAllScheduleItems();
+  return termSchedules.filter((s) => enrolledItemIds.has(s.id)).sort(compareMeetings);
+}
+
+// Who sits a class's exams: the students enrolled in it
+async function classStudentIds(item: ScheduleItem): Promise<Set<string>> {
+  const rows = await storage.getEnrollments({ scheduleItemId: item.id });
+  return new Set(rows.filter((e) => e.status === "enrolled").map((e) => e.studentId));
+}
+
+// The section's classes in terms that haven't ended yet
+async function openSectionItems(sectionId: string, items?: ScheduleItem[]): Promise<{ item: ScheduleItem; term: Term }[]> {
+  const today = schoolToday(SCHOOL_TZ);
+  const [classes, terms] = await Promise.all([
+    items ?? storage.getScheduleItems({ sectionId }),
+    storage.getAllTerms(),
+  ]);
+  const termsById = new Map(terms.map((t) => [t.id, t]));
+  return classes
+    .filter((i) => i.sectionId === sectionId)
+    .map((item) => ({ item, term: item.termId ? termsById.get(item.termId) : undefined }))
+    .filter((c): c is { item: ScheduleItem; term: Term } => !!c.term && c.term.endDate >= today);
+}
+
+// A section's students take every class it offers: joining a section, or a
+// section getting a class, enrolls `studentIds` (default: its students) in
+// `items` (default: its classes) for terms that haven't ended. A student who
+// already has an enrollment in the class (even a dropped one), or takes the
+// subject with another section that term, is left as is.
+async function enrollSectionStudents(
+  sectionId: string,
+  scope: { studentIds?: string[]; items?: ScheduleItem[] } = {},
+): Promise<void> {
+  const classes = await openSectionItems(sectionId, scope.items);
+  if (classes.length === 0) return;
+  const [studentIds, allItems] = await Promise.all([
+    scope.studentIds ??
+      storage.getAllStudents().then((all) => all.filter((s) => s.sectionId === sectionId).map((s) => s.id)),
+    storage.getAllScheduleItems(),
+  ]);
+  const itemsById = new Map(allItems.map((i) => [i.id, i]));
+  for (const studentId of studentIds) {
+    const existing = await storage.getEnrollments({ studentId });
+    for (const { item, term } of classes) {
+      const taken = existing.some((e) => {
+        if (e.scheduleItemId === item.id) return true;
+        const other = itemsById.get(e.scheduleItemId);
+        return e.status === "enrolled" && e.termId === term.id && !!item.subjectId &&
+          other?.subjectId === item.subjectId && other.sectionId !== sectionId;
+      });
+      if (taken) continue;
+      existing.push(await storage.createEnrollment({
+        studentId,
+        scheduleItemId: item.id,
+        termId: term.id,
+        semester: term.name,
+        status: "enrolled",
+        enrolledAt: Date.now(),
+      }));
+    }
+  }
+}
+
+// Leaving a section drops the student from its classes in terms that haven't
+// ended; classes they already have a grade in are kept
+async function dropSectionEnrollments(studentId: string, sectionId: string): Promise<void> {
+  const classIds = new Set((await openSectionItems(sectionId)).map((c) => c.item.id));
+  if (classIds.size === 0) return;
+  const enrolled = (await storage.getEnrollments({ studentId }))
+    .filter((e) => e.status === "enrolled" && classIds.has(e.scheduleItemId));
+  for (const e of enrolled) {
+    if (await storage.getGradeByEnrollmentId(e.id)) continue;
+    await storage.updateEnrollment(e.id, { status: "dropped", statusChangedAt: Date.now() });
+  }
+}
+
+// After a class moves section or term: students of the section it left are
+// dropped (unless graded), the remaining enrollments follow it to its new term,
+// and the students of its new section are enrolled
+async function moveClassEnrollments(existing: ScheduleItem, updated: ScheduleItem): Promise<void> {
+  const sectionChanged = updated.sectionId !== existing.sectionId;
+  const termChanged = updated.termId !== existing.termId;
+  if (!sectionChanged && !termChanged) return;
+  const enrolled = (await storage.getEnrollments({ scheduleItemId: updated.id })).filter((e) => e.status === "enrolled");
+  if (sectionChanged && existing.sectionId) {
+    const leaving = new Set(
+      (await storage.getAllStudents()).filter((s) => s.sectionId === existing.sectionId).map((s) => s.id),
+    );
+    for (const e of enrolled.filter((e) => leaving.has(e.studentId))) {
+      if (await storage.getGradeByEnrollmentId(e.id)) continue;
+      await storage.updateEnrollment(e.id, { status: "dropped", statusChangedAt: Date.now() });
+    }
+  }
+  if (termChanged) {
+    const term = updated.termId ? await storage.getTermById(updated.termId) : undefined;
+    for (const e of await storage.getEnrollments({ scheduleItemId: updated.id })) {
+      await storage.updateEnrollment(e.id, { termId: term?.id ?? null, semester: term?.name ?? e.semester });
+    }
+  }
+  if (updated.sectionId) await enrollSectionStudents(updated.sectionId, { items: [updated] });
+}
+
+// Moves a student's section enrollments from `from` to `to` (either may be null)
+async function changeStudentSection(studentId: string, from: string | null, to: string | null): Promise<void> {
+  if (from === to) return;
+  if (from) await dropSectionEnrollments(studentId, from);
+  if (to) await enrollSectionStudents(to, { studentIds: [studentId] });
+}
+
+// An exam with the subject, section and term of its class offering
+function examView(exam: Exam, item: ScheduleItem | undefined) {
+  return {
+    ...exam,
+    subjectCode: item?.subjectCode ?? "",
+    subjectName: item?.subjectName ?? "",
+    sectionId: item?.sectionId ?? null,
+    termId: item?.termId ?? null,
+  };
+}
+
+// Validates an exam for a class offering, filling in whatever `existing` has
+// for the fields the body leaves out. Returns the row, or the message for a 400.
+async function examFromBody(body: Record<string, any>, existing?: Exam): Promise<InsertExam | string> {
+  const scheduleItemId = body.scheduleItemId ?? existing?.scheduleItemId;
+  if (!scheduleItemId) return "scheduleItemId is required";
+  const item = await storage.getScheduleItemById(String(scheduleItemId));
+  if (!item) return "Unknown class";
+  const type = body.type ?? existing?.type;
+  if (!EXAM_TYPES.includes(type)) return `type must be one of ${EXAM_TYPES.join(", ")}`;
+  const date = body.date ?? existing?.date;
+  if (typeof date !== "string" || !weekDayOfIsoDate(date)) return "date must be a YYYY-MM-DD date";
+  const term = item.termId ? await storage.getTermById(item.termId) : undefined;
+  if (term && (date < term.startDate || date > term.endDate)) {
+    return `${date} is outside ${term.name} (${term.startDate} to ${term.endDate})`;
+  }
+  const startMinutes = body.startMinutes ?? existing?.startMinutes;
+  const endMinutes = body.endMinutes ?? existing?.endMinutes;
+  const timeError = timeRangeError(startMinutes, endMinutes);
+  if (timeError) return timeError;
+  // Either field replaces the proctor; the other falls back to the stored value
+  const proctor = await instructorFromBody({
+    instructorId: body.proctorId === undefined ? existing?.proctorId : body.proctorId,
+    instructor: body.proctor ?? existing?.proctor,
+  });
+  if (typeof proctor === "string") return proctor;
+  return {
+    scheduleItemId: item.id,
+    type,
+    date,
+    startMinutes,
+    endMinutes,
+    room: body.room ?? existing?.room ?? "",
+    proctorId: proctor.instructorId,
+    proctor: proctor.instructor ?? "",
+  };
+}
+
+// Exams at overlapping times on the same date that share a student, room or
+// proctor with `exam`, skipping the one being edited
+async function findExamConflicts(exam: InsertExam, excludeId?: string) {
+  const overlapping = (await storage.getExams()).filter((e) => e.id !== excludeId && examsOverlap(exam, e));
+  if (overlapping.length === 0) return [];
+  const items = new Map((await storage.getAllScheduleItems()).map((i) => [i.id, i]));
+  const rosters = new Map<string, Set<string>>();
+  const roster = async (itemId: string) => {
+    const item = items.get(itemId);
+    if (!rosters.has(itemId)) rosters.set(itemId, item ? await classStudentIds(item) : new Set());
+    return rosters.get(itemId)!;
+  };
+
+  const own = await roster(exam.scheduleItemId);
+  const conflicts = [];
+  for (const other of overlapping) {
+    const reasons: ExamConflictReason[] = [];
+    const shared = [...await roster(other.scheduleItemId)].filter((id) => own.has(id)).length;
+    if (shared > 0) reasons.push("students");
+    const room = bookingKey(exam.room ?? "");
+    if (room && room === bookingKey(other.room)) reasons.push("room");
+    const proctor = bookingKey(exam.proctor ?? "");
+    if (proctor && proctor === bookingKey(other.proctor)) reasons.push("proctor");
+    if (reasons.length > 0) {
+      conflicts.push({ exam: examView(other, items.get(other.scheduleItemId)), reasons, students: shared });
+    }
+  }
+  return conflicts;
+}
+
+// 409 body listing the clashing exams; resending with `override: true` saves anyway.
+function examConflictResponse(conflicts: Awaited<ReturnType<typeof findExamConflicts>>) {
+  const summary = conflicts
+    .map(({ exam, reasons, students }) =>
+      `${exam.subjectCode} ${exam.date} ${formatTimeRange(exam.startMinutes, exam.endMinutes)} (${
+        reasons.map((r) => (r === "students" ? `${students} student${students !== 1 ? "s" : ""}` : r)).join(", ")
+      })`
+    )
+    .join("; ");
+  return { message: `Exam conflict: ${summary}`, conflicts };
+}
+
+async function sendCalendar(res: Response, name: string, items: ScheduleItem[], term: Term) {
+  const [cancelled, overrides] = await Promise.all([
+    cancelledDates(term.startDate, term.endDate),
+    storage.getScheduleOverrides({ scheduleItemIds: items.map((i) => i.id) }),
+  ]);
+  res
+    .type("text/calendar; charset=utf-8")
+    .attachment(calendarFileName(name))
+    .send(buildScheduleCalendar(name, items, term, cancelled, overrides));
+}
+
+// The days from `from` to `to` (YYYY-MM-DD) on which a holiday or suspension
+// on the academic calendar cancels classes
+async function cancelledDates(from: string, to: string): Promise<string[]> {
+  const dates = new Set<string>();
+  for (const event of (await storage.getCalendarEvents({ from, to })).filter(cancelsClasses)) {
+    const start = event.startDate > from ? event.startDate : from;
+    const end = event.endDate < to ? event.endDate : to;
+    for (const date of datesBetween(start, end)) dates.add(date);
+  }
+  return [...dates].sort();
+}
+
+// Validates an academic calendar event; `existing` fills in what a PUT leaves
+// out, and a new event without an endDate is a single day. Returns the values
+// to save, or the message for a 400.
+function calendarEventFromBody(body: Record<string, any>, existing?: CalendarEvent): InsertCalendarEvent | string {
+  const title = String(body.title ?? existing?.title ?? "").trim();
+  if (!title) return "title is required";
+  const type = body.type ?? existing?.type;
+  if (!CALENDAR_EVENT_TYPES.includes(type)) return `type must be one of ${CALENDAR_EVENT_TYPES.join(", ")}`;
+  const startDate = body.startDate ?? existing?.startDate;
+  const endDate = body.endDate ?? existing?.endDate ?? startDate;
+  if (
+    typeof startDate !== "string" || !weekDayOfIsoDate(startDate) ||
+    typeof endDate !== "string" || !weekDayOfIsoDate(endDate) || endDate < startDate
+  ) {
+    return "startDate and endDate must be YYYY-MM-DD with endDate on or after startDate";
+  }
+  const description = String(body.description ?? existing?.description ?? "").trim();
+  return { title, type, startDate, endDate, description };
+}
+
+// The saved grading scale, or the standard 1.00–5.00 one until an admin edits it
+async function getGradingScale(): Promise<GradingScale> {
+  return (await storage.getSetting<GradingScale>(GRADING_SCALE_KEY)) ?? DEFAULT_GRADING_SCALE;
+}
+
+// Validates a curriculum's `subjects: [{ subjectId, yearLevel, semester }]`.
+// Returns the entries, or the message for a 400.
+async function curriculumEntriesFromBody(value: unknown): Promise<CurriculumEntryInput[] | string> {
+  if (!Array.isArray(value)) return "subjects must be a list of { subjectId, yearLevel, semester }";
+  const entries: CurriculumEntryInput[] = [];
+  for (const raw of value) {
+    const subjectId = String(raw?.subjectId ?? "");
+    const yearLevel = typeof raw?.yearLevel === "string" ? raw.yearLevel.trim() : "";
+    const semester = raw?.semester;
+    const subject = subjectId ? await storage.getSubjectById(subjectId) : undefined;
+    if (!subject) return "subjects must reference existing subject ids";
+    if (!yearLevel) return `${subject.code} needs a yearLevel`;
+    if (!CURRICULUM_SEMESTERS.includes(semester)) {
+      return `${subject.code} needs a semester (${CURRICULUM_SEMESTERS.join(", ")})`;
+    }
+    if (entries.some((e) => e.subjectId === subjectId)) return `${subject.code} is listed twice`;
+    entries.push({ subjectId, yearLevel, semester });
+  }
+  return entries;
+}
+
+// A curriculum's subjects with their catalog details, in year/semester order
+async function curriculumEntries(curriculumId: string) {
+  const [rows, catalog] = await Promise.all([
+    storage.getCurriculumSubjects(curriculumId),
+    storage.getAllSubjects(),
+  ]);
+  const subjectsById = new Map(catalog.map((c) => [c.id, c]));
+  return rows
+    .flatMap((row) => {
+      const subject = subjectsById.get(row.subjectId);
+      if (!subject) return [];
+      return [{
+        subjectId: subject.id, code: subject.code, title: subject.title, units: subject.units,
+        yearLevel: row.yearLevel, semester: row.semester,
+      }];
+    })
+    .sort((a, b) => compareCurriculumSlots(a, b) || a.code.localeCompare(b.code));
+}
+
+// The curriculum a student follows: the version assigned to them, or else the
+// current version of the program their course names
+async function studentCurriculum(student: Student) {
+  if (student.curriculumId) {
+    const assigned = await storage.getCurriculumById(student.curriculumId);
+    if (assigned) return assigned;
+  }
+  const program = await storage.getProgramByName(student.course);
+  if (!program) return undefined;
+  return (await storage.getCurricula(program.id)).find((c) => c.isCurrent);
+}
+
+// The student's curriculum checklist: each subject passed, in progress,
+// failed or remaining, with the units left to graduate
+async function degreeProgress(student: Student) {
+  const curriculum = await studentCurriculum(student);
+  const program = curriculum ? await storage.getProgramById(curriculum.programId) : undefined;
+  const [entries, released, myEnrollments, items, allTerms, scale] = await Promise.all([
+    curriculum ? curriculumEntries(curriculum.id) : [],
+    storage.getGrades({ studentId: student.id, status: "released" }),
+    storage.getEnrollments({ studentId: student.id }),
+    storage.getAllScheduleItems(),
+    storage.getAllTerms(),
+    getGradingScale(),
+  ]);
+  // Oldest first, so that a retake's grade is the latest one
+  const semesters = sortSemesterLabels([...new Set(released.map((g) => g.semester))], allTerms);
+  const chronological = [...released].sort((a, b) => semesters.indexOf(a.semester) - semesters.indexOf(b.semester));
+  const graded = new Set(released.map((g) => g.enrollmentId));
+  const subjectOfItem = new Map(items.map((i) => [i.id, i.subjectId]));
+  const inProgress = new Set(myEnrollments
+    .filter((e) => e.status === "enrolled" && !graded.has(e.id))
+    .map((e) => subjectOfItem.get(e.scheduleItemId))
+    .filter((id): id is string => !!id));
+  return {
+    program: program ?? null,
+    curriculum: curriculum ?? null,
+    ...computeDegreeProgress(entries, chronological, inProgress, scale),
+  };
+}
+
+// The saved academic standing thresholds, or the defaults until an admin edits them
+async function getStandingPolicy(): Promise<StandingPolicy> {
+  return (await storage.getSetting<StandingPolicy>(STANDING_POLICY_KEY)) ?? DEFAULT_STANDING_POLICY;
+}
+
+// The saved absence thresholds, or the defaults until an admin edits them
+async function getAttendancePolicy(): Promise<AttendancePolicy> {
+  return (await storage.getSetting<AttendancePolicy>(ATTENDANCE_POLICY_KEY)) ?? DEFAULT_ATTENDANCE_POLICY;
+}
+
+// How many times the class meets in its term once its overrides are applied,
+// leaving out days classes are cancelled; 0 when it has no term (absence
+// percentages then count the recorded meetings)
+async function termMeetingCount(item: ScheduleItem): Promise<number> {
+  const term = item.termId ? await storage.getTermById(item.termId) : undefined;
+  if (!term) return 0;
+  const [cancelled, overrides] = await Promise.all([
+    cancelledDates(term.startDate, term.endDate).then((dates) => new Set(dates)),
+    storage.getScheduleOverrides({ scheduleItemIds: [item.id] }),
+  ]);
+  return effectiveMeetingDates(item.days, overrides, term.startDate, term.endDate)
+    .filter((d) => !cancelled.has(d)).length;
+}
+
+// Checks that the class meets on `date` (YYYY-MM-DD) once its overrides are
+// applied, within its term, and that classes aren't cancelled that day.
+// Returns the message for a 400, or null.
+async function meetingDateError(item: ScheduleItem, date: unknown): Promise<string | null> {
+  const daysError = `date must be a YYYY-MM-DD day the class meets (${item.days.join(", ")})`;
+  if (typeof date !== "string" || !weekDayOfIsoDate(date)) return daysError;
+  const overrides = await storage.getScheduleOverrides({ scheduleItemIds: [item.id], from: date, to: date });
+  if (!meetsOn(item.days, overrides, date)) {
+    const changed = overrides.find((o) => o.date === date && o.type !== "makeup");
+    if (changed?.type === "cancelled") return `The ${date} meeting is cancelled`;
+    if (changed) return `The ${date} meeting was moved to ${changed.newDate}`;
+    return daysError;
+  }
+  const term = item.termId ? await storage.getTermById(item.termId) : undefined;
+  if (term && (date < term.startDate || date > term.endDate)) {
+    return `${date} is outside ${term.name} (${term.startDate} to ${term.endDate})`;
+  }
+  const cancellation = classCancellation(await storage.getCalendarEvents({ from: date, to: date }), date);
+  if (cancellation) return `No classes on ${date}: ${cancellation.title}`;
+  return null;
+}
+
+// Validates a one-off change to a meeting of `item`. A cancelled or
+// rescheduled `date` must be a regular meeting in the term without another
+// override (409); a rescheduled meeting keeps whatever of `newDate`,
+// `startMinutes`, `endMinutes` and `room` it leaves out, and a make-up meeting
+// takes the class's time and room unless given.
+async function overrideFromBody(
+  item: ScheduleItem,
+  body: Record<string, any>,
+  userId: string,
+): Promise<InsertScheduleOverride | RouteError> {
+  const type = body.type as OverrideType;
+  if (!OVERRIDE_TYPES.includes(type)) {
+    return { status: 400, message: `type must be one of: ${OVERRIDE_TYPES.join(", ")}` };
+  }
+  const term = item.termId ? await storage.getTermById(item.termId) : undefined;
+  const inTermError = (field: string, value: unknown): string | null => {
+    if (typeof value !== "string" || !weekDayOfIsoDate(value)) return `${field} must be a YYYY-MM-DD date`;
+    if (term && (value < term.startDate || value > term.endDate)) {
+      return `${value} is outside ${term.name} (${term.startDate} to ${term.endDate})`;
+    }
+    return null;
+  };
+  const dateError = inTermError("date", body.date);
+  if (dateError) return { status: 400, message: dateError };
+  const date = body.date as string;
+  const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+  const base = { scheduleItemId: item.id, type, date, reason, createdBy: userId, createdAt: Date.now() };
+
+  if (type === "makeup") {
+    const startMinutes = body.startMinutes ?? item.startMinutes;
+    const endMinutes = body.endMinutes ?? item.endMinutes;
+    const timeError = timeRangeError(startMinutes, endMinutes);
+    if (timeError) return { status: 400, message: timeError };
+    return { ...base, newDate: date, startMinutes, endMinutes, room: String(body.room ?? item.room).trim() };
+  }
+
+  if (!isMeetingDate(item.days, date)) {
+    return { status: 400, message: `date must be a day the class meets (${item.days.join(", ")})` };
+  }
+  const existing = (await storage.getScheduleOverrides({ scheduleItemIds: [item.id], from: date, to: date }))
+    .find((o) => o.date === date && o.type !== "makeup");
+  if (existing) {
+    return { status: 409, message: `The ${date} meeting is already ${existing.type}; remove that change first` };
+  }
+  if (type === "cancelled") {
+    return { ...base, newDate: null, startMinutes: null, endMinutes: null, room: null };
+  }
+
+  const newDate = body.newDate ?? date;
+  const newDateError = inTermError("newDate", newDate);
+  if (newDateError) return { status: 400, message: newDateError };
+  const startMinutes = body.startMinutes ?? item.startMinutes;
+  const endMinutes = body.endMinutes ?? item.endMinutes;
+  const timeError = timeRangeError(startMinutes, endMinutes);
+  if (timeError) return { status: 400, message: timeError };
+  const room = String(body.room ?? item.room).trim();
+  if (
+    newDate === date && startMinutes === item.startMinutes && endMinutes === item.endMinutes &&
+    room.toLowerCase() === item.room.trim().toLowerCase()
+  ) {
+    return { status: 400, message: "A rescheduled meeting must change the date, time or room" };
+  }
+  return { ...base, newDate, startMinutes, endMinutes, room };
+}
+
+// One meeting's attendance sheet: every enrolled student with that date's record
+async function attendanceSheet(item: ScheduleItem, date: string) {
+  const [rows, records] = await Promise.all([
+    storage.getEnrollments({ scheduleItemId: item.id }),
+    storage.getAttendance({ scheduleItemId: item.id, date }),
+  ]);
+  const recordsByEnrollment = new Map(records.map((r) => [r.enrollmentId, r]));
+  const sheet = await Promise.all(rows.filter((e) => e.status === "enrolled").map(async (e) => {
+    const student = await storage.getStudentById(e.studentId);
+    return {
+      enrollmentId: e.id,
+      student: student ? classListStudent(student) : null,
+      record: recordsByEnrollment.get(e.id) ?? null,
+    };
+  }));
+  return {
+    date,
+    rows: sheet.sort((a, b) => (a.student?.lastName ?? "").localeCompare(b.student?.lastName ?? "")),
+  };
+}
+
+// Validates `{ date, records: [{ enrollmentId, status, remarks? }] }` for the
+// class and saves it in one transaction
+async function saveAttendanceFromBody(item: ScheduleItem, body: Record<string, any>, userId: string) {
+  const dateError = await meetingDateError(item, body.date);
+  if (dateError) return { status: 400, message: dateError };
+  if (!Array.isArray(body.records) || body.records.length === 0) {
+    return { status: 400, message: "records must be a non-empty list of { enrollmentId, status }" };
+  }
+  const enrolled = new Map(
+    (await storage.getEnrollments({ scheduleItemId: item.id }))
+      .filter((e) => e.status === "enrolled")
+      .map((e) => [e.id, e]),
+  );
+  const recordedAt = Date.now();
+  const rows: InsertAttendanceRecord[] = [];
+  for (const raw of body.records) {
+    const enrollment = enrolled.get(String(raw?.enrollmentId ?? ""));
+    if (!enrollment) return { status: 400, message: "Every record must be for a student enrolled in this class" };
+    if (!ATTENDANCE_STATUSES.includes(raw.status)) {
+      return { status: 400, message: `status must be one of ${ATTENDANCE_STATUSES.join(", ")}` };
+    }
+    rows.push({
+      enrollmentId: enrollment.id,
+      studentId: enrollment.studentId,
+      scheduleItemId: item.id,
+      date: body.date,
+      status: raw.status,
+      remarks: typeof raw.remarks === "string" ? raw.remarks.trim() : "",
+      recordedBy: userId,
+      recordedAt,
+    });
+  }
+  await storage.saveAttendance(rows);
+  return attendanceSheet(item, body.date);
+}
+
+// Each enrolled student's attendance tally in the class, students past the
+// absence limit first
+async function attendanceSummaries(item: ScheduleItem) {
+  const [rows, records, meetings, policy] = await Promise.all([
+    storage.getEnrollments({ scheduleItemId: item.id }),
+    storage.getAttendance({ scheduleItemId: item.id }),
+    termMeetingCount(item),
+    getAttendancePolicy(),
+  ]);
+  const summaries = await Promise.all(rows.filter((e) => e.status === "enrolled").map(async (e) => {
+    const student = await storage.getStudentById(e.studentId);
+    const own = records.filter((r) => r.enrollmentId === e.id).map((r) => r.status);
+    return { enrollmentId: e.id, student: student ? classListStudent(student) : null, ...summarizeAttendance(own, meetings, policy) };
+  }));
+  const alertRank = { exceeded: 0, warning: 1, none: 2 };
+  summaries.sort((a, b) =>
+    alertRank[a.alert] - alertRank[b.alert] ||
+    (a.student?.lastName ?? "").localeCompare(b.student?.lastName ?? "")
+  );
+  return { meetings, policy, rows: summaries };
+}
+
+// Issues a fresh QR check-in code for today's meeting of the class
+async function issueCheckinToken(
+  item: ScheduleItem,
+  userId: string,
+): Promise<Pick<CheckinToken, "token" | "scheduleItemId" | "date" | "expiresAt"> | RouteError> {
+  const today = schoolToday(SCHOOL_TZ);
+  const dateError = await meetingDateError(item, today);
+  if (dateError) return { status: 400, message: `Check-in is only open on a meeting day: ${dateError}` };
+  const issuedAt = Date.now();
+  const { token, date, expiresAt } = await storage.createCheckinToken({
+    token: randomUUID(),
+    scheduleItemId: item.id,
+    date: today,
+    issuedBy: userId,
+    issuedAt,
+    expiresAt: issuedAt + CHECKIN_TOKEN_TTL_SECONDS * 1000,
+  });
+  return { token, scheduleItemId: item.id, date, expiresAt };
+}
+
+// Checks the signed-in student into the meeting a scanned code belongs to.
+// The code must still be live and for today, the student enrolled in the
+// class, and the meeting not yet recorded for them; a code that was already
+// used (a replay) is refused.
+async function checkInWithToken(
+  studentId: string,
+  token: unknown,
+): Promise<{ record: AttendanceRecord; subjectCode: string; subjectName: string } | RouteError> {
+  const checkin = typeof token === "string" && token ? await storage.getCheckinToken(token) : undefined;
+  if (!checkin) return { status: 400, message: "This isn't a valid check-in code" };
+  if (checkin.expiresAt < Date.now() || checkin.date !== schoolToday(SCHOOL_TZ)) {
+    return { status: 400, message: "This check-in code has expired. Scan the code on screen now." };
+  }
+  const item = await storage.getScheduleItemById(checkin.scheduleItemId);
+  if (!item) return { status: 404, message: "Class not found" };
+  const enrollment = (await storage.getEnrollments({ studentId, scheduleItemId: item.id }))
+    .find((e) => e.status === "enrolled");
+  if (!enrollment) return { status: 403, message: `You're not enrolled in ${item.subjectCode}` };
+
+  const record = await storage.checkIn({
+    enrollmentId: enrollment.id,
+    studentId,
+    scheduleItemId: item.id,
+    date: checkin.date,
+    status: "present",
+    remarks: "",
+    recordedBy: checkin.issuedBy,
+    recordedAt: Date.now(),
+    checkInToken: checkin.token,
+  });
+  if (!record) {
+    // Nothing was inserted: tell a replayed code apart from an earlier record
+    const [existing] = await storage.getAttendance({ scheduleItemId: item.id, studentId, date: checkin.date });
+    if (existing?.checkInToken === checkin.token) {
+      return { status: 409, message: "This check-in code has already been used" };
+    }
+    return { status: 409, message: `Your attendance in ${item.subjectCode} is already recorded for today` };
+  }
+  return { record, subjectCode: item.subjectCode, subjectName: item.subjectName };
+}
+
+// The transcript is an official record, so it lists released grades only
+async function sendTranscript(res: Response, student: Student) {
+  const [studentGrades, allTerms, scale] = await Promise.all([
+    storage.getGrades({ studentId: student.id, status: "released" }),
+    storage.getAllTerms(),
+    getGradingScale(),
+  ]);
+  res
+    .type("application/pdf")
+    .attachment(`transcript-${student.studentId}.pdf`)
+    .send(renderTranscript(student, studentGrades, allTerms, scale));
+}
+
 // ─── Route Registration ───────────────────────────────────────────────────────
 
 export async function registerRoutes(app: Express): Promise<Server> {
 
-  // Seed default admin user if none exists
-  await storage.upsertAdmin({
+  // Seed the default admin on a fresh install; existing accounts are never touched
+  await storage.seedDefaultAdmin({
     username: "admin",
     password: bcrypt.hashSync("admin123", SALT_ROUNDS),
     firstName: "System",
     lastName: "Administrator",
   });
 
-  // Clean up expired sessions every hour
-  setInterval(() => storage.deleteExpiredSessions(), 60 * 60 * 1000);
+  await runDataMigrations();
+
+  // Clean up expired sessions and check-in codes every hour
+  setInterval(() => {
+    storage.deleteExpiredSessions();
+    storage.deleteExpiredCheckinTokens();
+  }, 60 * 60 * 1000);
 
-  // POST /api/auth/login — unified login for students and admins
+  // POST /api/auth/login — unified login for students, admins and faculty
   app.post("/api/auth/login", async (req, res) => {
     const { username, password } = req.body;
     if (!username || !password) {
       return res.status(400).json({ message: "Username and password required" });
     }
 
-    // Check admin users
+    // Check staff users (admins and faculty share the users table)
     const admin = await storage.getAdminByUsername(username);
     if (admin) {
       const passwordValid = await bcrypt.compare(password, admin.password);
+      if (passwordValid && admin.status === "disabled") {
+        return res.status(403).json({ message: "This account is disabled; ask an administrator to enable it" });
+      }
       if (passwordValid) {
         const token = randomUUID();
-        await storage.createSession(token, admin.id, "admin", Date.now() + TOKEN_TTL_MS);
+        const role = admin.role === "faculty" ? "faculty" : "admin";
+        await storage.createSession(token, admin.id, role, Date.now() + TOKEN_TTL_MS);
         const { password: _pw, ...adminData } = admin;
-        return res.json({ token, role: "admin", user: adminData });
+        return res.json({ token, role, user: adminData });
       }
     }
 
@@ -125,6 +1115,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       totalAnnouncements: allAnnouncements.length,
       totalSchedules: allSchedule.length,
       totalGrades: allGrades.length,
+      pendingGrades: allGrades.filter((g) => g.status === "submitted").length,
       courses: courses.size,
     });
   });
@@ -139,7 +1130,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /api/admin/students
-  app.post("/api/admin/students", requireAdminToken, async (req, res) => {
+  app.post("/api/admin/students", requirePermission("students"), async (req, res) => {
     const body = req.body;
     if (!body.studentId || !body.firstName || !body.lastName || !body.course) {
       return res.status(400).json({ message: "studentId, firstName, lastName, course are required" });
@@ -148,6 +1139,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     if (existing) {
       return res.status(409).json({ message: "Student ID already exists" });
     }
+    // Students and staff sign in through the same form, so IDs and usernames can't overlap
+    if (await storage.getAdminByUsername(body.studentId)) {
+      return res.status(409).json({ message: "That Student ID is already a staff username" });
+    }
     const rawPassword = body.password || "student123";
     const hashedPassword = await bcrypt.hash(rawPassword, SALT_ROUNDS);
     const student = await storage.createStudent({
@@ -168,12 +1163,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       password: hashedPassword,
       role: "student",
     });
+    await changeStudentSection(student.id, null, student.sectionId);
     const { password: _pw, ...studentData } = student;
     res.status(201).json(studentData);
   });
 
   // PUT /api/admin/students/:id
-  app.put("/api/admin/students/:id", requireAdminToken, async (req, res) => {
+  app.put("/api/admin/students/:id", requirePermission("students"), async (req, res) => {
     const body = req.body;
     const updateData: Record<string, unknown> = {
       firstName: body.firstName,
@@ -193,19 +1189,99 @@ export async function registerRoutes(app: Express): Promise<Server> {
     if (body.password) {
       updateData.password = await bcrypt.hash(body.password, SALT_ROUNDS);
     }
+    // A pinned curriculum version belongs to the old course's program
+    const existing = await storage.getStudentById(String(req.params.id));
+    if (existing && body.course !== undefined && body.course !== existing.course) {
+      updateData.curriculumId = null;
+    }
     const updated = await storage.updateStudent(String(req.params.id), updateData as any);
     if (!updated) return res.status(404).json({ message: "Student not found" });
+    await changeStudentSection(updated.id, existing?.sectionId ?? null, updated.sectionId);
     const { password: _pw, ...studentData } = updated;
     res.json(studentData);
   });
 
   // DELETE /api/admin/students/:id
-  app.delete("/api/admin/students/:id", requireAdminToken, async (req, res) => {
+  app.delete("/api/admin/students/:id", requirePermission("students"), async (req, res) => {
     const deleted = await storage.deleteStudent(String(req.params.id));
     if (!deleted) return res.status(404).json({ message: "Student not found" });
     res.json({ message: "Student deleted" });
   });
 
+  // GET /api/admin/students/:id/transcript.pdf
+  app.get("/api/admin/students/:id/transcript.pdf", requirePermission("grades"), async (req, res) => {
+    const student = await storage.getStudentById(String(req.params.id));
+    if (!student) return res.status(404).json({ message: "Student not found" });
+    await sendTranscript(res, student);
+  });
+
+  // ── Faculty (Admin) ───────────────────────────────────────────────────────────
+
+  // GET /api/admin/faculty
+  app.get("/api/admin/faculty", requireAdminToken, async (_req, res) => {
+    const all = await storage.getAllFaculty();
+    res.json(all.map(({ password: _pw, ...f }) => f).sort((a, b) => a.lastName.localeCompare(b.lastName)));
+  });
+
+  // POST /api/admin/faculty — { username, password, firstName, lastName }
+  app.post("/api/admin/faculty", requirePermission("faculty"), async (req, res) => {
+    const body = req.body;
+    if (!body.username || !body.password || !body.firstName || !body.lastName) {
+      return res.status(400).json({ message: "username, password, firstName, lastName are required" });
+    }
+    if (String(body.password).length < 8) {
+      return res.status(400).json({ message: "Password must be at least 8 characters" });
+    }
+    // Usernames share the login form with student IDs
+    if (await storage.getAdminByUsername(body.username) || await storage.getStudentByStudentId(body.username)) {
+      return res.status(409).json({ message: "Username is already in use" });
+    }
+    const faculty = await storage.createFaculty({
+      username: body.username,
+      password: await bcrypt.hash(body.password, SALT_ROUNDS),
+      firstName: body.firstName,
+      lastName: body.lastName,
+    });
+    const { password: _pw, ...facultyData } = faculty;
+    res.status(201).json(facultyData);
+  });
+
+  // PUT /api/admin/faculty/:id — a new `password` resets it
+  app.put("/api/admin/faculty/:id", requirePermission("faculty"), async (req, res) => {
+    const id = String(req.params.id);
+    const existing = await storage.getFacultyById(id);
+    if (!existing) return res.status(404).json({ message: "Faculty member not found" });
+    const body = req.body;
+    const updates: Partial<User> = { firstName: body.firstName, lastName: body.lastName };
+    if (body.username && body.username !== existing.username) {
+      if (await storage.getAdminByUsername(body.username) || await storage.getStudentByStudentId(body.username)) {
+        return res.status(409).json({ message: "Username is already in use" });
+      }
+      updates.username = body.username;
+    }
+    if (body.password) {
+      if (String(body.password).length < 8) {
+        return res.status(400).json({ message: "Password must be at least 8 characters" });
+      }
+      updates.password = await bcrypt.hash(body.password, SALT_ROUNDS);
+    }
+    const updated = await storage.updateFaculty(id, updates);
+    if (!updated) return res.status(404).json({ message: "Faculty member not found" });
+    const { password: _pw, ...facultyData } = updated;
+    res.json(facultyData);
+  });
+
+  // DELETE /api/admin/faculty/:id — 409 while they are assigned to classes
+  app.delete("/api/admin/faculty/:id", requirePermission("faculty"), async (req, res) => {
+    const id = String(req.params.id);
+    if (await storage.isFacultyAssigned(id)) {
+      return res.status(409).json({ message: "Faculty member is assigned to classes; reassign them first" });
+    }
+    const deleted = await storage.deleteFaculty(id);
+    if (!deleted) return res.status(404).json({ message: "Faculty member not found" });
+    res.json({ message: "Faculty member deleted" });
+  });
+
   // ── Sections ──────────────────────────────────────────────────────────────────
 
   // GET /api/admin/sections
@@ -215,21 +1291,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /api/admin/sections
-  app.post("/api/admin/sections", requireAdminToken, async (req, res) => {
+  app.post("/api/admin/sections", requirePermission("academics"), async (req, res) => {
     const body = req.body;
     if (!body.name) return res.status(400).json({ message: "Section name is required" });
+    const activeTerm = await storage.getActiveTerm();
     const section = await storage.createSection({
       name: body.name,
       course: body.course || "",
       yearLevel: body.yearLevel || "",
-      schoolYear: body.schoolYear || "",
+      schoolYear: body.schoolYear || activeTerm?.schoolYear || "",
       description: body.description || "",
     });
     res.status(201).json(section);
   });
 
   // PUT /api/admin/sections/:id
-  app.put("/api/admin/sections/:id", requireAdminToken, async (req, res) => {
+  app.put("/api/admin/sections/:id", requirePermission("academics"), async (req, res) => {
     const body = req.body;
     const updated = await storage.updateSection(String(req.params.id), {
       name: body.name,
@@ -243,30 +1320,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // DELETE /api/admin/sections/:id
-  app.delete("/api/admin/sections/:id", requireAdminToken, async (req, res) => {
+  app.delete("/api/admin/sections/:id", requirePermission("academics"), async (req, res) => {
     const deleted = await storage.deleteSection(String(req.params.id));
     if (!deleted) return res.status(404).json({ message: "Section not found" });
     res.json({ message: "Section deleted" });
   });
 
   // POST /api/admin/sections/:id/assign — assign students { studentIds: string[] }
-  app.post("/api/admin/sections/:id/assign", requireAdminToken, async (req, res) => {
+  app.post("/api/admin/sections/:id/assign", requirePermission("students"), async (req, res) => {
     const sectionId = String(req.params.id);
     const section = await storage.getSectionById(sectionId);
     if (!section) return res.status(404).json({ message: "Section not found" });
     const { studentIds } = req.body;
     if (!Array.isArray(studentIds)) return res.status(400).json({ message: "studentIds must be an array" });
     for (const sid of studentIds) {
+      const student = await storage.getStudentById(sid);
+      if (!student) continue;
       await storage.updateStudent(sid, { sectionId });
+      await changeStudentSection(sid, student.sectionId, sectionId);
     }
     res.json({ message: `${studentIds.length} student(s) assigned to section` });
   });
 
   // DELETE /api/admin/sections/:id/students/:studentId — remove student from section
-  app.delete("/api/admin/sections/:id/students/:studentId", requireAdminToken, async (req, res) => {
+  app.delete("/api/admin/sections/:id/students/:studentId", requirePermission("students"), async (req, res) => {
     const student = await storage.getStudentById(String(req.params.studentId));
     if (!student) return res.status(404).json({ message: "Student not found" });
-    await storage.updateStudent(String(req.params.studentId), { sectionId: null });
+    await storage.updateStudent(student.id, { sectionId: null });
+    await changeStudentSection(student.id, student.sectionId, null);
     res.json({ message: "Student removed from section" });
   });
 
@@ -279,123 +1360,973 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(sanitized);
   });
 
-  // ── Grades (Admin) ────────────────────────────────────────────────────────────
+  // ── Terms ─────────────────────────────────────────────────────────────────────
 
-  // GET /api/admin/grades?studentId=xxx
-  app.get("/api/admin/grades", requireAdminToken, async (req, res) => {
-    const { studentId } = req.query;
-    const result = await storage.getAllGrades(studentId as string | undefined);
-    res.json(result);
+  // GET /api/terms (public — students use it to label and order semesters)
+  app.get("/api/terms", async (_req, res) => {
+    res.json(await storage.getAllTerms());
   });
 
-  // POST /api/admin/grades
-  app.post("/api/admin/grades", requireAdminToken, async (req, res) => {
+  // POST /api/admin/terms
+  app.post("/api/admin/terms", requirePermission("academics"), async (req, res) => {
     const body = req.body;
-    if (!body.studentId || !body.subjectCode || !body.grade) {
-      return res.status(400).json({ message: "studentId, subjectCode, grade are required" });
+    if (!body.name || !body.schoolYear || !body.startDate || !body.endDate) {
+      return res.status(400).json({ message: "name, schoolYear, startDate, endDate are required" });
     }
-    const grade = await storage.createGrade({
-      studentId: body.studentId,
-      subjectCode: body.subjectCode,
-      subjectName: body.subjectName || "",
-      instructor: body.instructor || "",
-      grade: body.grade,
-      units: Number(body.units) || 3,
-      semester: body.semester || "1st Semester 2024-2025",
-      remarks: parseFloat(body.grade) <= 3.0 ? "Passed" : "Failed",
+    if (!DATE_PATTERN.test(body.startDate) || !DATE_PATTERN.test(body.endDate) || body.endDate < body.startDate) {
+      return res.status(400).json({ message: "startDate and endDate must be YYYY-MM-DD with endDate on or after startDate" });
+    }
+    const all = await storage.getAllTerms();
+    if (all.some((t) => t.name === body.name.trim())) {
+      return res.status(409).json({ message: `Term ${body.name.trim()} already exists` });
+    }
+    const term = await storage.createTerm({
+      name: body.name.trim(),
+      schoolYear: body.schoolYear.trim(),
+      startDate: body.startDate,
+      endDate: body.endDate,
     });
-    res.status(201).json(grade);
+    // The first term created becomes the active one
+    if (all.length === 0) return res.status(201).json(await storage.setActiveTerm(term.id));
+    res.status(201).json(term);
   });
 
-  // PUT /api/admin/grades/:id
-  app.put("/api/admin/grades/:id", requireAdminToken, async (req, res) => {
+  // PUT /api/admin/terms/:id
+  app.put("/api/admin/terms/:id", requirePermission("academics"), async (req, res) => {
+    const id = String(req.params.id);
+    const existing = await storage.getTermById(id);
+    if (!existing) return res.status(404).json({ message: "Term not found" });
     const body = req.body;
-    const updated = await storage.updateGrade(String(req.params.id), {
-      subjectCode: body.subjectCode,
-      subjectName: body.subjectName,
-      instructor: body.instructor,
-      grade: body.grade,
-      units: body.units !== undefined ? Number(body.units) : undefined,
-      semester: body.semester,
-      remarks: body.grade ? (parseFloat(body.grade) <= 3.0 ? "Passed" : "Failed") : undefined,
+    const name = body.name !== undefined ? String(body.name).trim() : undefined;
+    if (name) {
+      const clash = (await storage.getAllTerms()).find((t) => t.name === name && t.id !== id);
+      if (clash) return res.status(409).json({ message: `Term ${name} already exists` });
+    }
+    const startDate = body.startDate ?? existing.startDate;
+    const endDate = body.endDate ?? existing.endDate;
+    if (!DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate) || endDate < startDate) {
+      return res.status(400).json({ message: "startDate and endDate must be YYYY-MM-DD with endDate on or after startDate" });
+    }
+    const updated = await storage.updateTerm(id, {
+      name: name || undefined,
+      schoolYear: body.schoolYear,
+      startDate: body.startDate,
+      endDate: body.endDate,
     });
-    if (!updated) return res.status(404).json({ message: "Grade not found" });
     res.json(updated);
   });
 
-  // DELETE /api/admin/grades/:id
-  app.delete("/api/admin/grades/:id", requireAdminToken, async (req, res) => {
-    const deleted = await storage.deleteGrade(String(req.params.id));
-    if (!deleted) return res.status(404).json({ message: "Grade not found" });
-    res.json({ message: "Grade deleted" });
+  // POST /api/admin/terms/:id/activate — make this the current term
+  app.post("/api/admin/terms/:id/activate", requirePermission("academics"), async (req, res) => {
+    const term = await storage.setActiveTerm(String(req.params.id));
+    if (!term) return res.status(404).json({ message: "Term not found" });
+    res.json(term);
   });
 
-  // ── Schedule (Admin) ──────────────────────────────────────────────────────────
+  // DELETE /api/admin/terms/:id
+  app.delete("/api/admin/terms/:id", requirePermission("academics"), async (req, res) => {
+    const id = String(req.params.id);
+    const term = await storage.getTermById(id);
+    if (!term) return res.status(404).json({ message: "Term not found" });
+    if (term.isActive) {
+      return res.status(409).json({ message: "The active term cannot be deleted; activate another term first" });
+    }
+    if (await storage.isTermInUse(id)) {
+      return res.status(409).json({ message: "Term is referenced by grades, enrollments or schedules and cannot be deleted" });
+    }
+    await storage.deleteTerm(id);
+    res.json({ message: "Term deleted" });
+  });
 
-  // GET /api/admin/schedule
-  app.get("/api/admin/schedule", requireAdminToken, async (_req, res) => {
-    res.json(await storage.getAllScheduleItems());
+  // GET /api/admin/sections/:id/schedule?termId=xxx — the section's meetings (active term by default)
+  app.get("/api/admin/sections/:id/schedule", requireAdminToken, async (req, res) => {
+    const section = await storage.getSectionById(String(req.params.id));
+    if (!section) return res.status(404).json({ message: "Section not found" });
+    const term = await resolveTerm(req.query.termId);
+    if (!term) return res.json([]);
+    const items = await storage.getScheduleItems({ sectionId: section.id, termId: term.id });
+    res.json(items.sort(compareMeetings));
   });
 
-  // POST /api/admin/schedule
-  app.post("/api/admin/schedule", requireAdminToken, async (req, res) => {
-    const body = req.body;
-    if (!body.subjectCode || !body.day || !body.timeStart || !body.timeEnd) {
-      return res.status(400).json({ message: "subjectCode, day, timeStart, timeEnd are required" });
-    }
-    const item = await storage.createScheduleItem({
-      subjectCode: body.subjectCode,
-      subjectName: body.subjectName || "",
-      day: body.day,
-      timeStart: body.timeStart,
-      timeEnd: body.timeEnd,
-      room: body.room || "",
-      instructor: body.instructor || "",
-    });
-    res.status(201).json(item);
+  // GET /api/admin/sections/:id/schedule.ics?termId= — the section's classes as a calendar feed
+  app.get("/api/admin/sections/:id/schedule.ics", requireAdminToken, async (req, res) => {
+    const section = await storage.getSectionById(String(req.params.id));
+    if (!section) return res.status(404).json({ message: "Section not found" });
+    const term = await resolveTerm(req.query.termId);
+    if (!term) return res.status(404).json({ message: "Term not found" });
+    const items = await storage.getScheduleItems({ sectionId: section.id, termId: term.id });
+    await sendCalendar(res, `${section.name} ${term.name}`, items.sort(compareMeetings), term);
   });
 
-  // PUT /api/admin/schedule/:id
-  app.put("/api/admin/schedule/:id", requireAdminToken, async (req, res) => {
-    const body = req.body;
-    const updated = await storage.updateScheduleItem(String(req.params.id), {
-      subjectCode: body.subjectCode,
-      subjectName: body.subjectName,
-      day: body.day,
-      timeStart: body.timeStart,
-      timeEnd: body.timeEnd,
-      room: body.room,
-      instructor: body.instructor,
-    });
-    if (!updated) return res.status(404).json({ message: "Schedule not found" });
-    res.json(updated);
+  // POST /api/admin/sections/:id/schedule — add a class meeting to the section
+  app.post("/api/admin/sections/:id/schedule", requirePermission("schedule"), async (req, res) => {
+    const section = await storage.getSectionById(String(req.params.id));
+    if (!section) return res.status(404).json({ message: "Section not found" });
+    const values = await scheduleItemFromBody({ ...req.body, sectionId: section.id });
+    if (typeof values === "string") return res.status(400).json({ message: values });
+    const conflicts = await findScheduleConflicts(values);
+    if (conflicts.length > 0 && req.body.override !== true) {
+      return res.status(409).json(conflictResponse(conflicts));
+    }
+    const item = await storage.createScheduleItem(values);
+    await enrollSectionStudents(section.id, { items: [item] });
+    res.status(201).json(item);
   });
 
-  // DELETE /api/admin/schedule/:id
-  app.delete("/api/admin/schedule/:id", requireAdminToken, async (req, res) => {
-    const deleted = await storage.deleteScheduleItem(String(req.params.id));
-    if (!deleted) return res.status(404).json({ message: "Schedule not found" });
+  // DELETE /api/admin/sections/:id/schedule/:itemId — remove a class meeting from the section
+  app.delete("/api/admin/sections/:id/schedule/:itemId", requirePermission("schedule"), async (req, res) => {
+    const item = await storage.getScheduleItemById(String(req.params.itemId));
+    if (!item || item.sectionId !== String(req.params.id)) {
+      return res.status(404).json({ message: "Schedule not found in this section" });
+    }
+    // Deleting a class drops its enrollments, which would orphan their grades
+    if (await storage.isScheduleItemGraded(item.id)) {
+      return res.status(409).json({ message: "Students have grades in this class, so it can't be deleted" });
+    }
+    await storage.deleteScheduleItem(item.id);
     res.json({ message: "Schedule deleted" });
   });
 
-  // ── Announcements ─────────────────────────────────────────────────────────────
+  // ── Subjects ──────────────────────────────────────────────────────────────────
 
-  // GET /api/admin/announcements (public — accessible by students too)
-  app.get("/api/admin/announcements", async (_req, res) => {
-    const all = await storage.getAllAnnouncements();
-    const sorted = [...all].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-    res.json(sorted);
+  // GET /api/admin/subjects
+  app.get("/api/admin/subjects", requireAdminToken, async (_req, res) => {
+    const all = await storage.getAllSubjects();
+    res.json([...all].sort((a, b) => a.code.localeCompare(b.code)));
   });
 
-  // POST /api/admin/announcements
-  app.post("/api/admin/announcements", requireAdminToken, async (req, res) => {
+  // POST /api/admin/subjects
+  app.post("/api/admin/subjects", requirePermission("academics"), async (req, res) => {
     const body = req.body;
-    if (!body.title || !body.description) {
-      return res.status(400).json({ message: "title and description are required" });
+    if (!body.code || !body.title) {
+      return res.status(400).json({ message: "code and title are required" });
     }
-    const announcement = await storage.createAnnouncement({
+    const code = normalizeSubjectCode(body.code);
+    if (await storage.getSubjectByCode(code)) {
+      return res.status(409).json({ message: `Subject ${code} already exists` });
+    }
+    const prerequisites = await validatePrerequisites(body.prerequisites);
+    if (prerequisites === null) {
+      return res.status(400).json({ message: "prerequisites must be a list of existing subject ids" });
+    }
+    const corequisites = await validatePrerequisites(body.corequisites);
+    if (corequisites === null) {
+      return res.status(400).json({ message: "corequisites must be a list of existing subject ids" });
+    }
+    const load = subjectLoadFromBody(body, { units: 3, lectureHours: 3, labHours: 0 });
+    if (typeof load === "string") return res.status(400).json({ message: load });
+    const subject = await storage.createSubject({
+      code,
       title: body.title,
-      description: body.description,
+      ...load,
+      prerequisites,
+      corequisites,
+    });
+    res.status(201).json(subject);
+  });
+
+  // PUT /api/admin/subjects/:id
+  app.put("/api/admin/subjects/:id", requirePermission("academics"), async (req, res) => {
+    const id = String(req.params.id);
+    const body = req.body;
+    let code: string | undefined;
+    if (body.code !== undefined) {
+      code = normalizeSubjectCode(body.code);
+      const clash = await storage.getSubjectByCode(code);
+      if (clash && clash.id !== id) {
+        return res.status(409).json({ message: `Subject ${code} already exists` });
+      }
+    }
+    let prerequisites: string[] | undefined;
+    if (body.prerequisites !== undefined) {
+      const checked = await validatePrerequisites(body.prerequisites, id);
+      if (checked === null) {
+        return res.status(400).json({ message: "prerequisites must be a list of other existing subject ids" });
+      }
+      prerequisites = checked;
+    }
+    let corequisites: string[] | undefined;
+    if (body.corequisites !== undefined) {
+      const checked = await validatePrerequisites(body.corequisites, id);
+      if (checked === null) {
+        return res.status(400).json({ message: "corequisites must be a list of other existing subject ids" });
+      }
+      corequisites = checked;
+    }
+    const load = subjectLoadFromBody(body);
+    if (typeof load === "string") return res.status(400).json({ message: load });
+    const updated = await storage.updateSubject(id, {
+      code,
+      title: body.title,
+      ...load,
+      prerequisites,
+      corequisites,
+    });
+    if (!updated) return res.status(404).json({ message: "Subject not found" });
+    res.json(updated);
+  });
+
+  // DELETE /api/admin/subjects/:id
+  app.delete("/api/admin/subjects/:id", requirePermission("academics"), async (req, res) => {
+    const id = String(req.params.id);
+    if (await storage.isSubjectInUse(id)) {
+      return res.status(409).json({ message: "Subject is referenced by grades, schedules, curricula or another subject's requirements and cannot be deleted" });
+    }
+    const deleted = await storage.deleteSubject(id);
+    if (!deleted) return res.status(404).json({ message: "Subject not found" });
+    res.json({ message: "Subject deleted" });
+  });
+
+  // ── Programs & Curricula ──────────────────────────────────────────────────────
+
+  // GET /api/admin/programs — each program with a summary of its curriculum versions
+  app.get("/api/admin/programs", requireAdminToken, async (_req, res) => {
+    const [all, versions] = await Promise.all([storage.getAllPrograms(), storage.getCurricula()]);
+    const summaries = await Promise.all(versions.map(async (c) => {
+      const entries = await curriculumEntries(c.id);
+      return { ...c, subjectCount: entries.length, totalUnits: entries.reduce((acc, e) => acc + e.units, 0) };
+    }));
+    res.json(all.map((p) => ({
+      ...p,
+      curricula: summaries.filter((c) => c.programId === p.id).sort((a, b) => b.version.localeCompare(a.version)),
+    })));
+  });
+
+  // POST /api/admin/programs — { code, name }; `name` is what students' course is set to
+  app.post("/api/admin/programs", requirePermission("academics"), async (req, res) => {
+    const code = typeof req.body.code === "string" ? req.body.code.trim().toUpperCase() : "";
+    const name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+    if (!code || !name) return res.status(400).json({ message: "code and name are required" });
+    const clash = (await storage.getAllPrograms()).find((p) => p.code === code || p.name === name);
+    if (clash) return res.status(409).json({ message: `Program ${clash.code} already exists` });
+    res.status(201).json(await storage.createProgram({ code, name }));
+  });
+
+  // PUT /api/admin/programs/:id — renaming also renames the course of its students and sections
+  app.put("/api/admin/programs/:id", requirePermission("academics"), async (req, res) => {
+    const id = String(req.params.id);
+    const code = typeof req.body.code === "string" ? req.body.code.trim().toUpperCase() : undefined;
+    const name = typeof req.body.name === "string" ? req.body.name.trim() : undefined;
+    if (code === "" || name === "") return res.status(400).json({ message: "code and name can't be blank" });
+    const clash = (await storage.getAllPrograms()).find((p) => p.id !== id && (p.code === code || p.name === name));
+    if (clash) return res.status(409).json({ message: `Program ${clash.code} already exists` });
+    const updated = await storage.updateProgram(id, { code, name });
+    if (!updated) return res.status(404).json({ message: "Program not found" });
+    res.json(updated);
+  });
+
+  // DELETE /api/admin/programs/:id — 409 while it still has curricula
+  app.delete("/api/admin/programs/:id", requirePermission("academics"), async (req, res) => {
+    const id = String(req.params.id);
+    if ((await storage.getCurricula(id)).length > 0) {
+      return res.status(409).json({ message: "Delete the program's curricula first" });
+    }
+    const deleted = await storage.deleteProgram(id);
+    if (!deleted) return res.status(404).json({ message: "Program not found" });
+    res.json({ message: "Program deleted" });
+  });
+
+  // GET /api/admin/curricula/:id — the curriculum with its subjects by year and semester
+  app.get("/api/admin/curricula/:id", requireAdminToken, async (req, res) => {
+    const curriculum = await storage.getCurriculumById(String(req.params.id));
+    if (!curriculum) return res.status(404).json({ message: "Curriculum not found" });
+    res.json({ ...curriculum, subjects: await curriculumEntries(curriculum.id) });
+  });
+
+  // POST /api/admin/programs/:id/curricula — { version, isCurrent?, subjects: [{ subjectId, yearLevel, semester }] }
+  app.post("/api/admin/programs/:id/curricula", requirePermission("academics"), async (req, res) => {
+    const program = await storage.getProgramById(String(req.params.id));
+    if (!program) return res.status(404).json({ message: "Program not found" });
+    const version = typeof req.body.version === "string" ? req.body.version.trim() : "";
+    if (!version) return res.status(400).json({ message: "version is required" });
+    const existing = await storage.getCurricula(program.id);
+    if (existing.some((c) => c.version === version)) {
+      return res.status(409).json({ message: `${program.code} already has a ${version} curriculum` });
+    }
+    const entries = await curriculumEntriesFromBody(req.body.subjects ?? []);
+    if (typeof entries === "string") return res.status(400).json({ message: entries });
+    // A program's first curriculum is its current one
+    const isCurrent = req.body.isCurrent === true || existing.length === 0;
+    const curriculum = await storage.createCurriculum({ programId: program.id, version, isCurrent }, entries);
+    res.status(201).json({ ...curriculum, subjects: await curriculumEntries(curriculum.id) });
+  });
+
+  // PUT /api/admin/curricula/:id — { version?, isCurrent?, subjects? }; `subjects` replaces the whole list
+  app.put("/api/admin/curricula/:id", requirePermission("academics"), async (req, res) => {
+    const id = String(req.params.id);
+    const curriculum = await storage.getCurriculumById(id);
+    if (!curriculum) return res.status(404).json({ message: "Curriculum not found" });
+    const version = typeof req.body.version === "string" ? req.body.version.trim() : undefined;
+    if (version === "") return res.status(400).json({ message: "version can't be blank" });
+    if (version && (await storage.getCurricula(curriculum.programId)).some((c) => c.id !== id && c.version === version)) {
+      return res.status(409).json({ message: `A ${version} curriculum already exists for this program` });
+    }
+    let entries: CurriculumEntryInput[] | undefined;
+    if (req.body.subjects !== undefined) {
+      const checked = await curriculumEntriesFromBody(req.body.subjects);
+      if (typeof checked === "string") return res.status(400).json({ message: checked });
+      entries = checked;
+    }
+    // Only another version can take over as current, so there is always one
+    const isCurrent = req.body.isCurrent === true ? true : undefined;
+    const updated = await storage.updateCurriculum(id, { version, isCurrent }, entries);
+    res.json({ ...updated, subjects: await curriculumEntries(id) });
+  });
+
+  // DELETE /api/admin/curricula/:id — its students fall back to the program's current curriculum
+  app.delete("/api/admin/curricula/:id", requirePermission("academics"), async (req, res) => {
+    const curriculum = await storage.getCurriculumById(String(req.params.id));
+    if (!curriculum) return res.status(404).json({ message: "Curriculum not found" });
+    if (curriculum.isCurrent && (await storage.getCurricula(curriculum.programId)).length > 1) {
+      return res.status(409).json({ message: "Make another version current before deleting this one" });
+    }
+    await storage.deleteCurriculum(curriculum.id);
+    res.json({ message: "Curriculum deleted" });
+  });
+
+  // GET /api/admin/students/:id/degree-progress — the student's curriculum checklist
+  app.get("/api/admin/students/:id/degree-progress", requirePermission("grades"), async (req, res) => {
+    const student = await storage.getStudentById(String(req.params.id));
+    if (!student) return res.status(404).json({ message: "Student not found" });
+    res.json(await degreeProgress(student));
+  });
+
+  // PUT /api/admin/students/:id/curriculum — { curriculumId } pins the student to a
+  // version of their program; null follows the program's current version
+  app.put("/api/admin/students/:id/curriculum", requirePermission("students"), async (req, res) => {
+    const student = await storage.getStudentById(String(req.params.id));
+    if (!student) return res.status(404).json({ message: "Student not found" });
+    const curriculumId = req.body.curriculumId ? String(req.body.curriculumId) : null;
+    if (curriculumId) {
+      const curriculum = await storage.getCurriculumById(curriculumId);
+      if (!curriculum) return res.status(400).json({ message: "Unknown curriculum" });
+      const program = await storage.getProgramById(curriculum.programId);
+      if (program?.name !== student.course) {
+        return res.status(400).json({ message: `That curriculum isn't for ${student.course}` });
+      }
+    }
+    const updated = await storage.updateStudent(student.id, { curriculumId });
+    res.json(await degreeProgress(updated!));
+  });
+
+  // ── Grades (Admin) ────────────────────────────────────────────────────────────
+
+  // GET /api/admin/grades?studentId=&termId=&status= — every status, unlike the student view
+  app.get("/api/admin/grades", requirePermission("grades"), async (req, res) => {
+    const { studentId, termId, status } = req.query;
+    if (status !== undefined && !GRADE_STATUSES.includes(status as GradeStatus)) {
+      return res.status(400).json({ message: `status must be one of ${GRADE_STATUSES.join(", ")}` });
+    }
+    const result = await storage.getGrades({
+      studentId: studentId as string | undefined,
+      termId: termId as string | undefined,
+      status: status as GradeStatus | undefined,
+    });
+    res.json(result);
+  });
+
+  // GET /api/admin/grades/queue?status=submitted — grades awaiting the registrar,
+  // grouped by class. `status=approved` lists what is ready for release.
+  app.get("/api/admin/grades/queue", requirePermission("grades"), async (req, res) => {
+    const status = (req.query.status ?? "submitted") as GradeStatus;
+    if (status !== "submitted" && status !== "approved") {
+      return res.status(400).json({ message: "status must be submitted or approved" });
+    }
+    const [pending, allStudents, allSections] = await Promise.all([
+      storage.getGrades({ status }),
+      storage.getAllStudents(),
+      storage.getAllSections(),
+    ]);
+    const studentsById = new Map(allStudents.map((st) => [st.id, st]));
+    const sectionNames = new Map(allSections.map((sec) => [sec.id, sec.name]));
+    const groups = new Map<string, { item: ScheduleItem | undefined; grades: Grade[] }>();
+    for (const grade of pending) {
+      const enrollment = grade.enrollmentId ? await storage.getEnrollmentById(grade.enrollmentId) : undefined;
+      const key = enrollment?.scheduleItemId ?? `subject:${grade.subjectId}:${grade.termId}`;
+      if (!groups.has(key)) {
+        const item = enrollment ? await storage.getScheduleItemById(enrollment.scheduleItemId) : undefined;
+        groups.set(key, { item, grades: [] });
+      }
+      groups.get(key)!.grades.push(grade);
+    }
+    res.json([...groups.values()].map(({ item, grades: classGrades }) => {
+      const [first] = classGrades;
+      return {
+        scheduleItemId: item?.id ?? null,
+        subjectCode: first.subjectCode,
+        subjectName: first.subjectName,
+        instructor: item?.instructor ?? first.instructor,
+        sectionName: item?.sectionId ? sectionNames.get(item.sectionId) ?? null : null,
+        termId: first.termId,
+        semester: first.semester,
+        grades: classGrades
+          .map((g) => {
+            const st = studentsById.get(g.studentId);
+            return { ...g, studentName: st ? `${st.lastName}, ${st.firstName}` : "", studentNumber: st?.studentId ?? "" };
+          })
+          .sort((a, b) => a.studentName.localeCompare(b.studentName)),
+      };
+    }).sort((a, b) => a.subjectCode.localeCompare(b.subjectCode)));
+  });
+
+  // POST /api/admin/grades/status — { ids, status }: submit, approve, return to
+  // draft or release; all of the grades move or none do
+  app.post("/api/admin/grades/status", requirePermission("grades"), async (req, res) => {
+    const userId = (req as Request & { adminUserId: string }).adminUserId;
+    const move = await gradesForTransition(req.body);
+    if ("message" in move) return res.status(move.status).json({ message: move.message });
+    const moved = await storage.setGradeStatus(
+      move.ids, move.status, transitionSources(move.status), { by: userId, reason: req.body.reason },
+    );
+    if (!moved) return res.status(GRADES_CHANGED.status).json({ message: GRADES_CHANGED.message });
+    res.json(moved);
+  });
+
+  // POST /api/admin/grades/release — { termId }: releases every approved grade in the term
+  app.post("/api/admin/grades/release", requirePermission("grades"), async (req, res) => {
+    const userId = (req as Request & { adminUserId: string }).adminUserId;
+    const term = req.body.termId ? await storage.getTermById(String(req.body.termId)) : undefined;
+    if (!term) return res.status(400).json({ message: "A valid termId is required" });
+    const released = await storage.releaseTermGrades(term.id, { by: userId });
+    res.json({ released: released.length });
+  });
+
+  // POST /api/admin/grades — grades are recorded against an enrollment. 409
+  // with `unmet` when the student lacks the subject's prerequisites (and the
+  // enrollment wasn't already overridden) unless `override` is true.
+  app.post("/api/admin/grades", requirePermission("grades"), async (req, res) => {
+    const userId = (req as Request & { adminUserId: string }).adminUserId;
+    const values = await gradeFromBody(req.body);
+    if ("message" in values) return res.status(values.status).json({ message: values.message });
+    const enrollment = (await storage.getEnrollmentById(values.enrollmentId!))!;
+    if (!enrollment.overrideAt) {
+      const subject = (await storage.getSubjectById(values.subjectId!))!;
+      const unmet = await unmetRequirements(enrollment.studentId, subject, enrollment.termId);
+      if (unmet.length > 0) {
+        if (req.body.override !== true) return res.status(409).json(unmetResponse(unmet));
+        await storage.updateEnrollment(enrollment.id, overrideFields(unmet, userId, req.body.overrideReason));
+      }
+    }
+    const grade = await storage.createGrade(values, { by: userId });
+    if (!grade) return res.status(409).json({ message: "A grade has already been recorded for this enrollment" });
+    res.status(201).json(grade);
+  });
+
+  // GET /api/admin/class-record?sectionId=&subjectId=&termId= — every enrolled
+  // student of a section in a subject, with their grade (active term by default)
+  app.get("/api/admin/class-record", requirePermission("grades"), async (req, res) => {
+    const { sectionId, subjectId } = req.query;
+    const [section, subject, term] = await Promise.all([
+      sectionId ? storage.getSectionById(String(sectionId)) : undefined,
+      subjectId ? storage.getSubjectById(String(subjectId)) : undefined,
+      resolveTerm(req.query.termId),
+    ]);
+    if (!section || !subject || !term) {
+      return res.status(400).json({ message: "A valid sectionId, subjectId and term are required" });
+    }
+    const record = await classRecord(section.id, subject, term);
+    const rows = await Promise.all(record.enrollments.map(async (e) => {
+      const [student, grade] = await Promise.all([
+        storage.getStudentById(e.studentId),
+        storage.getGradeByEnrollmentId(e.id),
+      ]);
+      return { enrollment: e, student: student ? classListStudent(student) : null, grade: grade ?? null };
+    }));
+    res.json({
+      items: record.items.sort(compareMeetings),
+      rows: rows.sort((a, b) => (a.student?.lastName ?? "").localeCompare(b.student?.lastName ?? "")),
+    });
+  });
+
+  // PUT /api/admin/class-record — { sectionId, subjectId, termId?, grades: [{ enrollmentId, grade }], reason?, override? }.
+  // Every cell is checked first; on any error nothing is saved and the 400
+  // lists the failing cells as `errors: [{ enrollmentId, message, unmet? }]`.
+  // `reason` applies to every released grade the save changes; `override`
+  // grades students with unmet prerequisites anyway and records it.
+  app.put("/api/admin/class-record", requirePermission("grades"), async (req, res) => {
+    const userId = (req as Request & { adminUserId: string }).adminUserId;
+    const { sectionId, subjectId, grades: cells, reason } = req.body;
+    if (!Array.isArray(cells) || cells.length === 0) {
+      return res.status(400).json({ message: "grades must be a non-empty array" });
+    }
+    const [section, subject, term, scale] = await Promise.all([
+      sectionId ? storage.getSectionById(String(sectionId)) : undefined,
+      subjectId ? storage.getSubjectById(String(subjectId)) : undefined,
+      resolveTerm(req.body.termId),
+      getGradingScale(),
+    ]);
+    if (!section || !subject || !term) {
+      return res.status(400).json({ message: "A valid sectionId, subjectId and term are required" });
+    }
+    const record = await classRecord(section.id, subject, term);
+    const enrollmentsById = new Map(record.enrollments.map((e) => [e.id, e]));
+    const itemsById = new Map(record.items.map((i) => [i.id, i]));
+
+    const errors: { enrollmentId: string; message: string; unmet?: UnmetRequirement[] }[] = [];
+    const rows: InsertGrade[] = [];
+    const overrides: { enrollment: Enrollment; unmet: UnmetRequirement[] }[] = [];
+    const seen = new Set<string>();
+    for (const cell of cells) {
+      const enrollmentId = String(cell?.enrollmentId ?? "");
+      const enrollment = enrollmentsById.get(enrollmentId);
+      const grade = normalizeGrade(cell?.grade, scale);
+      const existing = enrollment && grade ? await storage.getGradeByEnrollmentId(enrollment.id) : undefined;
+      const unexplained = existing && grade ? missingReason(existing, grade, reason) : null;
+      const unmet = enrollment && grade && !existing && !enrollment.overrideAt
+        ? await unmetRequirements(enrollment.studentId, subject, enrollment.termId)
+        : [];
+      if (!enrollment) {
+        errors.push({ enrollmentId, message: "Not an enrolled student of this class" });
+      } else if (seen.has(enrollmentId)) {
+        errors.push({ enrollmentId, message: "Graded more than once" });
+      } else if (!grade) {
+        errors.push({ enrollmentId, message: `"${cell?.grade ?? ""}" is not on the grading scale` });
+      } else if (unexplained) {
+        errors.push({ enrollmentId, message: unexplained });
+      } else if (unmet.length > 0 && req.body.override !== true) {
+        errors.push({ enrollmentId, message: `Unmet requirements: ${describeUnmet(unmet)}`, unmet });
+      } else {
+        if (unmet.length > 0) overrides.push({ enrollment, unmet });
+        rows.push({
+          ...gradeSnapshot(enrollment, itemsById.get(enrollment.scheduleItemId)!, subject),
+          grade,
+          remarks: gradeRemarks(grade, scale),
+        });
+      }
+      seen.add(enrollmentId);
+    }
+    if (errors.length > 0) {
+      return res.status(400).json({ message: `${errors.length} grade(s) need fixing`, errors });
+    }
+    for (const { enrollment, unmet } of overrides) {
+      await storage.updateEnrollment(enrollment.id, overrideFields(unmet, userId, req.body.overrideReason));
+    }
+    res.json(await storage.saveGrades(rows, { by: userId, reason }));
+  });
+
+  // PUT /api/admin/grades/:id — the registrar can correct a grade in any status;
+  // changing a released grade needs a `reason`
+  app.put("/api/admin/grades/:id", requirePermission("grades"), async (req, res) => {
+    const userId = (req as Request & { adminUserId: string }).adminUserId;
+    const body = req.body;
+    const existing = await storage.getGradeById(String(req.params.id));
+    if (!existing) return res.status(404).json({ message: "Grade not found" });
+    const regraded = body.grade === undefined ? undefined : await gradeValueFromBody(body.grade);
+    if (typeof regraded === "string") return res.status(400).json({ message: regraded });
+    const unexplained = regraded ? missingReason(existing, regraded.grade, body.reason) : null;
+    if (unexplained) return res.status(400).json({ message: unexplained });
+    const updated = await storage.updateGrade(existing.id, {
+      instructor: body.instructor,
+      ...regraded,
+    }, { by: userId, reason: body.reason });
+    if (!updated) return res.status(404).json({ message: "Grade not found" });
+    res.json(updated);
+  });
+
+  // GET /api/admin/grades/:id/history — every change to the grade, oldest first
+  app.get("/api/admin/grades/:id/history", requirePermission("grades"), async (req, res) => {
+    const entries = await storage.getGradeHistory(String(req.params.id));
+    const actorIds = [...new Set(entries.map((e) => e.changedBy))];
+    const actors = await Promise.all(actorIds.map((id) => storage.getAdminById(id)));
+    const names = new Map(actors.filter((u): u is User => !!u).map((u) => [u.id, facultyName(u) || u.username]));
+    res.json(entries.map((e) => ({ ...e, changedByName: names.get(e.changedBy) ?? "Unknown user" })));
+  });
+
+  // DELETE /api/admin/grades/:id — released grades are part of the record and
+  // can only be changed, with a reason
+  app.delete("/api/admin/grades/:id", requirePermission("grades"), async (req, res) => {
+    const userId = (req as Request & { adminUserId: string }).adminUserId;
+    const existing = await storage.getGradeById(String(req.params.id));
+    if (!existing) return res.status(404).json({ message: "Grade not found" });
+    if (existing.status === "released") {
+      return res.status(409).json({ message: "Released grades cannot be deleted; change the grade with a reason instead" });
+    }
+    const deleted = await storage.deleteGrade(existing.id, { by: userId });
+    if (!deleted) return res.status(404).json({ message: "Grade not found" });
+    res.json({ message: "Grade deleted" });
+  });
+
+  // ── Grading Scale ───────────────────────────────────────────────────────────────
+
+  // GET /api/grading-scale (public — the student app needs it to compute GWA)
+  app.get("/api/grading-scale", async (_req, res) => {
+    res.json(await getGradingScale());
+  });
+
+  // PUT /api/admin/grading-scale — applies to grades entered or edited from now on
+  app.put("/api/admin/grading-scale", requirePermission("grades"), async (req, res) => {
+    const scale = parseGradingScale(req.body);
+    if (typeof scale === "string") return res.status(400).json({ message: scale });
+    res.json(await storage.setSetting(GRADING_SCALE_KEY, scale));
+  });
+
+  // ── Academic Standing ───────────────────────────────────────────────────────────
+
+  // GET /api/admin/standing-policy
+  app.get("/api/admin/standing-policy", requireAdminToken, async (_req, res) => {
+    res.json(await getStandingPolicy());
+  });
+
+  // PUT /api/admin/standing-policy — standings are computed on read, so this reclassifies every term
+  app.put("/api/admin/standing-policy", requirePermission("grades"), async (req, res) => {
+    const policy = parseStandingPolicy(req.body);
+    if (typeof policy === "string") return res.status(400).json({ message: policy });
+    res.json(await storage.setSetting(STANDING_POLICY_KEY, policy));
+  });
+
+  // GET /api/admin/standing?termId= — every student with released grades in the
+  // term (active term by default), with their term and cumulative standing,
+  // Dean's Listers first
+  app.get("/api/admin/standing", requirePermission("grades"), async (req, res) => {
+    const term = await resolveTerm(req.query.termId);
+    if (!term) return res.status(400).json({ message: "A valid termId is required" });
+    const [released, students, allTerms, scale, policy] = await Promise.all([
+      storage.getGrades({ status: "released" }),
+      storage.getAllStudents(),
+      storage.getAllTerms(),
+      getGradingScale(),
+      getStandingPolicy(),
+    ]);
+    // Cumulative figures stop at the chosen term
+    const semesters = sortSemesterLabels([...new Set(released.map((g) => g.semester))], allTerms);
+    const upTo = semesters.slice(0, semesters.indexOf(term.name) + 1);
+    const rows = students.flatMap((student) => {
+      const own = released.filter((g) => g.studentId === student.id);
+      const standing = computeStudentStanding(own, upTo, scale, policy);
+      const termStanding = standing.terms.find((t) => t.semester === term.name);
+      if (!termStanding) return [];
+      return [{ student: classListStudent(student), ...termStanding }];
+    });
+    rows.sort((a, b) =>
+      ACADEMIC_STANDINGS.indexOf(a.standing) - ACADEMIC_STANDINGS.indexOf(b.standing) ||
+      a.gwa - b.gwa ||
+      a.student.lastName.localeCompare(b.student.lastName)
+    );
+    res.json({ term, policy, rows });
+  });
+
+  // ── Schedule (Admin) ──────────────────────────────────────────────────────────
+
+  // GET /api/admin/schedule
+  app.get("/api/admin/schedule", requireAdminToken, async (_req, res) => {
+    const all = await storage.getAllScheduleItems();
+    res.json(all.sort(compareMeetings));
+  });
+
+  // GET /api/admin/rooms/:room/schedule.ics?termId= — everything booked in a room as a calendar feed
+  app.get("/api/admin/rooms/:room/schedule.ics", requireAdminToken, async (req, res) => {
+    const room = String(req.params.room).trim();
+    const term = await resolveTerm(req.query.termId);
+    if (!term) return res.status(404).json({ message: "Term not found" });
+    const items = await storage.getScheduleItems({ room, termId: term.id });
+    await sendCalendar(res, `${room} ${term.name}`, items.sort(compareMeetings), term);
+  });
+
+  // POST /api/admin/schedule — 409 with `conflicts` on a double booking unless `override` is true
+  app.post("/api/admin/schedule", requirePermission("schedule"), async (req, res) => {
+    const values = await scheduleItemFromBody(req.body);
+    if (typeof values === "string") return res.status(400).json({ message: values });
+    const conflicts = await findScheduleConflicts(values);
+    if (conflicts.length > 0 && req.body.override !== true) {
+      return res.status(409).json(conflictResponse(conflicts));
+    }
+    const item = await storage.createScheduleItem(values);
+    if (item.sectionId) await enrollSectionStudents(item.sectionId, { items: [item] });
+    res.status(201).json(item);
+  });
+
+  // PUT /api/admin/schedule/:id — same conflict rules as POST
+  app.put("/api/admin/schedule/:id", requirePermission("schedule"), async (req, res) => {
+    const id = String(req.params.id);
+    const existing = await storage.getScheduleItemById(id);
+    if (!existing) return res.status(404).json({ message: "Schedule not found" });
+    const body = req.body;
+    const subject = body.subjectId ? await storage.getSubjectById(body.subjectId) : undefined;
+    if (body.subjectId && !subject) return res.status(400).json({ message: "Unknown subject" });
+    const term = body.termId ? await storage.getTermById(body.termId) : undefined;
+    if (body.termId && !term) return res.status(400).json({ message: "Unknown term" });
+    // sectionId: null (or "") detaches the meeting from its section
+    if (body.sectionId && !(await storage.getSectionById(body.sectionId))) {
+      return res.status(400).json({ message: "Unknown section" });
+    }
+    const sectionId: string | null | undefined = body.sectionId === undefined ? undefined : body.sectionId || null;
+    const time = meetingTimeFromBody({
+      days: body.days ?? existing.days,
+      startMinutes: body.startMinutes ?? existing.startMinutes,
+      endMinutes: body.endMinutes ?? existing.endMinutes,
+    });
+    if (typeof time === "string") return res.status(400).json({ message: time });
+    // Either field replaces the instructor; the other falls back to the stored value
+    const instructor = body.instructorId === undefined && body.instructor === undefined
+      ? undefined
+      : await instructorFromBody({
+        instructorId: body.instructorId === undefined ? existing.instructorId : body.instructorId,
+        instructor: body.instructor ?? existing.instructor,
+      });
+    if (typeof instructor === "string") return res.status(400).json({ message: instructor });
+    const slot: ScheduleSlot = {
+      ...time,
+      room: body.room ?? existing.room,
+      instructor: instructor?.instructor ?? existing.instructor,
+      sectionId: sectionId === undefined ? existing.sectionId : sectionId,
+      termId: term?.id ?? existing.termId,
+    };
+    const conflicts = await findScheduleConflicts(slot, id);
+    if (conflicts.length > 0 && body.override !== true) {
+      return res.status(409).json(conflictResponse(conflicts));
+    }
+    // Grades keep the term they were earned in, so a graded class stays put
+    if (slot.termId !== existing.termId && (await storage.isScheduleItemGraded(id))) {
+      return res.status(409).json({ message: "Students have grades in this class, so its term can't be changed" });
+    }
+    const updated = await storage.updateScheduleItem(id, {
+      subjectId: subject?.id,
+      termId: term?.id,
+      sectionId,
+      subjectCode: subject?.code,
+      subjectName: subject?.title,
+      ...time,
+      room: body.room,
+      ...instructor,
+    });
+    if (!updated) return res.status(404).json({ message: "Schedule not found" });
+    await moveClassEnrollments(existing, updated);
+    res.json(updated);
+  });
+
+  // DELETE /api/admin/schedule/:id
+  app.delete("/api/admin/schedule/:id", requirePermission("schedule"), async (req, res) => {
+    const id = String(req.params.id);
+    // Deleting a class drops its enrollments, which would orphan their grades
+    if (await storage.isScheduleItemGraded(id)) {
+      return res.status(409).json({ message: "Students have grades in this class, so it can't be deleted" });
+    }
+    const deleted = await storage.deleteScheduleItem(id);
+    if (!deleted) return res.status(404).json({ message: "Schedule not found" });
+    res.json({ message: "Schedule deleted" });
+  });
+
+  // GET /api/admin/schedule/:id/overrides — the class's one-off meeting changes, by date
+  app.get("/api/admin/schedule/:id/overrides", requireAdminToken, async (req, res) => {
+    const item = await storage.getScheduleItemById(String(req.params.id));
+    if (!item) return res.status(404).json({ message: "Schedule not found" });
+    res.json(await storage.getScheduleOverrides({ scheduleItemIds: [item.id] }));
+  });
+
+  // POST /api/admin/schedule/:id/overrides — { type, date, newDate?, startMinutes?, endMinutes?, room?, reason? }
+  app.post("/api/admin/schedule/:id/overrides", requirePermission("schedule"), async (req, res) => {
+    const userId = (req as Request & { adminUserId: string }).adminUserId;
+    const item = await storage.getScheduleItemById(String(req.params.id));
+    if (!item) return res.status(404).json({ message: "Schedule not found" });
+    const values = await overrideFromBody(item, req.body, userId);
+    if ("message" in values) return res.status(values.status).json({ message: values.message });
+    res.status(201).json(await storage.createScheduleOverride(values));
+  });
+
+  // DELETE /api/admin/schedule/:id/overrides/:overrideId — the meeting goes back to its usual schedule
+  app.delete("/api/admin/schedule/:id/overrides/:overrideId", requirePermission("schedule"), async (req, res) => {
+    const override = await storage.getScheduleOverrideById(String(req.params.overrideId));
+    if (!override || override.scheduleItemId !== req.params.id) {
+      return res.status(404).json({ message: "Schedule change not found" });
+    }
+    await storage.deleteScheduleOverride(override.id);
+    res.json({ message: "Schedule change removed" });
+  });
+
+  // ── Exams (Admin) ─────────────────────────────────────────────────────────────
+
+  // GET /api/admin/exams?termId= — the term's exams (active term by default), by date and time
+  app.get("/api/admin/exams", requireAdminToken, async (req, res) => {
+    const term = await resolveTerm(req.query.termId);
+    if (!term) return res.json([]);
+    const items = await storage.getScheduleItems({ termId: term.id });
+    const itemsById = new Map(items.map((i) => [i.id, i]));
+    const termExams = await storage.getExams({ scheduleItemIds: items.map((i) => i.id) });
+    res.json(termExams.map((e) => examView(e, itemsById.get(e.scheduleItemId))));
+  });
+
+  // POST /api/admin/exams — 409 with `conflicts` when a student, room or proctor
+  // would be in two exams at once, unless `override` is true
+  app.post("/api/admin/exams", requirePermission("schedule"), async (req, res) => {
+    const values = await examFromBody(req.body);
+    if (typeof values === "string") return res.status(400).json({ message: values });
+    const conflicts = await findExamConflicts(values);
+    if (conflicts.length > 0 && req.body.override !== true) {
+      return res.status(409).json(examConflictResponse(conflicts));
+    }
+    const exam = await storage.createExam(values);
+    res.status(201).json(examView(exam, await storage.getScheduleItemById(exam.scheduleItemId)));
+  });
+
+  // PUT /api/admin/exams/:id — same conflict rules as POST
+  app.put("/api/admin/exams/:id", requirePermission("schedule"), async (req, res) => {
+    const id = String(req.params.id);
+    const existing = await storage.getExamById(id);
+    if (!existing) return res.status(404).json({ message: "Exam not found" });
+    const values = await examFromBody(req.body, existing);
+    if (typeof values === "string") return res.status(400).json({ message: values });
+    const conflicts = await findExamConflicts(values, id);
+    if (conflicts.length > 0 && req.body.override !== true) {
+      return res.status(409).json(examConflictResponse(conflicts));
+    }
+    const updated = await storage.updateExam(id, values);
+    if (!updated) return res.status(404).json({ message: "Exam not found" });
+    res.json(examView(updated, await storage.getScheduleItemById(updated.scheduleItemId)));
+  });
+
+  // DELETE /api/admin/exams/:id
+  app.delete("/api/admin/exams/:id", requirePermission("schedule"), async (req, res) => {
+    const deleted = await storage.deleteExam(String(req.params.id));
+    if (!deleted) return res.status(404).json({ message: "Exam not found" });
+    res.json({ message: "Exam deleted" });
+  });
+
+  // ── Enrollments (Admin) ───────────────────────────────────────────────────────
+
+  // GET /api/admin/enrollments?studentId=xxx&scheduleItemId=yyy
+  app.get("/api/admin/enrollments", requireAdminToken, async (req, res) => {
+    const { studentId, scheduleItemId } = req.query;
+    const [rows, items] = await Promise.all([
+      storage.getEnrollments({
+        studentId: studentId as string | undefined,
+        scheduleItemId: scheduleItemId as string | undefined,
+      }),
+      storage.getAllScheduleItems(),
+    ]);
+    const itemsById = new Map(items.map((i) => [i.id, i]));
+    res.json(rows.map((e) => ({ ...e, scheduleItem: itemsById.get(e.scheduleItemId) ?? null })));
+  });
+
+  // POST /api/admin/enrollments — { studentId, scheduleItemId }; the term is the offering's.
+  // 409 with `unmet` when the student lacks the subject's prerequisites or
+  // corequisites; `override: true` (and an optional `overrideReason`) enrolls
+  // them anyway and records who waived what.
+  app.post("/api/admin/enrollments", requirePermission("enrollments"), async (req, res) => {
+    const userId = (req as Request & { adminUserId: string }).adminUserId;
+    const body = req.body;
+    if (!body.studentId || !body.scheduleItemId) {
+      return res.status(400).json({ message: "studentId and scheduleItemId are required" });
+    }
+    const student = await storage.getStudentById(body.studentId);
+    if (!student) return res.status(404).json({ message: "Student not found" });
+    const item = await storage.getScheduleItemById(body.scheduleItemId);
+    if (!item) return res.status(404).json({ message: "Schedule not found" });
+    const term = await resolveTerm(item.termId);
+    if (!term) return res.status(400).json({ message: "The class is not scheduled in any term" });
+
+    const existing = await storage.getEnrollments({ studentId: student.id });
+    const items = await storage.getAllScheduleItems();
+    const itemsById = new Map(items.map((i) => [i.id, i]));
+    const duplicate = existing.find((e) =>
+      e.status === "enrolled" &&
+      e.termId === term.id &&
+      itemsById.get(e.scheduleItemId)?.subjectId === item.subjectId
+    );
+    if (duplicate) {
+      return res.status(409).json({ message: `Student is already enrolled in ${item.subjectCode} for ${term.name}` });
+    }
+
+    const subject = item.subjectId ? await storage.getSubjectById(item.subjectId) : undefined;
+    const unmet = subject ? await unmetRequirements(student.id, subject, term.id) : [];
+    if (unmet.length > 0 && body.override !== true) {
+      return res.status(409).json(unmetResponse(unmet));
+    }
+
+    const enrollment = await storage.createEnrollment({
+      studentId: student.id,
+      scheduleItemId: item.id,
+      termId: term.id,
+      semester: term.name,
+      status: "enrolled",
+      enrolledAt: Date.now(),
+      ...(unmet.length > 0 ? overrideFields(unmet, userId, body.overrideReason) : {}),
+    });
+    res.status(201).json({ ...enrollment, scheduleItem: item });
+  });
+
+  // POST /api/admin/enrollments/:id/drop — { status: "dropped" | "withdrawn" }
+  app.post("/api/admin/enrollments/:id/drop", requirePermission("enrollments"), async (req, res) => {
+    const status = req.body.status ?? "dropped";
+    if (status === "enrolled" || !ENROLLMENT_STATUSES.includes(status)) {
+      return res.status(400).json({ message: "status must be dropped or withdrawn" });
+    }
+    const updated = await storage.updateEnrollment(String(req.params.id), {
+      status,
+      statusChangedAt: Date.now(),
+    });
+    if (!updated) return res.status(404).json({ message: "Enrollment not found" });
+    res.json(updated);
+  });
+
+  // ── Attendance (Admin) ────────────────────────────────────────────────────────
+
+  // GET /api/admin/attendance-policy
+  app.get("/api/admin/attendance-policy", requireAdminToken, async (_req, res) => {
+    res.json(await getAttendancePolicy());
+  });
+
+  // PUT /api/admin/attendance-policy — warnings are computed on read, so this applies to every class
+  app.put("/api/admin/attendance-policy", requirePermission("attendance"), async (req, res) => {
+    const policy = parseAttendancePolicy(req.body);
+    if (typeof policy === "string") return res.status(400).json({ message: policy });
+    res.json(await storage.setSetting(ATTENDANCE_POLICY_KEY, policy));
+  });
+
+  // GET /api/admin/attendance?scheduleItemId=&date= — one meeting's attendance sheet
+  app.get("/api/admin/attendance", requirePermission("attendance"), async (req, res) => {
+    const item = await storage.getScheduleItemById(String(req.query.scheduleItemId ?? ""));
+    if (!item) return res.status(404).json({ message: "Class not found" });
+    const dateError = await meetingDateError(item, req.query.date);
+    if (dateError) return res.status(400).json({ message: dateError });
+    res.json(await attendanceSheet(item, String(req.query.date)));
+  });
+
+  // PUT /api/admin/attendance — { scheduleItemId, date, records: [{ enrollmentId, status, remarks? }] }
+  app.put("/api/admin/attendance", requirePermission("attendance"), async (req, res) => {
+    const userId = (req as Request & { adminUserId: string }).adminUserId;
+    const item = await storage.getScheduleItemById(String(req.body.scheduleItemId ?? ""));
+    if (!item) return res.status(404).json({ message: "Class not found" });
+    const result = await saveAttendanceFromBody(item, req.body, userId);
+    if ("message" in result) return res.status(result.status).json({ message: result.message });
+    res.json(result);
+  });
+
+  // GET /api/admin/attendance/summary?scheduleItemId= — each student's tally and absence alert
+  app.get("/api/admin/attendance/summary", requirePermission("attendance"), async (req, res) => {
+    const item = await storage.getScheduleItemById(String(req.query.scheduleItemId ?? ""));
+    if (!item) return res.status(404).json({ message: "Class not found" });
+    res.json(await attendanceSummaries(item));
+  });
+
+  // POST /api/admin/attendance/checkin-token — { scheduleItemId }; a short-lived QR code
+  // for today's meeting (the display asks for a new one every rotation)
+  app.post("/api/admin/attendance/checkin-token", requirePermission("attendance"), async (req, res) => {
+    const userId = (req as Request & { adminUserId: string }).adminUserId;
+    const item = await storage.getScheduleItemById(String(req.body.scheduleItemId ?? ""));
+    if (!item) return res.status(404).json({ message: "Class not found" });
+    const result = await issueCheckinToken(item, userId);
+    if ("message" in result) return res.status(result.status).json({ message: result.message });
+    res.status(201).json(result);
+  });
+
+  // ── Announcements ─────────────────────────────────────────────────────────────
+
+  // GET /api/admin/announcements (public — accessible by students too)
+  app.get("/api/admin/announcements", async (_req, res) => {
+    const all = await storage.getAllAnnouncements();
+    const sorted = [...all].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    res.json(sorted);
+  });
+
+  // POST /api/admin/announcements
+  app.post("/api/admin/announcements", requirePermission("announcements"), async (req, res) => {
+    const body = req.body;
+    if (!body.title || !body.description) {
+      return res.status(400).json({ message: "title and description are required" });
+    }
+    const announcement = await storage.createAnnouncement({
+      title: body.title,
+      description: body.description,
       date: body.date || new Date().toISOString().split("T")[0],
       isImportant: Boolean(body.isImportant),
       category: body.category || "General",
@@ -404,7 +2335,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // PUT /api/admin/announcements/:id
-  app.put("/api/admin/announcements/:id", requireAdminToken, async (req, res) => {
+  app.put("/api/admin/announcements/:id", requirePermission("announcements"), async (req, res) => {
     const body = req.body;
     const updated = await storage.updateAnnouncement(String(req.params.id), {
       title: body.title,
@@ -418,14 +2349,162 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // DELETE /api/admin/announcements/:id
-  app.delete("/api/admin/announcements/:id", requireAdminToken, async (req, res) => {
+  app.delete("/api/admin/announcements/:id", requirePermission("announcements"), async (req, res) => {
     const deleted = await storage.deleteAnnouncement(String(req.params.id));
     if (!deleted) return res.status(404).json({ message: "Announcement not found" });
     res.json({ message: "Announcement deleted" });
   });
 
+  // ── Academic Calendar ─────────────────────────────────────────────────────────
+
+  // GET /api/calendar?from=&to= (public) — events overlapping the range, by start date
+  app.get("/api/calendar", async (req, res) => {
+    const { from, to } = req.query;
+    for (const bound of [from, to]) {
+      if (bound !== undefined && (typeof bound !== "string" || !DATE_PATTERN.test(bound))) {
+        return res.status(400).json({ message: "from and to must be YYYY-MM-DD" });
+      }
+    }
+    res.json(await storage.getCalendarEvents({ from: from as string | undefined, to: to as string | undefined }));
+  });
+
+  // POST /api/admin/calendar
+  app.post("/api/admin/calendar", requirePermission("schedule"), async (req, res) => {
+    const values = calendarEventFromBody(req.body);
+    if (typeof values === "string") return res.status(400).json({ message: values });
+    res.status(201).json(await storage.createCalendarEvent(values));
+  });
+
+  // PUT /api/admin/calendar/:id
+  app.put("/api/admin/calendar/:id", requirePermission("schedule"), async (req, res) => {
+    const id = String(req.params.id);
+    const existing = await storage.getCalendarEventById(id);
+    if (!existing) return res.status(404).json({ message: "Calendar event not found" });
+    const values = calendarEventFromBody(req.body, existing);
+    if (typeof values === "string") return res.status(400).json({ message: values });
+    res.json(await storage.updateCalendarEvent(id, values));
+  });
+
+  // DELETE /api/admin/calendar/:id
+  app.delete("/api/admin/calendar/:id", requirePermission("schedule"), async (req, res) => {
+    const deleted = await storage.deleteCalendarEvent(String(req.params.id));
+    if (!deleted) return res.status(404).json({ message: "Calendar event not found" });
+    res.json({ message: "Calendar event deleted" });
+  });
+
+  // ── Admin Users ───────────────────────────────────────────────────────────────
+
+  // GET /api/admin/users — admin accounts, by last name
+  app.get("/api/admin/users", requirePermission("admins"), async (_req, res) => {
+    const all = await storage.getAllAdmins();
+    res.json(all.map(({ password: _pw, ...u }) => u).sort((a, b) => a.lastName.localeCompare(b.lastName)));
+  });
+
+  // POST /api/admin/users — { username, firstName, lastName, adminRole }; responds with
+  // `{ user, temporaryPassword }`, the only time the password is shown
+  app.post("/api/admin/users", requirePermission("admins"), async (req, res) => {
+    const body = req.body;
+    const username = String(body.username ?? "").trim();
+    const firstName = String(body.firstName ?? "").trim();
+    const lastName = String(body.lastName ?? "").trim();
+    if (!username || !firstName || !lastName) {
+      return res.status(400).json({ message: "username, firstName, lastName are required" });
+    }
+    if (!isAdminRole(body.adminRole)) {
+      return res.status(400).json({ message: `adminRole must be one of: ${ADMIN_ROLES.join(", ")}` });
+    }
+    // Usernames share the login form with student IDs
+    if (await storage.getAdminByUsername(username) || await storage.getStudentByStudentId(username)) {
+      return res.status(409).json({ message: "Username is already in use" });
+    }
+    const temporaryPassword = generateTemporaryPassword();
+    const created = await storage.createAdmin({
+      username,
+      password: await bcrypt.hash(temporaryPassword, SALT_ROUNDS),
+      firstName,
+      lastName,
+      adminRole: body.adminRole,
+      mustChangePassword: true,
+    });
+    const { password: _pw, ...user } = created;
+    res.status(201).json({ user, temporaryPassword });
+  });
+
+  // PUT /api/admin/users/:id — { firstName?, lastName?, adminRole?, status? }; nobody can
+  // change their own role or status, so there is always an admin left who can manage accounts
+  app.put("/api/admin/users/:id", requirePermission("admins"), async (req, res) => {
+    const userId = (req as Request & { adminUserId: string }).adminUserId;
+    const target = await storage.getAdminById(String(req.params.id));
+    if (!target || target.role !== "admin") return res.status(404).json({ message: "Admin not found" });
+    const body = req.body;
+    const updates: Partial<User> = {};
+    for (const field of ["firstName", "lastName"] as const) {
+      if (body[field] === undefined) continue;
+      const value = String(body[field]).trim();
+      if (!value) return res.status(400).json({ message: `${field} can't be empty` });
+      updates[field] = value;
+    }
+    if (body.adminRole !== undefined && body.adminRole !== target.adminRole) {
+      if (!isAdminRole(body.adminRole)) {
+        return res.status(400).json({ message: `adminRole must be one of: ${ADMIN_ROLES.join(", ")}` });
+      }
+      if (target.id === userId) return res.status(400).json({ message: "You can't change your own role" });
+      updates.adminRole = body.adminRole;
+    }
+    if (body.status !== undefined && body.status !== target.status) {
+      if (!STAFF_STATUSES.includes(body.status)) {
+        return res.status(400).json({ message: `status must be one of: ${STAFF_STATUSES.join(", ")}` });
+      }
+      if (target.id === userId) return res.status(400).json({ message: "You can't disable your own account" });
+      updates.status = body.status;
+    }
+    const updated = await storage.updateAdmin(target.id, updates);
+    if (!updated) return res.status(404).json({ message: "Admin not found" });
+    // A disabled account is signed out at once
+    if (updates.status === "disabled") await storage.deleteUserSessions(target.id);
+    const { password: _pw, ...user } = updated;
+    res.json(user);
+  });
+
+  // POST /api/admin/users/:id/temporary-password — replaces the password with a new
+  // temporary one (`{ temporaryPassword }`) and signs the account out
+  app.post("/api/admin/users/:id/temporary-password", requirePermission("admins"), async (req, res) => {
+    const target = await storage.getAdminById(String(req.params.id));
+    if (!target || target.role !== "admin") return res.status(404).json({ message: "Admin not found" });
+    const temporaryPassword = generateTemporaryPassword();
+    await storage.updateAdmin(target.id, {
+      password: await bcrypt.hash(temporaryPassword, SALT_ROUNDS),
+      mustChangePassword: true,
+    });
+    await storage.deleteUserSessions(target.id);
+    res.json({ temporaryPassword });
+  });
+
+  // DELETE /api/admin/users/:id — not yourself; 409 for anyone in a grade's audit
+  // trail, whose name has to stay on the record (disable them instead)
+  app.delete("/api/admin/users/:id", requirePermission("admins"), async (req, res) => {
+    const userId = (req as Request & { adminUserId: string }).adminUserId;
+    const target = await storage.getAdminById(String(req.params.id));
+    if (!target || target.role !== "admin") return res.status(404).json({ message: "Admin not found" });
+    if (target.id === userId) return res.status(400).json({ message: "You can't delete your own account" });
+    if (await storage.hasGradeChanges(target.id)) {
+      return res.status(409).json({ message: "This admin has changed grades; disable the account instead" });
+    }
+    await storage.deleteAdmin(target.id);
+    res.json({ message: "Admin deleted" });
+  });
+
   // ── Admin API Routes ──────────────────────────────────────────────────────────
 
+  // GET /api/admin/account — the signed-in admin, with their current role
+  app.get("/api/admin/account", requireAdminToken, async (req, res) => {
+    const userId = (req as Request & { adminUserId: string }).adminUserId;
+    const admin = await storage.getAdminById(userId);
+    if (!admin) return res.status(404).json({ message: "Admin not found" });
+    const { password: _pw, ...adminData } = admin;
+    res.json(adminData);
+  });
+
   // PUT /api/admin/account
   app.put("/api/admin/account", requireAdminToken, async (req, res) => {
     const session = await storage.getSession(extractToken(req)!);
@@ -446,7 +2525,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     const updates: Partial<User> = {};
     if (newUsername && newUsername !== admin.username) {
-      const existing = await storage.getAdminByUsername(newUsername);
+      // Usernames share the login form with student IDs
+      const existing = await storage.getAdminByUsername(newUsername) || await storage.getStudentByStudentId(newUsername);
       if (existing) {
         return res.status(400).json({ message: "Username already taken" });
       }
@@ -457,10 +2537,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "New password must be at least 8 characters" });
       }
       updates.password = await bcrypt.hash(newPassword, SALT_ROUNDS);
+      updates.mustChangePassword = false;
     }
 
     if (Object.keys(updates).length === 0) {
-      return res.json({ message: "No changes requested", user: admin });
+      const { password: _pw, ...safeAdmin } = admin;
+      return res.json({ message: "No changes requested", user: safeAdmin });
     }
 
     const updatedAdmin = await storage.updateAdmin(admin.id, updates);
@@ -481,51 +2563,181 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(studentData);
   });
 
-  // GET /api/student/grades
+  // GET /api/student/grades — released grades only
   app.get("/api/student/grades", requireStudentToken, async (req, res) => {
     const userId = (req as Request & { studentUserId: string }).studentUserId;
-    const studentGrades = await storage.getAllGrades(userId);
+    const studentGrades = await storage.getGrades({ studentId: userId, status: "released" });
     res.json(studentGrades);
   });
 
+  // GET /api/student/transcript.pdf
+  app.get("/api/student/transcript.pdf", requireStudentToken, async (req, res) => {
+    const userId = (req as Request & { studentUserId: string }).studentUserId;
+    const student = await storage.getStudentById(userId);
+    if (!student) return res.status(404).json({ message: "Student not found" });
+    await sendTranscript(res, student);
+  });
+
   // GET /api/student/schedule
   app.get("/api/student/schedule", requireStudentToken, async (req, res) => {
     const userId = (req as Request & { studentUserId: string }).studentUserId;
+    const activeTerm = await storage.getActiveTerm();
+    res.json(await studentScheduleItems(userId, activeTerm));
+  });
 
-    // Fetch grades (enrollments)
-    const studentGrades = await storage.getAllGrades(userId);
-    const enrolledSubjects = new Set(studentGrades.map((g) => g.subjectCode));
+  // GET /api/student/schedule/overrides?from=&to= — changes to the student's classes
+  // in the active term whose original or new date falls in the range
+  app.get("/api/student/schedule/overrides", requireStudentToken, async (req, res) => {
+    const userId = (req as Request & { studentUserId: string }).studentUserId;
+    const { from, to } = req.query;
+    for (const bound of [from, to]) {
+      if (bound !== undefined && (typeof bound !== "string" || !DATE_PATTERN.test(bound))) {
+        return res.status(400).json({ message: "from and to must be YYYY-MM-DD" });
+      }
+    }
+    const items = await studentScheduleItems(userId, await storage.getActiveTerm());
+    res.json(await storage.getScheduleOverrides({
+      scheduleItemIds: items.map((i) => i.id),
+      from: from as string | undefined,
+      to: to as string | undefined,
+    }));
+  });
 
-    // Fetch all schedules and filter to enrolled subjects only
-    const allSchedules = await storage.getAllScheduleItems();
-    const mySchedules = allSchedules.filter((s) => enrolledSubjects.has(s.subjectCode));
+  // GET /api/student/exams — the student's exams in the active term from today on, soonest first
+  app.get("/api/student/exams", requireStudentToken, async (req, res) => {
+    const userId = (req as Request & { studentUserId: string }).studentUserId;
+    const activeTerm = await storage.getActiveTerm();
+    if (!activeTerm) return res.json([]);
+    const items = await studentScheduleItems(userId, activeTerm);
+    const itemsById = new Map(items.map((i) => [i.id, i]));
+    const today = schoolToday(SCHOOL_TZ);
+    const upcoming = (await storage.getExams({ scheduleItemIds: items.map((i) => i.id) }))
+      .filter((e) => e.date >= today)
+      .sort(compareExams);
+    res.json(upcoming.map((e) => examView(e, itemsById.get(e.scheduleItemId))));
+  });
 
-    res.json(mySchedules);
+  // GET /api/student/schedule.ics — the same classes as weekly events over the active term
+  app.get("/api/student/schedule.ics", requireStudentToken, async (req, res) => {
+    const userId = (req as Request & { studentUserId: string }).studentUserId;
+    const activeTerm = await storage.getActiveTerm();
+    if (!activeTerm) return res.status(404).json({ message: "No active term" });
+    const items = await studentScheduleItems(userId, activeTerm);
+    await sendCalendar(res, `${activeTerm.name} Classes`, items, activeTerm);
   });
 
   // GET /api/student/stats
   app.get("/api/student/stats", requireStudentToken, async (req, res) => {
     const userId = (req as Request & { studentUserId: string }).studentUserId;
-    const studentGrades = await storage.getAllGrades(userId);
+    const [studentGrades, scale] = await Promise.all([
+      storage.getGrades({ studentId: userId, status: "released" }),
+      getGradingScale(),
+    ]);
 
     const totalSubjects = studentGrades.length;
     const totalUnits = studentGrades.reduce((acc, g) => acc + g.units, 0);
-    const gwa =
-      totalUnits > 0
-        ? studentGrades.reduce((acc, g) => acc + parseFloat(g.grade) * g.units, 0) / totalUnits
-        : 0;
+    const gwa = computeGwa(studentGrades, scale);
 
-    const semesters = [...new Set(studentGrades.map((g) => g.semester))];
+    const allTerms = await storage.getAllTerms();
+    const semesters = sortSemesterLabels([...new Set(studentGrades.map((g) => g.semester))], allTerms);
+    const activeTerm = allTerms.find((t) => t.isActive);
 
     res.json({
       totalSubjects,
       totalUnits,
       gwa: parseFloat(gwa.toFixed(2)),
       semesters,
-      currentSemester: semesters[0] || "1st Semester 2024-2025",
+      currentSemester: activeTerm?.name ?? semesters[semesters.length - 1] ?? "",
     });
   });
 
+  // GET /api/student/degree-progress — the student's curriculum checklist
+  app.get("/api/student/degree-progress", requireStudentToken, async (req, res) => {
+    const userId = (req as Request & { studentUserId: string }).studentUserId;
+    const student = await storage.getStudentById(userId);
+    if (!student) return res.status(404).json({ message: "Student not found" });
+    res.json(await degreeProgress(student));
+  });
+
+  // GET /api/student/standing — term-by-term GWA, units and academic standing
+  app.get("/api/student/standing", requireStudentToken, async (req, res) => {
+    const userId = (req as Request & { studentUserId: string }).studentUserId;
+    const [studentGrades, allTerms, scale, policy] = await Promise.all([
+      storage.getGrades({ studentId: userId, status: "released" }),
+      storage.getAllTerms(),
+      getGradingScale(),
+      getStandingPolicy(),
+    ]);
+    const semesters = sortSemesterLabels([...new Set(studentGrades.map((g) => g.semester))], allTerms);
+    res.json(computeStudentStanding(studentGrades, semesters, scale, policy));
+  });
+
+  // GET /api/student/in-progress — subjects the student is enrolled in that have
+  // no released grade yet, for the what-if GWA calculator
+  app.get("/api/student/in-progress", requireStudentToken, async (req, res) => {
+    const userId = (req as Request & { studentUserId: string }).studentUserId;
+    const [myEnrollments, studentGrades, items, catalog] = await Promise.all([
+      storage.getEnrollments({ studentId: userId }),
+      storage.getGrades({ studentId: userId, status: "released" }),
+      storage.getAllScheduleItems(),
+      storage.getAllSubjects(),
+    ]);
+    const graded = new Set(studentGrades.map((g) => g.enrollmentId));
+    const itemsById = new Map(items.map((i) => [i.id, i]));
+    const subjectsById = new Map(catalog.map((c) => [c.id, c]));
+    res.json(myEnrollments
+      .filter((e) => e.status === "enrolled" && !graded.has(e.id))
+      .flatMap((e) => {
+        const subjectId = itemsById.get(e.scheduleItemId)?.subjectId;
+        const subject = subjectId ? subjectsById.get(subjectId) : undefined;
+        if (!subject) return [];
+        return [{
+          enrollmentId: e.id, subjectId: subject.id, subjectCode: subject.code, subjectName: subject.title,
+          units: subject.units, termId: e.termId, semester: e.semester,
+        }];
+      }));
+  });
+
+  // GET /api/student/attendance?termId= — the student's attendance in each class of
+  // the term (active term by default), with the absence alert and every record
+  app.get("/api/student/attendance", requireStudentToken, async (req, res) => {
+    const userId = (req as Request & { studentUserId: string }).studentUserId;
+    const term = await resolveTerm(req.query.termId);
+    const policy = await getAttendancePolicy();
+    if (!term) return res.json({ term: null, policy, classes: [] });
+    const [myEnrollments, records] = await Promise.all([
+      storage.getEnrollments({ studentId: userId }),
+      storage.getAttendance({ studentId: userId }),
+    ]);
+    const classes = await Promise.all(myEnrollments
+      .filter((e) => e.status === "enrolled" && e.termId === term.id)
+      .map(async (e) => {
+        const item = await storage.getScheduleItemById(e.scheduleItemId);
+        if (!item) return null;
+        const own = records.filter((r) => r.enrollmentId === e.id);
+        return {
+          enrollmentId: e.id, scheduleItemId: item.id, subjectCode: item.subjectCode, subjectName: item.subjectName,
+          instructor: item.instructor, days: item.days, startMinutes: item.startMinutes, endMinutes: item.endMinutes,
+          ...summarizeAttendance(own.map((r) => r.status), await termMeetingCount(item), policy),
+          // Newest first
+          records: own.map((r) => ({ date: r.date, status: r.status, remarks: r.remarks })).reverse(),
+        };
+      }));
+    res.json({
+      term,
+      policy,
+      classes: classes.filter((c) => c !== null).sort((a, b) => a.subjectCode.localeCompare(b.subjectCode)),
+    });
+  });
+
+  // POST /api/student/checkin — { token } scanned from the instructor's QR code; marks the student present
+  app.post("/api/student/checkin", requireStudentToken, async (req, res) => {
+    const userId = (req as Request & { studentUserId: string }).studentUserId;
+    const result = await checkInWithToken(userId, req.body.token);
+    if ("message" in result) return res.status(result.status).json({ message: result.message });
+    res.status(201).json(result);
+  });
+
   // GET /api/student/announcements
   app.get("/api/student/announcements", requireStudentToken, async (req, res) => {
     const announcements = await storage.getAllAnnouncements();
@@ -570,7 +2782,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
     const updateFields: Record<string, string> = {};
     if (newStudentId && newStudentId !== student.studentId) {
-      const conflict = await storage.getStudentByStudentId(newStudentId);
+      const conflict = await storage.getStudentByStudentId(newStudentId) || await storage.getAdminByUsername(newStudentId);
       if (conflict) return res.status(409).json({ message: "That Student ID is already in use" });
       updateFields.studentId = newStudentId;
     }
@@ -587,6 +2799,174 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ message: "Account updated successfully", user: studentData });
   });
 
+  // ── Faculty API Routes ────────────────────────────────────────────────────────
+
+  // GET /api/faculty/profile
+  app.get("/api/faculty/profile", requireFacultyToken, async (req, res) => {
+    const userId = (req as Request & { facultyUserId: string }).facultyUserId;
+    const faculty = await storage.getFacultyById(userId);
+    if (!faculty) return res.status(404).json({ message: "Faculty member not found" });
+    const { password: _pw, ...facultyData } = faculty;
+    res.json(facultyData);
+  });
+
+  // GET /api/faculty/classes?termId= — teaching load, active term by default
+  app.get("/api/faculty/classes", requireFacultyToken, async (req, res) => {
+    const userId = (req as Request & { facultyUserId: string }).facultyUserId;
+    const term = await resolveTerm(req.query.termId);
+    if (!term) return res.json([]);
+    const [items, allSections] = await Promise.all([
+      storage.getScheduleItems({ instructorId: userId, termId: term.id }),
+      storage.getAllSections(),
+    ]);
+    const sectionNames = new Map(allSections.map((sec) => [sec.id, sec.name]));
+    const withCounts = await Promise.all(items.map(async (item) => {
+      const enrolled = (await storage.getEnrollments({ scheduleItemId: item.id })).filter((e) => e.status === "enrolled");
+      const grades = await Promise.all(enrolled.map((e) => storage.getGradeByEnrollmentId(e.id)));
+      return {
+        ...item,
+        sectionName: item.sectionId ? sectionNames.get(item.sectionId) ?? null : null,
+        enrolledCount: enrolled.length,
+        gradedCount: grades.filter(Boolean).length,
+        draftCount: grades.filter((g) => g?.status === "draft").length,
+      };
+    }));
+    res.json(withCounts.sort(compareMeetings));
+  });
+
+  // GET /api/faculty/classes/:id/students — class list with each student's grade
+  app.get("/api/faculty/classes/:id/students", requireFacultyToken, async (req, res) => {
+    const userId = (req as Request & { facultyUserId: string }).facultyUserId;
+    const item = await storage.getScheduleItemById(String(req.params.id));
+    if (!item || item.instructorId !== userId) return res.status(404).json({ message: "Class not found" });
+    const rows = await storage.getEnrollments({ scheduleItemId: item.id });
+    const roster = await Promise.all(rows.map(async (e) => {
+      const [student, grade] = await Promise.all([
+        storage.getStudentById(e.studentId),
+        storage.getGradeByEnrollmentId(e.id),
+      ]);
+      return { enrollment: e, student: student ? classListStudent(student) : null, grade: grade ?? null };
+    }));
+    res.json(roster.sort((a, b) => (a.student?.lastName ?? "").localeCompare(b.student?.lastName ?? "")));
+  });
+
+  // GET /api/faculty/classes/:id/overrides — the class's one-off meeting changes, by date
+  app.get("/api/faculty/classes/:id/overrides", requireFacultyToken, async (req, res) => {
+    const userId = (req as Request & { facultyUserId: string }).facultyUserId;
+    const item = await storage.getScheduleItemById(String(req.params.id));
+    if (!item || item.instructorId !== userId) return res.status(404).json({ message: "Class not found" });
+    res.json(await storage.getScheduleOverrides({ scheduleItemIds: [item.id] }));
+  });
+
+  // GET /api/faculty/classes/:id/attendance?date= — one meeting's attendance sheet
+  app.get("/api/faculty/classes/:id/attendance", requireFacultyToken, async (req, res) => {
+    const userId = (req as Request & { facultyUserId: string }).facultyUserId;
+    const item = await storage.getScheduleItemById(String(req.params.id));
+    if (!item || item.instructorId !== userId) return res.status(404).json({ message: "Class not found" });
+    const dateError = await meetingDateError(item, req.query.date);
+    if (dateError) return res.status(400).json({ message: dateError });
+    res.json(await attendanceSheet(item, String(req.query.date)));
+  });
+
+  // PUT /api/faculty/classes/:id/attendance — { date, records: [{ enrollmentId, status, remarks? }] }
+  app.put("/api/faculty/classes/:id/attendance", requireFacultyToken, async (req, res) => {
+    const userId = (req as Request & { facultyUserId: string }).facultyUserId;
+    const item = await storage.getScheduleItemById(String(req.params.id));
+    if (!item || item.instructorId !== userId) return res.status(404).json({ message: "Class not found" });
+    const result = await saveAttendanceFromBody(item, req.body, userId);
+    if ("message" in result) return res.status(result.status).json({ message: result.message });
+    res.json(result);
+  });
+
+  // GET /api/faculty/classes/:id/attendance/summary — each student's tally and absence alert
+  app.get("/api/faculty/classes/:id/attendance/summary", requireFacultyToken, async (req, res) => {
+    const userId = (req as Request & { facultyUserId: string }).facultyUserId;
+    const item = await storage.getScheduleItemById(String(req.params.id));
+    if (!item || item.instructorId !== userId) return res.status(404).json({ message: "Class not found" });
+    res.json(await attendanceSummaries(item));
+  });
+
+  // POST /api/faculty/classes/:id/checkin-token — a short-lived QR code for today's meeting
+  app.post("/api/faculty/classes/:id/checkin-token", requireFacultyToken, async (req, res) => {
+    const userId = (req as Request & { facultyUserId: string }).facultyUserId;
+    const item = await storage.getScheduleItemById(String(req.params.id));
+    if (!item || item.instructorId !== userId) return res.status(404).json({ message: "Class not found" });
+    const result = await issueCheckinToken(item, userId);
+    if ("message" in result) return res.status(result.status).json({ message: result.message });
+    res.status(201).json(result);
+  });
+
+  // POST /api/faculty/grades — { enrollmentId, grade } for one of their own classes
+  app.post("/api/faculty/grades", requireFacultyToken, async (req, res) => {
+    const userId = (req as Request & { facultyUserId: string }).facultyUserId;
+    const values = await gradeFromBody(req.body, userId);
+    if ("message" in values) return res.status(values.status).json({ message: values.message });
+    // Only the registrar can waive unmet requirements, by grading the student
+    // with an override (POST /api/admin/grades); a waiver already on the
+    // enrollment lets the instructor grade as usual
+    const enrollment = (await storage.getEnrollmentById(values.enrollmentId!))!;
+    if (!enrollment.overrideAt) {
+      const subject = (await storage.getSubjectById(values.subjectId!))!;
+      const unmet = await unmetRequirements(enrollment.studentId, subject, enrollment.termId);
+      if (unmet.length > 0) {
+        const { message } = unmetResponse(unmet);
+        return res.status(409).json({ message: `${message}. Only the registrar can grade this student, with an override.`, unmet });
+      }
+    }
+    const grade = await storage.createGrade(values, { by: userId });
+    if (!grade) return res.status(409).json({ message: "A grade has already been recorded for this enrollment" });
+    res.status(201).json(grade);
+  });
+
+  // PUT /api/faculty/grades/:id — { grade }; only draft grades in their own classes
+  app.put("/api/faculty/grades/:id", requireFacultyToken, async (req, res) => {
+    const userId = (req as Request & { facultyUserId: string }).facultyUserId;
+    const existing = await storage.getGradeById(String(req.params.id));
+    const enrollment = existing?.enrollmentId ? await storage.getEnrollmentById(existing.enrollmentId) : undefined;
+    const item = enrollment ? await storage.getScheduleItemById(enrollment.scheduleItemId) : undefined;
+    if (!existing || item?.instructorId !== userId) return res.status(404).json({ message: "Grade not found" });
+    if (existing.status !== "draft") {
+      return res.status(409).json({ message: "This grade has been submitted and can no longer be edited" });
+    }
+    const regraded = await gradeValueFromBody(req.body.grade);
+    if (typeof regraded === "string") return res.status(400).json({ message: regraded });
+    res.json(await storage.updateGrade(existing.id, regraded, { by: userId }));
+  });
+
+  // POST /api/faculty/classes/:id/submit — sends the class's draft grades to the registrar
+  app.post("/api/faculty/classes/:id/submit", requireFacultyToken, async (req, res) => {
+    const userId = (req as Request & { facultyUserId: string }).facultyUserId;
+    const item = await storage.getScheduleItemById(String(req.params.id));
+    if (!item || item.instructorId !== userId) return res.status(404).json({ message: "Class not found" });
+    const rows = await storage.getEnrollments({ scheduleItemId: item.id });
+    const classGrades = await Promise.all(rows.map((e) => storage.getGradeByEnrollmentId(e.id)));
+    const drafts = classGrades.filter((g): g is Grade => g?.status === "draft");
+    if (drafts.length === 0) return res.status(400).json({ message: "There are no draft grades to submit" });
+    const submitted = await storage.setGradeStatus(drafts.map((g) => g.id), "submitted", ["draft"], { by: userId });
+    if (!submitted) return res.status(GRADES_CHANGED.status).json({ message: GRADES_CHANGED.message });
+    res.json(submitted);
+  });
+
+  // POST /api/faculty/change-password
+  app.post("/api/faculty/change-password", requireFacultyToken, async (req, res) => {
+    const userId = (req as Request & { facultyUserId: string }).facultyUserId;
+    const { currentPassword, newPassword } = req.body;
+    if (!currentPassword || !newPassword) {
+      return res.status(400).json({ message: "currentPassword and newPassword are required" });
+    }
+    if (newPassword.length < 8) {
+      return res.status(400).json({ message: "New password must be at least 8 characters" });
+    }
+    const faculty = await storage.getFacultyById(userId);
+    if (!faculty) return res.status(404).json({ message: "Faculty member not found" });
+    const passwordValid = await bcrypt.compare(currentPassword, faculty.password);
+    if (!passwordValid) {
+      return res.status(401).json({ message: "Current password is incorrect" });
+    }
+    await storage.updateFaculty(userId, { password: await bcrypt.hash(newPassword, SALT_ROUNDS) });
+    res.json({ message: "Password updated successfully" });
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -1,37 +1,99 @@
-import { eq, lt } from "drizzle-orm";
+import { and, arrayContains, asc, eq, gte, inArray, lt, lte, or, sql } from "drizzle-orm";
 import { randomUUID } from "crypto";
 import { db } from "./db";
 import {
   users,
   students,
   sections,
+  terms,
+  subjects,
+  programs,
+  curricula,
+  curriculumSubjects,
   grades,
+  gradeHistory,
   scheduleItems,
+  scheduleOverrides,
+  exams,
+  enrollments,
+  attendanceRecords,
+  checkinTokens,
   announcements,
+  calendarEvents,
+  settings,
   sessions,
   type User,
   type InsertUser,
+  type InsertStaffUser,
   type Student,
   type InsertStudent,
   type Section,
   type InsertSection,
+  type Term,
+  type InsertTerm,
+  type Subject,
+  type InsertSubject,
+  type Program,
+  type InsertProgram,
+  type Curriculum,
+  type InsertCurriculum,
+  type CurriculumSubject,
+  type InsertCurriculumSubject,
   type Grade,
   type InsertGrade,
+  type GradeStatus,
+  type GradeHistoryAction,
+  type GradeHistoryEntry,
+  type InsertGradeHistoryEntry,
   type ScheduleItem,
   type InsertScheduleItem,
+  type ScheduleOverride,
+  type InsertScheduleOverride,
+  type Exam,
+  type InsertExam,
+  type Enrollment,
+  type InsertEnrollment,
+  type AttendanceRecord,
+  type InsertAttendanceRecord,
+  type CheckinToken,
+  type InsertCheckinToken,
   type Announcement,
   type InsertAnnouncement,
+  type CalendarEvent,
+  type InsertCalendarEvent,
   type Session,
 } from "../shared/schema";
 
 // ─── Interface ────────────────────────────────────────────────────────────────
 
+// Who changed a grade and, for changes after release, why
+export interface GradeChange {
+  by: string;
+  reason?: string;
+}
+
+export type CurriculumEntryInput = Omit<InsertCurriculumSubject, "curriculumId">;
+
 export interface IStorage {
   // Admin users
   getAdminByUsername(username: string): Promise<User | undefined>;
   getAdminById(id: string): Promise<User | undefined>;
-  upsertAdmin(data: { username: string; password: string; firstName: string; lastName: string }): Promise<User>;
+  // Creates the first admin account, only while there are no staff accounts at all
+  seedDefaultAdmin(data: { username: string; password: string; firstName: string; lastName: string }): Promise<User | undefined>;
   updateAdmin(id: string, data: Partial<User>): Promise<User | undefined>;
+  getAllAdmins(): Promise<User[]>;
+  createAdmin(data: Omit<InsertStaffUser, "role">): Promise<User>;
+  deleteAdmin(id: string): Promise<boolean>;
+  // Whether the user appears in any grade's audit trail
+  hasGradeChanges(userId: string): Promise<boolean>;
+
+  // Faculty
+  getAllFaculty(): Promise<User[]>;
+  getFacultyById(id: string): Promise<User | undefined>;
+  createFaculty(data: Omit<InsertStaffUser, "role">): Promise<User>;
+  updateFaculty(id: string, data: Partial<InsertStaffUser>): Promise<User | undefined>;
+  deleteFaculty(id: string): Promise<boolean>;
+  isFacultyAssigned(id: string): Promise<boolean>;
 
   // Students
   getAllStudents(): Promise<Student[]>;
@@ -48,18 +110,110 @@ export interface IStorage {
   updateSection(id: string, data: Partial<InsertSection>): Promise<Section | undefined>;
   deleteSection(id: string): Promise<boolean>;
 
+  // Terms
+  getAllTerms(): Promise<Term[]>;
+  getTermById(id: string): Promise<Term | undefined>;
+  getActiveTerm(): Promise<Term | undefined>;
+  createTerm(data: InsertTerm): Promise<Term>;
+  updateTerm(id: string, data: Partial<InsertTerm>): Promise<Term | undefined>;
+  setActiveTerm(id: string): Promise<Term | undefined>;
+  deleteTerm(id: string): Promise<boolean>;
+  isTermInUse(id: string): Promise<boolean>;
+
+  // Subjects
+  getAllSubjects(): Promise<Subject[]>;
+  getSubjectById(id: string): Promise<Subject | undefined>;
+  getSubjectByCode(code: string): Promise<Subject | undefined>;
+  createSubject(data: InsertSubject): Promise<Subject>;
+  updateSubject(id: string, data: Partial<InsertSubject>): Promise<Subject | undefined>;
+  deleteSubject(id: string): Promise<boolean>;
+  isSubjectInUse(id: string): Promise<boolean>;
+
+  // Programs & curricula
+  getAllPrograms(): Promise<Program[]>;
+  getProgramById(id: string): Promise<Program | undefined>;
+  getProgramByName(name: string): Promise<Program | undefined>;
+  createProgram(data: InsertProgram): Promise<Program>;
+  // Renaming a program renames the course of its students and sections
+  updateProgram(id: string, data: Partial<InsertProgram>): Promise<Program | undefined>;
+  deleteProgram(id: string): Promise<boolean>;
+  getCurricula(programId?: string): Promise<Curriculum[]>;
+  getCurriculumById(id: string): Promise<Curriculum | undefined>;
+  getCurriculumSubjects(curriculumId: string): Promise<CurriculumSubject[]>;
+  // A current curriculum replaces the program's previous current one. The
+  // subject list, when given, replaces the curriculum's whole list.
+  createCurriculum(data: InsertCurriculum, entries: CurriculumEntryInput[]): Promise<Curriculum>;
+  updateCurriculum(id: string, data: Partial<InsertCurriculum>, entries?: CurriculumEntryInput[]): Promise<Curriculum | undefined>;
+  // Students who followed it fall back to their program's current curriculum
+  deleteCurriculum(id: string): Promise<boolean>;
+
   // Grades
   getAllGrades(studentId?: string): Promise<Grade[]>;
   getGradeById(id: string): Promise<Grade | undefined>;
-  createGrade(data: InsertGrade): Promise<Grade>;
-  updateGrade(id: string, data: Partial<InsertGrade>): Promise<Grade | undefined>;
-  deleteGrade(id: string): Promise<boolean>;
+  getGrades(filter: { studentId?: string; termId?: string; status?: GradeStatus }): Promise<Grade[]>;
+  getGradeByEnrollmentId(enrollmentId: string): Promise<Grade | undefined>;
+  // Every grade mutation below also writes its grade_history entries in the
+  // same transaction. Requiring a reason is up to the routes.
+  // Undefined when the enrollment already has a grade (unique per enrollment)
+  createGrade(data: InsertGrade, change: GradeChange): Promise<Grade | undefined>;
+  updateGrade(id: string, data: Partial<InsertGrade>, change: GradeChange): Promise<Grade | undefined>;
+  deleteGrade(id: string, change: GradeChange): Promise<boolean>;
+  // Moves the grades to `status`, stamping who and when, provided every one of
+  // them is still in one of the `from` statuses when the transaction locks it.
+  // Returns null (and changes nothing) when one isn't, e.g. a grade another
+  // request moved in the meantime. Which moves are allowed is up to the routes.
+  setGradeStatus(ids: string[], status: GradeStatus, from: readonly GradeStatus[], change: GradeChange): Promise<Grade[] | null>;
+  // Releases every approved grade in the term; returns the grades released
+  releaseTermGrades(termId: string, change: GradeChange): Promise<Grade[]>;
+  // Records one grade per row in a single transaction: rows whose enrollment
+  // already has a grade (even one created concurrently) update its value and
+  // remarks, the rest are inserted
+  saveGrades(rows: InsertGrade[], change: GradeChange): Promise<Grade[]>;
+  getGradeHistory(gradeId: string): Promise<GradeHistoryEntry[]>;
 
   // Schedule
   getAllScheduleItems(): Promise<ScheduleItem[]>;
+  // `room` matches case-insensitively, ignoring surrounding spaces
+  getScheduleItems(filter: { sectionId?: string; termId?: string; room?: string; instructorId?: string }): Promise<ScheduleItem[]>;
+  getScheduleItemById(id: string): Promise<ScheduleItem | undefined>;
   createScheduleItem(data: InsertScheduleItem): Promise<ScheduleItem>;
   updateScheduleItem(id: string, data: Partial<InsertScheduleItem>): Promise<ScheduleItem | undefined>;
   deleteScheduleItem(id: string): Promise<boolean>;
+  // Whether any enrollment in the offering has a grade (it can't be deleted then)
+  isScheduleItemGraded(id: string): Promise<boolean>;
+  // Overrides of the given offerings, optionally only those whose original or
+  // new date falls in `from`..`to`, by date
+  getScheduleOverrides(filter: { scheduleItemIds: string[]; from?: string; to?: string }): Promise<ScheduleOverride[]>;
+  getScheduleOverrideById(id: string): Promise<ScheduleOverride | undefined>;
+  createScheduleOverride(data: InsertScheduleOverride): Promise<ScheduleOverride>;
+  deleteScheduleOverride(id: string): Promise<boolean>;
+
+  // Exams
+  // Exams of the given offerings (every exam without a filter), by date and time
+  getExams(filter?: { scheduleItemIds?: string[] }): Promise<Exam[]>;
+  getExamById(id: string): Promise<Exam | undefined>;
+  createExam(data: InsertExam): Promise<Exam>;
+  updateExam(id: string, data: Partial<InsertExam>): Promise<Exam | undefined>;
+  deleteExam(id: string): Promise<boolean>;
+
+  // Enrollments
+  getEnrollments(filter?: { studentId?: string; scheduleItemId?: string }): Promise<Enrollment[]>;
+  getEnrollmentById(id: string): Promise<Enrollment | undefined>;
+  createEnrollment(data: InsertEnrollment): Promise<Enrollment>;
+  updateEnrollment(id: string, data: Partial<InsertEnrollment>): Promise<Enrollment | undefined>;
+
+  // Attendance
+  getAttendance(filter: { scheduleItemId?: string; studentId?: string; date?: string }): Promise<AttendanceRecord[]>;
+  // Records one row per enrollment and date in a single transaction: a row for
+  // a date the enrollment already has (even one a check-in just inserted)
+  // updates it, the rest are inserted
+  saveAttendance(rows: InsertAttendanceRecord[]): Promise<AttendanceRecord[]>;
+  // Inserts a QR check-in unless the enrollment already has a record for the
+  // date (undefined then); the unique (enrollment, date) index settles races
+  checkIn(row: InsertAttendanceRecord): Promise<AttendanceRecord | undefined>;
+  createCheckinToken(data: InsertCheckinToken): Promise<CheckinToken>;
+  getCheckinToken(token: string): Promise<CheckinToken | undefined>;
+  deleteExpiredCheckinTokens(): Promise<void>;
 
   // Announcements
   getAllAnnouncements(): Promise<Announcement[]>;
@@ -67,15 +221,52 @@ export interface IStorage {
   updateAnnouncement(id: string, data: Partial<InsertAnnouncement>): Promise<Announcement | undefined>;
   deleteAnnouncement(id: string): Promise<boolean>;
 
+  // Academic calendar
+  // Events overlapping `from`..`to` (either bound optional), by start date
+  getCalendarEvents(filter?: { from?: string; to?: string }): Promise<CalendarEvent[]>;
+  getCalendarEventById(id: string): Promise<CalendarEvent | undefined>;
+  createCalendarEvent(data: InsertCalendarEvent): Promise<CalendarEvent>;
+  updateCalendarEvent(id: string, data: Partial<InsertCalendarEvent>): Promise<CalendarEvent | undefined>;
+  deleteCalendarEvent(id: string): Promise<boolean>;
+
+  // Settings
+  getSetting<T>(key: string): Promise<T | undefined>;
+  setSetting<T>(key: string, value: T): Promise<T>;
+
   // Sessions
   createSession(token: string, userId: string, role: string, expiresAt: number): Promise<void>;
   getSession(token: string): Promise<Session | undefined>;
   deleteSession(token: string): Promise<void>;
+  // Signs the user out everywhere
+  deleteUserSessions(userId: string): Promise<void>;
   deleteExpiredSessions(): Promise<void>;
 }
 
 // ─── DatabaseStorage ──────────────────────────────────────────────────────────
 
+// One audit-trail row for a change to `grade`
+function historyEntry(
+  grade: Grade,
+  action: GradeHistoryAction,
+  oldValue: string | null,
+  newValue: string | null,
+  change: GradeChange,
+  changedFields: string[] = [],
+): InsertGradeHistoryEntry {
+  return {
+    id: randomUUID(),
+    gradeId: grade.id,
+    studentId: grade.studentId,
+    action,
+    oldValue,
+    newValue,
+    changedFields,
+    changedBy: change.by,
+    reason: change.reason?.trim() ?? "",
+    changedAt: Date.now(),
+  };
+}
+
 export class DatabaseStorage implements IStorage {
 
   // ── Admin Users ─────────────────────────────────────────────────────────────
@@ -85,14 +276,14 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async upsertAdmin(data: { username: string; password: string; firstName: string; lastName: string }): Promise<User> {
-    const existing = await this.getAdminByUsername(data.username);
-    if (existing) return existing;
+  async seedDefaultAdmin(data: { username: string; password: string; firstName: string; lastName: string }): Promise<User | undefined> {
+    const [existing] = await db.select({ id: users.id }).from(users).limit(1);
+    if (existing) return undefined;
     const [created] = await db.insert(users).values({
       id: randomUUID(),
       ...data,
       role: "admin",
-    }).returning();
+    }).onConflictDoNothing({ target: users.username }).returning();
     return created;
   }
 
@@ -106,6 +297,77 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  async getAllAdmins(): Promise<User[]> {
+    return db.select().from(users).where(eq(users.role, "admin"));
+  }
+
+  async createAdmin(data: Omit<InsertStaffUser, "role">): Promise<User> {
+    const [created] = await db.insert(users).values({
+      id: randomUUID(),
+      ...data,
+      role: "admin",
+    }).returning();
+    return created;
+  }
+
+  async deleteAdmin(id: string): Promise<boolean> {
+    // Sign them out first so no session outlives the account
+    await db.delete(sessions).where(eq(sessions.userId, id));
+    const result = await db.delete(users).where(and(eq(users.id, id), eq(users.role, "admin"))).returning();
+    return result.length > 0;
+  }
+
+  async hasGradeChanges(userId: string): Promise<boolean> {
+    const [entry] = await db.select({ id: gradeHistory.id }).from(gradeHistory).where(eq(gradeHistory.changedBy, userId)).limit(1);
+    return !!entry;
+  }
+
+  // ── Faculty ──────────────────────────────────────────────────────────────────
+
+  async getAllFaculty(): Promise<User[]> {
+    return db.select().from(users).where(eq(users.role, "faculty"));
+  }
+
+  async getFacultyById(id: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(and(eq(users.id, id), eq(users.role, "faculty")));
+    return user;
+  }
+
+  async createFaculty(data: Omit<InsertStaffUser, "role">): Promise<User> {
+    const [created] = await db.insert(users).values({
+      id: randomUUID(),
+      ...data,
+      role: "faculty",
+    }).returning();
+    return created;
+  }
+
+  async updateFaculty(id: string, data: Partial<InsertStaffUser>): Promise<User | undefined> {
+    return db.transaction(async (tx) => {
+      const [updated] = await tx.update(users).set(data)
+        .where(and(eq(users.id, id), eq(users.role, "faculty")))
+        .returning();
+      if (!updated) return undefined;
+      // Keep the instructor name on their classes in step with the account
+      await tx.update(scheduleItems)
+        .set({ instructor: `${updated.firstName} ${updated.lastName}`.trim() })
+        .where(eq(scheduleItems.instructorId, id));
+      return updated;
+    });
+  }
+
+  async deleteFaculty(id: string): Promise<boolean> {
+    // Sign them out first so no session outlives the account
+    await db.delete(sessions).where(and(eq(sessions.userId, id), eq(sessions.role, "faculty")));
+    const result = await db.delete(users).where(and(eq(users.id, id), eq(users.role, "faculty"))).returning();
+    return result.length > 0;
+  }
+
+  async isFacultyAssigned(id: string): Promise<boolean> {
+    const [item] = await db.select({ id: scheduleItems.id }).from(scheduleItems).where(eq(scheduleItems.instructorId, id)).limit(1);
+    return !!item;
+  }
+
   // ── Students ─────────────────────────────────────────────────────────────────
 
   async getAllStudents(): Promise<Student[]> {
@@ -136,6 +398,8 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteStudent(id: string): Promise<boolean> {
+    await db.delete(attendanceRecords).where(eq(attendanceRecords.studentId, id));
+    await db.delete(enrollments).where(eq(enrollments.studentId, id));
     const result = await db.delete(students).where(eq(students.id, id)).returning();
     return result.length > 0;
   }
@@ -165,12 +429,230 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteSection(id: string): Promise<boolean> {
-    // Unassign students from this section first
+    // Unassign students and class meetings from this section first
     await db.update(students).set({ sectionId: null }).where(eq(students.sectionId, id));
+    await db.update(scheduleItems).set({ sectionId: null }).where(eq(scheduleItems.sectionId, id));
     const result = await db.delete(sections).where(eq(sections.id, id)).returning();
     return result.length > 0;
   }
 
+  // ── Terms ────────────────────────────────────────────────────────────────────
+
+  async getAllTerms(): Promise<Term[]> {
+    return db.select().from(terms).orderBy(terms.startDate);
+  }
+
+  async getTermById(id: string): Promise<Term | undefined> {
+    const [term] = await db.select().from(terms).where(eq(terms.id, id));
+    return term;
+  }
+
+  async getActiveTerm(): Promise<Term | undefined> {
+    const [term] = await db.select().from(terms).where(eq(terms.isActive, true));
+    return term;
+  }
+
+  async createTerm(data: InsertTerm): Promise<Term> {
+    const [term] = await db.insert(terms).values({
+      id: randomUUID(),
+      ...data,
+    }).returning();
+    return term;
+  }
+
+  async updateTerm(id: string, data: Partial<InsertTerm>): Promise<Term | undefined> {
+    return db.transaction(async (tx) => {
+      const [updated] = await tx.update(terms).set(data).where(eq(terms.id, id)).returning();
+      if (!updated) return undefined;
+      // Keep the semester labels on grade and enrollment rows in step with the term
+      await tx.update(grades).set({ semester: updated.name }).where(eq(grades.termId, id));
+      await tx.update(enrollments).set({ semester: updated.name }).where(eq(enrollments.termId, id));
+      return updated;
+    });
+  }
+
+  // Only one term can be active at a time
+  async setActiveTerm(id: string): Promise<Term | undefined> {
+    return db.transaction(async (tx) => {
+      const [target] = await tx.select().from(terms).where(eq(terms.id, id));
+      if (!target) return undefined;
+      await tx.update(terms).set({ isActive: false }).where(eq(terms.isActive, true));
+      const [term] = await tx.update(terms).set({ isActive: true }).where(eq(terms.id, id)).returning();
+      return term;
+    });
+  }
+
+  async deleteTerm(id: string): Promise<boolean> {
+    const result = await db.delete(terms).where(eq(terms.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async isTermInUse(id: string): Promise<boolean> {
+    const [grade] = await db.select({ id: grades.id }).from(grades).where(eq(grades.termId, id)).limit(1);
+    if (grade) return true;
+    const [enrollment] = await db.select({ id: enrollments.id }).from(enrollments).where(eq(enrollments.termId, id)).limit(1);
+    if (enrollment) return true;
+    const [item] = await db.select({ id: scheduleItems.id }).from(scheduleItems).where(eq(scheduleItems.termId, id)).limit(1);
+    return !!item;
+  }
+
+  // ── Subjects ─────────────────────────────────────────────────────────────────
+
+  async getAllSubjects(): Promise<Subject[]> {
+    return db.select().from(subjects);
+  }
+
+  async getSubjectById(id: string): Promise<Subject | undefined> {
+    const [subject] = await db.select().from(subjects).where(eq(subjects.id, id));
+    return subject;
+  }
+
+  async getSubjectByCode(code: string): Promise<Subject | undefined> {
+    const [subject] = await db.select().from(subjects).where(eq(subjects.code, code));
+    return subject;
+  }
+
+  async createSubject(data: InsertSubject): Promise<Subject> {
+    const [subject] = await db.insert(subjects).values({
+      id: randomUUID(),
+      ...data,
+    }).returning();
+    return subject;
+  }
+
+  async updateSubject(id: string, data: Partial<InsertSubject>): Promise<Subject | undefined> {
+    return db.transaction(async (tx) => {
+      const [updated] = await tx.update(subjects).set(data).where(eq(subjects.id, id)).returning();
+      if (!updated) return undefined;
+      // Keep the denormalized copies on grade and schedule rows in step with the catalog
+      await tx.update(grades)
+        .set({ subjectCode: updated.code, subjectName: updated.title, units: updated.units })
+        .where(eq(grades.subjectId, id));
+      await tx.update(scheduleItems)
+        .set({ subjectCode: updated.code, subjectName: updated.title })
+        .where(eq(scheduleItems.subjectId, id));
+      return updated;
+    });
+  }
+
+  async deleteSubject(id: string): Promise<boolean> {
+    const result = await db.delete(subjects).where(eq(subjects.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async isSubjectInUse(id: string): Promise<boolean> {
+    const [grade] = await db.select({ id: grades.id }).from(grades).where(eq(grades.subjectId, id)).limit(1);
+    if (grade) return true;
+    const [item] = await db.select({ id: scheduleItems.id }).from(scheduleItems).where(eq(scheduleItems.subjectId, id)).limit(1);
+    if (item) return true;
+    const [entry] = await db.select({ id: curriculumSubjects.id }).from(curriculumSubjects)
+      .where(eq(curriculumSubjects.subjectId, id)).limit(1);
+    if (entry) return true;
+    // Another subject's prerequisite or corequisite
+    const [dependent] = await db.select({ id: subjects.id }).from(subjects)
+      .where(or(arrayContains(subjects.prerequisites, [id]), arrayContains(subjects.corequisites, [id]))).limit(1);
+    return !!dependent;
+  }
+
+  // ── Programs & Curricula ─────────────────────────────────────────────────────
+
+  async getAllPrograms(): Promise<Program[]> {
+    return db.select().from(programs).orderBy(programs.code);
+  }
+
+  async getProgramById(id: string): Promise<Program | undefined> {
+    const [program] = await db.select().from(programs).where(eq(programs.id, id));
+    return program;
+  }
+
+  async getProgramByName(name: string): Promise<Program | undefined> {
+    const [program] = await db.select().from(programs).where(eq(programs.name, name));
+    return program;
+  }
+
+  async createProgram(data: InsertProgram): Promise<Program> {
+    const [program] = await db.insert(programs).values({
+      id: randomUUID(),
+      ...data,
+    }).returning();
+    return program;
+  }
+
+  async updateProgram(id: string, data: Partial<InsertProgram>): Promise<Program | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(programs).where(eq(programs.id, id));
+      if (!existing) return undefined;
+      const [updated] = await tx.update(programs).set(data).where(eq(programs.id, id)).returning();
+      // Students and sections name their program as free text; keep them pointing at it
+      if (updated.name !== existing.name) {
+        await tx.update(students).set({ course: updated.name }).where(eq(students.course, existing.name));
+        await tx.update(sections).set({ course: updated.name }).where(eq(sections.course, existing.name));
+      }
+      return updated;
+    });
+  }
+
+  async deleteProgram(id: string): Promise<boolean> {
+    const result = await db.delete(programs).where(eq(programs.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getCurricula(programId?: string): Promise<Curriculum[]> {
+    const query = db.select().from(curricula);
+    return programId ? query.where(eq(curricula.programId, programId)) : query;
+  }
+
+  async getCurriculumById(id: string): Promise<Curriculum | undefined> {
+    const [curriculum] = await db.select().from(curricula).where(eq(curricula.id, id));
+    return curriculum;
+  }
+
+  async getCurriculumSubjects(curriculumId: string): Promise<CurriculumSubject[]> {
+    return db.select().from(curriculumSubjects).where(eq(curriculumSubjects.curriculumId, curriculumId));
+  }
+
+  async createCurriculum(data: InsertCurriculum, entries: CurriculumEntryInput[]): Promise<Curriculum> {
+    return db.transaction(async (tx) => {
+      if (data.isCurrent) {
+        await tx.update(curricula).set({ isCurrent: false }).where(eq(curricula.programId, data.programId));
+      }
+      const [curriculum] = await tx.insert(curricula).values({ id: randomUUID(), ...data }).returning();
+      if (entries.length > 0) {
+        await tx.insert(curriculumSubjects)
+          .values(entries.map((e) => ({ id: randomUUID(), ...e, curriculumId: curriculum.id })));
+      }
+      return curriculum;
+    });
+  }
+
+  async updateCurriculum(id: string, data: Partial<InsertCurriculum>, entries?: CurriculumEntryInput[]): Promise<Curriculum | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(curricula).where(eq(curricula.id, id));
+      if (!existing) return undefined;
+      if (data.isCurrent) {
+        await tx.update(curricula).set({ isCurrent: false }).where(eq(curricula.programId, existing.programId));
+      }
+      const [updated] = await tx.update(curricula).set(data).where(eq(curricula.id, id)).returning();
+      if (entries) {
+        await tx.delete(curriculumSubjects).where(eq(curriculumSubjects.curriculumId, id));
+        if (entries.length > 0) {
+          await tx.insert(curriculumSubjects)
+            .values(entries.map((e) => ({ id: randomUUID(), ...e, curriculumId: id })));
+        }
+      }
+      return updated;
+    });
+  }
+
+  async deleteCurriculum(id: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      await tx.update(students).set({ curriculumId: null }).where(eq(students.curriculumId, id));
+      await tx.delete(curriculumSubjects).where(eq(curriculumSubjects.curriculumId, id));
+      const result = await tx.delete(curricula).where(eq(curricula.id, id)).returning();
+      return result.length > 0;
+    });
+  }
+
   // ── Grades ───────────────────────────────────────────────────────────────────
 
   async getAllGrades(studentId?: string): Promise<Grade[]> {
@@ -185,22 +667,135 @@ export class DatabaseStorage implements IStorage {
     return grade;
   }
 
-  async createGrade(data: InsertGrade): Promise<Grade> {
-    const [grade] = await db.insert(grades).values({
-      id: randomUUID(),
-      ...data,
-    }).returning();
+  async getGrades(filter: { studentId?: string; termId?: string; status?: GradeStatus }): Promise<Grade[]> {
+    const conditions = [];
+    if (filter.studentId) conditions.push(eq(grades.studentId, filter.studentId));
+    if (filter.termId) conditions.push(eq(grades.termId, filter.termId));
+    if (filter.status) conditions.push(eq(grades.status, filter.status));
+    return db.select().from(grades).where(and(...conditions));
+  }
+
+  async getGradeByEnrollmentId(enrollmentId: string): Promise<Grade | undefined> {
+    const [grade] = await db.select().from(grades).where(eq(grades.enrollmentId, enrollmentId));
     return grade;
   }
 
-  async updateGrade(id: string, data: Partial<InsertGrade>): Promise<Grade | undefined> {
-    const [updated] = await db.update(grades).set(data).where(eq(grades.id, id)).returning();
-    return updated;
+  async createGrade(data: InsertGrade, change: GradeChange): Promise<Grade | undefined> {
+    return db.transaction(async (tx) => {
+      const [grade] = await tx.insert(grades).values({
+        id: randomUUID(),
+        ...data,
+      }).onConflictDoNothing({ target: grades.enrollmentId }).returning();
+      if (!grade) return undefined;
+      await tx.insert(gradeHistory).values(historyEntry(grade, "created", null, grade.grade, change));
+      return grade;
+    });
   }
 
-  async deleteGrade(id: string): Promise<boolean> {
-    const result = await db.delete(grades).where(eq(grades.id, id)).returning();
-    return result.length > 0;
+  async updateGrade(id: string, data: Partial<InsertGrade>, change: GradeChange): Promise<Grade | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(grades).where(eq(grades.id, id)).for("update");
+      if (!existing) return undefined;
+      const changed = (Object.keys(data) as (keyof InsertGrade)[])
+        .filter((key) => data[key] !== undefined && data[key] !== existing[key]);
+      if (changed.length === 0) return existing;
+      const regraded = changed.includes("grade");
+      const revised = regraded && existing.status === "released" ? { revisedAt: Date.now() } : {};
+      const [updated] = await tx.update(grades).set({ ...data, ...revised }).where(eq(grades.id, id)).returning();
+      await tx.insert(gradeHistory)
+        .values(historyEntry(existing, "changed", existing.grade, updated.grade, change, changed));
+      return updated;
+    });
+  }
+
+  async deleteGrade(id: string, change: GradeChange): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(grades).where(eq(grades.id, id)).returning();
+      if (!deleted) return false;
+      await tx.insert(gradeHistory).values(historyEntry(deleted, "deleted", deleted.grade, null, change));
+      return true;
+    });
+  }
+
+  async setGradeStatus(
+    ids: string[],
+    status: GradeStatus,
+    from: readonly GradeStatus[],
+    change: GradeChange,
+  ): Promise<Grade[] | null> {
+    if (ids.length === 0) return [];
+    const now = Date.now();
+    const stamp: Record<GradeStatus, Partial<InsertGrade>> = {
+      // Returned to the instructor: the earlier sign-offs no longer apply
+      draft: { submittedBy: null, submittedAt: null, approvedBy: null, approvedAt: null },
+      submitted: { submittedBy: change.by, submittedAt: now },
+      approved: { approvedBy: change.by, approvedAt: now },
+      released: { releasedBy: change.by, releasedAt: now },
+    };
+    return db.transaction(async (tx) => {
+      // Lock the rows so a concurrent move waits and then sees this one's result
+      const before = await tx.select().from(grades).where(inArray(grades.id, ids)).for("update");
+      if (before.length !== ids.length || before.some((g) => !from.includes(g.status as GradeStatus))) return null;
+      const updated = await tx.update(grades)
+        .set({ status, ...stamp[status] })
+        .where(and(inArray(grades.id, ids), inArray(grades.status, [...from])))
+        .returning();
+      await tx.insert(gradeHistory).values(before.map((g) => historyEntry(g, "status", g.status, status, change)));
+      return updated;
+    });
+  }
+
+  async saveGrades(rows: InsertGrade[], change: GradeChange): Promise<Grade[]> {
+    return db.transaction(async (tx) => {
+      const saved: Grade[] = [];
+      for (const row of rows) {
+        // Insert unless the enrollment already has a grade, then lock that one
+        const [created] = await tx.insert(grades).values({ id: randomUUID(), ...row })
+          .onConflictDoNothing({ target: grades.enrollmentId })
+          .returning();
+        if (created) {
+          await tx.insert(gradeHistory).values(historyEntry(created, "created", null, created.grade, change));
+          saved.push(created);
+          continue;
+        }
+        const [existing] = await tx.select().from(grades)
+          .where(eq(grades.enrollmentId, row.enrollmentId!))
+          .for("update");
+        if (existing.grade !== row.grade) {
+          const revised = existing.status === "released" ? { revisedAt: Date.now() } : {};
+          const [grade] = await tx.update(grades)
+            .set({ grade: row.grade, remarks: row.remarks, ...revised })
+            .where(eq(grades.id, existing.id))
+            .returning();
+          const changed = existing.remarks === grade.remarks ? ["grade"] : ["grade", "remarks"];
+          await tx.insert(gradeHistory)
+            .values(historyEntry(existing, "changed", existing.grade, grade.grade, change, changed));
+          saved.push(grade);
+        } else {
+          saved.push(existing);
+        }
+      }
+      return saved;
+    });
+  }
+
+  async releaseTermGrades(termId: string, change: GradeChange): Promise<Grade[]> {
+    return db.transaction(async (tx) => {
+      const released = await tx.update(grades)
+        .set({ status: "released", releasedBy: change.by, releasedAt: Date.now() })
+        .where(and(eq(grades.termId, termId), eq(grades.status, "approved")))
+        .returning();
+      if (released.length > 0) {
+        await tx.insert(gradeHistory).values(released.map((g) => historyEntry(g, "status", "approved", "released", change)));
+      }
+      return released;
+    });
+  }
+
+  async getGradeHistory(gradeId: string): Promise<GradeHistoryEntry[]> {
+    return db.select().from(gradeHistory)
+      .where(eq(gradeHistory.gradeId, gradeId))
+      .orderBy(asc(gradeHistory.changedAt));
   }
 
   // ── Schedule ─────────────────────────────────────────────────────────────────
@@ -209,6 +804,20 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(scheduleItems);
   }
 
+  async getScheduleItems(filter: { sectionId?: string; termId?: string; room?: string; instructorId?: string }): Promise<ScheduleItem[]> {
+    const conditions = [];
+    if (filter.instructorId) conditions.push(eq(scheduleItems.instructorId, filter.instructorId));
+    if (filter.sectionId) conditions.push(eq(scheduleItems.sectionId, filter.sectionId));
+    if (filter.termId) conditions.push(eq(scheduleItems.termId, filter.termId));
+    if (filter.room) conditions.push(sql`lower(trim(${scheduleItems.room})) = ${filter.room.trim().toLowerCase()}`);
+    return db.select().from(scheduleItems).where(and(...conditions));
+  }
+
+  async getScheduleItemById(id: string): Promise<ScheduleItem | undefined> {
+    const [item] = await db.select().from(scheduleItems).where(eq(scheduleItems.id, id));
+    return item;
+  }
+
   async createScheduleItem(data: InsertScheduleItem): Promise<ScheduleItem> {
     const [item] = await db.insert(scheduleItems).values({
       id: randomUUID(),
@@ -223,10 +832,159 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteScheduleItem(id: string): Promise<boolean> {
+    // Drop the enrollments (and their attendance) that point at this offering first
+    await db.delete(attendanceRecords).where(eq(attendanceRecords.scheduleItemId, id));
+    await db.delete(checkinTokens).where(eq(checkinTokens.scheduleItemId, id));
+    await db.delete(exams).where(eq(exams.scheduleItemId, id));
+    await db.delete(scheduleOverrides).where(eq(scheduleOverrides.scheduleItemId, id));
+    await db.delete(enrollments).where(eq(enrollments.scheduleItemId, id));
     const result = await db.delete(scheduleItems).where(eq(scheduleItems.id, id)).returning();
     return result.length > 0;
   }
 
+  async isScheduleItemGraded(id: string): Promise<boolean> {
+    const [grade] = await db.select({ id: grades.id })
+      .from(grades)
+      .innerJoin(enrollments, eq(grades.enrollmentId, enrollments.id))
+      .where(eq(enrollments.scheduleItemId, id))
+      .limit(1);
+    return !!grade;
+  }
+
+  async getScheduleOverrides(
+    filter: { scheduleItemIds: string[]; from?: string; to?: string },
+  ): Promise<ScheduleOverride[]> {
+    if (filter.scheduleItemIds.length === 0) return [];
+    const inRange = (column: typeof scheduleOverrides.date | typeof scheduleOverrides.newDate) => and(
+      filter.from ? gte(column, filter.from) : undefined,
+      filter.to ? lte(column, filter.to) : undefined,
+    );
+    return db.select().from(scheduleOverrides)
+      .where(and(
+        inArray(scheduleOverrides.scheduleItemId, filter.scheduleItemIds),
+        filter.from || filter.to ? or(inRange(scheduleOverrides.date), inRange(scheduleOverrides.newDate)) : undefined,
+      ))
+      .orderBy(asc(scheduleOverrides.date));
+  }
+
+  async getScheduleOverrideById(id: string): Promise<ScheduleOverride | undefined> {
+    const [override] = await db.select().from(scheduleOverrides).where(eq(scheduleOverrides.id, id));
+    return override;
+  }
+
+  async createScheduleOverride(data: InsertScheduleOverride): Promise<ScheduleOverride> {
+    const [override] = await db.insert(scheduleOverrides).values({ id: randomUUID(), ...data }).returning();
+    return override;
+  }
+
+  async deleteScheduleOverride(id: string): Promise<boolean> {
+    const result = await db.delete(scheduleOverrides).where(eq(scheduleOverrides.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // ── Exams ────────────────────────────────────────────────────────────────────
+
+  async getExams(filter: { scheduleItemIds?: string[] } = {}): Promise<Exam[]> {
+    if (filter.scheduleItemIds?.length === 0) return [];
+    return db.select().from(exams)
+      .where(filter.scheduleItemIds ? inArray(exams.scheduleItemId, filter.scheduleItemIds) : undefined)
+      .orderBy(asc(exams.date), asc(exams.startMinutes));
+  }
+
+  async getExamById(id: string): Promise<Exam | undefined> {
+    const [exam] = await db.select().from(exams).where(eq(exams.id, id));
+    return exam;
+  }
+
+  async createExam(data: InsertExam): Promise<Exam> {
+    const [exam] = await db.insert(exams).values({ id: randomUUID(), ...data }).returning();
+    return exam;
+  }
+
+  async updateExam(id: string, data: Partial<InsertExam>): Promise<Exam | undefined> {
+    const [updated] = await db.update(exams).set(data).where(eq(exams.id, id)).returning();
+    return updated;
+  }
+
+  async deleteExam(id: string): Promise<boolean> {
+    const result = await db.delete(exams).where(eq(exams.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // ── Enrollments ──────────────────────────────────────────────────────────────
+
+  async getEnrollments(filter: { studentId?: string; scheduleItemId?: string } = {}): Promise<Enrollment[]> {
+    const conditions = [];
+    if (filter.studentId) conditions.push(eq(enrollments.studentId, filter.studentId));
+    if (filter.scheduleItemId) conditions.push(eq(enrollments.scheduleItemId, filter.scheduleItemId));
+    return db.select().from(enrollments).where(and(...conditions));
+  }
+
+  async getEnrollmentById(id: string): Promise<Enrollment | undefined> {
+    const [enrollment] = await db.select().from(enrollments).where(eq(enrollments.id, id));
+    return enrollment;
+  }
+
+  async createEnrollment(data: InsertEnrollment): Promise<Enrollment> {
+    const [enrollment] = await db.insert(enrollments).values({
+      id: randomUUID(),
+      ...data,
+    }).returning();
+    return enrollment;
+  }
+
+  async updateEnrollment(id: string, data: Partial<InsertEnrollment>): Promise<Enrollment | undefined> {
+    const [updated] = await db.update(enrollments).set(data).where(eq(enrollments.id, id)).returning();
+    return updated;
+  }
+
+  // ── Attendance ───────────────────────────────────────────────────────────────
+
+  async getAttendance(filter: { scheduleItemId?: string; studentId?: string; date?: string }): Promise<AttendanceRecord[]> {
+    const conditions = [];
+    if (filter.scheduleItemId) conditions.push(eq(attendanceRecords.scheduleItemId, filter.scheduleItemId));
+    if (filter.studentId) conditions.push(eq(attendanceRecords.studentId, filter.studentId));
+    if (filter.date) conditions.push(eq(attendanceRecords.date, filter.date));
+    return db.select().from(attendanceRecords).where(and(...conditions)).orderBy(asc(attendanceRecords.date));
+  }
+
+  async saveAttendance(rows: InsertAttendanceRecord[]): Promise<AttendanceRecord[]> {
+    return db.transaction(async (tx) => {
+      const saved: AttendanceRecord[] = [];
+      for (const row of rows) {
+        const [record] = await tx.insert(attendanceRecords).values({ id: randomUUID(), ...row })
+          .onConflictDoUpdate({
+            target: [attendanceRecords.enrollmentId, attendanceRecords.date],
+            set: { status: row.status, remarks: row.remarks, recordedBy: row.recordedBy, recordedAt: row.recordedAt },
+          })
+          .returning();
+        saved.push(record);
+      }
+      return saved;
+    });
+  }
+
+  async checkIn(row: InsertAttendanceRecord): Promise<AttendanceRecord | undefined> {
+    const [record] = await db.insert(attendanceRecords).values({ id: randomUUID(), ...row })
+      .onConflictDoNothing({ target: [attendanceRecords.enrollmentId, attendanceRecords.date] })
+      .returning();
+    return record;
+  }
+
+  async createCheckinToken(data: InsertCheckinToken): Promise<CheckinToken> {
+    const [created] = await db.insert(checkinTokens).values(data).returning();
+    return created;
+  }
+
+  async getCheckinToken(token: string): Promise<CheckinToken | undefined> {
+    const [row] = await db.select().from(checkinTokens).where(eq(checkinTokens.token, token));
+    return row;
+  }
+
+  async deleteExpiredCheckinTokens(): Promise<void> {
+    await db.delete(checkinTokens).where(lt(checkinTokens.expiresAt, Date.now()));
+  }
+
   // ── Announcements ─────────────────────────────────────────────────────────────
 
   async getAllAnnouncements(): Promise<Announcement[]> {
@@ -251,6 +1009,51 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
+  // ── Academic Calendar ────────────────────────────────────────────────────────
+
+  async getCalendarEvents(filter: { from?: string; to?: string } = {}): Promise<CalendarEvent[]> {
+    const conditions = [];
+    if (filter.from) conditions.push(gte(calendarEvents.endDate, filter.from));
+    if (filter.to) conditions.push(lte(calendarEvents.startDate, filter.to));
+    return db.select().from(calendarEvents).where(and(...conditions))
+      .orderBy(asc(calendarEvents.startDate), asc(calendarEvents.endDate));
+  }
+
+  async getCalendarEventById(id: string): Promise<CalendarEvent | undefined> {
+    const [event] = await db.select().from(calendarEvents).where(eq(calendarEvents.id, id));
+    return event;
+  }
+
+  async createCalendarEvent(data: InsertCalendarEvent): Promise<CalendarEvent> {
+    const [event] = await db.insert(calendarEvents).values({ id: randomUUID(), ...data }).returning();
+    return event;
+  }
+
+  async updateCalendarEvent(id: string, data: Partial<InsertCalendarEvent>): Promise<CalendarEvent | undefined> {
+    const [updated] = await db.update(calendarEvents).set(data).where(eq(calendarEvents.id, id)).returning();
+    return updated;
+  }
+
+  async deleteCalendarEvent(id: string): Promise<boolean> {
+    const result = await db.delete(calendarEvents).where(eq(calendarEvents.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // ── Settings ───────────────────────────────────────────────────────────────────
+
+  async getSetting<T>(key: string): Promise<T | undefined> {
+    const [row] = await db.select().from(settings).where(eq(settings.key, key));
+    return row?.value as T | undefined;
+  }
+
+  async setSetting<T>(key: string, value: T): Promise<T> {
+    const updatedAt = Date.now();
+    await db.insert(settings)
+      .values({ key, value, updatedAt })
+      .onConflictDoUpdate({ target: settings.key, set: { value, updatedAt } });
+    return value;
+  }
+
   // ── Sessions ──────────────────────────────────────────────────────────────────
 
   async createSession(token: string, userId: string, role: string, expiresAt: number): Promise<void> {
@@ -266,6 +1069,10 @@ export class DatabaseStorage implements IStorage {
     await db.delete(sessions).where(eq(sessions.token, token));
   }
 
+  async deleteUserSessions(userId: string): Promise<void> {
+    await db.delete(sessions).where(eq(sessions.userId, userId));
+  }
+
   async deleteExpiredSessions(): Promise<void> {
     await db.delete(sessions).where(lt(sessions.expiresAt, Date.now()));
   }
@@ -0,0 +1,137 @@
+import type { Grade, Student, Term } from "../shared/schema";
+import { computeGwa, type GradingScale } from "../shared/grades";
+import { sortSemesterLabels } from "../shared/terms";
+import { PdfDocument } from "./pdf";
+
+// ─── Transcript of Records ────────────────────────────────────────────────────
+//
+// Lays out every graded subject grouped by term, oldest first, with per-term
+// and cumulative units and GWA.
+
+const SCHOOL_NAME = "Zamboanga Del Sur Provincial Government College";
+const MARGIN = 48;
+const BOTTOM = 780;
+const ROW_HEIGHT = 16;
+const MUTED: [number, number, number] = [0.42, 0.45, 0.5];
+const BRAND: [number, number, number] = [0.1, 0.23, 0.42];
+const BAND: [number, number, number] = [0.93, 0.95, 0.97];
+
+// Column positions: code, title, units (right edge), grade (right edge), remarks
+const COL = { code: MARGIN, title: 120, units: 400, grade: 455, remarks: 475 };
+
+function fullName(s: Student): string {
+  const given = [s.firstName, s.middleName, s.suffix].filter(Boolean).join(" ");
+  return `${s.lastName}, ${given}`;
+}
+
+function formatIssued(date: Date): string {
+  return date.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" });
+}
+
+export function renderTranscript(
+  student: Student,
+  grades: Grade[],
+  terms: Term[],
+  scale: GradingScale,
+  issued = new Date(),
+): Buffer {
+  const doc = new PdfDocument();
+  const right = doc.width - MARGIN;
+  let y = 0;
+
+  const pageHeader = (continued: boolean) => {
+    doc.text(SCHOOL_NAME, doc.width / 2, 56, { size: 14, bold: true, align: "center", color: BRAND });
+    doc.text(continued ? "Transcript of Records (continued)" : "Transcript of Records", doc.width / 2, 74, {
+      size: 11, align: "center",
+    });
+    doc.line(MARGIN, 84, right, 84, 1, BRAND);
+    y = 104;
+    if (continued) {
+      doc.text(`${fullName(student)} · ${student.studentId}`, MARGIN, y, { size: 9, color: MUTED });
+      y += 18;
+    }
+  };
+
+  const ensureRoom = (height: number) => {
+    if (y + height <= BOTTOM) return;
+    doc.addPage();
+    pageHeader(true);
+  };
+
+  const infoRow = (label: string, value: string, x: number) => {
+    doc.text(label, x, y, { size: 8, color: MUTED });
+    doc.text(doc.fit(value || "—", 200, 10, true), x, y + 12, { size: 10, bold: true });
+  };
+
+  pageHeader(false);
+  infoRow("Name", fullName(student), MARGIN);
+  infoRow("Student ID", student.studentId, 330);
+  y += 30;
+  infoRow("Course", student.course, MARGIN);
+  infoRow("Year Level / Status", `${student.yearLevel} · ${student.status}`, 330);
+  y += 30;
+  infoRow("Date Issued", formatIssued(issued), MARGIN);
+  y += 36;
+
+  const semesters = sortSemesterLabels([...new Set(grades.map((g) => g.semester))], terms);
+  if (semesters.length === 0) {
+    doc.text("No grades on record.", MARGIN, y, { size: 10, color: MUTED });
+  }
+
+  for (const semester of semesters) {
+    const termGrades = grades
+      .filter((g) => g.semester === semester)
+      .sort((a, b) => a.subjectCode.localeCompare(b.subjectCode));
+
+    // Keep the term heading with at least its first row
+    ensureRoom(ROW_HEIGHT * 3);
+    doc.text(semester, MARGIN, y, { size: 11, bold: true, color: BRAND });
+    y += 8;
+    doc.rect(MARGIN, y, right - MARGIN, ROW_HEIGHT, BAND);
+    const headY = y + 11;
+    doc.text("Code", COL.code + 4, headY, { size: 8, bold: true });
+    doc.text("Descriptive Title", COL.title, headY, { size: 8, bold: true });
+    doc.text("Units", COL.units, headY, { size: 8, bold: true, align: "right" });
+    doc.text("Grade", COL.grade, headY, { size: 8, bold: true, align: "right" });
+    doc.text("Remarks", COL.remarks, headY, { size: 8, bold: true });
+    y += ROW_HEIGHT;
+
+    for (const g of termGrades) {
+      ensureRoom(ROW_HEIGHT);
+      const rowY = y + 11;
+      doc.text(doc.fit(g.subjectCode, COL.title - COL.code - 8, 9), COL.code + 4, rowY, { size: 9 });
+      doc.text(doc.fit(g.subjectName, COL.units - COL.title - 30, 9), COL.title, rowY, { size: 9 });
+      doc.text(String(g.units), COL.units, rowY, { size: 9, align: "right" });
+      doc.text(g.grade, COL.grade, rowY, { size: 9, bold: true, align: "right" });
+      doc.text(doc.fit(g.remarks, right - COL.remarks, 9), COL.remarks, rowY, { size: 9 });
+      y += ROW_HEIGHT;
+      doc.line(MARGIN, y, right, y, 0.25, MUTED);
+    }
+
+    ensureRoom(ROW_HEIGHT + 18);
+    const termUnits = termGrades.reduce((acc, g) => acc + g.units, 0);
+    doc.text(`Units: ${termUnits}`, COL.units, y + 12, { size: 9, bold: true, align: "right" });
+    doc.text(`GWA: ${computeGwa(termGrades, scale).toFixed(2)}`, right, y + 12, { size: 9, bold: true, align: "right" });
+    y += ROW_HEIGHT + 18;
+  }
+
+  if (semesters.length > 0) {
+    ensureRoom(40);
+    doc.line(MARGIN, y, right, y, 1, BRAND);
+    const totalUnits = grades.reduce((acc, g) => acc + g.units, 0);
+    doc.text(`Total Units: ${totalUnits}`, MARGIN, y + 18, { size: 10, bold: true });
+    doc.text(`Cumulative GWA: ${computeGwa(grades, scale).toFixed(2)}`, right, y + 18, { size: 10, bold: true, align: "right" });
+  }
+
+  // Footers go on last, once the page count is known
+  for (let i = 0; i < doc.pageCount; i++) {
+    doc.goToPage(i);
+    doc.line(MARGIN, doc.height - 40, right, doc.height - 40, 0.25, MUTED);
+    doc.text("Not valid without the registrar's signature and school seal.", MARGIN, doc.height - 28, {
+      size: 8, color: MUTED,
+    });
+    doc.text(`Page ${i + 1} of ${doc.pageCount}`, right, doc.height - 28, { size: 8, color: MUTED, align: "right" });
+  }
+
+  return doc.toBuffer();
+}
@@ -0,0 +1,96 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_ATTENDANCE_POLICY,
+  parseAttendancePolicy,
+  schoolToday,
+  summarizeAttendance,
+  weekDayOfIsoDate,
+} from "./attendance";
+
+const repeat = (status: string, times: number) => Array.from({ length: times }, () => status);
+
+// 20 meetings under the default policy: a warning from 2 absences (10%), over
+// the limit past 4 (20%)
+const summarize = (statuses: string[], meetings = 20) =>
+  summarizeAttendance(statuses, meetings, DEFAULT_ATTENDANCE_POLICY);
+
+describe("summarizeAttendance", () => {
+  it("raises no alert under the warning threshold", () => {
+    const result = summarize([...repeat("present", 10), "absent"]);
+    assert.equal(result.absences, 1);
+    assert.equal(result.absencePercent, 5);
+    assert.equal(result.alert, "none");
+  });
+
+  it("warns at the warning percentage", () => {
+    assert.equal(summarize(repeat("absent", 2)).alert, "warning");
+  });
+
+  it("still warns at exactly the limit, and exceeds it past the limit", () => {
+    assert.equal(summarize(repeat("absent", 4)).alert, "warning");
+    assert.equal(summarize(repeat("absent", 5)).alert, "exceeded");
+  });
+
+  it("counts every few lates as one absence", () => {
+    const result = summarize([...repeat("late", 7), "absent"]);
+    assert.equal(result.late, 7);
+    assert.equal(result.absences, 3);
+    assert.equal(result.alert, "warning");
+  });
+
+  it("ignores lates when the policy says so", () => {
+    const policy = { ...DEFAULT_ATTENDANCE_POLICY, lateEquivalent: 0 };
+    assert.equal(summarizeAttendance(repeat("late", 9), 20, policy).absences, 0);
+  });
+
+  it("doesn't count excused absences", () => {
+    const result = summarize(repeat("excused", 6));
+    assert.equal(result.excused, 6);
+    assert.equal(result.absences, 0);
+    assert.equal(result.alert, "none");
+  });
+
+  it("measures against the recorded meetings when the term has no dates", () => {
+    const result = summarize(["present", "present", "present", "absent"], 0);
+    assert.equal(result.meetings, 4);
+    assert.equal(result.absencePercent, 25);
+    assert.equal(result.alert, "exceeded");
+  });
+});
+
+describe("parseAttendancePolicy", () => {
+  it("accepts numbers sent as strings", () => {
+    assert.deepEqual(
+      parseAttendancePolicy({ lateEquivalent: "2", warningPercent: "15", limitPercent: 30 }),
+      { lateEquivalent: 2, warningPercent: 15, limitPercent: 30 },
+    );
+  });
+
+  it("rejects blank, fractional and out-of-order thresholds", () => {
+    assert.equal(typeof parseAttendancePolicy({ lateEquivalent: "", warningPercent: 10, limitPercent: 20 }), "string");
+    assert.equal(typeof parseAttendancePolicy({ lateEquivalent: 1.5, warningPercent: 10, limitPercent: 20 }), "string");
+    assert.equal(typeof parseAttendancePolicy({ lateEquivalent: 3, warningPercent: 30, limitPercent: 20 }), "string");
+    assert.equal(typeof parseAttendancePolicy({ lateEquivalent: 3, warningPercent: 10, limitPercent: 120 }), "string");
+  });
+});
+
+describe("weekDayOfIsoDate", () => {
+  it("names the weekday of a date", () => {
+    assert.equal(weekDayOfIsoDate("2025-09-01"), "Monday");
+    assert.equal(weekDayOfIsoDate("2025-09-07"), "Sunday");
+  });
+
+  it("rejects dates that don't exist", () => {
+    assert.equal(weekDayOfIsoDate("2025-02-30"), null);
+    assert.equal(weekDayOfIsoDate("9/1/2025"), null);
+  });
+});
+
+describe("schoolToday", () => {
+  it("follows the school's calendar day, not the server's", () => {
+    const evening = new Date("2025-09-01T20:00:00Z");
+    assert.equal(schoolToday("Asia/Manila", evening), "2025-09-02");
+    assert.equal(schoolToday("UTC", evening), "2025-09-01");
+  });
+});
@@ -0,0 +1,167 @@
+import { WEEK_DAYS, type WeekDay } from "./schedule";
+import { parsePolicyNumber } from "./standing";
+
+// ─── Attendance ───────────────────────────────────────────────────────────────
+//
+// Attendance is taken per class meeting: one record per enrolled student and
+// date. Absences are counted against the meetings the class has in its term;
+// every few lates count as one absence, and excused absences don't count.
+
+export const ATTENDANCE_STATUSES = ["present", "late", "absent", "excused"] as const;
+export type AttendanceStatus = (typeof ATTENDANCE_STATUSES)[number];
+
+export const ATTENDANCE_LABELS: Record<AttendanceStatus, string> = {
+  present: "Present",
+  late: "Late",
+  absent: "Absent",
+  excused: "Excused",
+};
+
+export const ABSENCE_ALERTS = ["none", "warning", "exceeded"] as const;
+export type AbsenceAlert = (typeof ABSENCE_ALERTS)[number];
+
+export interface AttendancePolicy {
+  /** This many lates count as one absence (0: lates never do) */
+  lateEquivalent: number;
+  /** Absences at this percentage of the term's meetings raise a warning */
+  warningPercent: number;
+  /** Absences above this percentage of the term's meetings exceed the limit */
+  limitPercent: number;
+}
+
+export const DEFAULT_ATTENDANCE_POLICY: AttendancePolicy = {
+  lateEquivalent: 3,
+  warningPercent: 10,
+  limitPercent: 20,
+};
+
+export interface AttendanceSummary {
+  present: number;
+  late: number;
+  absent: number;
+  excused: number;
+  /** Meetings with a record */
+  recorded: number;
+  /** Meetings the class has in the term (the recorded ones when the term has no dates) */
+  meetings: number;
+  /** Absences plus the absences lates add up to */
+  absences: number;
+  absencePercent: number;
+  alert: AbsenceAlert;
+}
+
+// ─── QR check-in ──────────────────────────────────────────────────────────────
+//
+// The instructor's device shows a QR code for today's meeting that changes
+// every CHECKIN_ROTATION_SECONDS. Each code stays valid a little longer than it
+// is shown so a scan started just before it changes still goes through.
+
+export const CHECKIN_ROTATION_SECONDS = 15;
+export const CHECKIN_TOKEN_TTL_SECONDS = 30;
+
+const CHECKIN_QR_PREFIX = "zdspgc-checkin:";
+
+/** The text encoded in the QR code for a check-in token. */
+export function checkinQrValue(token: string): string {
+  return `${CHECKIN_QR_PREFIX}${token}`;
+}
+
+/** The check-in token in scanned QR text, or null when it's some other code. */
+export function parseCheckinQr(data: string): string | null {
+  if (!data.startsWith(CHECKIN_QR_PREFIX)) return null;
+  const token = data.slice(CHECKIN_QR_PREFIX.length).trim();
+  return token || null;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** The WeekDay of a YYYY-MM-DD date, or null when it isn't one. */
+export function weekDayOfIsoDate(date: string): WeekDay | null {
+  if (!DATE_PATTERN.test(date)) return null;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  if (Number.isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== date) return null;
+  // getUTCDay is 0 for Sunday; WEEK_DAYS starts on Monday
+  return WEEK_DAYS[(parsed.getUTCDay() + 6) % 7];
+}
+
+/** Whether a class meeting on `days` falls on `date` (YYYY-MM-DD). */
+export function isMeetingDate(days: string[], date: string): boolean {
+  const day = weekDayOfIsoDate(date);
+  return day !== null && days.includes(day);
+}
+
+/** The dates (YYYY-MM-DD) a class meeting on `days` meets from `startDate` to `endDate`, inclusive. */
+export function meetingDates(days: string[], startDate: string, endDate: string): string[] {
+  if (!weekDayOfIsoDate(startDate) || !weekDayOfIsoDate(endDate) || days.length === 0) return [];
+  const dates: string[] = [];
+  const end = new Date(`${endDate}T00:00:00Z`).getTime();
+  for (let t = new Date(`${startDate}T00:00:00Z`).getTime(); t <= end; t += 86_400_000) {
+    const date = new Date(t).toISOString().slice(0, 10);
+    if (isMeetingDate(days, date)) dates.push(date);
+  }
+  return dates;
+}
+
+/** A local date as YYYY-MM-DD. */
+export function toIsoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+/** The school's timezone: classes, check-in and exams follow its calendar day. */
+export const SCHOOL_TIME_ZONE = "Asia/Manila";
+
+/**
+ * Today's date (YYYY-MM-DD) in `timeZone`. The server runs in UTC, where a
+ * 7:30 AM class in Manila still falls on the previous day.
+ */
+export function schoolToday(timeZone: string = SCHOOL_TIME_ZONE, now: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone, year: "numeric", month: "2-digit", day: "2-digit",
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? "";
+  return `${part("year")}-${part("month")}-${part("day")}`;
+}
+
+/** Tallies one student's records in one class against the policy. */
+export function summarizeAttendance(
+  statuses: string[],
+  meetings: number,
+  policy: AttendancePolicy,
+): AttendanceSummary {
+  const count = (status: AttendanceStatus) => statuses.filter((s) => s === status).length;
+  const present = count("present");
+  const late = count("late");
+  const absent = count("absent");
+  const excused = count("excused");
+  const recorded = statuses.length;
+  const base = meetings > 0 ? meetings : recorded;
+  const absences = absent + (policy.lateEquivalent > 0 ? Math.floor(late / policy.lateEquivalent) : 0);
+  const absencePercent = base > 0 ? parseFloat(((absences / base) * 100).toFixed(1)) : 0;
+
+  let alert: AbsenceAlert = "none";
+  if (absences > 0 && absencePercent > policy.limitPercent) alert = "exceeded";
+  else if (absences > 0 && absencePercent >= policy.warningPercent) alert = "warning";
+  return { present, late, absent, excused, recorded, meetings: base, absences, absencePercent, alert };
+}
+
+/**
+ * Checks an admin-submitted policy. Returns the cleaned-up policy, or the
+ * message for a 400 response.
+ */
+export function parseAttendancePolicy(input: unknown): AttendancePolicy | string {
+  if (!input || typeof input !== "object") return "An attendance policy object is required";
+  const body = input as Record<string, unknown>;
+  const number = (key: keyof AttendancePolicy) => parsePolicyNumber(body[key]);
+
+  const lateEquivalent = number("lateEquivalent");
+  const warningPercent = number("warningPercent");
+  const limitPercent = number("limitPercent");
+  if (lateEquivalent === null || !Number.isInteger(lateEquivalent)) {
+    return "lateEquivalent must be a whole number (0 to ignore lates)";
+  }
+  if (warningPercent === null || warningPercent > 100) return "warningPercent must be between 0 and 100";
+  if (limitPercent === null || limitPercent > 100) return "limitPercent must be between 0 and 100";
+  if (limitPercent < warningPercent) return "limitPercent must be at least warningPercent";
+  return { lateEquivalent, warningPercent, limitPercent };
+}
@@ -0,0 +1,47 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { classCancellation, datesBetween, monthRange, type CalendarSpan } from "./calendar";
+
+const event = (type: string, startDate: string, endDate = startDate): CalendarSpan => ({
+  type,
+  title: `${type} ${startDate}`,
+  startDate,
+  endDate,
+});
+
+describe("classCancellation", () => {
+  const holiday = event("holiday", "2025-11-01", "2025-11-03");
+  const suspension = event("suspension", "2025-11-10");
+  const enrollment = event("enrollment", "2025-11-01", "2025-11-30");
+
+  it("finds the holiday covering a date, end days included", () => {
+    assert.equal(classCancellation([enrollment, holiday], "2025-11-01"), holiday);
+    assert.equal(classCancellation([enrollment, holiday], "2025-11-03"), holiday);
+  });
+
+  it("cancels classes on a suspension", () => {
+    assert.equal(classCancellation([holiday, suspension], "2025-11-10"), suspension);
+  });
+
+  it("leaves classes alone outside the events and on informational ones", () => {
+    assert.equal(classCancellation([holiday, enrollment], "2025-11-04"), null);
+    assert.equal(classCancellation([event("grade_deadline", "2025-11-05")], "2025-11-05"), null);
+  });
+});
+
+describe("datesBetween", () => {
+  it("lists every day inclusive, across a month end", () => {
+    assert.deepEqual(datesBetween("2025-08-30", "2025-09-02"), ["2025-08-30", "2025-08-31", "2025-09-01", "2025-09-02"]);
+  });
+
+  it("is empty when the range is backwards", () => {
+    assert.deepEqual(datesBetween("2025-09-02", "2025-09-01"), []);
+  });
+});
+
+describe("monthRange", () => {
+  it("ends on the month's last day, leap years included", () => {
+    assert.deepEqual(monthRange(2024, 1), { from: "2024-02-01", to: "2024-02-29" });
+    assert.deepEqual(monthRange(2025, 11), { from: "2025-12-01", to: "2025-12-31" });
+  });
+});
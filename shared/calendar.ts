@@ -0,0 +1,72 @@
+// ─── Academic Calendar ────────────────────────────────────────────────────────
+//
+// School-wide dates posted by the registrar: holidays, class suspensions,
+// enrollment periods and grade deadlines. Each event covers a range of whole
+// days. Holidays and suspensions cancel every class meeting on the days they
+// cover; the other kinds are informational.
+
+export const CALENDAR_EVENT_TYPES = ["holiday", "suspension", "enrollment", "grade_deadline"] as const;
+export type CalendarEventType = (typeof CALENDAR_EVENT_TYPES)[number];
+
+export const CALENDAR_EVENT_LABELS: Record<CalendarEventType, string> = {
+  holiday: "Holiday",
+  suspension: "Class Suspension",
+  enrollment: "Enrollment",
+  grade_deadline: "Grade Deadline",
+};
+
+/** The event types that cancel class meetings on the days they cover. */
+export const CLASS_CANCELLING_TYPES: readonly CalendarEventType[] = ["holiday", "suspension"];
+
+/** The fields of a calendar event that place it on the calendar. */
+export interface CalendarSpan {
+  type: string;
+  title: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+}
+
+/** Whether the event covers `date` (YYYY-MM-DD). */
+export function coversDate(event: CalendarSpan, date: string): boolean {
+  return event.startDate <= date && date <= event.endDate;
+}
+
+/** Whether the event cancels classes. */
+export function cancelsClasses(event: CalendarSpan): boolean {
+  return (CLASS_CANCELLING_TYPES as readonly string[]).includes(event.type);
+}
+
+/**
+ * The holiday or suspension that cancels classes on `date`, or null when
+ * classes meet as usual.
+ */
+export function classCancellation<T extends CalendarSpan>(events: T[], date: string): T | null {
+  return events.find((e) => cancelsClasses(e) && coversDate(e, date)) ?? null;
+}
+
+/** Every date (YYYY-MM-DD) from `from` to `to`, inclusive. */
+export function datesBetween(from: string, to: string): string[] {
+  const dates: string[] = [];
+  const end = new Date(`${to}T00:00:00Z`).getTime();
+  for (let t = new Date(`${from}T00:00:00Z`).getTime(); t <= end; t += 86_400_000) {
+    dates.push(new Date(t).toISOString().slice(0, 10));
+  }
+  return dates;
+}
+
+/** The first and last day (YYYY-MM-DD) of a month; `month` is 0-based. */
+export function monthRange(year: number, month: number): { from: string; to: string } {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return { from: `${year}-${pad(month + 1)}-01`, to: `${year}-${pad(month + 1)}-${pad(lastDay)}` };
+}
+
+/** "Mon, Oct 19" for one day, "Oct 19 – Oct 23" for a range. */
+export function formatEventDates(event: Pick<CalendarSpan, "startDate" | "endDate">): string {
+  const format = (date: string, options: Intl.DateTimeFormatOptions) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString("en-US", options);
+  if (event.startDate === event.endDate) {
+    return format(event.startDate, { weekday: "short", month: "short", day: "numeric" });
+  }
+  return `${format(event.startDate, { month: "short", day: "numeric" })} – ${format(event.endDate, { month: "short", day: "numeric" })}`;
+}
@@ -0,0 +1,81 @@
+import { isPassingGrade, type GradingScale } from "./grades";
+
+// ─── Degree Progress ──────────────────────────────────────────────────────────
+//
+// A curriculum lists the subjects of a program by year level and semester.
+// Each one is marked from the student's released grades and current
+// enrollments: passed, in progress, failed (graded but not passed, and not
+// being retaken), or still remaining.
+
+export const PROGRESS_STATUSES = ["passed", "in_progress", "failed", "remaining"] as const;
+export type ProgressStatus = (typeof PROGRESS_STATUSES)[number];
+
+export const PROGRESS_LABELS: Record<ProgressStatus, string> = {
+  passed: "Passed",
+  in_progress: "In Progress",
+  failed: "Failed",
+  remaining: "Remaining",
+};
+
+/** A curriculum slot with the catalog details of its subject. */
+export interface CurriculumEntryLike {
+  subjectId: string;
+  units: number;
+  yearLevel: string;
+  semester: string;
+}
+
+export interface ProgressGrade {
+  subjectId: string | null;
+  grade: string;
+}
+
+export type ProgressItem<T extends CurriculumEntryLike> = T & {
+  status: ProgressStatus;
+  /** The passing grade, or the latest one recorded */
+  grade: string | null;
+};
+
+export interface DegreeProgress<T extends CurriculumEntryLike> {
+  items: ProgressItem<T>[];
+  totalUnits: number;
+  unitsPassed: number;
+  unitsRemaining: number;
+}
+
+const SEMESTER_ORDER = ["1st Semester", "2nd Semester", "Summer"];
+
+/** Orders curriculum slots by year level ("1st Year" < "2nd Year"), then semester. */
+export function compareCurriculumSlots(a: { yearLevel: string; semester: string }, b: { yearLevel: string; semester: string }): number {
+  const year = (parseInt(a.yearLevel) || 0) - (parseInt(b.yearLevel) || 0);
+  if (year !== 0) return year;
+  const rank = (s: string) => {
+    const i = SEMESTER_ORDER.indexOf(s);
+    return i === -1 ? SEMESTER_ORDER.length : i;
+  };
+  return rank(a.semester) - rank(b.semester);
+}
+
+/**
+ * Marks every curriculum entry. `grades` are the student's released grades,
+ * oldest first; `inProgress` holds the subject ids they are enrolled in now.
+ * Units remaining count everything not yet passed.
+ */
+export function computeDegreeProgress<T extends CurriculumEntryLike>(
+  entries: T[],
+  grades: ProgressGrade[],
+  inProgress: ReadonlySet<string>,
+  scale: GradingScale,
+): DegreeProgress<T> {
+  const items = [...entries].sort(compareCurriculumSlots).map((entry): ProgressItem<T> => {
+    const own = grades.filter((g) => g.subjectId === entry.subjectId);
+    const passing = own.find((g) => isPassingGrade(g.grade, scale));
+    if (passing) return { ...entry, status: "passed", grade: passing.grade };
+    const latest = own.length > 0 ? own[own.length - 1].grade : null;
+    if (inProgress.has(entry.subjectId)) return { ...entry, status: "in_progress", grade: latest };
+    return { ...entry, status: latest ? "failed" : "remaining", grade: latest };
+  });
+  const totalUnits = items.reduce((acc, i) => acc + i.units, 0);
+  const unitsPassed = items.filter((i) => i.status === "passed").reduce((acc, i) => acc + i.units, 0);
+  return { items, totalUnits, unitsPassed, unitsRemaining: totalUnits - unitsPassed };
+}
@@ -0,0 +1,54 @@
+// ─── Exams ────────────────────────────────────────────────────────────────────
+//
+// Exams are one-off sittings of a class offering on a specific date, unlike
+// the weekly meetings in shared/schedule.ts. Two exams clash when they are on
+// the same date with overlapping times and share a student, a room or a proctor.
+
+export const EXAM_TYPES = ["prelim", "midterm", "final"] as const;
+export type ExamType = (typeof EXAM_TYPES)[number];
+
+export const EXAM_TYPE_LABELS: Record<ExamType, string> = {
+  prelim: "Prelim",
+  midterm: "Midterm",
+  final: "Final",
+};
+
+export type ExamConflictReason = "students" | "room" | "proctor";
+
+/** The fields of an exam sitting that decide whether it clashes with another. */
+export interface ExamSlot {
+  date: string; // YYYY-MM-DD
+  startMinutes: number;
+  endMinutes: number;
+}
+
+/** Whether two sittings are on the same date with overlapping times (touching is fine). */
+export function examsOverlap(a: ExamSlot, b: ExamSlot): boolean {
+  return a.date === b.date && a.startMinutes < b.endMinutes && b.startMinutes < a.endMinutes;
+}
+
+/** Orders sittings by date, then start time. */
+export function compareExams(a: ExamSlot, b: ExamSlot): number {
+  return a.date.localeCompare(b.date) || a.startMinutes - b.startMinutes;
+}
+
+/** When a sitting starts, as a local Date. */
+export function examStart(exam: ExamSlot): Date {
+  const start = new Date(`${exam.date}T00:00:00`);
+  start.setMinutes(exam.startMinutes);
+  return start;
+}
+
+/**
+ * Time left until `start` for the exam countdown: "3d 4h", "5h 20m",
+ * "12m", or null once it has started.
+ */
+export function formatCountdown(start: Date, now: Date): string | null {
+  const minutes = Math.ceil((start.getTime() - now.getTime()) / 60_000);
+  if (minutes <= 0) return null;
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
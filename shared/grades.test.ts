@@ -0,0 +1,54 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { computeGwa, DEFAULT_GRADING_SCALE, isPassingGrade, normalizeGrade } from "./grades";
+
+describe("computeGwa", () => {
+  it("weights each grade by its units", () => {
+    const gwa = computeGwa([
+      { grade: "1.00", units: 3 },
+      { grade: "2.00", units: 1 },
+    ]);
+    assert.equal(gwa, 1.25);
+  });
+
+  it("counts DRP as 5.00 but leaves out INC and W", () => {
+    const gwa = computeGwa([
+      { grade: "1.00", units: 3 },
+      { grade: "DRP", units: 3 },
+      { grade: "INC", units: 3 },
+      { grade: "w", units: 3 },
+    ]);
+    assert.equal(gwa, 3);
+  });
+
+  it("skips legacy free-text grades", () => {
+    assert.equal(computeGwa([{ grade: "1.50", units: 3 }, { grade: "Passed", units: 3 }]), 1.5);
+  });
+
+  it("is 0 when nothing can be averaged", () => {
+    assert.equal(computeGwa([]), 0);
+    assert.equal(computeGwa([{ grade: "INC", units: 3 }]), 0);
+  });
+});
+
+describe("normalizeGrade", () => {
+  it("spells grades the way the scale does", () => {
+    assert.equal(normalizeGrade("1.5", DEFAULT_GRADING_SCALE), "1.50");
+    assert.equal(normalizeGrade(3, DEFAULT_GRADING_SCALE), "3.00");
+    assert.equal(normalizeGrade(" inc ", DEFAULT_GRADING_SCALE), "INC");
+  });
+
+  it("rejects grades the scale doesn't allow", () => {
+    assert.equal(normalizeGrade("1.10", DEFAULT_GRADING_SCALE), null);
+    assert.equal(normalizeGrade("A", DEFAULT_GRADING_SCALE), null);
+    assert.equal(normalizeGrade("", DEFAULT_GRADING_SCALE), null);
+  });
+});
+
+describe("isPassingGrade", () => {
+  it("passes up to the passing grade only", () => {
+    assert.equal(isPassingGrade("3.00", DEFAULT_GRADING_SCALE), true);
+    assert.equal(isPassingGrade("4.00", DEFAULT_GRADING_SCALE), false);
+    assert.equal(isPassingGrade("INC", DEFAULT_GRADING_SCALE), false);
+  });
+});
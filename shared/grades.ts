@@ -0,0 +1,156 @@
+// ─── Grading Scale ────────────────────────────────────────────────────────────
+//
+// Grades use the Philippine 1.00–5.00 scale, where lower is better. The scale
+// lists every numeric grade an instructor may give, the worst grade that
+// still passes, and the letter codes (INC, DRP, W) that stand in for a grade.
+
+/** A non-numeric grade such as INC, and how it is reported. */
+export interface SpecialGradeCode {
+  code: string;
+  remarks: string;
+  /** Whether the code counts toward GWA, at `gradePoints` (e.g. DRP as 5.00) */
+  countsTowardGwa: boolean;
+  gradePoints: number;
+}
+
+export interface GradingScale {
+  /** Allowed numeric grades in their canonical spelling, best first */
+  values: string[];
+  /** The worst numeric grade that passes */
+  passingGrade: number;
+  /** A grade between passing and failing that allows a removal exam (4.00), or null */
+  conditionalGrade: number | null;
+  passedRemarks: string;
+  conditionalRemarks: string;
+  failedRemarks: string;
+  specialCodes: SpecialGradeCode[];
+}
+
+export const DEFAULT_GRADING_SCALE: GradingScale = {
+  values: ["1.00", "1.25", "1.50", "1.75", "2.00", "2.25", "2.50", "2.75", "3.00", "4.00", "5.00"],
+  passingGrade: 3.0,
+  conditionalGrade: 4.0,
+  passedRemarks: "Passed",
+  conditionalRemarks: "Conditional",
+  failedRemarks: "Failed",
+  specialCodes: [
+    { code: "INC", remarks: "Incomplete", countsTowardGwa: false, gradePoints: 0 },
+    { code: "DRP", remarks: "Dropped", countsTowardGwa: true, gradePoints: 5.0 },
+    { code: "W", remarks: "Withdrawn", countsTowardGwa: false, gradePoints: 0 },
+  ],
+};
+
+function findSpecialCode(grade: string, scale: GradingScale): SpecialGradeCode | undefined {
+  const code = grade.trim().toUpperCase();
+  return scale.specialCodes.find((s) => s.code === code);
+}
+
+/**
+ * The canonical spelling of a grade ("1.5" → "1.50", "inc" → "INC"), or
+ * null when the scale doesn't allow it.
+ */
+export function normalizeGrade(grade: unknown, scale: GradingScale): string | null {
+  if (typeof grade !== "string" && typeof grade !== "number") return null;
+  const value = String(grade).trim();
+  if (!value) return null;
+  const special = findSpecialCode(value, scale);
+  if (special) return special.code;
+  if (!/^\d+(\.\d+)?$/.test(value)) return null;
+  return scale.values.find((v) => parseFloat(v) === parseFloat(value)) ?? null;
+}
+
+/** The remarks recorded alongside a (normalized) grade. */
+export function gradeRemarks(grade: string, scale: GradingScale): string {
+  const special = findSpecialCode(grade, scale);
+  if (special) return special.remarks;
+  const value = parseFloat(grade);
+  if (value <= scale.passingGrade) return scale.passedRemarks;
+  if (scale.conditionalGrade !== null && value === scale.conditionalGrade) return scale.conditionalRemarks;
+  return scale.failedRemarks;
+}
+
+/** Whether a grade passes. Special codes never pass on their own. */
+export function isPassingGrade(grade: string, scale: GradingScale): boolean {
+  if (findSpecialCode(grade, scale)) return false;
+  const value = parseFloat(grade);
+  return !Number.isNaN(value) && value <= scale.passingGrade;
+}
+
+/** The fields of a grade that count toward a weighted average. */
+export interface GradeLike {
+  grade: string;
+  units: number;
+}
+
+/**
+ * General weighted average: the unit-weighted mean of the grade points.
+ * Special codes count only when the scale says so; anything else that isn't
+ * a number (legacy free text) is left out. Returns 0 when nothing can be
+ * averaged.
+ */
+export function computeGwa(grades: GradeLike[], scale: GradingScale = DEFAULT_GRADING_SCALE): number {
+  let points = 0;
+  let units = 0;
+  for (const g of grades) {
+    const special = findSpecialCode(g.grade, scale);
+    const value = special ? (special.countsTowardGwa ? special.gradePoints : NaN) : parseFloat(g.grade);
+    if (Number.isNaN(value)) continue;
+    points += value * g.units;
+    units += g.units;
+  }
+  return units > 0 ? points / units : 0;
+}
+
+/**
+ * Checks an admin-submitted scale. Returns the cleaned-up scale, or the
+ * message for a 400 response.
+ */
+export function parseGradingScale(input: unknown): GradingScale | string {
+  if (!input || typeof input !== "object") return "A grading scale object is required";
+  const body = input as Record<string, unknown>;
+
+  if (!Array.isArray(body.values) || body.values.length === 0) return "values must be a non-empty list of grades";
+  const numbers = body.values.map((v) => (typeof v === "number" || typeof v === "string" ? Number(v) : NaN));
+  if (numbers.some((n) => !Number.isFinite(n) || n < 0)) return "values must all be non-negative numbers";
+  if (new Set(numbers).size !== numbers.length) return "values must not repeat";
+  const values = [...numbers].sort((a, b) => a - b).map((n) => n.toFixed(2));
+
+  const passingGrade = Number(body.passingGrade);
+  if (!numbers.includes(passingGrade)) return "passingGrade must be one of the values";
+  const conditionalGrade = body.conditionalGrade === null || body.conditionalGrade === undefined || body.conditionalGrade === ""
+    ? null
+    : Number(body.conditionalGrade);
+  if (conditionalGrade !== null && (!numbers.includes(conditionalGrade) || conditionalGrade <= passingGrade)) {
+    return "conditionalGrade must be one of the values and worse than passingGrade";
+  }
+
+  const remarks = (key: "passedRemarks" | "conditionalRemarks" | "failedRemarks") =>
+    typeof body[key] === "string" && (body[key] as string).trim() ? (body[key] as string).trim() : DEFAULT_GRADING_SCALE[key];
+
+  if (!Array.isArray(body.specialCodes)) return "specialCodes must be a list";
+  const specialCodes: SpecialGradeCode[] = [];
+  for (const raw of body.specialCodes) {
+    const entry = (raw ?? {}) as Record<string, unknown>;
+    const code = typeof entry.code === "string" ? entry.code.trim().toUpperCase() : "";
+    if (!/^[A-Z]+$/.test(code)) return "Special codes must be letters only (e.g. INC)";
+    if (specialCodes.some((s) => s.code === code)) return `Special code ${code} is listed twice`;
+    const codeRemarks = typeof entry.remarks === "string" ? entry.remarks.trim() : "";
+    if (!codeRemarks) return `Special code ${code} needs remarks`;
+    const countsTowardGwa = entry.countsTowardGwa === true;
+    const gradePoints = countsTowardGwa ? Number(entry.gradePoints) : 0;
+    if (countsTowardGwa && (!Number.isFinite(gradePoints) || gradePoints < 0)) {
+      return `Special code ${code} needs grade points to count toward GWA`;
+    }
+    specialCodes.push({ code, remarks: codeRemarks, countsTowardGwa, gradePoints });
+  }
+
+  return {
+    values,
+    passingGrade,
+    conditionalGrade,
+    passedRemarks: remarks("passedRemarks"),
+    conditionalRemarks: remarks("conditionalRemarks"),
+    failedRemarks: remarks("failedRemarks"),
+    specialCodes,
+  };
+}
@@ -0,0 +1,99 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  effectiveMeetingDates,
+  isCancelledChange,
+  meetingsOn,
+  type MeetingOverride,
+  type RecurringMeeting,
+} from "./overrides";
+
+// A Monday/Wednesday class; 2025-09-01 is a Monday and 2025-09-06 a Saturday
+const item: RecurringMeeting = {
+  id: "math",
+  days: ["Monday", "Wednesday"],
+  startMinutes: 9 * 60,
+  endMinutes: 10 * 60 + 30,
+  room: "Room 101",
+};
+
+const override = (fields: Partial<MeetingOverride> & Pick<MeetingOverride, "type" | "date">): MeetingOverride => ({
+  scheduleItemId: item.id,
+  newDate: null,
+  startMinutes: null,
+  endMinutes: null,
+  room: null,
+  ...fields,
+});
+
+describe("meetingsOn", () => {
+  it("meets as scheduled on its days only", () => {
+    const [meeting] = meetingsOn([item], [], "2025-09-01");
+    assert.equal(meeting.change, null);
+    assert.equal(meeting.room, "Room 101");
+    assert.deepEqual(meetingsOn([item], [], "2025-09-02"), []);
+  });
+
+  it("keeps a cancelled meeting, flagged", () => {
+    const cancelled = override({ type: "cancelled", date: "2025-09-01" });
+    const [meeting] = meetingsOn([item], [cancelled], "2025-09-01");
+    assert.equal(meeting.change, "cancelled");
+    assert.equal(meeting.override, cancelled);
+    assert.equal(isCancelledChange(meeting.change), true);
+  });
+
+  it("shows a meeting moved to the weekend on both days", () => {
+    const moved = override({ type: "rescheduled", date: "2025-09-01", newDate: "2025-09-06", startMinutes: 13 * 60, endMinutes: 14 * 60 + 30 });
+    const [away] = meetingsOn([item], [moved], "2025-09-01");
+    assert.equal(away.change, "moved_out");
+    assert.equal(away.startMinutes, 9 * 60);
+    assert.equal(isCancelledChange(away.change), true);
+    const [here] = meetingsOn([item], [moved], "2025-09-06");
+    assert.equal(here.change, "moved_in");
+    assert.equal(here.startMinutes, 13 * 60);
+    assert.equal(isCancelledChange(here.change), false);
+  });
+
+  it("keeps a meeting on its day with a new room", () => {
+    const changed = override({ type: "rescheduled", date: "2025-09-03", newDate: "2025-09-03", room: "Lab 2" });
+    const [meeting] = meetingsOn([item], [changed], "2025-09-03");
+    assert.equal(meeting.change, "changed");
+    assert.equal(meeting.room, "Lab 2");
+    assert.equal(meeting.startMinutes, item.startMinutes);
+  });
+
+  it("adds a Saturday make-up at the class's usual time and room", () => {
+    const makeup = override({ type: "makeup", date: "2025-09-06" });
+    const [meeting] = meetingsOn([item], [makeup], "2025-09-06");
+    assert.equal(meeting.change, "makeup");
+    assert.equal(meeting.startMinutes, item.startMinutes);
+    assert.equal(meeting.room, item.room);
+  });
+
+  it("ignores overrides for classes it wasn't given", () => {
+    const other = { ...override({ type: "makeup", date: "2025-09-06" }), scheduleItemId: "science" };
+    assert.deepEqual(meetingsOn([item], [other], "2025-09-06"), []);
+  });
+});
+
+describe("effectiveMeetingDates", () => {
+  const week = ["2025-09-01", "2025-09-07"] as const;
+
+  it("drops cancelled meetings and adds make-ups", () => {
+    const overrides = [
+      override({ type: "cancelled", date: "2025-09-03" }),
+      override({ type: "makeup", date: "2025-09-06" }),
+    ];
+    assert.deepEqual(effectiveMeetingDates(item.days, overrides, ...week), ["2025-09-01", "2025-09-06"]);
+  });
+
+  it("counts a moved meeting on its new date only", () => {
+    const moved = override({ type: "rescheduled", date: "2025-09-01", newDate: "2025-09-05" });
+    assert.deepEqual(effectiveMeetingDates(item.days, [moved], ...week), ["2025-09-03", "2025-09-05"]);
+  });
+
+  it("leaves out make-ups outside the range", () => {
+    const makeup = override({ type: "makeup", date: "2025-09-13" });
+    assert.deepEqual(effectiveMeetingDates(item.days, [makeup], ...week), ["2025-09-01", "2025-09-03"]);
+  });
+});
@@ -0,0 +1,133 @@
+import { isMeetingDate, meetingDates } from "./attendance";
+
+// ─── Schedule Overrides ───────────────────────────────────────────────────────
+//
+// One-off changes layered on top of a class's weekly meetings: a meeting that
+// is cancelled, a meeting moved to another date, time or room, or an extra
+// make-up meeting. Every other week the class meets as its schedule says.
+
+export const OVERRIDE_TYPES = ["cancelled", "rescheduled", "makeup"] as const;
+export type OverrideType = (typeof OVERRIDE_TYPES)[number];
+
+export const OVERRIDE_TYPE_LABELS: Record<OverrideType, string> = {
+  cancelled: "Cancelled",
+  rescheduled: "Rescheduled",
+  makeup: "Make-up Class",
+};
+
+/**
+ * The fields of an override that decide where a class meets. `date` is the
+ * regular meeting it changes (the make-up date for a make-up); `newDate`,
+ * `startMinutes`, `endMinutes` and `room` are where it meets instead (null
+ * when cancelled).
+ */
+export interface MeetingOverride {
+  scheduleItemId: string;
+  type: string;
+  date: string; // YYYY-MM-DD
+  newDate: string | null;
+  startMinutes: number | null;
+  endMinutes: number | null;
+  room: string | null;
+}
+
+/** The fields of a class offering needed to place its meetings. */
+export interface RecurringMeeting {
+  id: string;
+  days: string[];
+  startMinutes: number;
+  endMinutes: number;
+  room: string;
+}
+
+/**
+ * How a meeting differs from the weekly schedule: cancelled, moved away to
+ * another date (moved_out), moved here from another date (moved_in), kept on
+ * the day at another time or room (changed), or an extra make-up meeting.
+ */
+export type MeetingChange = "cancelled" | "moved_out" | "moved_in" | "changed" | "makeup";
+
+export interface EffectiveMeeting<T, O> {
+  item: T;
+  date: string;
+  startMinutes: number;
+  endMinutes: number;
+  room: string;
+  /** null when the class meets as scheduled */
+  change: MeetingChange | null;
+  override: O | null;
+}
+
+// The override that changes the regular meeting of `itemId` on `date`
+function regularOverride<O extends MeetingOverride>(overrides: O[], itemId: string, date: string): O | undefined {
+  return overrides.find((o) => o.scheduleItemId === itemId && o.date === date && o.type !== "makeup");
+}
+
+/**
+ * Every meeting on `date` (YYYY-MM-DD) after applying the overrides, by start
+ * time. Cancelled and moved-away meetings are kept (flagged) so a student
+ * sees what changed.
+ */
+export function meetingsOn<T extends RecurringMeeting, O extends MeetingOverride>(
+  items: T[],
+  overrides: O[],
+  date: string,
+): EffectiveMeeting<T, O>[] {
+  const meetings: EffectiveMeeting<T, O>[] = [];
+  const itemsById = new Map(items.map((i) => [i.id, i]));
+  const scheduled = (item: T, o: O | null, change: MeetingChange | null): EffectiveMeeting<T, O> => ({
+    item,
+    date,
+    startMinutes: o?.startMinutes ?? item.startMinutes,
+    endMinutes: o?.endMinutes ?? item.endMinutes,
+    room: o?.room ?? item.room,
+    change,
+    override: o,
+  });
+
+  for (const item of items) {
+    if (!isMeetingDate(item.days, date)) continue;
+    const o = regularOverride(overrides, item.id, date);
+    if (!o) meetings.push(scheduled(item, null, null));
+    else if (o.type === "cancelled") meetings.push({ ...scheduled(item, null, "cancelled"), override: o });
+    else if (o.newDate === date) meetings.push(scheduled(item, o, "changed"));
+    else meetings.push({ ...scheduled(item, null, "moved_out"), override: o });
+  }
+  for (const o of overrides) {
+    const item = itemsById.get(o.scheduleItemId);
+    if (!item) continue;
+    if (o.type === "makeup" && o.date === date) meetings.push(scheduled(item, o, "makeup"));
+    else if (o.type === "rescheduled" && o.newDate === date && o.date !== date) meetings.push(scheduled(item, o, "moved_in"));
+  }
+  return meetings.sort((a, b) => a.startMinutes - b.startMinutes);
+}
+
+/** Whether a meeting change means the class doesn't meet then. */
+export function isCancelledChange(change: MeetingChange | null): boolean {
+  return change === "cancelled" || change === "moved_out";
+}
+
+/** Whether a class meeting on `days` meets on `date` once its overrides are applied. */
+export function meetsOn(days: string[], overrides: MeetingOverride[], date: string): boolean {
+  if (overrides.some((o) => (o.type === "makeup" ? o.date : o.newDate) === date)) return true;
+  const o = overrides.find((x) => x.date === date && x.type !== "makeup");
+  return !o && isMeetingDate(days, date);
+}
+
+/**
+ * The dates (YYYY-MM-DD) a class meets from `startDate` to `endDate`,
+ * inclusive, once its overrides are applied.
+ */
+export function effectiveMeetingDates(
+  days: string[],
+  overrides: MeetingOverride[],
+  startDate: string,
+  endDate: string,
+): string[] {
+  const candidates = new Set(meetingDates(days, startDate, endDate));
+  for (const o of overrides) {
+    const moved = o.type === "makeup" ? o.date : o.newDate;
+    if (moved && moved >= startDate && moved <= endDate) candidates.add(moved);
+  }
+  return [...candidates].filter((d) => meetsOn(days, overrides, d)).sort();
+}
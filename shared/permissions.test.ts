@@ -0,0 +1,37 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ADMIN_PERMISSIONS, hasPermission, isAdminRole } from "./permissions";
+
+describe("hasPermission", () => {
+  it("lets a superadmin do everything", () => {
+    for (const permission of ADMIN_PERMISSIONS) assert.equal(hasPermission("superadmin", permission), true);
+  });
+
+  it("keeps the registrar out of accounts and announcements", () => {
+    assert.equal(hasPermission("registrar", "grades"), true);
+    assert.equal(hasPermission("registrar", "schedule"), true);
+    assert.equal(hasPermission("registrar", "faculty"), false);
+    assert.equal(hasPermission("registrar", "admins"), false);
+    assert.equal(hasPermission("registrar", "announcements"), false);
+  });
+
+  it("limits the records clerk and the announcer to their one area", () => {
+    const allowed = (role: string) => ADMIN_PERMISSIONS.filter((p) => hasPermission(role, p));
+    assert.deepEqual(allowed("records_clerk"), ["students"]);
+    assert.deepEqual(allowed("announcer"), ["announcements"]);
+  });
+
+  it("gives unknown or missing roles nothing", () => {
+    assert.equal(hasPermission("faculty", "grades"), false);
+    assert.equal(hasPermission(null, "students"), false);
+    assert.equal(hasPermission(undefined, "announcements"), false);
+  });
+});
+
+describe("isAdminRole", () => {
+  it("accepts only the defined roles", () => {
+    assert.equal(isAdminRole("registrar"), true);
+    assert.equal(isAdminRole("Registrar"), false);
+    assert.equal(isAdminRole(undefined), false);
+  });
+});
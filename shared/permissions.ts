@@ -0,0 +1,57 @@
+// ─── Admin Roles & Permissions ────────────────────────────────────────────────
+//
+// What an admin may change is decided by their role, not by being an admin:
+// each role grants a set of permissions, one per area of the registrar's
+// work. Any admin can still read the lists other screens pick from (students,
+// subjects, schedule, …); grades and attendance need their permission to read.
+
+export const ADMIN_PERMISSIONS = [
+  "students",
+  "enrollments",
+  "grades",
+  "academics",
+  "schedule",
+  "attendance",
+  "faculty",
+  "announcements",
+  "admins",
+] as const;
+export type AdminPermission = (typeof ADMIN_PERMISSIONS)[number];
+
+export const ADMIN_PERMISSION_LABELS: Record<AdminPermission, string> = {
+  students: "Student profiles and section assignments",
+  enrollments: "Enrolling and dropping students",
+  grades: "Grades, approvals, standing and transcripts",
+  academics: "Terms, sections, subjects, programs and curricula",
+  schedule: "Class schedule, exams and the academic calendar",
+  attendance: "Attendance and absence thresholds",
+  faculty: "Faculty accounts",
+  announcements: "Announcements",
+  admins: "Admin accounts and roles",
+};
+
+export const ADMIN_ROLES = ["superadmin", "registrar", "records_clerk", "announcer"] as const;
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  superadmin: "System Administrator",
+  registrar: "Registrar",
+  records_clerk: "Records Clerk",
+  announcer: "Announcer",
+};
+
+export const ROLE_PERMISSIONS: Record<AdminRole, readonly AdminPermission[]> = {
+  superadmin: ADMIN_PERMISSIONS,
+  registrar: ["students", "enrollments", "grades", "academics", "schedule", "attendance"],
+  records_clerk: ["students"],
+  announcer: ["announcements"],
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return (ADMIN_ROLES as readonly unknown[]).includes(value);
+}
+
+/** Whether an admin with `role` may use `permission`; unknown roles get nothing. */
+export function hasPermission(role: string | null | undefined, permission: AdminPermission): boolean {
+  return isAdminRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,66 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { conflictReasons, normalizeDays, type ScheduleSlot, type WeekDay } from "./schedule";
+
+// Days as the schedule stores them (full WeekDay names)
+const slot = (overrides: Partial<ScheduleSlot> & { days?: WeekDay[] } = {}): ScheduleSlot => ({
+  days: ["Monday", "Wednesday"],
+  startMinutes: 9 * 60,
+  endMinutes: 10 * 60 + 30,
+  room: "Room 101",
+  instructor: "Prof. Santos",
+  sectionId: "sec-a",
+  termId: "term-1",
+  ...overrides,
+});
+
+describe("conflictReasons", () => {
+  it("reports every shared booking when the times overlap", () => {
+    assert.deepEqual(conflictReasons(slot(), slot({ startMinutes: 10 * 60, endMinutes: 11 * 60 })), [
+      "room",
+      "instructor",
+      "section",
+    ]);
+  });
+
+  it("treats touching meetings as back to back, not overlapping", () => {
+    assert.deepEqual(conflictReasons(slot(), slot({ startMinutes: 10 * 60 + 30, endMinutes: 12 * 60 })), []);
+  });
+
+  it("ignores meetings on different days", () => {
+    assert.deepEqual(conflictReasons(slot(), slot({ days: ["Tuesday", "Thursday"] })), []);
+  });
+
+  it("clashes when just one of the meeting days is shared", () => {
+    assert.deepEqual(conflictReasons(slot(), slot({ days: ["Wednesday", "Friday"], sectionId: "sec-b" })), [
+      "room",
+      "instructor",
+    ]);
+  });
+
+  it("ignores meetings in different terms", () => {
+    assert.deepEqual(conflictReasons(slot(), slot({ termId: "term-2" })), []);
+  });
+
+  it("matches rooms and instructors regardless of case and spacing", () => {
+    const other = slot({ room: "  room   101 ", instructor: "PROF. SANTOS", sectionId: "sec-b" });
+    assert.deepEqual(conflictReasons(slot(), other), ["room", "instructor"]);
+  });
+
+  it("never books a blank or TBA room or instructor", () => {
+    const a = slot({ room: "TBA", instructor: "", sectionId: null });
+    const b = slot({ room: "tba", instructor: "", sectionId: null });
+    assert.deepEqual(conflictReasons(a, b), []);
+  });
+});
+
+describe("normalizeDays", () => {
+  it("puts full day names in week order without repeats", () => {
+    assert.deepEqual(normalizeDays(["Friday", "Monday", "Friday"]), ["Monday", "Friday"]);
+  });
+
+  it("rejects abbreviations and empty lists", () => {
+    assert.equal(normalizeDays(["Mon", "Wed"]), null);
+    assert.equal(normalizeDays([]), null);
+  });
+});
@@ -0,0 +1,190 @@
+export const WEEK_DAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"] as const;
+export type WeekDay = (typeof WEEK_DAYS)[number];
+
+/**
+ * Parses a clock time as entered in the schedule forms ("7:30 AM", "1 PM",
+ * "13:00") into minutes since midnight. Returns null when it can't be read.
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{1,2})(?::(\d{2}))?\s*([AaPp]\.?[Mm]\.?)?$/.exec(value.trim());
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3]?.[0].toUpperCase();
+  if (minutes > 59) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    if (hours === 12) hours = 0;
+    if (meridiem === "P") hours += 12;
+  } else if (hours > 23) {
+    return null;
+  }
+  return hours * 60 + minutes;
+}
+
+/** 450 → "7:30 AM" */
+export function formatTimeOfDay(minutes: number): string {
+  const hours24 = Math.floor(minutes / 60) % 24;
+  const mins = minutes % 60;
+  const hours12 = hours24 % 12 === 0 ? 12 : hours24 % 12;
+  return `${hours12}:${String(mins).padStart(2, "0")} ${hours24 < 12 ? "AM" : "PM"}`;
+}
+
+/** (450, 540) → "7:30 AM–9:00 AM" */
+export function formatTimeRange(startMinutes: number, endMinutes: number): string {
+  return `${formatTimeOfDay(startMinutes)}–${formatTimeOfDay(endMinutes)}`;
+}
+
+/** "Monday, Wednesday" → ["Monday", "Wednesday"] (legacy comma-joined day strings) */
+export function splitDays(day: string): string[] {
+  return day.split(",").map((d) => d.trim()).filter(Boolean);
+}
+
+/**
+ * De-duplicates day names and puts them in week order. Returns null unless
+ * `days` is a non-empty list of full day names.
+ */
+export function normalizeDays(days: unknown): WeekDay[] | null {
+  if (!Array.isArray(days) || days.length === 0) return null;
+  const valid = new Set<string>(WEEK_DAYS);
+  if (!days.every((d) => typeof d === "string" && valid.has(d))) return null;
+  return WEEK_DAYS.filter((d) => days.includes(d));
+}
+
+/** The fields of a class meeting that decide whether it clashes with another. */
+export interface ScheduleSlot {
+  days: string[];
+  startMinutes: number;
+  endMinutes: number;
+  room: string;
+  instructor: string;
+  sectionId: string | null;
+  termId: string | null;
+}
+
+/** Orders meetings by their first day of the week, then by start time. */
+export function compareMeetings(
+  a: Pick<ScheduleSlot, "days" | "startMinutes">,
+  b: Pick<ScheduleSlot, "days" | "startMinutes">,
+): number {
+  const dayIndex = (days: string[]) =>
+    days.length > 0 ? Math.min(...days.map((d) => WEEK_DAYS.indexOf(d as WeekDay))) : WEEK_DAYS.length;
+  return dayIndex(a.days) - dayIndex(b.days) || a.startMinutes - b.startMinutes;
+}
+
+export type ConflictReason = "room" | "instructor" | "section";
+
+// Blank and "TBA" rooms/instructors are placeholders, not bookings
+export function bookingKey(value: string): string | null {
+  const key = value.trim().replace(/\s+/g, " ").toLowerCase();
+  return key && key !== "tba" ? key : null;
+}
+
+/**
+ * Why two meetings can't both be scheduled: they share a day and their times
+ * overlap, and they use the same room, instructor or section. Meetings in
+ * different terms never clash. Touching intervals (9:00–10:00 and
+ * 10:00–11:00) are not an overlap.
+ */
+export function conflictReasons(a: ScheduleSlot, b: ScheduleSlot): ConflictReason[] {
+  if (a.termId !== b.termId) return [];
+  if (!a.days.some((d) => b.days.includes(d))) return [];
+  if (a.startMinutes >= b.endMinutes || b.startMinutes >= a.endMinutes) return [];
+
+  const reasons: ConflictReason[] = [];
+  const room = bookingKey(a.room);
+  if (room && room === bookingKey(b.room)) reasons.push("room");
+  const instructor = bookingKey(a.instructor);
+  if (instructor && instructor === bookingKey(b.instructor)) reasons.push("instructor");
+  if (a.sectionId && a.sectionId === b.sectionId) reasons.push("section");
+  return reasons;
+}
+
+/** The schedule's name for a date's weekday (JS weeks start on Sunday). */
+export function weekDayOf(date: Date): WeekDay {
+  return WEEK_DAYS[(date.getDay() + 6) % 7];
+}
+
+export interface PlacedMeeting<T> {
+  item: T;
+  /** Column within its group of overlapping meetings, from 0 */
+  lane: number;
+  /** Number of columns the group needs */
+  lanes: number;
+}
+
+/**
+ * Lays out one day's meetings for a timetable: meetings that overlap are
+ * split into side-by-side lanes instead of drawing over each other. Every
+ * meeting in a chain of overlaps shares the same lane count so their widths
+ * line up.
+ */
+export function layoutDay<T extends Pick<ScheduleSlot, "startMinutes" | "endMinutes">>(
+  meetings: T[],
+): PlacedMeeting<T>[] {
+  const sorted = [...meetings].sort((a, b) => a.startMinutes - b.startMinutes || b.endMinutes - a.endMinutes);
+  const placed: PlacedMeeting<T>[] = [];
+  let group: PlacedMeeting<T>[] = [];
+  let laneEnds: number[] = [];
+  let groupEnd = -1;
+
+  const closeGroup = () => {
+    for (const p of group) p.lanes = laneEnds.length;
+    group = [];
+    laneEnds = [];
+  };
+
+  for (const item of sorted) {
+    if (item.startMinutes >= groupEnd) closeGroup();
+    let lane = laneEnds.findIndex((end) => end <= item.startMinutes);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = item.endMinutes;
+    const p = { item, lane, lanes: 1 };
+    group.push(p);
+    placed.push(p);
+    groupEnd = Math.max(groupEnd, item.endMinutes);
+  }
+  closeGroup();
+  return placed;
+}
+
+export interface UpcomingMeeting<T> {
+  item: T;
+  day: WeekDay;
+  /** Days from today: 0 is later today, 1 tomorrow, up to 7 for next week */
+  daysAway: number;
+}
+
+/**
+ * The meeting in progress at `now` and the next one to start after it,
+ * looking up to a week ahead. Either is null when there is none. Days for
+ * which `isCancelled` returns true (holidays, suspensions) have no meetings.
+ */
+export function currentAndNextMeeting<T extends Pick<ScheduleSlot, "days" | "startMinutes" | "endMinutes">>(
+  meetings: T[],
+  now: Date,
+  isCancelled: (date: Date) => boolean = () => false,
+): { current: T | null; next: UpcomingMeeting<T> | null } {
+  const today = weekDayOf(now);
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const current = isCancelled(now) ? null : meetings.find(
+    (m) => m.days.includes(today) && m.startMinutes <= minutes && minutes < m.endMinutes,
+  ) ?? null;
+
+  const todayIndex = WEEK_DAYS.indexOf(today);
+  for (let daysAway = 0; daysAway <= 7; daysAway++) {
+    const day = WEEK_DAYS[(todayIndex + daysAway) % 7];
+    if (isCancelled(new Date(now.getFullYear(), now.getMonth(), now.getDate() + daysAway))) continue;
+    const candidates = meetings
+      .filter((m) => m.days.includes(day) && (daysAway > 0 || m.startMinutes > minutes))
+      .sort((a, b) => a.startMinutes - b.startMinutes);
+    if (candidates.length > 0) return { current, next: { item: candidates[0], day, daysAway } };
+  }
+  return { current, next: null };
+}
+
+/** File name for an exported calendar: "BSIT 1-A" → "bsit-1-a.ics" */
+export function calendarFileName(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `${slug || "schedule"}.ics`;
+}
@@ -6,6 +6,8 @@ import {
   integer,
   boolean,
   bigint,
+  jsonb,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -20,9 +22,17 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   firstName: text("first_name").notNull().default(""),
   lastName: text("last_name").notNull().default(""),
-  role: text("role").notNull().default("admin"),
+  role: text("role").notNull().default("admin"), // "admin" | "faculty"
+  // What an admin may change (AdminRole, shared/permissions.ts); unused for faculty
+  adminRole: text("admin_role").notNull().default("superadmin"),
+  status: text("status").notNull().default("active"), // StaffStatus; disabled accounts can't sign in
+  // Set when an admin issues a temporary password; cleared once the user picks their own
+  mustChangePassword: boolean("must_change_password").notNull().default(false),
 });
 
+export const STAFF_STATUSES = ["active", "disabled"] as const;
+export type StaffStatus = (typeof STAFF_STATUSES)[number];
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
@@ -30,6 +40,7 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type InsertStaffUser = typeof users.$inferInsert;
 
 // ─── Students ─────────────────────────────────────────────────────────────────
 
@@ -51,6 +62,8 @@ export const students = pgTable("students", {
   gender: text("gender").notNull().default(""),
   status: text("status").notNull().default("Regular"),
   sectionId: text("section_id"),
+  // The curriculum version the student follows; unset means their program's current one
+  curriculumId: text("curriculum_id"),
   password: text("password").notNull(),
   role: text("role").notNull().default("student"),
 });
@@ -74,43 +87,297 @@ export const sections = pgTable("sections", {
 export type Section = typeof sections.$inferSelect;
 export type InsertSection = typeof sections.$inferInsert;
 
+// ─── Terms (academic calendar) ─────────────────────────────────────────────────
+
+export const terms = pgTable("terms", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(), // e.g. "1st Semester 2024-2025"
+  schoolYear: text("school_year").notNull(), // e.g. "2024-2025"
+  startDate: text("start_date").notNull(), // YYYY-MM-DD
+  endDate: text("end_date").notNull(), // YYYY-MM-DD
+  isActive: boolean("is_active").notNull().default(false),
+});
+
+export type Term = typeof terms.$inferSelect;
+export type InsertTerm = typeof terms.$inferInsert;
+
+// ─── Subjects (curriculum catalog) ─────────────────────────────────────────────
+
+export const subjects = pgTable("subjects", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  code: text("code").notNull().unique(),
+  title: text("title").notNull(),
+  units: integer("units").notNull().default(3),
+  lectureHours: integer("lecture_hours").notNull().default(3),
+  labHours: integer("lab_hours").notNull().default(0),
+  prerequisites: text("prerequisites").array().notNull().default(sql`'{}'::text[]`), // subject ids
+  // Subject ids to be passed before or taken in the same term
+  corequisites: text("corequisites").array().notNull().default(sql`'{}'::text[]`),
+});
+
+export type Subject = typeof subjects.$inferSelect;
+export type InsertSubject = typeof subjects.$inferInsert;
+
+// ─── Programs & Curricula ─────────────────────────────────────────────────────
+
+export const programs = pgTable("programs", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  code: text("code").notNull().unique(), // e.g. "BSIS"
+  name: text("name").notNull().unique(), // matches students.course
+});
+
+export type Program = typeof programs.$inferSelect;
+export type InsertProgram = typeof programs.$inferInsert;
+
+// A program's subject checklist. Curricula are versioned so that students keep
+// the one they entered under when the program is revised.
+export const curricula = pgTable("curricula", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  programId: text("program_id").notNull(),
+  version: text("version").notNull(), // e.g. "2024"
+  // The version new and unassigned students follow; one per program
+  isCurrent: boolean("is_current").notNull().default(false),
+});
+
+export type Curriculum = typeof curricula.$inferSelect;
+export type InsertCurriculum = typeof curricula.$inferInsert;
+
+export const CURRICULUM_SEMESTERS = ["1st Semester", "2nd Semester", "Summer"] as const;
+export type CurriculumSemester = (typeof CURRICULUM_SEMESTERS)[number];
+
+export const curriculumSubjects = pgTable("curriculum_subjects", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  curriculumId: text("curriculum_id").notNull(),
+  subjectId: text("subject_id").notNull(),
+  yearLevel: text("year_level").notNull(), // e.g. "1st Year"
+  semester: text("semester").notNull(), // CurriculumSemester
+});
+
+export type CurriculumSubject = typeof curriculumSubjects.$inferSelect;
+export type InsertCurriculumSubject = typeof curriculumSubjects.$inferInsert;
+
 // ─── Grades ───────────────────────────────────────────────────────────────────
 
+// A grade moves forward through these one step at a time; only released grades
+// are visible to the student. A submitted grade can also be returned to draft.
+export const GRADE_STATUSES = ["draft", "submitted", "approved", "released"] as const;
+export type GradeStatus = (typeof GRADE_STATUSES)[number];
+
 export const grades = pgTable("grades", {
   id: varchar("id")
     .primaryKey()
     .default(sql`gen_random_uuid()`),
   studentId: text("student_id").notNull(),
+  enrollmentId: text("enrollment_id"),
+  subjectId: text("subject_id"),
+  termId: text("term_id"),
+  // Snapshot of the catalog entry, kept in sync by storage.updateSubject
   subjectCode: text("subject_code").notNull(),
   subjectName: text("subject_name").notNull().default(""),
   instructor: text("instructor").notNull().default(""),
   grade: text("grade").notNull(),
   units: integer("units").notNull().default(3),
+  // Snapshot of the term name, kept in sync by storage.updateTerm
   semester: text("semester").notNull().default("1st Semester 2024-2025"),
   remarks: text("remarks").notNull().default(""),
-});
+  // GradeStatus. New grades start as drafts; the column default covers rows
+  // from before the workflow existed, which students could already see.
+  status: text("status").notNull().default("released"),
+  // Who moved the grade into each status (a users.id) and when
+  submittedBy: text("submitted_by"),
+  submittedAt: bigint("submitted_at", { mode: "number" }),
+  approvedBy: text("approved_by"),
+  approvedAt: bigint("approved_at", { mode: "number" }),
+  releasedBy: text("released_by"),
+  releasedAt: bigint("released_at", { mode: "number" }),
+  // Last time the value changed after release; students see it as "revised"
+  revisedAt: bigint("revised_at", { mode: "number" }),
+}, (table) => [
+  // One grade per enrollment, so a subject is never counted twice toward GWA
+  uniqueIndex("grades_enrollment_id_idx").on(table.enrollmentId),
+]);
 
 export type Grade = typeof grades.$inferSelect;
 export type InsertGrade = typeof grades.$inferInsert;
 
+// ─── Grade History (audit trail) ──────────────────────────────────────────────
+
+// "created" / "changed" / "deleted" carry grade values; "status" carries the
+// old and new GradeStatus. A "changed" entry also lists the fields it touched,
+// so an edit that leaves the value alone (remarks, instructor) is recorded too.
+export const GRADE_HISTORY_ACTIONS = ["created", "changed", "status", "deleted"] as const;
+export type GradeHistoryAction = (typeof GRADE_HISTORY_ACTIONS)[number];
+
+export const gradeHistory = pgTable("grade_history", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  gradeId: text("grade_id").notNull(), // kept after the grade is deleted
+  studentId: text("student_id").notNull(),
+  action: text("action").notNull(), // GradeHistoryAction
+  oldValue: text("old_value"),
+  newValue: text("new_value"),
+  changedFields: text("changed_fields").array().notNull().default(sql`'{}'::text[]`), // grades columns, for "changed"
+  changedBy: text("changed_by").notNull(), // users.id of the admin or faculty member
+  reason: text("reason").notNull().default(""), // required for changes after release
+  changedAt: bigint("changed_at", { mode: "number" }).notNull(),
+});
+
+export type GradeHistoryEntry = typeof gradeHistory.$inferSelect;
+export type InsertGradeHistoryEntry = typeof gradeHistory.$inferInsert;
+
 // ─── Schedule Items ───────────────────────────────────────────────────────────
 
 export const scheduleItems = pgTable("schedule_items", {
   id: varchar("id")
     .primaryKey()
     .default(sql`gen_random_uuid()`),
+  subjectId: text("subject_id"),
+  termId: text("term_id"),
+  sectionId: text("section_id"),
+  // Snapshot of the catalog entry, kept in sync by storage.updateSubject
   subjectCode: text("subject_code").notNull(),
   subjectName: text("subject_name").notNull().default(""),
+  days: text("days").array().notNull().default(sql`'{}'::text[]`), // WeekDay names in week order
+  startMinutes: integer("start_minutes").notNull().default(0), // minutes since midnight
+  endMinutes: integer("end_minutes").notNull().default(0),
+  // Legacy display strings, derived from the columns above on every write
   day: text("day").notNull(),
   timeStart: text("time_start").notNull(),
   timeEnd: text("time_end").notNull(),
   room: text("room").notNull().default(""),
+  // The faculty account teaching the class, if any; `instructor` is the display
+  // name (the account's name when linked, free text otherwise)
+  instructorId: text("instructor_id"),
   instructor: text("instructor").notNull().default(""),
 });
 
 export type ScheduleItem = typeof scheduleItems.$inferSelect;
 export type InsertScheduleItem = typeof scheduleItems.$inferInsert;
 
+// One-off changes to a single meeting of a schedule item (shared/overrides.ts):
+// `date` is the regular meeting that is cancelled or rescheduled, or the date
+// of a make-up meeting. Rescheduled and make-up meetings say where they meet.
+export const scheduleOverrides = pgTable("schedule_overrides", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  scheduleItemId: text("schedule_item_id").notNull(),
+  type: text("type").notNull(), // OverrideType (shared/overrides.ts)
+  date: text("date").notNull(), // YYYY-MM-DD
+  newDate: text("new_date"), // YYYY-MM-DD; null when cancelled
+  startMinutes: integer("start_minutes"),
+  endMinutes: integer("end_minutes"),
+  room: text("room"),
+  reason: text("reason").notNull().default(""),
+  createdBy: text("created_by").notNull(), // users.id of the admin
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
+});
+
+export type ScheduleOverride = typeof scheduleOverrides.$inferSelect;
+export type InsertScheduleOverride = typeof scheduleOverrides.$inferInsert;
+
+// ─── Exams ────────────────────────────────────────────────────────────────────
+
+// One sitting of a class offering's exam on a specific date; the subject,
+// section, term and students come from the offering
+export const exams = pgTable("exams", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  scheduleItemId: text("schedule_item_id").notNull(),
+  type: text("type").notNull(), // ExamType (shared/exams.ts)
+  date: text("date").notNull(), // YYYY-MM-DD
+  startMinutes: integer("start_minutes").notNull(), // minutes since midnight
+  endMinutes: integer("end_minutes").notNull(),
+  room: text("room").notNull().default(""),
+  // The faculty account proctoring, if any; `proctor` is the display name
+  // (the account's name when linked, free text otherwise)
+  proctorId: text("proctor_id"),
+  proctor: text("proctor").notNull().default(""),
+});
+
+export type Exam = typeof exams.$inferSelect;
+export type InsertExam = typeof exams.$inferInsert;
+
+// ─── Enrollments ──────────────────────────────────────────────────────────────
+
+export const ENROLLMENT_STATUSES = ["enrolled", "dropped", "withdrawn"] as const;
+export type EnrollmentStatus = (typeof ENROLLMENT_STATUSES)[number];
+
+export const enrollments = pgTable("enrollments", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  studentId: text("student_id").notNull(),
+  scheduleItemId: text("schedule_item_id").notNull(),
+  termId: text("term_id"),
+  // Snapshot of the term name, kept in sync by storage.updateTerm
+  semester: text("semester").notNull(),
+  status: text("status").notNull().default("enrolled"), // EnrollmentStatus
+  enrolledAt: bigint("enrolled_at", { mode: "number" }).notNull(),
+  statusChangedAt: bigint("status_changed_at", { mode: "number" }),
+  // Set when an admin enrolled or graded the student despite unmet
+  // prerequisites/corequisites: who, when, why, and the subject codes waived
+  overrideBy: text("override_by"),
+  overrideAt: bigint("override_at", { mode: "number" }),
+  overrideReason: text("override_reason").notNull().default(""),
+  overriddenRequirements: text("overridden_requirements").array().notNull().default(sql`'{}'::text[]`),
+});
+
+export type Enrollment = typeof enrollments.$inferSelect;
+export type InsertEnrollment = typeof enrollments.$inferInsert;
+
+// ─── Attendance ───────────────────────────────────────────────────────────────
+
+// One row per enrollment and meeting date; saving the same date again updates it
+export const attendanceRecords = pgTable("attendance_records", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  enrollmentId: text("enrollment_id").notNull(),
+  studentId: text("student_id").notNull(),
+  scheduleItemId: text("schedule_item_id").notNull(),
+  date: text("date").notNull(), // YYYY-MM-DD, a day the class meets
+  status: text("status").notNull(), // AttendanceStatus (shared/attendance.ts)
+  remarks: text("remarks").notNull().default(""),
+  recordedBy: text("recorded_by").notNull(), // users.id of the admin or faculty member
+  recordedAt: bigint("recorded_at", { mode: "number" }).notNull(),
+  // The QR token the student scanned when they checked themselves in
+  // (recordedBy is then whoever displayed the code)
+  checkInToken: text("check_in_token"),
+}, (table) => [
+  // One record per student per meeting, however the check-in and the roll call race
+  uniqueIndex("attendance_records_enrollment_date_idx").on(table.enrollmentId, table.date),
+]);
+
+export type AttendanceRecord = typeof attendanceRecords.$inferSelect;
+export type InsertAttendanceRecord = typeof attendanceRecords.$inferInsert;
+
+// Short-lived QR check-in codes for one class meeting, shown by the
+// instructor's device and rotated while it's open (shared/attendance.ts)
+export const checkinTokens = pgTable("checkin_tokens", {
+  token: text("token").primaryKey(),
+  scheduleItemId: text("schedule_item_id").notNull(),
+  date: text("date").notNull(), // YYYY-MM-DD meeting the code checks students into
+  issuedBy: text("issued_by").notNull(), // users.id of the admin or faculty member
+  issuedAt: bigint("issued_at", { mode: "number" }).notNull(),
+  expiresAt: bigint("expires_at", { mode: "number" }).notNull(),
+});
+
+export type CheckinToken = typeof checkinTokens.$inferSelect;
+export type InsertCheckinToken = typeof checkinTokens.$inferInsert;
+
 // ─── Announcements ────────────────────────────────────────────────────────────
 
 export const announcements = pgTable("announcements", {
@@ -127,12 +394,40 @@ export const announcements = pgTable("announcements", {
 export type Announcement = typeof announcements.$inferSelect;
 export type InsertAnnouncement = typeof announcements.$inferInsert;
 
+// ─── Academic Calendar ───────────────────────────────────────────────────────
+
+// Holidays, class suspensions, enrollment periods and grade deadlines, each
+// over a range of whole days (shared/calendar.ts)
+export const calendarEvents = pgTable("calendar_events", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  title: text("title").notNull(),
+  type: text("type").notNull(), // CalendarEventType (shared/calendar.ts)
+  startDate: text("start_date").notNull(), // YYYY-MM-DD
+  endDate: text("end_date").notNull(), // YYYY-MM-DD, inclusive
+  description: text("description").notNull().default(""),
+});
+
+export type CalendarEvent = typeof calendarEvents.$inferSelect;
+export type InsertCalendarEvent = typeof calendarEvents.$inferInsert;
+
+// ─── Settings (school-wide configuration) ─────────────────────────────────────
+
+export const settings = pgTable("settings", {
+  key: text("key").primaryKey(), // e.g. "grading_scale"
+  value: jsonb("value").notNull(),
+  updatedAt: bigint("updated_at", { mode: "number" }).notNull(),
+});
+
+export type Setting = typeof settings.$inferSelect;
+
 // ─── Sessions (server-side token store) ───────────────────────────────────────
 
 export const sessions = pgTable("sessions", {
   token: text("token").primaryKey(),
   userId: text("user_id").notNull(),
-  role: text("role").notNull(), // "student" | "admin"
+  role: text("role").notNull(), // "student" | "admin" | "faculty"
   expiresAt: bigint("expires_at", { mode: "number" }).notNull(),
 });
 
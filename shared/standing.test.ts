@@ -0,0 +1,82 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_GRADING_SCALE } from "./grades";
+import {
+  computeStudentStanding,
+  computeTermStanding,
+  DEFAULT_STANDING_POLICY,
+  type StandingGrade,
+} from "./standing";
+
+const term = (grades: [string, number][]) => grades.map(([grade, units]) => ({ grade, units }));
+
+const standingOf = (grades: [string, number][]) =>
+  computeTermStanding(term(grades), DEFAULT_GRADING_SCALE, DEFAULT_STANDING_POLICY);
+
+describe("computeTermStanding", () => {
+  it("puts a full load of high grades on the Dean's List", () => {
+    const result = standingOf([["1.25", 3], ["1.50", 3], ["1.75", 3], ["1.00", 3], ["2.00", 3]]);
+    assert.equal(result.standing, "deans_list");
+    assert.equal(result.gwa, 1.5);
+    assert.equal(result.unitsEarned, 15);
+  });
+
+  it("keeps the Dean's List from an underloaded term", () => {
+    assert.equal(standingOf([["1.00", 3], ["1.00", 3], ["1.00", 3]]).standing, "good");
+  });
+
+  it("keeps the Dean's List from a term with a grade below the lowest allowed", () => {
+    const result = standingOf([["1.00", 3], ["1.00", 3], ["1.00", 3], ["1.00", 3], ["2.75", 3]]);
+    assert.equal(result.standing, "good");
+  });
+
+  it("keeps the Dean's List from a term with a letter code", () => {
+    const result = standingOf([["1.00", 3], ["1.00", 3], ["1.00", 3], ["1.00", 3], ["1.00", 3], ["INC", 3]]);
+    assert.equal(result.standing, "good");
+  });
+
+  it("puts a student on probation for failing a quarter of the units", () => {
+    const result = standingOf([["2.00", 3], ["2.00", 3], ["2.00", 3], ["5.00", 3]]);
+    assert.equal(result.standing, "probation");
+    assert.equal(result.unitsFailed, 3);
+    assert.equal(result.unitsEarned, 9);
+  });
+
+  it("counts DRP as failed, but not a conditional 4.00 or INC", () => {
+    assert.equal(standingOf([["2.00", 3], ["DRP", 3]]).unitsFailed, 3);
+    assert.equal(standingOf([["2.00", 3], ["4.00", 3], ["INC", 3]]).unitsFailed, 0);
+  });
+
+  it("dismisses a student who fails most of the units", () => {
+    assert.equal(standingOf([["5.00", 3], ["5.00", 3], ["5.00", 3], ["2.00", 1]]).standing, "dismissal");
+  });
+});
+
+describe("computeStudentStanding", () => {
+  const grades: StandingGrade[] = [
+    { semester: "2nd Semester 2024-2025", grade: "3.00", units: 3 },
+    { semester: "1st Semester 2024-2025", grade: "1.00", units: 3 },
+    { semester: "1st Semester 2024-2025", grade: "2.00", units: 3 },
+  ];
+  const semesters = ["1st Semester 2024-2025", "Summer 2025", "2nd Semester 2024-2025"];
+
+  it("lists terms in the given order with a running cumulative GWA", () => {
+    const result = computeStudentStanding(grades, semesters, DEFAULT_GRADING_SCALE, DEFAULT_STANDING_POLICY);
+    assert.deepEqual(
+      result.terms.map((t) => [t.semester, t.gwa, t.cumulativeGwa]),
+      [
+        ["1st Semester 2024-2025", 1.5, 1.5],
+        ["2nd Semester 2024-2025", 3, 2],
+      ],
+    );
+    assert.equal(result.cumulativeGwa, 2);
+    assert.equal(result.unitsAttempted, 9);
+    assert.equal(result.current, "good");
+  });
+
+  it("has no current standing before any grades are released", () => {
+    const result = computeStudentStanding([], semesters, DEFAULT_GRADING_SCALE, DEFAULT_STANDING_POLICY);
+    assert.deepEqual(result.terms, []);
+    assert.equal(result.current, null);
+  });
+});
@@ -0,0 +1,203 @@
+import { computeGwa, isPassingGrade, type GradeLike, type GradingScale } from "./grades";
+
+// ─── Academic Standing ────────────────────────────────────────────────────────
+//
+// Each term a student is classified from that term's released grades: Dean's
+// List for a low (good) GWA over a full load with no low grades, probation or
+// dismissal when too large a share of the units attempted were failed, and
+// good standing otherwise. The thresholds are set by the registrar.
+
+export const ACADEMIC_STANDINGS = ["deans_list", "good", "probation", "dismissal"] as const;
+export type AcademicStanding = (typeof ACADEMIC_STANDINGS)[number];
+
+export const STANDING_LABELS: Record<AcademicStanding, string> = {
+  deans_list: "Dean's List",
+  good: "Good Standing",
+  probation: "Probation",
+  dismissal: "Dismissal",
+};
+
+export interface StandingPolicy {
+  /** The worst term GWA that still makes the Dean's List */
+  deansListMaxGwa: number;
+  /** Units the term's grades must add up to for the Dean's List */
+  deansListMinUnits: number;
+  /** Every grade of the term must be this or better (letter codes disqualify) */
+  deansListLowestGrade: number;
+  /** Failing at least this percentage of the units attempted means probation */
+  probationFailedPercent: number;
+  /** Failing at least this percentage of the units attempted means dismissal */
+  dismissalFailedPercent: number;
+}
+
+export const DEFAULT_STANDING_POLICY: StandingPolicy = {
+  deansListMaxGwa: 1.75,
+  deansListMinUnits: 15,
+  deansListLowestGrade: 2.5,
+  probationFailedPercent: 25,
+  dismissalFailedPercent: 75,
+};
+
+/** A released grade as the standing engine needs it. */
+export interface StandingGrade extends GradeLike {
+  semester: string;
+}
+
+export interface TermStanding {
+  semester: string;
+  gwa: number;
+  /** GWA of this and every earlier term */
+  cumulativeGwa: number;
+  unitsAttempted: number;
+  unitsEarned: number;
+  unitsFailed: number;
+  standing: AcademicStanding;
+}
+
+export interface StudentStanding {
+  /** Oldest first */
+  terms: TermStanding[];
+  cumulativeGwa: number;
+  unitsAttempted: number;
+  unitsEarned: number;
+  /** The latest term's standing, or null before any grades are released */
+  current: AcademicStanding | null;
+}
+
+const round2 = (n: number) => parseFloat(n.toFixed(2));
+
+// Failed outright: a numeric grade worse than both passing and conditional, or
+// a letter code that counts toward GWA as a failing grade (DRP). INC and W are
+// neither passed nor failed.
+function isFailedGrade(grade: string, scale: GradingScale): boolean {
+  const code = grade.trim().toUpperCase();
+  const special = scale.specialCodes.find((s) => s.code === code);
+  if (special) return special.countsTowardGwa && special.gradePoints > scale.passingGrade;
+  const value = parseFloat(grade);
+  if (Number.isNaN(value) || value <= scale.passingGrade) return false;
+  return value !== scale.conditionalGrade;
+}
+
+/** Term GWA, units and standing for one term's grades. */
+export function computeTermStanding(
+  grades: GradeLike[],
+  scale: GradingScale,
+  policy: StandingPolicy,
+): Omit<TermStanding, "semester" | "cumulativeGwa"> {
+  const gwa = round2(computeGwa(grades, scale));
+  const unitsAttempted = grades.reduce((acc, g) => acc + g.units, 0);
+  const unitsEarned = grades.filter((g) => isPassingGrade(g.grade, scale)).reduce((acc, g) => acc + g.units, 0);
+  const unitsFailed = grades.filter((g) => isFailedGrade(g.grade, scale)).reduce((acc, g) => acc + g.units, 0);
+  const failedPercent = unitsAttempted > 0 ? (unitsFailed / unitsAttempted) * 100 : 0;
+
+  let standing: AcademicStanding = "good";
+  if (unitsFailed > 0 && failedPercent >= policy.dismissalFailedPercent) {
+    standing = "dismissal";
+  } else if (unitsFailed > 0 && failedPercent >= policy.probationFailedPercent) {
+    standing = "probation";
+  } else if (
+    unitsAttempted >= policy.deansListMinUnits &&
+    gwa > 0 && gwa <= policy.deansListMaxGwa &&
+    grades.every((g) => parseFloat(g.grade) <= policy.deansListLowestGrade)
+  ) {
+    standing = "deans_list";
+  }
+  return { gwa, unitsAttempted, unitsEarned, unitsFailed, standing };
+}
+
+/**
+ * Standing for every term a student has grades in, oldest first, with the
+ * running cumulative GWA. `semesters` is the chronological order of term
+ * labels (see sortSemesterLabels).
+ */
+export function computeStudentStanding(
+  grades: StandingGrade[],
+  semesters: string[],
+  scale: GradingScale,
+  policy: StandingPolicy,
+): StudentStanding {
+  const terms: TermStanding[] = [];
+  const sofar: StandingGrade[] = [];
+  for (const semester of semesters) {
+    const termGrades = grades.filter((g) => g.semester === semester);
+    if (termGrades.length === 0) continue;
+    sofar.push(...termGrades);
+    terms.push({
+      semester,
+      ...computeTermStanding(termGrades, scale, policy),
+      cumulativeGwa: round2(computeGwa(sofar, scale)),
+    });
+  }
+  return {
+    terms,
+    cumulativeGwa: round2(computeGwa(grades, scale)),
+    unitsAttempted: terms.reduce((acc, t) => acc + t.unitsAttempted, 0),
+    unitsEarned: terms.reduce((acc, t) => acc + t.unitsEarned, 0),
+    current: terms.length > 0 ? terms[terms.length - 1].standing : null,
+  };
+}
+
+/**
+ * A policy threshold from an admin's form: a non-negative number (numeric
+ * strings allowed), or null when it is missing, blank or invalid.
+ */
+export function parsePolicyNumber(raw: unknown): number | null {
+  const value = Number(raw);
+  return raw === "" || raw === null || !Number.isFinite(value) || value < 0 ? null : value;
+}
+
+/**
+ * Checks an admin-submitted policy. Returns the cleaned-up policy, or the
+ * message for a 400 response.
+ */
+export function parseStandingPolicy(input: unknown): StandingPolicy | string {
+  if (!input || typeof input !== "object") return "A standing policy object is required";
+  const body = input as Record<string, unknown>;
+  const number = (key: keyof StandingPolicy) => parsePolicyNumber(body[key]);
+
+  const deansListMaxGwa = number("deansListMaxGwa");
+  const deansListMinUnits = number("deansListMinUnits");
+  const deansListLowestGrade = number("deansListLowestGrade");
+  const probationFailedPercent = number("probationFailedPercent");
+  const dismissalFailedPercent = number("dismissalFailedPercent");
+  if (deansListMaxGwa === null) return "deansListMaxGwa must be a non-negative number";
+  if (deansListMinUnits === null) return "deansListMinUnits must be a non-negative number";
+  if (deansListLowestGrade === null) return "deansListLowestGrade must be a non-negative number";
+  if (deansListLowestGrade < deansListMaxGwa) return "deansListLowestGrade can't be better than deansListMaxGwa";
+  if (probationFailedPercent === null || probationFailedPercent > 100) {
+    return "probationFailedPercent must be between 0 and 100";
+  }
+  if (dismissalFailedPercent === null || dismissalFailedPercent > 100) {
+    return "dismissalFailedPercent must be between 0 and 100";
+  }
+  if (dismissalFailedPercent < probationFailedPercent) {
+    return "dismissalFailedPercent must be at least probationFailedPercent";
+  }
+  return { deansListMaxGwa, deansListMinUnits, deansListLowestGrade, probationFailedPercent, dismissalFailedPercent };
+}
+
+export interface GwaProjection {
+  /** Each term the hypothetical grades fall in, in the order given */
+  terms: { semester: string; gwa: number }[];
+  cumulativeGwa: number;
+}
+
+/**
+ * What-if GWA: the term and cumulative GWA once `hypothetical` grades are
+ * added to the `recorded` ones, computed exactly as for released grades.
+ */
+export function projectGwa(
+  recorded: StandingGrade[],
+  hypothetical: StandingGrade[],
+  scale: GradingScale,
+): GwaProjection {
+  const all = [...recorded, ...hypothetical];
+  const semesters = [...new Set(hypothetical.map((g) => g.semester))];
+  return {
+    terms: semesters.map((semester) => ({
+      semester,
+      gwa: round2(computeGwa(all.filter((g) => g.semester === semester), scale)),
+    })),
+    cumulativeGwa: round2(computeGwa(all, scale)),
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * Canonical form of a subject code ("it  301 " → "IT 301") so that the same
+ * subject typed two different ways resolves to one catalog entry.
+ */
+export function normalizeSubjectCode(code: string): string {
+  return code.trim().replace(/\s+/g, " ").toUpperCase();
+}
+
+export type RequirementType = "prerequisite" | "corequisite";
+
+/** A prerequisite or corequisite the student hasn't satisfied. */
+export interface UnmetRequirement {
+  subjectId: string;
+  code: string;
+  title: string;
+  type: RequirementType;
+}
+
+interface SubjectRequirements {
+  prerequisites: string[];
+  corequisites: string[];
+}
+
+/**
+ * The requirements of `subject` a student hasn't met. A prerequisite needs a
+ * passing grade; a corequisite is also met by taking the subject in the same
+ * term (`concurrent`). `catalog` supplies the code and title to report;
+ * requirements that are no longer in the catalog are skipped.
+ */
+export function findUnmetRequirements(
+  subject: SubjectRequirements,
+  passed: ReadonlySet<string>,
+  concurrent: ReadonlySet<string>,
+  catalog: ReadonlyMap<string, { code: string; title: string }>,
+): UnmetRequirement[] {
+  const unmet: UnmetRequirement[] = [];
+  const report = (subjectId: string, type: RequirementType) => {
+    const entry = catalog.get(subjectId);
+    if (entry) unmet.push({ subjectId, code: entry.code, title: entry.title, type });
+  };
+  for (const id of subject.prerequisites) {
+    if (!passed.has(id)) report(id, "prerequisite");
+  }
+  for (const id of subject.corequisites) {
+    if (!passed.has(id) && !concurrent.has(id)) report(id, "corequisite");
+  }
+  return unmet;
+}
@@ -0,0 +1,21 @@
+/** The fields of a term needed to place it on the calendar. */
+export interface TermLike {
+  name: string;
+  startDate: string; // YYYY-MM-DD
+}
+
+/**
+ * Orders semester labels chronologically using the term calendar. Labels with
+ * no matching term (legacy free text) keep their relative order at the end.
+ */
+export function sortSemesterLabels(labels: string[], terms: TermLike[]): string[] {
+  const startByName = new Map(terms.map((t) => [t.name, t.startDate]));
+  return [...labels].sort((a, b) => {
+    const sa = startByName.get(a);
+    const sb = startByName.get(b);
+    if (sa && sb) return sa.localeCompare(sb);
+    if (sa) return -1;
+    if (sb) return 1;
+    return 0;
+  });
+}